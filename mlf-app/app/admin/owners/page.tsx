@@ -0,0 +1,9 @@
+import OwnerRegistryAdmin from '../../components/OwnerRegistryAdmin'
+
+export const metadata = {
+  title: 'Owner Registry | MyFantasyLeague Leaderboard'
+}
+
+export default function OwnerRegistryPage() {
+  return <OwnerRegistryAdmin />
+}
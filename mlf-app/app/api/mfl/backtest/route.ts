@@ -0,0 +1,150 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getLeague, resolveLeagueId } from '@/lib/league-registry'
+import { MflClient } from '@/lib/mfl-client'
+import { getCacheKey, getCachedOrFetch } from '@/lib/mfl-api'
+import { buildDivisionsData } from '@/lib/division-utils'
+import { getAvailableYears } from '@/lib/utils'
+import { getRegularSeasonEndWeek, isSeasonComplete } from '@/lib/season-config'
+import { getTiebreakerChain } from '@/lib/tiebreaker-rules'
+import { getScoringFormat } from '@/lib/scoring-format'
+import { loadEloSeasons } from '@/lib/elo-service'
+import { fetchChampionshipBracket } from '@/lib/playoff-bracket-service'
+import type { GameModel } from '@/lib/score-model'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+import type { LeagueResponse } from '@/app/api/mfl/divisions/route'
+import {
+  BACKTEST_MODELS,
+  DEFAULT_BACKTEST_ITERATIONS,
+  backtestSeason,
+  parseBracketPlayoffTeams,
+  parseSeasonGames,
+  summarizeBacktest,
+  type BacktestPrediction,
+  type BacktestReport
+} from '@/lib/playoff-backtest'
+
+// Every completed season is replayed week by week for each model
+export const maxDuration = 300
+
+// Fewer runs than this leave the Brier score and log-loss dominated by sampling noise
+const MIN_ITERATIONS = 100
+const MAX_ITERATIONS = 10000
+
+/**
+ * The season's real playoff field from MFL's championship bracket
+ * Null when the league has no bracket for that season (the backtest then
+ * derives the field from the results and the configured tiebreakers)
+ */
+async function fetchActualPlayoffTeams(year: number, leagueId: string): Promise<Set<string> | null> {
+  const bracket = await fetchChampionshipBracket(year, leagueId)
+  if (!bracket) return null
+
+  const teams = parseBracketPlayoffTeams(bracket)
+  return teams.size > 0 ? teams : null
+}
+
+/**
+ * Backtest playoff probabilities against completed seasons
+ * Query params: years (comma-separated, default every completed season of the league),
+ * iterations (default 2000, min 100, max 10000), models (comma-separated game models)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+
+    const requestedYears = searchParams.get('years')
+      ?.split(',')
+      .map(y => parseInt(y.trim()))
+      .filter(y => !isNaN(y))
+    const leagueYears = getAvailableYears(getLeague(leagueId)?.startYear)
+    const years = (requestedYears && requestedYears.length > 0 ? requestedYears : leagueYears)
+      .filter(year => leagueYears.includes(year) && isSeasonComplete(year))
+      .sort((a, b) => a - b)
+
+    const iterations = Math.max(
+      MIN_ITERATIONS,
+      Math.min(parseInt(searchParams.get('iterations') || '') || DEFAULT_BACKTEST_ITERATIONS, MAX_ITERATIONS)
+    )
+
+    const requestedModels = searchParams.get('models')
+      ?.split(',')
+      .map(m => m.trim())
+      .filter((m): m is GameModel => BACKTEST_MODELS.includes(m as GameModel))
+    const models = requestedModels && requestedModels.length > 0 ? requestedModels : BACKTEST_MODELS
+
+    if (years.length === 0) {
+      return NextResponse.json({ error: 'No completed seasons to backtest' }, { status: 400 })
+    }
+
+    console.log(`[Backtest API] Backtesting ${years.join(', ')} for league ${leagueId} (${iterations} iterations, ${models.join(', ')})`)
+
+    // Seeded and built only from completed seasons, so the report only changes
+    // with the league settings it was replayed under - those are part of the key
+    const cacheKey = getCacheKey('backtest', {
+      leagueId,
+      years: years.join(','),
+      iterations: String(iterations),
+      models: models.join(','),
+      tiebreakers: years.map(year => getTiebreakerChain(leagueId, year).join('>')).join(','),
+      scoringFormats: years.map(year => getScoringFormat(leagueId, year)).join(',')
+    })
+
+    const report = await getCachedOrFetch<BacktestReport>(cacheKey, null, async () => {
+      const predictions: BacktestPrediction[] = []
+
+      // Ratings carry over between seasons, so the elo model needs every season up to the last one replayed
+      const eloSeasons = models.includes('elo')
+        ? await loadEloSeasons(leagueId, years[years.length - 1])
+        : undefined
+
+      for (const year of years) {
+        const [schedule, league, actualPlayoffTeams] = await Promise.all([
+          MflClient.schedule<ScheduleResponse>(year, leagueId),
+          MflClient.league<LeagueResponse>(year, leagueId),
+          fetchActualPlayoffTeams(year, leagueId)
+        ])
+
+        const lastRegularWeek = getRegularSeasonEndWeek(year)
+        const games = parseSeasonGames(schedule, lastRegularWeek)
+        const divisionsData = buildDivisionsData(league)
+
+        if (games.length === 0 || divisionsData.franchises.length === 0) {
+          console.warn(`[Backtest API] No results for ${year}, skipping`)
+          continue
+        }
+
+        const seasonPredictions = backtestSeason(year, games, divisionsData, lastRegularWeek, {
+          models,
+          iterations,
+          tiebreakers: getTiebreakerChain(leagueId, year),
+          eloSeasons,
+          scoringFormat: getScoringFormat(leagueId, year),
+          actualPlayoffTeams: actualPlayoffTeams ?? undefined
+        })
+        predictions.push(...seasonPredictions)
+        console.log(`[Backtest API] ${year}: ${seasonPredictions.length} forecasts`)
+      }
+
+      return {
+        generatedAt: new Date().toISOString(),
+        years: Array.from(new Set(predictions.map(p => p.year))),
+        iterations,
+        models: summarizeBacktest(predictions),
+        predictions
+      }
+    })
+
+    return NextResponse.json({ leagueId, ...report })
+  } catch (error) {
+    console.error('[Backtest API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to run playoff backtest',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
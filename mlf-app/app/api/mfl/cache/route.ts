@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getCacheBackend, isCacheEntryFresh } from '@/lib/mfl-cache'
+import { isAuthorizedAdminRequest } from '@/lib/admin-auth'
+
+/**
+ * Require MFL_CACHE_ADMIN_TOKEN (open without one only in development)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  return isAuthorizedAdminRequest(request, process.env.MFL_CACHE_ADMIN_TOKEN)
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+/**
+ * Inspect cache entries
+ * Query params: prefix (key prefix filter), key (include one entry's data)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorized()
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const prefix = searchParams.get('prefix') || undefined
+    const key = searchParams.get('key')
+    const backend = getCacheBackend()
+
+    if (key) {
+      const entry = await backend.get(key)
+      if (!entry) {
+        return NextResponse.json({ error: 'Cache entry not found', key }, { status: 404 })
+      }
+      return NextResponse.json({ key, status: isCacheEntryFresh(entry) ? 'fresh' : 'stale', ...entry })
+    }
+
+    const now = Date.now()
+    const entries = (await backend.list(prefix))
+      .map(entry => ({
+        key: entry.key,
+        status: isCacheEntryFresh(entry, now) ? 'fresh' : 'stale',
+        ageMs: now - entry.timestamp,
+        cachedAt: new Date(entry.timestamp).toISOString(),
+        expiresAt: entry.expiresAt === null ? null : new Date(entry.expiresAt).toISOString(),
+        staleUntil: entry.staleUntil === null ? null : new Date(entry.staleUntil).toISOString(),
+        sizeBytes: JSON.stringify(entry.data ?? null).length
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key))
+
+    return NextResponse.json({
+      backend: backend.name,
+      count: entries.length,
+      fresh: entries.filter(entry => entry.status === 'fresh').length,
+      stale: entries.filter(entry => entry.status === 'stale').length,
+      entries
+    })
+  } catch (error) {
+    console.error('[Cache API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to read cache',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Purge cache entries
+ * Query params: key (one entry), prefix (matching keys), expired=true (past the stale window);
+ * with none of these every entry is removed
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorized()
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get('key')
+    const prefix = searchParams.get('prefix')
+    const backend = getCacheBackend()
+
+    let purged: number
+    if (key) {
+      const existed = (await backend.get(key)) !== null
+      await backend.delete(key)
+      purged = existed ? 1 : 0
+    } else if (searchParams.get('expired') === 'true') {
+      purged = await backend.purgeExpired()
+    } else {
+      purged = await backend.clear(prefix || undefined)
+    }
+
+    console.log(`[Cache API] Purged ${purged} entries from ${backend.name} cache`)
+
+    return NextResponse.json({ success: true, backend: backend.name, purged })
+  } catch (error) {
+    console.error('[Cache API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to purge cache',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,8 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-
-const MFL_API_BASE = 'https://api.myfantasyleague.com'
-const LEAGUE_ID = '46221'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { MflClient, toArray } from '@/lib/mfl-client'
+import { isRateLimitError } from '@/lib/mfl-errors'
 
 interface CalendarEvent {
   id: string
@@ -39,16 +39,17 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const year = searchParams.get('year') || new Date().getFullYear().toString()
+    const leagueId = resolveLeagueId(searchParams)
 
-    console.log(`[Current Week API] Detecting current week for year ${year}`)
+    console.log(`[Current Week API] Detecting current week for league ${leagueId}, year ${year}`)
 
     // Fetch calendar data
-    const calendarUrl = `${MFL_API_BASE}/${year}/export?TYPE=calendar&L=${LEAGUE_ID}&JSON=1`
-    console.log(`[Current Week API] Fetching calendar: ${calendarUrl}`)
-
-    const calendarResponse = await fetch(calendarUrl)
+    let calendarData: CalendarResponse
+    try {
+      calendarData = await MflClient.calendar<CalendarResponse>(year, leagueId)
+    } catch (error) {
+      if (!isRateLimitError(error)) throw error
 
-    if (calendarResponse.status === 429) {
       // Rate limited - return default current week estimate
       const now = new Date()
       const seasonStart = new Date(`${year}-09-01`) // Approximate season start
@@ -64,13 +65,9 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    const calendarData: CalendarResponse = await calendarResponse.json()
-
     // Method 1: Parse calendar events for waiver periods with "happens" field
     if (calendarData.calendar?.event) {
-      const events = Array.isArray(calendarData.calendar.event)
-        ? calendarData.calendar.event
-        : [calendarData.calendar.event]
+      const events = toArray(calendarData.calendar.event)
 
       // Find WAIVER_BBID events that have "happens" field (indicates the week)
       const waiverEvents = events.filter(event =>
@@ -121,34 +118,31 @@ export async function GET(request: NextRequest) {
     // Method 2: Fallback to weeklyResults to find latest completed week
     console.log(`[Current Week API] Calendar method failed, checking weekly results`)
 
-    const weeklyResultsUrl = `${MFL_API_BASE}/${year}/export?TYPE=weeklyResults&L=${LEAGUE_ID}&JSON=1`
-    const weeklyResponse = await fetch(weeklyResultsUrl)
-
-    if (weeklyResponse.ok) {
-      const weeklyData: WeeklyResultsResponse = await weeklyResponse.json()
-
-      if (weeklyData.weeklyResults?.matchup) {
-        const matchups = Array.isArray(weeklyData.weeklyResults.matchup)
-          ? weeklyData.weeklyResults.matchup
-          : [weeklyData.weeklyResults.matchup]
-
-        // Find the latest week with completed results
-        const completedWeeks = matchups
-          .map(m => (m as { week?: string }).week)
-          .filter(Boolean)
-          .map(w => parseInt(w as string))
-          .sort((a, b) => b - a)
-
-        if (completedWeeks.length > 0) {
-          const currentWeek = completedWeeks[0]
-          console.log(`[Current Week API] Detected week ${currentWeek} from weekly results`)
+    const weeklyData = await MflClient.weeklyResults<WeeklyResultsResponse>(year, leagueId)
+      .catch(error => {
+        console.warn('[Current Week API] Weekly results unavailable:', error instanceof Error ? error.message : error)
+        return null
+      })
 
-          return NextResponse.json({
-            currentWeek,
-            source: 'weeklyResults',
-            completedWeeks
-          })
-        }
+    if (weeklyData?.weeklyResults?.matchup) {
+      const matchups = toArray(weeklyData.weeklyResults.matchup)
+
+      // Find the latest week with completed results
+      const completedWeeks = matchups
+        .map(m => (m as { week?: string }).week)
+        .filter(Boolean)
+        .map(w => parseInt(w as string))
+        .sort((a, b) => b - a)
+
+      if (completedWeeks.length > 0) {
+        const currentWeek = completedWeeks[0]
+        console.log(`[Current Week API] Detected week ${currentWeek} from weekly results`)
+
+        return NextResponse.json({
+          currentWeek,
+          source: 'weeklyResults',
+          completedWeeks
+        })
       }
     }
 
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-
-const MFL_API_BASE = 'https://api.myfantasyleague.com'
-const LEAGUE_ID = '46221'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { MflClient } from '@/lib/mfl-client'
+import { buildDivisionsData } from '@/lib/division-utils'
+import { isRateLimitError } from '@/lib/mfl-errors'
 
 export interface Division {
   id: string
@@ -49,19 +50,16 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const year = searchParams.get('year') || new Date().getFullYear().toString()
+    const leagueId = resolveLeagueId(searchParams)
 
-    console.log(`[Divisions API] Fetching divisions for year ${year}`)
-
-    const leagueUrl = `${MFL_API_BASE}/${year}/export?TYPE=league&L=${LEAGUE_ID}&JSON=1`
-    console.log(`[Divisions API] URL: ${leagueUrl}`)
+    console.log(`[Divisions API] Fetching divisions for league ${leagueId}, year ${year}`)
 
-    const response = await fetch(leagueUrl, {
-      headers: {
-        'User-Agent': 'dynasty-dashboard/1.0',
-      },
-    })
+    let data: LeagueResponse
+    try {
+      data = await MflClient.league<LeagueResponse>(year, leagueId)
+    } catch (error) {
+      if (!isRateLimitError(error)) throw error
 
-    if (response.status === 429) {
       console.log('[Divisions API] Rate limited, returning fallback data')
 
       // Return sample division structure from data-samples
@@ -88,50 +86,16 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    if (!response.ok) {
-      throw new Error(`MFL API returned ${response.status}: ${response.statusText}`)
-    }
-
-    const data: LeagueResponse = await response.json()
-
     if (!data.league) {
       console.error('[Divisions API] Invalid response structure:', data)
       throw new Error('Invalid league data structure')
     }
 
-    // Extract divisions
-    const divisions: Division[] = data.league.divisions?.division || []
+    const result = buildDivisionsData(data)
+    const { divisions, franchises, divisionNames, divisionTeams } = result
     console.log(`[Divisions API] Found ${divisions.length} divisions`)
-
-    // Extract franchises
-    const franchises: Franchise[] = data.league.franchises?.franchise || []
     console.log(`[Divisions API] Found ${franchises.length} franchises`)
 
-    // Create division mapping structures
-    const divisionMap: Record<string, string> = {}
-    const divisionNames: Record<string, string> = {}
-    const divisionTeams: Record<string, string[]> = {}
-
-    // Build division names lookup
-    divisions.forEach(div => {
-      divisionNames[div.id] = div.name
-      divisionTeams[div.id] = []
-    })
-
-    // Build franchise -> division mapping and division -> teams mapping
-    franchises.forEach(franchise => {
-      divisionMap[franchise.id] = franchise.division
-      if (divisionTeams[franchise.division]) {
-        divisionTeams[franchise.division].push(franchise.id)
-      } else {
-        // Handle case where division doesn't exist in divisions list
-        divisionTeams[franchise.division] = [franchise.id]
-        if (!divisionNames[franchise.division]) {
-          divisionNames[franchise.division] = `Division ${franchise.division}`
-        }
-      }
-    })
-
     console.log('[Divisions API] Division structure:', {
       divisionCount: divisions.length,
       franchiseCount: franchises.length,
@@ -141,17 +105,10 @@ export async function GET(request: NextRequest) {
       })),
     })
 
-    const result: DivisionsData = {
-      divisions,
-      franchises,
-      divisionMap,
-      divisionNames,
-      divisionTeams,
-    }
-
     return NextResponse.json({
       ...result,
       year,
+      leagueId,
       timestamp: Date.now(),
       source: 'mfl-api',
     })
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { getEloRatings } from '@/lib/elo-service'
+
+/**
+ * ELO ratings with their week-by-week history since the league's first season
+ * Query params: year and week (optional) - ratings as of the end of that week;
+ * week=0 gives that season's preseason ratings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+    const year = parseInt(searchParams.get('year') || '')
+    const week = parseInt(searchParams.get('week') || '')
+
+    const ratings = await getEloRatings(leagueId, {
+      throughYear: isNaN(year) ? undefined : year,
+      throughWeek: isNaN(year) || isNaN(week) ? undefined : Math.max(0, week)
+    })
+
+    return NextResponse.json({ leagueId, ...ratings })
+  } catch (error) {
+    console.error('[ELO API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate ELO ratings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { getDefaultLeagueId, getRegisteredLeagues } from '@/lib/league-registry'
+
+/**
+ * List the leagues registered with this deployment (MFL_LEAGUES)
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      defaultLeagueId: getDefaultLeagueId(),
+      leagues: getRegisteredLeagues()
+    })
+  } catch (error) {
+    console.error('[Leagues API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load leagues',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
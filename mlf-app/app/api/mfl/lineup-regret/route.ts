@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { MflClient, toArray } from '@/lib/mfl-client'
+import { getOwnerName } from '@/lib/owner-mappings'
+import { loadOwnerRegistry } from '@/lib/owner-registry-service'
+import { SmartDataService } from '@/lib/smart-data-service'
+import { parseSeasonGames, type SeasonGame } from '@/lib/playoff-backtest'
+import { calculateSeasonRegret, type LineupRegretResponse } from '@/lib/lineup-regret'
+import {
+  getCurrentNFLSeason,
+  getCurrentWeekForSeason,
+  getTotalWeeksForYear,
+  isSeasonComplete
+} from '@/lib/season-config'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+
+// Seasons missing from the database are fetched from MFL one week at a time
+export const maxDuration = 300
+
+/**
+ * Start/sit regret for every team in a season: points left on the bench each
+ * week, the swaps that would have recovered them, and losses the optimal
+ * lineup would have won
+ * Query params: year, weeks (optional comma-separated filter)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+    const year = parseInt(searchParams.get('year') || String(getCurrentNFLSeason()))
+    const weeksParam = searchParams.get('weeks')
+    await loadOwnerRegistry(leagueId)
+
+    // Only completed weeks - a lineup is still changing while its week is live
+    const lastWeek = isSeasonComplete(year) ? getTotalWeeksForYear(year) : getCurrentWeekForSeason(year) - 1
+    const weeks = weeksParam
+      ? weeksParam.split(',').map(w => parseInt(w.trim())).filter(w => w >= 1 && w <= lastWeek)
+      : Array.from({ length: Math.max(0, lastWeek) }, (_, i) => i + 1)
+
+    console.log(`[Lineup Regret API] year=${year}, leagueId=${leagueId}, weeks=${weeks.join(',')}`)
+
+    if (weeks.length === 0) {
+      const empty: LineupRegretResponse = { leagueId, year, source: 'database', teams: [] }
+      return NextResponse.json(empty)
+    }
+
+    const [lineups, schedule, league] = await Promise.all([
+      SmartDataService.getWeeklyLineups({ year, leagueId, includeWeeks: weeks }),
+      MflClient.schedule<ScheduleResponse>(year, leagueId).catch(error => {
+        console.warn(`[Lineup Regret API] No schedule for ${year}, results will be missing:`, error)
+        return null
+      }),
+      MflClient.league(year, leagueId)
+    ])
+
+    const teams: Record<string, { teamName: string; manager: string }> = {}
+    toArray(league.league?.franchises?.franchise).forEach(franchise => {
+      if (franchise.id) {
+        teams[franchise.id] = {
+          teamName: franchise.name || `Team ${franchise.id}`,
+          manager: getOwnerName(franchise.id, year, leagueId)
+        }
+      }
+    })
+
+    const games: SeasonGame[] = schedule ? parseSeasonGames(schedule, lastWeek) : []
+    const weekFilter = new Set(weeks)
+    const response: LineupRegretResponse = {
+      leagueId,
+      year,
+      source: lineups.source.source,
+      teams: calculateSeasonRegret(
+        lineups.data.filter(lineup => weekFilter.has(lineup.week)),
+        games,
+        year,
+        teams
+      )
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('[Lineup Regret API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate lineup regret',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
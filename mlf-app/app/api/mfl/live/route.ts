@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getLeague, resolveLeagueId } from '@/lib/league-registry'
+import { calculateLiveOdds, fetchLiveScoreboard, loadLiveContext, type LiveContext } from '@/lib/live-scoring-service'
+import { getCurrentNFLSeason, getCurrentWeekForSeason, getTotalWeeksForYear } from '@/lib/season-config'
+import { getAvailableYears } from '@/lib/utils'
+
+// A stream stays open this long at most; EventSource reconnects on its own when it closes
+export const maxDuration = 300
+
+const POLL_INTERVAL_MS = 30 * 1000 // MFL's liveScoring cache TTL
+const STREAM_LIFETIME_MS = (maxDuration - 30) * 1000
+const RECONNECT_DELAY_MS = 5 * 1000
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+/**
+ * Live matchups as server-sent events, polled from MFL every 30 seconds
+ * Events: scoreboard (scores, players left, win probabilities), odds (playoff odds
+ * with the live results, regular season only), poll-error, and final once every
+ * game is over - the client should close then rather than reconnect
+ * Query params: year, week (both default to the current week)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const leagueId = resolveLeagueId(searchParams)
+  const year = parseInt(searchParams.get('year') || String(getCurrentNFLSeason()))
+  if (!getAvailableYears(getLeague(leagueId)?.startYear).includes(year)) {
+    return NextResponse.json({ error: `Unknown year: ${searchParams.get('year')}` }, { status: 400 })
+  }
+  const week = parseInt(searchParams.get('week') || String(getCurrentWeekForSeason(year)))
+  if (isNaN(week) || week < 1 || week > getTotalWeeksForYear(year)) {
+    return NextResponse.json({ error: `Invalid week: ${searchParams.get('week')}` }, { status: 400 })
+  }
+
+  console.log(`[Live API] Streaming year=${year}, week=${week}, leagueId=${leagueId}`)
+
+  let context: LiveContext
+  try {
+    context = await loadLiveContext(year, leagueId, week)
+  } catch (error) {
+    console.error('[Live API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load live scoring',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed || request.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`))
+      const startedAt = Date.now()
+
+      while (!closed && !request.signal.aborted && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+        try {
+          const scoreboard = await fetchLiveScoreboard(context)
+          send('scoreboard', scoreboard)
+
+          const odds = calculateLiveOdds(context, scoreboard)
+          if (odds) send('odds', odds)
+
+          if (scoreboard.matchups.length > 0 && scoreboard.matchups.every(matchup => matchup.isFinal)) {
+            send('final', { week })
+            break
+          }
+        } catch (error) {
+          console.error('[Live API] Poll failed:', error)
+          send('poll-error', {
+            error: 'Failed to fetch live scoring',
+            details: error instanceof Error ? error.message : 'Unknown error'
+          })
+        }
+
+        await wait(POLL_INTERVAL_MS, request.signal)
+      }
+
+      if (!closed && !request.signal.aborted) controller.close()
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
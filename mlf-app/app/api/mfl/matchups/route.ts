@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { fetchWeeklyResults } from '@/lib/mfl-weekly-results'
 import { getOwnerName } from '@/lib/owner-mappings'
-import { getTotalWeeksForYear, getCurrentWeekForSeason } from '@/lib/season-config'
-import { getYearSpecificHeaders } from '@/lib/mfl-api-keys'
+import { loadOwnerRegistry } from '@/lib/owner-registry-service'
+import { getTotalWeeksForYear, getCurrentWeekForSeason, getRegularSeasonEndWeek } from '@/lib/season-config'
+import { calculateMedianResults, combineRecords, getScoringFormat, parseScoringFormat, type ScoringFormat } from '@/lib/scoring-format'
+import { MflClient, toArray } from '@/lib/mfl-client'
+import { resolveLeagueId } from '@/lib/league-registry'
 
 export interface MatchupResult {
   week: number
@@ -12,6 +15,7 @@ export interface MatchupResult {
   opponentScore: number
   result: 'W' | 'L' | 'T'
   isHomeTeam: boolean
+  medianResult?: 'W' | 'L' | 'T' // Against the week's median score (regular season only)
 }
 
 export interface TeamMatchupSummary {
@@ -24,16 +28,27 @@ export interface TeamMatchupSummary {
   pointsFor: number
   pointsAgainst: number
   winPercentage: number
+  medianWins: number
+  medianLosses: number
+  medianTies: number
+  scoringFormat: ScoringFormat // Median results are in wins/losses/ties only for 'median'
   matchups: MatchupResult[]
   year: number
 }
 
+/**
+ * Query params: weeks (comma-separated, default every completed week) and
+ * format=head-to-head|median to count records under a format other than the league's
+ */
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const year = parseInt(searchParams.get('year') || '2025')
-    const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+    const leagueId = resolveLeagueId(searchParams)
     const weeksParam = searchParams.get('weeks')
+    const scoringFormat = parseScoringFormat(searchParams.get('format')) ?? getScoringFormat(leagueId, year)
+    await loadOwnerRegistry(leagueId)
     
     console.log(`[Matchups API] Starting request for year=${year}, leagueId=${leagueId}, weeks=${weeksParam}`)
 
@@ -62,28 +77,15 @@ export async function GET(request: NextRequest) {
 
     console.log(`[Matchups API] Fetching weeks: ${weeksToFetch.join(', ')}`)
 
-    // Use year-specific authentication headers
-    const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-
     // First, fetch team names from the main MFL API
-    const teamNamesResponse = await fetch(`https://api.myfantasyleague.com/${year}/export?TYPE=league&L=${leagueId}&JSON=1`, {
-      headers
-    })
-    
-    const teamNamesData = await teamNamesResponse.json()
+    const teamNamesData = await MflClient.league(year, leagueId)
     const franchiseNames: { [key: string]: string } = {}
     
-    if (teamNamesData?.league?.franchises?.franchise) {
-      const franchises = Array.isArray(teamNamesData.league.franchises.franchise) 
-        ? teamNamesData.league.franchises.franchise 
-        : [teamNamesData.league.franchises.franchise]
-      
-      franchises.forEach((franchise: any) => {
-        if (franchise.id && franchise.name) {
-          franchiseNames[franchise.id] = franchise.name
-        }
-      })
-    }
+    toArray(teamNamesData.league?.franchises?.franchise).forEach(franchise => {
+      if (franchise.id && franchise.name) {
+        franchiseNames[franchise.id] = franchise.name
+      }
+    })
 
     const teamMatchupData = new Map<string, TeamMatchupSummary>()
 
@@ -139,7 +141,7 @@ export async function GET(request: NextRequest) {
           if (!teamMatchupData.has(team1.id)) {
             teamMatchupData.set(team1.id, {
               franchiseId: team1.id,
-              manager: getOwnerName(team1.id, year),
+              manager: getOwnerName(team1.id, year, leagueId),
               teamName: franchiseNames[team1.id] || `Team ${team1.id}`,
               wins: 0,
               losses: 0,
@@ -147,6 +149,10 @@ export async function GET(request: NextRequest) {
               pointsFor: 0,
               pointsAgainst: 0,
               winPercentage: 0,
+              medianWins: 0,
+              medianLosses: 0,
+              medianTies: 0,
+              scoringFormat,
               matchups: [],
               year
             })
@@ -155,7 +161,7 @@ export async function GET(request: NextRequest) {
           if (!teamMatchupData.has(team2.id)) {
             teamMatchupData.set(team2.id, {
               franchiseId: team2.id,
-              manager: getOwnerName(team2.id, year),
+              manager: getOwnerName(team2.id, year, leagueId),
               teamName: franchiseNames[team2.id] || `Team ${team2.id}`,
               wins: 0,
               losses: 0,
@@ -163,6 +169,10 @@ export async function GET(request: NextRequest) {
               pointsFor: 0,
               pointsAgainst: 0,
               winPercentage: 0,
+              medianWins: 0,
+              medianLosses: 0,
+              medianTies: 0,
+              scoringFormat,
               matchups: [],
               year
             })
@@ -220,8 +230,27 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Each regular-season score against its week's median
+    const lastRegularWeek = getRegularSeasonEndWeek(year)
+    const regularSeasonMatchups = Array.from(teamMatchupData.values())
+      .flatMap(team => team.matchups.filter(m => m.week <= lastRegularWeek))
+    calculateMedianResults(regularSeasonMatchups).forEach(({ franchiseId, week, medianResult }) => {
+      const team = teamMatchupData.get(franchiseId)!
+      team.matchups.find(m => m.week === week)!.medianResult = medianResult
+      if (medianResult === 'W') team.medianWins++
+      else if (medianResult === 'L') team.medianLosses++
+      else team.medianTies++
+    })
+
     // Calculate win percentages and finalize data
     const finalResults: TeamMatchupSummary[] = Array.from(teamMatchupData.values()).map(team => {
+      if (scoringFormat === 'median') {
+        return {
+          ...team,
+          ...combineRecords(team, { wins: team.medianWins, losses: team.medianLosses, ties: team.medianTies })
+        }
+      }
+
       const totalGames = team.wins + team.losses + team.ties
       const winPercentage = totalGames > 0 ? team.wins / totalGames : 0
       
@@ -244,7 +273,7 @@ export async function GET(request: NextRequest) {
         const franchiseId = i.toString().padStart(4, '0')
         fallbackResults.push({
           franchiseId,
-          manager: getOwnerName(franchiseId, year),
+          manager: getOwnerName(franchiseId, year, leagueId),
           teamName: franchiseNames[franchiseId] || `Team ${franchiseId}`,
           wins: 0,
           losses: 0,
@@ -252,6 +281,10 @@ export async function GET(request: NextRequest) {
           pointsFor: 0,
           pointsAgainst: 0,
           winPercentage: 0,
+          medianWins: 0,
+          medianLosses: 0,
+          medianTies: 0,
+          scoringFormat,
           matchups: [],
           year
         })
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getLeague, resolveLeagueId } from '@/lib/league-registry'
+import { isAuthorizedAdminRequest } from '@/lib/admin-auth'
+import { getAvailableYears } from '@/lib/utils'
+import {
+  OwnerRegistryError,
+  assignFranchiseOwners,
+  getOwnerRegistry,
+  renameOwner,
+  seedOwnerRegistry
+} from '@/lib/owner-registry-service'
+
+// Seeding fetches one MFL league export per season through the 1s queue
+export const maxDuration = 120
+
+/**
+ * Owner registry: owners with their tenures, and the owners of each franchise season
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+
+    const registry = await getOwnerRegistry(leagueId)
+
+    return NextResponse.json({ leagueId, ...registry })
+  } catch (error) {
+    console.error('[Owners API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load owner registry',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Edit the owner registry
+ * Query params: action=seed with years (comma-separated, default every season since the league's start year)
+ * and overwrite=true to replace existing franchise seasons;
+ * action=assign with { franchiseId, year, owners } as the body (primary owner first);
+ * action=rename with { ownerId, name } as the body (an existing name merges the two owners)
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdminRequest(request, process.env.MFL_SYNC_TOKEN)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const leagueId = resolveLeagueId(searchParams)
+  const action = searchParams.get('action') || 'seed'
+
+  try {
+    if (action === 'seed') {
+      const leagueYears = getAvailableYears(getLeague(leagueId)?.startYear)
+      const years = searchParams.get('years')
+        ?.split(',')
+        .map(y => parseInt(y.trim()))
+        .filter(y => !isNaN(y))
+      const unknownYears = (years || []).filter(year => !leagueYears.includes(year))
+      if (unknownYears.length > 0) {
+        return NextResponse.json({ error: `Unknown years: ${unknownYears.join(', ')}` }, { status: 400 })
+      }
+      console.log(`[Owners API] Seeding owner registry for league ${leagueId}`)
+
+      const results = await seedOwnerRegistry(leagueId, years && years.length > 0 ? years : leagueYears, {
+        overwrite: searchParams.get('overwrite') === 'true'
+      })
+      return NextResponse.json({ leagueId, results })
+    }
+
+    const body = await request.json().catch(() => null)
+
+    if (action === 'assign') {
+      const year = parseInt(body?.year)
+      if (!body?.franchiseId || isNaN(year) || !Array.isArray(body?.owners)) {
+        return NextResponse.json({ error: 'Expected { franchiseId, year, owners } as the body' }, { status: 400 })
+      }
+      await assignFranchiseOwners(leagueId, String(body.franchiseId), year, body.owners.map(String))
+    } else if (action === 'rename') {
+      if (typeof body?.ownerId !== 'string' || !body.ownerId || typeof body?.name !== 'string') {
+        return NextResponse.json({ error: 'Expected { ownerId, name } as the body' }, { status: 400 })
+      }
+      await renameOwner(leagueId, body.ownerId, body.name)
+    } else {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 })
+    }
+
+    const registry = await getOwnerRegistry(leagueId)
+    return NextResponse.json({ leagueId, ...registry })
+  } catch (error) {
+    if (error instanceof OwnerRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[Owners API] Error:', error)
+    return NextResponse.json(
+      {
+        error: `Failed to ${action} owners`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { fetchPlayerProfile } from '@/lib/player-profile-service'
+
+// Seasons missing from the database are fetched from MFL one week at a time
+export const maxDuration = 300
+
+/**
+ * A player's weekly scoring, rostering franchise, starter/bench usage,
+ * position ranks and consistency across every season of the league
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+
+    console.log(`[Player Profile API] player=${id}, leagueId=${leagueId}`)
+
+    const profile = await fetchPlayerProfile(id, leagueId)
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Player not found', details: `Player ${id} was never rostered in league ${leagueId}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    console.error('[Player Profile API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load player profile',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getLeague, resolveLeagueId } from '@/lib/league-registry'
+import { getCurrentNFLSeason } from '@/lib/season-config'
+import { isAuthorizedAdminRequest } from '@/lib/admin-auth'
+import { getAvailableYears } from '@/lib/utils'
+import {
+  getStoredPlayoffHistory,
+  importLegacyPlayoffHistory,
+  recordProbabilitySnapshots
+} from '@/lib/probability-snapshots'
+import type { PlayoffHistoryData } from '@/lib/playoff-history'
+
+// An admin backfill simulates every week of a season
+export const maxDuration = 300
+
+/**
+ * Read the year param; null when it isn't one of the league's seasons
+ */
+function parseYear(searchParams: URLSearchParams, leagueId: string): number | null {
+  const year = parseInt(searchParams.get('year') || String(getCurrentNFLSeason()))
+  return getAvailableYears(getLeague(leagueId)?.startYear).includes(year) ? year : null
+}
+
+/**
+ * Weekly playoff probability history for a season, by team
+ * Read-only: snapshots are recorded by the season sync and the admin backfill
+ * Query params: year (default current NFL season)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+    const year = parseYear(searchParams, leagueId)
+    if (year === null) {
+      return NextResponse.json({ error: `Unknown year: ${searchParams.get('year')}` }, { status: 400 })
+    }
+
+    const teams = await getStoredPlayoffHistory(year, leagueId)
+
+    return NextResponse.json({ leagueId, year, teams })
+  } catch (error) {
+    console.error('[Playoff History API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load playoff probability history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Recompute a season's snapshots, or import a browser history export
+ * Query params: action=backfill (default) with year and weeks (comma-separated subset),
+ * or action=import with the exportHistoryAsJson output as the body (overwrite=true replaces stored weeks)
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdminRequest(request, process.env.MFL_SYNC_TOKEN)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const leagueId = resolveLeagueId(searchParams)
+  const action = searchParams.get('action') || 'backfill'
+
+  try {
+    if (action === 'import') {
+      const data = await request.json().catch(() => null) as PlayoffHistoryData | null
+      if (!data || typeof data !== 'object') {
+        return NextResponse.json({ error: 'Expected a playoff history JSON export as the body' }, { status: 400 })
+      }
+
+      const result = await importLegacyPlayoffHistory(data, leagueId, {
+        overwrite: searchParams.get('overwrite') === 'true'
+      })
+      return NextResponse.json({ leagueId, ...result })
+    }
+
+    if (action !== 'backfill') {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 })
+    }
+
+    const year = parseYear(searchParams, leagueId)
+    if (year === null) {
+      return NextResponse.json({ error: `Unknown year: ${searchParams.get('year')}` }, { status: 400 })
+    }
+    const weeks = searchParams.get('weeks')
+      ?.split(',')
+      .map(w => parseInt(w.trim()))
+      .filter(w => !isNaN(w) && w > 0)
+
+    console.log(`[Playoff History API] Backfilling ${year} for league ${leagueId}`)
+
+    const recordedWeeks = await recordProbabilitySnapshots(year, leagueId, {
+      weeks: weeks && weeks.length > 0 ? weeks : undefined,
+      source: 'backfill'
+    })
+
+    return NextResponse.json({ leagueId, year, recordedWeeks })
+  } catch (error) {
+    console.error('[Playoff History API] Error:', error)
+    return NextResponse.json(
+      {
+        error: `Failed to ${action} playoff probability history`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { fetchAllWeeklyResults, calculateAccuratePositionTotals } from '@/lib/mfl-weekly-results'
-import { getCacheKey, getFromCache, setCache, clearCache } from '@/lib/mfl-api'
+import { getCacheKey, getFromCache, setCache, clearCache, isCacheEntryFresh } from '@/lib/mfl-api'
 import { getCurrentYearString } from '@/lib/utils'
-import { getTotalWeeksForYear } from '@/lib/season-config'
+import { getTotalWeeksForYear, isSeasonComplete } from '@/lib/season-config'
 import { getOwnerName } from '@/lib/owner-mappings'
+import { loadOwnerRegistry } from '@/lib/owner-registry-service'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { MflClient, toArray } from '@/lib/mfl-client'
 
 // Define position totals interface
 interface PositionTotals {
@@ -61,6 +64,13 @@ interface LeaguePositionalData {
 const CACHE_DURATION = 7 * 24 * 60 * 60 * 1000 // 7 days for old seasons
 const CURRENT_WEEK_CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours during active games (increased from 1 hour)
 
+// Completed seasons never change, so their positional data never expires
+function getPositionsCacheTtl(year: string): number | null {
+  if (isSeasonComplete(parseInt(year))) return null
+  const isCurrentSeason = parseInt(year) === new Date().getFullYear()
+  return isCurrentSeason ? CURRENT_WEEK_CACHE_DURATION : CACHE_DURATION
+}
+
 // CORS headers helper
 function getCorsHeaders() {
   return {
@@ -82,10 +92,10 @@ export async function OPTIONS() {
 export async function DELETE(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const year = searchParams.get('year') || getCurrentYearString()
-  const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+  const leagueId = resolveLeagueId(searchParams)
   
   const cacheKey = getCacheKey('positions', { year, leagueId })
-  clearCache(cacheKey)
+  await clearCache(cacheKey)
   
   return NextResponse.json({ success: true, message: 'Positional data cache cleared' })
 }
@@ -93,7 +103,7 @@ export async function DELETE(request: NextRequest) {
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const year = searchParams.get('year') || getCurrentYearString()
-  const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+  const leagueId = resolveLeagueId(searchParams)
   const forceRefresh = searchParams.get('refresh') === 'true'
   const weeksParam = searchParams.get('weeks') // Comma-separated week numbers
   const managersParam = searchParams.get('managers') // Comma-separated manager names
@@ -135,33 +145,28 @@ export async function GET(request: NextRequest) {
     franchises: franchiseFilter?.join(',') || 'all'
   }
   const cacheKey = getCacheKey('positions', cacheKeyData)
+  const cacheTtl = getPositionsCacheTtl(year)
   
   try {
     // Check cache first (unless force refresh)
     if (!forceRefresh) {
-      const cachedData = getFromCache(cacheKey)
-      if (cachedData) {
-        // Determine appropriate cache duration based on season status
-        const isCurrentSeason = parseInt(year) === new Date().getFullYear()
-        const cacheDuration = isCurrentSeason ? CURRENT_WEEK_CACHE_DURATION : CACHE_DURATION
-        
-        if ((Date.now() - cachedData.timestamp) < cacheDuration) {
-          console.log('Returning cached positional data')
-          return NextResponse.json(cachedData.data, {
-            headers: {
-              ...getCorsHeaders(),
-              'X-Cache-Status': 'HIT',
-              'X-Cache-Age': String(Date.now() - cachedData.timestamp)
-            }
-          })
-        }
+      const cachedData = await getFromCache(cacheKey)
+      if (cachedData && isCacheEntryFresh(cachedData)) {
+        console.log('Returning cached positional data')
+        return NextResponse.json(cachedData.data, {
+          headers: {
+            ...getCorsHeaders(),
+            'X-Cache-Status': 'HIT',
+            'X-Cache-Age': String(Date.now() - cachedData.timestamp)
+          }
+        })
       }
     }
 
     // For week filtering, check if we have cached full season data that we can filter from
     if (weekFilter && !forceRefresh) {
       const fullSeasonCacheKey = getCacheKey('positions', { year, leagueId, weeks: 'all' })
-      const fullSeasonData = getFromCache(fullSeasonCacheKey)
+      const fullSeasonData = await getFromCache(fullSeasonCacheKey)
       
       if (fullSeasonData && fullSeasonData.data && (fullSeasonData.data as any).weeklyLineups) {
         console.log(`Using cached full season data to filter for weeks ${weekFilter.join(',')}`)
@@ -200,7 +205,7 @@ export async function GET(request: NextRequest) {
         filteredData.positionRankings = positionRankings
         
         // Cache this filtered result
-        setCache(cacheKey, filteredData)
+        await setCache(cacheKey, filteredData, cacheTtl)
         
         return NextResponse.json({
           ...filteredData,
@@ -244,7 +249,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Cache the results
-    setCache(cacheKey, positionalData)
+    await setCache(cacheKey, positionalData, cacheTtl)
     
     // Return the data with metadata
     const response = {
@@ -270,7 +275,7 @@ export async function GET(request: NextRequest) {
     console.error('Error in positional data endpoint:', error)
     
     // Try to return cached data if available (any cache, even very stale)
-    const cachedData = getFromCache(cacheKey)
+    const cachedData = await getFromCache(cacheKey)
     if (cachedData) {
       console.log('Returning stale cached data due to error')
       return NextResponse.json({
@@ -290,7 +295,7 @@ export async function GET(request: NextRequest) {
     // Also check for any cached "all weeks" data if we're filtering
     if (weekFilter) {
       const fullSeasonCacheKey = getCacheKey('positions', { year, leagueId, weeks: 'all' })
-      const fullSeasonData = getFromCache(fullSeasonCacheKey)
+      const fullSeasonData = await getFromCache(fullSeasonCacheKey)
       if (fullSeasonData) {
         console.log('Returning stale full season data and filtering client-side due to API limits')
         return NextResponse.json({
@@ -337,16 +342,14 @@ export async function GET(request: NextRequest) {
 export async function HEAD(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const year = searchParams.get('year') || getCurrentYearString()
-  const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+  const leagueId = resolveLeagueId(searchParams)
   
   const cacheKey = getCacheKey('positions', { year, leagueId })
-  const cachedData = getFromCache(cacheKey)
+  const cachedData = await getFromCache(cacheKey)
   
   if (cachedData) {
     const age = Date.now() - cachedData.timestamp
-    const isCurrentSeason = parseInt(year) === new Date().getFullYear()
-    const cacheDuration = isCurrentSeason ? CURRENT_WEEK_CACHE_DURATION : CACHE_DURATION
-    const isStale = age > cacheDuration
+    const isStale = !isCacheEntryFresh(cachedData)
     
     return new Response(null, {
       status: 200,
@@ -354,7 +357,7 @@ export async function HEAD(request: NextRequest) {
         ...getCorsHeaders(),
         'X-Cache-Status': isStale ? 'STALE' : 'FRESH',
         'X-Cache-Age': String(age),
-        'X-Cache-Max-Age': String(cacheDuration),
+        'X-Cache-Max-Age': cachedData.expiresAt === null ? 'never' : String(cachedData.expiresAt - cachedData.timestamp),
         'X-Teams-Count': String((cachedData.data as any).teams?.length || 0)
       }
     })
@@ -380,6 +383,7 @@ async function fetchPositionalDataFromAPI(
   franchiseFilter?: string[]
 ): Promise<LeaguePositionalData> {
   console.log(`Fetching positional data for league ${leagueId}, year ${year}`)
+  await loadOwnerRegistry(leagueId)
   
   if (managerFilter && managerFilter.length > 0) {
     console.log(`Applying manager filter: ${managerFilter.join(', ')}`)
@@ -409,7 +413,7 @@ async function fetchPositionalDataFromAPI(
     return {
       franchiseId,
       teamName: teamNames[franchiseId] || `Team ${franchiseId}`,
-      manager: getOwnerName(franchiseId, year),
+      manager: getOwnerName(franchiseId, year, leagueId),
       year,
       positionTotals
     }
@@ -472,33 +476,15 @@ async function fetchPositionalDataFromAPI(
  */
 async function fetchTeamNames(leagueId: string, year: number): Promise<Record<string, string>> {
   try {
-    const leagueUrl = `https://api.myfantasyleague.com/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-    const response = await fetch(leagueUrl, {
-      headers: {
-        'User-Agent': 'MFL-Dashboard/1.0'
-      }
-    })
-    
-    if (!response.ok) {
-      console.warn(`Failed to fetch league data: ${response.status}`)
-      return {}
-    }
-    
-    const data = await response.json()
+    const data = await MflClient.league(year, leagueId)
     const teamNames: Record<string, string> = {}
     
     // Extract franchise data from league info
-    if (data.league && data.league.franchises && data.league.franchises.franchise) {
-      const franchises = Array.isArray(data.league.franchises.franchise) 
-        ? data.league.franchises.franchise 
-        : [data.league.franchises.franchise]
-      
-      franchises.forEach((franchise: any) => {
-        if (franchise.id && franchise.name) {
-          teamNames[franchise.id] = franchise.name
-        }
-      })
-    }
+    toArray(data.league?.franchises?.franchise).forEach(franchise => {
+      if (franchise.id && franchise.name) {
+        teamNames[franchise.id] = franchise.name
+      }
+    })
     
     return teamNames
   } catch (error) {
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getLeague, resolveLeagueId } from '@/lib/league-registry'
+import { fetchWeeklyProjections } from '@/lib/weekly-projections-service'
+import { getCurrentNFLSeason, getCurrentWeekForSeason, getTotalWeeksForYear } from '@/lib/season-config'
+import { getAvailableYears } from '@/lib/utils'
+
+// Weeks missing from the database are fetched from MFL one week at a time
+export const maxDuration = 300
+
+/**
+ * Projected scores and ranges for every team and matchup in a week, from
+ * current rosters and recent scoring
+ * Query params: year, week (both default to the current week)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+    const year = parseInt(searchParams.get('year') || String(getCurrentNFLSeason()))
+    if (!getAvailableYears(getLeague(leagueId)?.startYear).includes(year)) {
+      return NextResponse.json({ error: `Unknown year: ${searchParams.get('year')}` }, { status: 400 })
+    }
+    const week = parseInt(searchParams.get('week') || String(getCurrentWeekForSeason(year)))
+    if (isNaN(week) || week < 1 || week > getTotalWeeksForYear(year)) {
+      return NextResponse.json({ error: `Invalid week: ${searchParams.get('week')}` }, { status: 400 })
+    }
+
+    console.log(`[Projections API] year=${year}, week=${week}, leagueId=${leagueId}`)
+
+    return NextResponse.json(await fetchWeeklyProjections(year, leagueId, week))
+  } catch (error) {
+    console.error('[Projections API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate projections',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
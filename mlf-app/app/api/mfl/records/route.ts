@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { getRecordsBook } from '@/lib/records-book-service'
+
+/**
+ * All-time records book across every season stored in the database
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+
+    const records = await getRecordsBook(leagueId)
+
+    return NextResponse.json({ leagueId, ...records })
+  } catch (error) {
+    console.error('[Records API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to build records book',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { loadRecordsBookSeasons } from '@/lib/records-book-service'
+import { buildRivalryMeetings } from '@/lib/rivalries'
+
+/**
+ * Every head-to-head meeting across the seasons stored in the database
+ * Ledgers and the rivalry matrix are built client-side from the meetings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+
+    const seasons = await loadRecordsBookSeasons(leagueId)
+    const meetings = buildRivalryMeetings(seasons)
+
+    return NextResponse.json({
+      leagueId,
+      years: seasons.map(season => season.year).sort((a, b) => a - b),
+      meetings
+    })
+  } catch (error) {
+    console.error('[Rivalries API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load rivalries',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
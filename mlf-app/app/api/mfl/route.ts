@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { normalizeTeamData, MFLStandingsResponse, Team } from '@/lib/mfl'
-import { fetchWithRetry, getCacheKey, getFromCache, setCache, clearCache } from '@/lib/mfl-api'
+import { getCacheKey, getFromCache, setCache, clearCache, isCacheEntryFresh } from '@/lib/mfl-api'
+import { MflClient, toArray } from '@/lib/mfl-client'
+import { isRateLimitError } from '@/lib/mfl-errors'
 import { getOwnerName } from '@/lib/owner-mappings'
+import { loadOwnerRegistry } from '@/lib/owner-registry-service'
 import { getCurrentYearString } from '@/lib/utils'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { calculateMedianRecords, combineRecords, getScoringFormat, type WeeklyTeamScore } from '@/lib/scoring-format'
+import { getRegularSeasonEndWeek } from '@/lib/season-config'
 import { 
   fetchPlayerScores, 
   fetchPlayers, 
@@ -14,7 +20,6 @@ import {
   extractOfficialScoring,
   LINEUP_REQUIREMENTS 
 } from '@/lib/mfl-api-endpoints'
-import { getYearSpecificHeaders } from '@/lib/mfl-api-keys'
 import { fetchHistoricalSeasonData } from '@/lib/mfl-historical-service'
 import { validateSeasonData, sanitizeTeamData, generateDataQualityReport } from '@/lib/mfl-data-validator'
 import { scrapeLeagueStats } from '@/lib/mfl-web-scraper'
@@ -144,26 +149,18 @@ function parseWeeksParameter(weeksParam: string): number[] {
 
 // Function to aggregate weekly data for selected weeks
 async function aggregateWeeklyData(year: string, leagueId: string, weeks: number[]): Promise<Team[]> {
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  
   // Get franchise names from league data
-  const leagueUrl = `${baseUrl}/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-  const headers = getYearSpecificHeaders(parseInt(year), process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-  const leagueResponse = await fetchWithRetry(leagueUrl, { headers })
+  const [leagueResponse] = await Promise.all([
+    MflClient.league(year, leagueId),
+    loadOwnerRegistry(leagueId)
+  ])
   
   const franchiseNames: { [key: string]: string } = {}
-  const leagueData = (leagueResponse as any)?.league
-  if (leagueData?.franchises?.franchise) {
-    const franchises = Array.isArray(leagueData.franchises.franchise) 
-      ? leagueData.franchises.franchise 
-      : [leagueData.franchises.franchise]
-    
-    franchises.forEach((f: any) => {
-      if (f.id) {
-        franchiseNames[f.id] = f.name || `Team ${f.id}`
-      }
-    })
-  }
+  toArray(leagueResponse.league?.franchises?.franchise).forEach(f => {
+    if (f.id) {
+      franchiseNames[f.id] = f.name || `Team ${f.id}`
+    }
+  })
   
   // Fetch weekly results for all specified weeks
   const teamStats: { [franchiseId: string]: {
@@ -188,17 +185,18 @@ async function aggregateWeeklyData(year: string, leagueId: string, weeks: number
     pointsFor: number
     pointsAgainst: number
   }} = {}
+
+  // Regular-season scores, for median records in median leagues
+  const weeklyScores: WeeklyTeamScore[] = []
+  const lastRegularWeek = getRegularSeasonEndWeek(parseInt(year))
   
   // Fetch data for each week and aggregate
   for (const week of weeks) {
     try {
-      const weeklyUrl = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=${week}&JSON=1`
-      const weeklyData = await fetchWithRetry(weeklyUrl, { headers })
+      const weeklyData = await MflClient.weeklyResults(year, leagueId, week)
       
-      if ((weeklyData as any)?.weeklyResults?.matchup) {
-        const matchups = Array.isArray((weeklyData as any).weeklyResults.matchup) 
-          ? (weeklyData as any).weeklyResults.matchup 
-          : [(weeklyData as any).weeklyResults.matchup]
+      if (weeklyData?.weeklyResults?.matchup) {
+        const matchups = toArray(weeklyData.weeklyResults.matchup)
         
         // Process each matchup
         for (const matchup of matchups) {
@@ -220,6 +218,7 @@ async function aggregateWeeklyData(year: string, leagueId: string, weeks: number
             
             const teamScore = parseFloat(team.score) || 0
             const opponentScore = parseFloat(team1 === team ? team2.score : team1.score) || 0
+            if (week <= lastRegularWeek) weeklyScores.push({ week, franchiseId, score: teamScore })
             
             // Aggregate team stats
             teamStats[franchiseId].startersPoints += teamScore
@@ -244,7 +243,7 @@ async function aggregateWeeklyData(year: string, leagueId: string, weeks: number
               const playerDatabase = await fetchPlayers(year)
               const playerNames = new Map<string, { name: string; position: string }>()
               
-              playerDatabase.players?.player.forEach((player: any) => {
+              playerDatabase.players?.player.forEach(player => {
                 playerNames.set(player.id, { 
                   name: player.name, 
                   position: player.position 
@@ -252,7 +251,7 @@ async function aggregateWeeklyData(year: string, leagueId: string, weeks: number
               })
               
               // Convert to Player objects for optimal lineup calculation
-              const teamPlayers = players.map((player: any) => {
+              const teamPlayers = players.map(player => {
                 const playerInfo = playerNames.get(player.id)
                 return {
                   id: player.id,
@@ -328,18 +327,30 @@ async function aggregateWeeklyData(year: string, leagueId: string, weeks: number
     }
   }
   
+  const medianRecords = getScoringFormat(leagueId, parseInt(year)) === 'median'
+    ? calculateMedianRecords(weeklyScores)
+    : null
+
   // Convert to Team objects
   return Object.keys(teamStats).map(franchiseId => {
     const stats = teamStats[franchiseId]
+    const median = medianRecords?.[franchiseId] ?? { wins: 0, losses: 0, ties: 0 }
     return {
       id: franchiseId,
-      manager: getOwnerName(franchiseId, parseInt(year)),
+      manager: getOwnerName(franchiseId, parseInt(year), leagueId),
       teamName: franchiseNames[franchiseId] || `Team ${franchiseId}`,
       year: parseInt(year),
       ...stats,
       winPercentage: stats.wins + stats.losses + stats.ties > 0 
         ? stats.wins / (stats.wins + stats.losses + stats.ties) 
         : 0,
+      // Median leagues count a result against the weekly median too
+      ...(medianRecords && {
+        ...combineRecords(stats, median),
+        medianWins: median.wins,
+        medianLosses: median.losses,
+        medianTies: median.ties
+      }),
       offenseFlexPoints: 0, // Could calculate if needed
       defenseFlexPoints: 0  // Could calculate if needed
     } as Team
@@ -366,30 +377,24 @@ async function getLatestAvailableWeek(year: string, leagueId: string): Promise<n
 
   console.log(`Detecting latest available week for ${year} season using MFL API...`)
 
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const headers = getYearSpecificHeaders(parseInt(year), process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-
   // Method 1: Query MFL weeklyResults API to find latest completed week with actual data
   try {
-    const weeklyResultsUrl = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&JSON=1`
-    console.log(`Querying MFL for completed weeks: ${weeklyResultsUrl}`)
+    console.log(`Querying MFL for completed weeks: ${year}, league ${leagueId}`)
 
-    const weeklyData = await fetchWithRetry(weeklyResultsUrl, { headers })
+    const weeklyData = await MflClient.weeklyResults(year, leagueId)
 
-    if ((weeklyData as any)?.weeklyResults?.matchup) {
-      const matchups = Array.isArray((weeklyData as any).weeklyResults.matchup)
-        ? (weeklyData as any).weeklyResults.matchup
-        : [(weeklyData as any).weeklyResults.matchup]
+    if (weeklyData?.weeklyResults?.matchup) {
+      const matchups = toArray(weeklyData.weeklyResults.matchup)
 
       // Find all weeks with completed matchup data (has franchises with scores)
       const completedWeeks = matchups
-        .filter((m: any) => m.franchise && Array.isArray(m.franchise) && m.franchise.length > 0)
-        .map((m: any) => {
+        .filter(m => m.franchise && Array.isArray(m.franchise) && m.franchise.length > 0)
+        .map(m => {
           // Week can be in matchup object or franchise object
           const week = m.week || (m.franchise && m.franchise[0] ? m.franchise[0].week : null)
           return parseInt(week || '0')
         })
-        .filter((w: number) => w > 0)
+        .filter(w => w > 0)
 
       if (completedWeeks.length > 0) {
         const latestWeek = Math.max(...completedWeeks)
@@ -445,10 +450,10 @@ export async function OPTIONS() {
 export async function DELETE(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const year = searchParams.get('year') || getCurrentYearString()
-  const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+  const leagueId = resolveLeagueId(searchParams)
   
   const cacheKey = getCacheKey('standings', { year, leagueId })
-  clearCache(cacheKey)
+  await clearCache(cacheKey)
   
   return NextResponse.json({ success: true, message: 'Cache cleared' })
 }
@@ -456,7 +461,7 @@ export async function DELETE(request: NextRequest) {
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const year = searchParams.get('year') || getCurrentYearString()
-  const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+  const leagueId = resolveLeagueId(searchParams)
   const weeksParam = searchParams.get('weeks') // Comma-separated weeks like "1,2,3" or "1-14"
   
   // Parse weeks parameter
@@ -469,6 +474,9 @@ export async function GET(request: NextRequest) {
   // Determine season type early for API decisions
   const isHistoricalSeason = parseInt(year) < 2025
   console.log(`Processing ${year}: ${isHistoricalSeason ? 'Historical' : 'Current'} season`)
+
+  // Completed seasons never change, so their cached results never expire
+  const cacheTtl = isHistoricalSeason ? null : CACHE_DURATION
   
   // Create cache key (include weeks for filtered requests)
   const cacheKey = getCacheKey('standings', { 
@@ -479,8 +487,8 @@ export async function GET(request: NextRequest) {
   
   try {
     // Check cache first
-    const cachedData = getFromCache(cacheKey)
-    if (cachedData && (Date.now() - cachedData.timestamp) < CACHE_DURATION) {
+    const cachedData = await getFromCache(cacheKey)
+    if (cachedData && isCacheEntryFresh(cachedData)) {
       console.log('Returning cached MFL data')
       return NextResponse.json(cachedData.data)
     }
@@ -491,29 +499,23 @@ export async function GET(request: NextRequest) {
       const aggregatedData = await aggregateWeeklyData(year, leagueId, selectedWeeks)
       
       // Cache the aggregated result
-      setCache(cacheKey, aggregatedData)
+      await setCache(cacheKey, aggregatedData, cacheTtl)
       
       return NextResponse.json(aggregatedData)
     }
     
-    // Build MFL API URL with enhanced standings data for historical seasons
-    const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-    const standingsParams = isHistoricalSeason ? '&ALL=1' : '' // Get enhanced data for historical seasons
-    const apiUrl = `${baseUrl}/${year}/export?TYPE=standings&L=${leagueId}&JSON=1${standingsParams}`
-    
-    console.log(`Fetching MFL standings: ${apiUrl}`)
+    // Request enhanced standings data for historical seasons
+    const standingsParams = isHistoricalSeason ? { ALL: 1 } : {}
     
-    // Use year-specific authentication for maximum historical data accuracy
-    const headers = getYearSpecificHeaders(parseInt(year), process.env.MFL_USER_AGENT || 'dynasty-dashboard')
+    console.log(`Fetching MFL standings: ${year}, league ${leagueId}`)
     
-    // Fetch standings data
-    const standingsData = await fetchWithRetry(apiUrl, { headers })
+    // Fetch standings data (the client applies year-specific authentication)
+    const standingsData = await MflClient.standings<unknown>(year, leagueId, standingsParams)
     
-    // Fetch league data to get franchise names (using same year-specific headers)
-    const leagueUrl = `${baseUrl}/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-    console.log(`Fetching MFL league: ${leagueUrl}`)
+    // Fetch league data to get franchise names
+    console.log(`Fetching MFL league: ${year}, league ${leagueId}`)
     
-    const leagueData = await fetchWithRetry(leagueUrl, { headers })
+    const leagueData = await MflClient.league<unknown>(year, leagueId)
     
     // Fetch detailed scoring data via MFL API
     console.log('Fetching detailed scoring data via MFL API...')
@@ -814,7 +816,7 @@ export async function GET(request: NextRequest) {
     console.log('Combined data structure:', Object.keys(data))
     
     // Normalize the data using our helper (now async with efficiency calculation)
-    const normalizedTeams = await normalizeTeamData(data as MFLStandingsResponse, parseInt(year))
+    const normalizedTeams = await normalizeTeamData(data as MFLStandingsResponse, parseInt(year), leagueId)
     
     // Enhance with position breakdown data from the unified data service
     try {
@@ -876,7 +878,7 @@ export async function GET(request: NextRequest) {
     console.log(qualityReport)
     
     // Cache the result
-    setCache(cacheKey, sanitizedTeams)
+    await setCache(cacheKey, sanitizedTeams, cacheTtl)
     
     console.log(`Successfully fetched and validated ${sanitizedTeams.length} teams from MFL API`)
     
@@ -894,7 +896,7 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching MFL data:', error)
     
     // Return cached data if available, even if stale
-    const cachedData = getFromCache(cacheKey)
+    const cachedData = await getFromCache(cacheKey)
     if (cachedData) {
       console.log('Returning stale cached data due to API error')
       return NextResponse.json(cachedData.data, {
@@ -907,7 +909,7 @@ export async function GET(request: NextRequest) {
     }
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-    const statusCode = error instanceof Error && error.message.includes('429') ? 429 : 500
+    const statusCode = isRateLimitError(error) ? 429 : 500
     
     return NextResponse.json(
       { 
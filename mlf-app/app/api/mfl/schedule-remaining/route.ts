@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { MflClient } from '@/lib/mfl-client'
+import { isRateLimitError } from '@/lib/mfl-errors'
 
-const MFL_API_BASE = 'https://api.myfantasyleague.com'
-const LEAGUE_ID = '46221'
 const REGULAR_SEASON_END_WEEK = 14
 
 export interface ScheduleMatchup {
@@ -58,20 +59,17 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const year = searchParams.get('year') || new Date().getFullYear().toString()
+    const leagueId = resolveLeagueId(searchParams)
     const currentWeek = parseInt(searchParams.get('currentWeek') || '1')
 
-    console.log(`[Schedule API] Fetching schedule for year ${year}, current week ${currentWeek}`)
+    console.log(`[Schedule API] Fetching schedule for league ${leagueId}, year ${year}, current week ${currentWeek}`)
 
-    const scheduleUrl = `${MFL_API_BASE}/${year}/export?TYPE=schedule&L=${LEAGUE_ID}&JSON=1`
-    console.log(`[Schedule API] URL: ${scheduleUrl}`)
+    let data: ScheduleResponse
+    try {
+      data = await MflClient.schedule<ScheduleResponse>(year, leagueId)
+    } catch (error) {
+      if (!isRateLimitError(error)) throw error
 
-    const response = await fetch(scheduleUrl, {
-      headers: {
-        'User-Agent': 'dynasty-dashboard/1.0',
-      },
-    })
-
-    if (response.status === 429) {
       console.log('[Schedule API] Rate limited, returning empty data')
 
       return NextResponse.json({
@@ -82,12 +80,6 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    if (!response.ok) {
-      throw new Error(`MFL API returned ${response.status}: ${response.statusText}`)
-    }
-
-    const data: ScheduleResponse = await response.json()
-
     if (!data.schedule?.weeklySchedule) {
       console.error('[Schedule API] Invalid response structure:', data)
       throw new Error('Invalid schedule data structure')
@@ -212,6 +204,7 @@ export async function GET(request: NextRequest) {
       currentWeek,
       regularSeasonEndWeek: REGULAR_SEASON_END_WEEK,
       year,
+      leagueId,
       timestamp: Date.now(),
       source: 'mfl-api',
     })
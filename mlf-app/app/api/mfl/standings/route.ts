@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-
-const MFL_API_BASE = 'https://api.myfantasyleague.com'
-const LEAGUE_ID = '46221'
+import { resolveLeagueId } from '@/lib/league-registry'
+import { MflClient } from '@/lib/mfl-client'
+import { isRateLimitError } from '@/lib/mfl-errors'
+import { combineRecords, getScoringFormat, parseScoringFormat, type MedianRecord } from '@/lib/scoring-format'
+import { fetchMedianRecords } from '@/lib/scoring-format-service'
 
 export interface StandingsFranchise {
   id: string
@@ -18,6 +20,13 @@ export interface StandingsFranchise {
   h2hwlt: string      // Head-to-Head Win-Loss-Tie
   pf: string          // Points For
   strk: string        // Current Streak (e.g., "W1", "L2")
+  vp?: string         // Victory Points (leagues that use them)
+  all_play_w?: string // All-Play Wins
+  all_play_l?: string // All-Play Losses
+  all_play_t?: string // All-Play Ties
+  median_w?: string   // Wins against the weekly median (median leagues, already in h2hw)
+  median_l?: string   // Losses against the weekly median (already in h2hl)
+  median_t?: string   // Ties against the weekly median (already in h2ht)
 }
 
 export interface StandingsResponse {
@@ -28,27 +37,52 @@ export interface StandingsResponse {
   version?: string
 }
 
+/**
+ * Fold median results into MFL's head-to-head columns, so everything reading
+ * h2hw/h2hl/h2ht (tiebreakers, the simulator) sees the combined record
+ */
+function applyMedianRecord(team: StandingsFranchise, median: MedianRecord = { wins: 0, losses: 0, ties: 0 }): StandingsFranchise {
+  const record = combineRecords({
+    wins: parseInt(team.h2hw) || 0,
+    losses: parseInt(team.h2hl) || 0,
+    ties: parseInt(team.h2ht) || 0
+  }, median)
+
+  return {
+    ...team,
+    h2hw: record.wins.toString(),
+    h2hl: record.losses.toString(),
+    h2ht: record.ties.toString(),
+    h2hwlt: `${record.wins}-${record.losses}-${record.ties}`,
+    h2hpct: record.winPercentage.toFixed(3),
+    median_w: median.wins.toString(),
+    median_l: median.losses.toString(),
+    median_t: median.ties.toString()
+  }
+}
+
 /**
  * Fetches current league standings with records and points
  * Returns standings data needed for playoff calculations
+ * Query params: format=head-to-head|median to see the standings under a format
+ * other than the league's own (MFL reports head-to-head records only)
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const year = searchParams.get('year') || new Date().getFullYear().toString()
+    const leagueId = resolveLeagueId(searchParams)
+    const leagueScoringFormat = getScoringFormat(leagueId, parseInt(year))
+    const scoringFormat = parseScoringFormat(searchParams.get('format')) ?? leagueScoringFormat
 
-    console.log(`[Standings API] Fetching standings for year ${year}`)
-
-    const standingsUrl = `${MFL_API_BASE}/${year}/export?TYPE=leagueStandings&L=${LEAGUE_ID}&JSON=1`
-    console.log(`[Standings API] URL: ${standingsUrl}`)
+    console.log(`[Standings API] Fetching standings for league ${leagueId}, year ${year} (${scoringFormat})`)
 
-    const response = await fetch(standingsUrl, {
-      headers: {
-        'User-Agent': 'dynasty-dashboard/1.0',
-      },
-    })
+    let data: StandingsResponse
+    try {
+      data = await MflClient.leagueStandings<StandingsResponse>(year, leagueId)
+    } catch (error) {
+      if (!isRateLimitError(error)) throw error
 
-    if (response.status === 429) {
       console.log('[Standings API] Rate limited, returning fallback data')
 
       // Return sample data structure for development
@@ -76,12 +110,6 @@ export async function GET(request: NextRequest) {
       })
     }
 
-    if (!response.ok) {
-      throw new Error(`MFL API returned ${response.status}: ${response.statusText}`)
-    }
-
-    const data: StandingsResponse = await response.json()
-
     if (!data.leagueStandings?.franchise) {
       console.error('[Standings API] Invalid response structure:', data)
       throw new Error('Invalid standings data structure')
@@ -89,8 +117,14 @@ export async function GET(request: NextRequest) {
 
     console.log(`[Standings API] Successfully fetched ${data.leagueStandings.franchise.length} teams`)
 
+    let franchises = data.leagueStandings.franchise
+    if (scoringFormat === 'median') {
+      const medianRecords = await fetchMedianRecords(parseInt(year), leagueId)
+      franchises = franchises.map(team => applyMedianRecord(team, medianRecords[team.id]))
+    }
+
     // Enhance the data with calculated fields
-    const enhancedStandings = data.leagueStandings.franchise.map(team => {
+    const enhancedStandings = franchises.map(team => {
       const wins = parseInt(team.h2hw) || 0
       const losses = parseInt(team.h2hl) || 0
       const ties = parseInt(team.h2ht) || 0
@@ -136,6 +170,9 @@ export async function GET(request: NextRequest) {
         franchise: enhancedStandings,
       },
       year,
+      leagueId,
+      scoringFormat,
+      leagueScoringFormat,
       timestamp: Date.now(),
       source: 'mfl-api',
     })
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getLeague, resolveLeagueId } from '@/lib/league-registry'
+import { DatabaseService } from '@/lib/database'
+import { syncSeason } from '@/lib/season-sync'
+import { getCurrentNFLSeason } from '@/lib/season-config'
+import { isAuthorizedAdminRequest } from '@/lib/admin-auth'
+import { getAvailableYears } from '@/lib/utils'
+
+// A full-season first sync makes one MFL request per week through the 1s queue
+export const maxDuration = 300
+
+/**
+ * Read the year param; null when it isn't one of the league's seasons
+ */
+function parseYear(searchParams: URLSearchParams, leagueId: string): number | null {
+  const year = parseInt(searchParams.get('year') || String(getCurrentNFLSeason()))
+  return getAvailableYears(getLeague(leagueId)?.startYear).includes(year) ? year : null
+}
+
+/**
+ * Recent sync runs for a league
+ * Query params: year (optional), limit (default 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const leagueId = resolveLeagueId(searchParams)
+    const year = searchParams.get('year') ? parseInt(searchParams.get('year')!) : undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100)
+
+    const logs = await DatabaseService.getSyncLogs(leagueId, year, limit)
+
+    return NextResponse.json({ leagueId, year, logs })
+  } catch (error) {
+    console.error('[Sync API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load sync logs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Run an incremental sync for a season
+ * Query params: year (default current NFL season), force=true (re-check finalized weeks),
+ * weeks (comma-separated subset)
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdminRequest(request, process.env.MFL_SYNC_TOKEN)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const leagueId = resolveLeagueId(searchParams)
+  const year = parseYear(searchParams, leagueId)
+  if (year === null) {
+    return NextResponse.json({ error: `Unknown year: ${searchParams.get('year')}` }, { status: 400 })
+  }
+  const force = searchParams.get('force') === 'true'
+  const weeks = searchParams.get('weeks')
+    ?.split(',')
+    .map(w => parseInt(w.trim()))
+    .filter(w => !isNaN(w) && w > 0)
+
+  try {
+    console.log(`[Sync API] Syncing ${year} for league ${leagueId}`)
+
+    const result = await syncSeason(year, leagueId, {
+      trigger: 'api',
+      force,
+      weeks: weeks && weeks.length > 0 ? weeks : undefined
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[Sync API] Error:', error)
+    return NextResponse.json(
+      {
+        error: `Failed to sync ${year} season`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
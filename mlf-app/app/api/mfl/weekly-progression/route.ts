@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { fetchAllWeeklyResults, fetchPlayerMappings } from '@/lib/mfl-weekly-results'
 import { getOwnerName } from '@/lib/owner-mappings'
+import { loadOwnerRegistry } from '@/lib/owner-registry-service'
 import { getWeeksForProgression, getSeasonStatusDescription } from '@/lib/season-utils'
-import { getYearSpecificHeaders } from '@/lib/mfl-api-keys'
+import { MflClient, toArray } from '@/lib/mfl-client'
+import { resolveLeagueId } from '@/lib/league-registry'
 // Import the new unified data service
 import { getWeeklyStats, calculateEfficiency, getPositionBreakdown } from '@/lib/mfl-data-service'
 
@@ -39,9 +41,10 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const year = parseInt(searchParams.get('year') || '2025')
-    const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+    const leagueId = resolveLeagueId(searchParams)
     const weeksParam = searchParams.get('weeks')
     const franchiseId = searchParams.get('franchiseId') // Optional: get data for specific team
+    await loadOwnerRegistry(leagueId)
     
     console.log(`[Weekly Progression API] Starting request for year=${year}, leagueId=${leagueId}, weeks=${weeksParam}, franchiseId=${franchiseId}`)
 
@@ -56,30 +59,17 @@ export async function GET(request: NextRequest) {
     console.log(`[Weekly Progression API] ${seasonStatus}`)
     console.log(`[Weekly Progression API] Including weeks: ${weeksToInclude.join(', ')}`)
 
-    // Use year-specific authentication headers
-    const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-
     // Fetch real weekly data from MFL API
     try {
       // Fetch team names from the main MFL API
-      const teamNamesResponse = await fetch(`https://api.myfantasyleague.com/${year}/export?TYPE=league&L=${leagueId}&JSON=1`, {
-        headers
-      })
-      
-      const teamNamesData = await teamNamesResponse.json()
+      const teamNamesData = await MflClient.league(year, leagueId)
       const franchiseNames: { [key: string]: string } = {}
       
-      if (teamNamesData?.league?.franchises?.franchise) {
-        const franchises = Array.isArray(teamNamesData.league.franchises.franchise) 
-          ? teamNamesData.league.franchises.franchise 
-          : [teamNamesData.league.franchises.franchise]
-        
-        franchises.forEach((franchise: any) => {
-          if (franchise.id && franchise.name) {
-            franchiseNames[franchise.id] = franchise.name
-          }
-        })
-      }
+      toArray(teamNamesData.league?.franchises?.franchise).forEach(franchise => {
+        if (franchise.id && franchise.name) {
+          franchiseNames[franchise.id] = franchise.name
+        }
+      })
 
       // Use new unified data service (Step 2: Use MFL's provided fields)
       const progressionData: TeamProgression[] = []
@@ -160,7 +150,7 @@ export async function GET(request: NextRequest) {
 
           progressionData.push({
             franchiseId: fId,
-            manager: getOwnerName(fId, year),
+            manager: getOwnerName(fId, year, leagueId),
             teamName: franchiseNames[fId] || `Team ${fId}`,
             year,
             weeklyScores
@@ -172,7 +162,7 @@ export async function GET(request: NextRequest) {
           // Add fallback data for failed franchise
           progressionData.push({
             franchiseId: fId,
-            manager: getOwnerName(fId, year),
+            manager: getOwnerName(fId, year, leagueId),
             teamName: franchiseNames[fId] || `Team ${fId}`,
             year,
             weeklyScores: weeksToInclude.map(week => ({
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { fetchWeeklyResults } from '@/lib/mfl-weekly-results'
+import { resolveLeagueId } from '@/lib/league-registry'
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const year = parseInt(searchParams.get('year') || '2025')
   const week = parseInt(searchParams.get('week') || '1')
-  const leagueId = searchParams.get('leagueId') || process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+  const leagueId = resolveLeagueId(searchParams)
 
   try {
     const data = await fetchWeeklyResults(year, leagueId, week)
@@ -2,9 +2,11 @@
 
 import { useState, useMemo, memo, useCallback } from 'react'
 import { Team } from '@/lib/mfl'
-import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import { ArrowUpDown, ArrowUp, ArrowDown, Armchair } from 'lucide-react'
 import { formatTeamDisplay, getUniqueYears } from '@/lib/team-utils'
 import { formatPoints, formatEfficiency } from '@/lib/utils'
+import LineupRegretModal from './LineupRegretModal'
+import TeamLink from './TeamLink'
 
 interface LeaderboardProps {
   teams: Team[]
@@ -14,9 +16,19 @@ interface LeaderboardProps {
 type SortField = keyof Pick<Team, 'manager' | 'teamName' | 'startersPoints' | 'benchPoints' | 'offensePoints' | 'defensePoints' | 'totalPoints' | 'potentialPoints' | 'wins' | 'losses' | 'winPercentage'> | 'efficiency'
 type SortDirection = 'asc' | 'desc' | null
 
+// Team (or whole league, without franchiseId) whose start/sit regret is open
+interface RegretTarget {
+  franchiseId?: string
+  years: number[]
+  title: string
+  subtitle?: string
+}
+
 function Leaderboard({ teams, selectedWeeks = [] }: LeaderboardProps) {
   const [sortField, setSortField] = useState<SortField>('totalPoints')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [regretTarget, setRegretTarget] = useState<RegretTarget | null>(null)
+  const closeRegret = useCallback(() => setRegretTarget(null), [])
   
   const uniqueYears = useMemo(() => getUniqueYears(teams), [teams])
   const hasMultipleYears = uniqueYears.length > 1
@@ -112,16 +124,27 @@ function Leaderboard({ teams, selectedWeeks = [] }: LeaderboardProps) {
 
   return (
     <div className="overflow-x-auto">
-      {selectedWeeks.length > 0 && (
-        <div className="mb-3 flex items-center gap-2">
-          <span className="inline-flex items-center rounded-md bg-purple-50 px-2 py-1 text-xs font-medium text-purple-700 ring-1 ring-inset ring-purple-600/10 dark:bg-purple-400/10 dark:text-purple-400 dark:ring-purple-400/30">
-            {selectedWeeks.length === 1 
-              ? `Week ${selectedWeeks[0]}` 
-              : `${selectedWeeks.length} weeks selected`
-            }
-          </span>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {selectedWeeks.length > 0 && (
+            <span className="inline-flex items-center rounded-md bg-purple-50 px-2 py-1 text-xs font-medium text-purple-700 ring-1 ring-inset ring-purple-600/10 dark:bg-purple-400/10 dark:text-purple-400 dark:ring-purple-400/30">
+              {selectedWeeks.length === 1 
+                ? `Week ${selectedWeeks[0]}` 
+                : `${selectedWeeks.length} weeks selected`
+              }
+            </span>
+          )}
         </div>
-      )}
+        {uniqueYears.length > 0 && (
+          <button
+            onClick={() => setRegretTarget({ years: uniqueYears, title: 'Points Left on Bench', subtitle: 'Start/sit regret by team' })}
+            className="inline-flex items-center rounded-md px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 dark:bg-blue-400/10 dark:text-blue-400 dark:hover:bg-blue-400/20 transition-colors"
+          >
+            <Armchair className="mr-1 h-3 w-3" />
+            Points Left on Bench
+          </button>
+        )}
+      </div>
       <table className="min-w-full">
         <thead>
           <tr className="bg-blue-600 text-white">
@@ -242,7 +265,9 @@ function Leaderboard({ teams, selectedWeeks = [] }: LeaderboardProps) {
                 {team.year}
               </td>
               <td className="px-4 py-3 text-sm text-gray-900">
-                {formatTeamDisplay(team, { includeYear: hasMultipleYears })}
+                <TeamLink franchiseId={team.id} year={team.year}>
+                  {formatTeamDisplay(team, { includeYear: hasMultipleYears })}
+                </TeamLink>
               </td>
               <td className="px-4 py-3 text-sm text-gray-900">
                 {team.manager}
@@ -271,12 +296,36 @@ function Leaderboard({ teams, selectedWeeks = [] }: LeaderboardProps) {
                 {formatPoints(team.potentialPoints)}
               </td>
               <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-green-600 font-medium">
-                {team.efficiency ? `${team.efficiency}%` : '0.0%'}
+                <button
+                  onClick={() => setRegretTarget({
+                    franchiseId: team.id,
+                    years: [team.year],
+                    title: team.teamName,
+                    subtitle: `${team.manager} • ${team.year} start/sit regret`
+                  })}
+                  className="hover:underline"
+                  title="Show week-by-week start/sit regret"
+                >
+                  {team.efficiency ? `${team.efficiency}%` : '0.0%'}
+                </button>
               </td>
             </tr>
           ))}
         </tbody>
       </table>
+
+      {regretTarget && (
+        <LineupRegretModal
+          isOpen
+          onClose={closeRegret}
+          years={regretTarget.years}
+          initialYear={regretTarget.years[0]}
+          selectedWeeks={selectedWeeks}
+          franchiseId={regretTarget.franchiseId}
+          title={regretTarget.title}
+          subtitle={regretTarget.subtitle}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import LineupRegretReport from './LineupRegretReport'
+
+interface LineupRegretModalProps {
+  isOpen: boolean
+  onClose: () => void
+  years: number[]
+  initialYear: number
+  selectedWeeks?: number[]
+  franchiseId?: string // Omit for the league-wide leaderboard
+  title: string
+  subtitle?: string
+}
+
+/**
+ * Start/sit regret drill-down opened from the Leaderboard
+ */
+export default function LineupRegretModal({
+  isOpen,
+  onClose,
+  years,
+  initialYear,
+  selectedWeeks = [],
+  franchiseId,
+  title,
+  subtitle
+}: LineupRegretModalProps) {
+  const [year, setYear] = useState(initialYear)
+
+  useEffect(() => {
+    setYear(initialYear)
+  }, [initialYear])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'hidden'
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscape)
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 z-10 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{title}</h2>
+            {subtitle && <p className="text-sm text-gray-500 dark:text-gray-400">{subtitle}</p>}
+          </div>
+          <div className="flex items-center gap-3">
+            {years.length > 1 && (
+              <select
+                value={year}
+                onChange={(e) => setYear(parseInt(e.target.value))}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+              >
+                {years.map(y => (
+                  <option key={y} value={y}>{y}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <LineupRegretReport year={year} selectedWeeks={selectedWeeks} franchiseId={franchiseId} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import { useLineupRegret } from '../hooks/useLineupRegret'
+import TeamLink from './TeamLink'
+import { formatPoints } from '@/lib/utils'
+import type { WeeklyRegret } from '@/lib/lineup-regret'
+
+interface LineupRegretReportProps {
+  year: number
+  selectedWeeks?: number[]
+  franchiseId?: string // Show one team's weeks instead of the league leaderboard
+}
+
+function getResultStyle(result: WeeklyRegret['result']): string {
+  if (result === 'W') return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+  if (result === 'L') return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+  if (result === 'T') return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+  return 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+}
+
+function WeeklyRegretList({ weeks, teamNames }: { weeks: WeeklyRegret[]; teamNames: Record<string, string> }) {
+  if (weeks.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No completed weeks</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {weeks.map(week => (
+        <div
+          key={week.week}
+          className={`rounded p-3 text-sm ${week.lostToLineup
+            ? 'bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800'
+            : 'bg-white dark:bg-gray-800'}`}
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900 dark:text-white">Week {week.week}</span>
+              {week.result && (
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getResultStyle(week.result)}`}>
+                  {week.result} {formatPoints(week.actualPoints)}-{formatPoints(week.opponentScore)}
+                </span>
+              )}
+              {week.opponentId && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  vs {teamNames[week.opponentId] || week.opponentId}
+                </span>
+              )}
+              {week.lostToLineup && (
+                <span className="text-xs font-semibold text-red-600 dark:text-red-400">Lineup loss</span>
+              )}
+            </div>
+            <span className={week.pointsLost > 0 ? 'font-semibold text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+              {week.pointsLost > 0 ? `-${formatPoints(week.pointsLost)} pts` : 'Perfect lineup'}
+            </span>
+          </div>
+          {week.swaps.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {week.swaps.map(swap => (
+                <li key={swap.benchPlayer.id} className="flex justify-between gap-2 text-xs text-gray-700 dark:text-gray-300">
+                  <span>
+                    Start <span className="font-medium">{swap.benchPlayer.name}</span> ({swap.benchPlayer.position}, {formatPoints(swap.benchPlayer.score)})
+                    {' '}over <span className="font-medium">{swap.starter.name}</span> ({swap.starter.position}, {formatPoints(swap.starter.score)})
+                  </span>
+                  <span className="text-red-600 dark:text-red-400 whitespace-nowrap">-{formatPoints(swap.pointsLost)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function RegretStat({ label, value, detail, highlight = false }: { label: string; value: string; detail: string; highlight?: boolean }) {
+  return (
+    <div className={`rounded-lg p-3 ${highlight ? 'bg-red-50 dark:bg-red-900/20' : 'bg-white dark:bg-gray-800'}`}>
+      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+      <div className={`text-xl font-bold ${highlight ? 'text-red-700 dark:text-red-300' : 'text-gray-900 dark:text-white'}`}>{value}</div>
+      <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">{detail}</div>
+    </div>
+  )
+}
+
+/**
+ * Lineup Regret Report
+ * Season "points left on bench" leaderboard with each team's week-by-week
+ * start/sit mistakes; pass franchiseId for a single team's breakdown
+ */
+export default function LineupRegretReport({ year, selectedWeeks = [], franchiseId }: LineupRegretReportProps) {
+  const [expandedTeam, setExpandedTeam] = useState<string | null>(null)
+  const { data, isLoading, error } = useLineupRegret({ year, weeks: selectedWeeks })
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-3"></div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Loading weekly lineups...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+        <p className="text-sm text-red-600 dark:text-red-500">
+          {error instanceof Error ? error.message : 'Lineup data unavailable'}
+        </p>
+      </div>
+    )
+  }
+
+  const teamNames: Record<string, string> = {}
+  data.teams.forEach(team => {
+    teamNames[team.franchiseId] = team.teamName
+  })
+
+  if (franchiseId) {
+    const team = data.teams.find(t => t.franchiseId === franchiseId)
+    if (!team) {
+      return <p className="text-sm text-gray-500 dark:text-gray-400">No lineups recorded for {year}</p>
+    }
+    const rank = data.teams.indexOf(team) + 1
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <RegretStat label="Points Left on Bench" value={formatPoints(team.totalPointsLost)} detail={`#${rank} of ${data.teams.length} in the league`} />
+          <RegretStat label="Per Week" value={formatPoints(team.averagePointsLost)} detail={`${team.perfectWeeks} perfect week${team.perfectWeeks === 1 ? '' : 's'}`} />
+          <RegretStat label="Lineup Efficiency" value={`${team.efficiency.toFixed(1)}%`} detail={`${formatPoints(team.actualPoints)} of ${formatPoints(team.optimalPoints)}`} />
+          <RegretStat label="Lineup Losses" value={team.lineupLosses.toString()} detail="Losses the optimal lineup would have won" highlight={team.lineupLosses > 0} />
+        </div>
+        <WeeklyRegretList weeks={team.weeks} teamNames={teamNames} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="bg-blue-600 text-white">
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">Rank</th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">Team</th>
+            <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Left on Bench</th>
+            <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Per Week</th>
+            <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Efficiency</th>
+            <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Perfect Weeks</th>
+            <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Lineup Losses</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {data.teams.map((team, index) => {
+            const isExpanded = expandedTeam === team.franchiseId
+            return (
+              <Fragment key={team.franchiseId}>
+                <tr className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                  <td className="px-3 py-2 text-gray-900 dark:text-white">{index + 1}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center text-gray-900 dark:text-white">
+                      <button
+                        onClick={() => setExpandedTeam(isExpanded ? null : team.franchiseId)}
+                        className="mr-1 hover:text-blue-600 dark:hover:text-blue-400"
+                        title="Show week-by-week regret"
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      <TeamLink franchiseId={team.franchiseId} year={year} className="font-medium">{team.teamName}</TeamLink>
+                      <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({team.manager})</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-center font-semibold text-red-600 dark:text-red-400">{formatPoints(team.totalPointsLost)}</td>
+                  <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{formatPoints(team.averagePointsLost)}</td>
+                  <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{team.efficiency.toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{team.perfectWeeks}</td>
+                  <td className={`px-3 py-2 text-center ${team.lineupLosses > 0 ? 'font-semibold text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {team.lineupLosses}
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-3 bg-gray-50 dark:bg-gray-900">
+                      <WeeklyRegretList weeks={team.weeks} teamNames={teamNames} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            )
+          })}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        Points left on bench compare each week&apos;s starters with the best legal lineup from the same roster.
+        A lineup loss is a loss the optimal lineup would have won against the opponent&apos;s actual score.
+      </p>
+    </div>
+  )
+}
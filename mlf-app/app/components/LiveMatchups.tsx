@@ -0,0 +1,219 @@
+'use client'
+
+import { Radio } from 'lucide-react'
+import { useLiveScoring, type LiveConnectionStatus } from '../hooks/useLiveScoring'
+import TeamLink from './TeamLink'
+import { formatPoints } from '@/lib/utils'
+import type { LiveMatchup, LivePlayer, LiveTeam } from '@/lib/live-win-probability'
+
+const STATUS_LABELS: Record<LiveConnectionStatus, string> = {
+  connecting: 'Connecting',
+  live: 'Live',
+  reconnecting: 'Reconnecting',
+  final: 'Final',
+  failed: 'Disconnected'
+}
+
+const STATUS_CLASSES: Record<LiveConnectionStatus, string> = {
+  connecting: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  live: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  reconnecting: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  final: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+}
+
+function formatProbability(probability: number): string {
+  if (probability > 0.995 && probability < 1) return '>99%'
+  if (probability < 0.005 && probability > 0) return '<1%'
+  return `${Math.round(probability * 100)}%`
+}
+
+function formatChange(change: number): string {
+  if (Math.abs(change) < 0.05) return '-'
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}`
+}
+
+function getChangeClass(change: number): string {
+  if (Math.abs(change) < 0.05) return 'text-gray-400 dark:text-gray-500'
+  return change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+}
+
+function RemainingPlayers({ players }: { players: LivePlayer[] }) {
+  const remaining = players.filter(player => player.status !== 'finished')
+  if (remaining.length === 0) {
+    return <div className="text-xs text-gray-400 dark:text-gray-500">All starters finished</div>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {remaining.map(player => (
+        <li key={player.id} className="flex items-center justify-between text-xs">
+          <span className="text-gray-700 dark:text-gray-300 truncate">
+            {player.status === 'playing' && <span className="inline-block h-1.5 w-1.5 rounded-full bg-red-500 mr-1.5 align-middle" />}
+            {player.name} <span className="text-gray-400 dark:text-gray-500">{player.position}</span>
+          </span>
+          <span className="text-gray-500 dark:text-gray-400 ml-2 whitespace-nowrap">
+            {formatPoints(player.score)} <span className="text-gray-400 dark:text-gray-500">(+{player.projectedRemaining.toFixed(1)})</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function TeamSide({ team, winProbability, isFinal }: { team: LiveTeam; winProbability: number; isFinal: boolean }) {
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div>
+        <div className="font-semibold text-gray-900 dark:text-white truncate">{team.teamName}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{team.manager}</div>
+      </div>
+      <div className="flex items-baseline gap-2">
+        <span className="text-2xl font-bold text-gray-900 dark:text-white">{formatPoints(team.score)}</span>
+        {!isFinal && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">proj {team.projectedScore.toFixed(1)}</span>
+        )}
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {team.playersYetToPlay} yet to play · {team.playersPlaying} playing · {formatProbability(winProbability)} to win
+      </div>
+      {!isFinal && <RemainingPlayers players={team.starters} />}
+    </div>
+  )
+}
+
+function MatchupCard({ matchup }: { matchup: LiveMatchup }) {
+  const [home, away] = matchup.teams
+  const homePercent = matchup.winProbability * 100
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3">
+      <div className="flex gap-4">
+        <TeamSide team={home} winProbability={matchup.winProbability} isFinal={matchup.isFinal} />
+        <div className="w-px bg-gray-200 dark:bg-gray-700" />
+        <TeamSide team={away} winProbability={1 - matchup.winProbability} isFinal={matchup.isFinal} />
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700" title="Win probability">
+        <div className="bg-blue-500 transition-all duration-500" style={{ width: `${homePercent}%` }} />
+        <div className="bg-orange-400 transition-all duration-500" style={{ width: `${100 - homePercent}%` }} />
+      </div>
+      {matchup.isFinal && (
+        <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 text-center">FINAL</div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Live Matchups
+ * This week's scores streamed from MFL's live scoring, with each matchup's win
+ * probability from the starters still to play and the playoff odds those
+ * results imply
+ */
+export default function LiveMatchups() {
+  const { scoreboard, odds, status, error } = useLiveScoring()
+
+  if (!scoreboard && status !== 'failed') {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading live scoring and player histories...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!scoreboard) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+        <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">
+          Live Scoring Unavailable
+        </h3>
+        <p className="text-red-600 dark:text-red-500">{error || 'Failed to connect to live scoring'}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <Radio className="mr-2 h-5 w-5 text-red-500" />
+            Week {scoreboard.week} Live
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Updated {new Date(scoreboard.updatedAt).toLocaleTimeString()} · projections add each starter&apos;s
+            average for the share of their game left
+          </p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_CLASSES[status]}`}>
+          {STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 text-sm text-yellow-800 dark:text-yellow-300">
+          {error} - showing the last update
+        </div>
+      )}
+
+      {/* Matchups */}
+      {scoreboard.matchups.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 text-gray-600 dark:text-gray-400">
+          MFL has no live matchups for week {scoreboard.week}.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {scoreboard.matchups.map(matchup => (
+            <MatchupCard key={matchup.teams.map(team => team.franchiseId).join('-')} matchup={matchup} />
+          ))}
+        </div>
+      )}
+
+      {/* Live playoff odds */}
+      {odds && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h4 className="font-semibold text-gray-900 dark:text-white">Live Playoff Odds</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {odds.iterations.toLocaleString()} simulations with this week decided by the live projections, compared with the odds before kickoff (seed {odds.seed})
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900 text-xs uppercase text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2 text-left">Team</th>
+                  <th className="px-4 py-2 text-right">Playoffs</th>
+                  <th className="px-4 py-2 text-right">Change</th>
+                  <th className="px-4 py-2 text-right">Title</th>
+                  <th className="px-4 py-2 text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {odds.odds.map(team => {
+                  const playoffChange = team.playoffProbability - team.baselineProbability
+                  const titleChange = team.championshipProbability - team.baselineChampionshipProbability
+                  return (
+                    <tr key={team.franchiseId}>
+                      <td className="px-4 py-2 text-gray-900 dark:text-white">
+                        <TeamLink franchiseId={team.franchiseId} year={odds.year}>{team.teamName}</TeamLink>
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{team.playoffProbability.toFixed(1)}%</td>
+                      <td className={`px-4 py-2 text-right ${getChangeClass(playoffChange)}`}>{formatChange(playoffChange)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{team.championshipProbability.toFixed(1)}%</td>
+                      <td className={`px-4 py-2 text-right ${getChangeClass(titleChange)}`}>{formatChange(titleChange)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,24 @@
 'use client'
 
-import { useState, useMemo, memo } from 'react'
+import { useState, useMemo, memo, Fragment } from 'react'
 import { Team } from '@/lib/mfl'
-import { ArrowUpDown, ArrowUp, ArrowDown, Trophy, Target } from 'lucide-react'
+import { ArrowUpDown, ArrowUp, ArrowDown, Trophy, Target, ChevronDown, ChevronRight } from 'lucide-react'
 import { formatTeamDisplay, getUniqueYears, formatYearsDisplay } from '@/lib/team-utils'
 import { formatPoints, formatPercentage, formatDecimal } from '@/lib/utils'
+import { buildLuckLookup, formatLuck, type TeamLuckSummary } from '@/lib/luck-analytics'
+import {
+  combineRecords,
+  getScoringFormat,
+  SCORING_FORMAT_LABELS,
+  SCORING_FORMATS,
+  type ScoringFormat
+} from '@/lib/scoring-format'
+import { getCurrentNFLSeason, isSeasonComplete } from '@/lib/season-config'
+import type { MatchupProjection, TeamProjection } from '@/lib/weekly-projections'
+import { useMatchupsData } from '../hooks/useMatchupsData'
+import { useWeeklyProjections } from '../hooks/useWeeklyProjections'
+import { useLeague } from '../providers/LeagueProvider'
+import TeamLink from './TeamLink'
 
 interface MatchupsTableProps {
   teams: Team[]
@@ -33,34 +47,133 @@ interface TeamMatchupSummary {
   winPercentage: number
   matchups: MatchupResult[]
   year: number
+  luck?: TeamLuckSummary
 }
 
-type SortField = keyof Pick<TeamMatchupSummary, 'manager' | 'teamName' | 'wins' | 'losses' | 'winPercentage' | 'pointsFor' | 'pointsAgainst'> | 'pointDifferential'
+type LuckSortField = keyof Pick<TeamLuckSummary, 'allPlayWinPercentage' | 'expectedWins' | 'luck' | 'medianWinPercentage'>
+type SortField = keyof Pick<TeamMatchupSummary, 'manager' | 'teamName' | 'wins' | 'losses' | 'winPercentage' | 'pointsFor' | 'pointsAgainst'> | 'pointDifferential' | LuckSortField
+
+const LUCK_SORT_FIELDS: SortField[] = ['allPlayWinPercentage', 'expectedWins', 'luck', 'medianWinPercentage']
+
 type SortDirection = 'asc' | 'desc' | null
 
+/**
+ * A team's record under a scoring format
+ * Records carry median results only in median leagues (medianWins is set), so
+ * previewing the other format strips them, or adds them from the weekly results
+ */
+function getRecordForFormat(team: Team, format: ScoringFormat, luck?: TeamLuckSummary) {
+  const record = {
+    wins: team.wins || 0,
+    losses: team.losses || 0,
+    ties: team.ties || 0,
+    winPercentage: team.winPercentage || 0
+  }
+  const includesMedian = team.medianWins !== undefined
+
+  if (format === 'median') {
+    if (includesMedian || !luck) return record
+    return combineRecords(record, { wins: luck.medianWins, losses: luck.medianLosses, ties: luck.medianTies })
+  }
+
+  if (!includesMedian) return record
+  return combineRecords({
+    wins: record.wins - (team.medianWins || 0),
+    losses: record.losses - (team.medianLosses || 0),
+    ties: record.ties - (team.medianTies || 0)
+  })
+}
+
+function describeUnavailable(team: TeamProjection): string | null {
+  const counts = {
+    bye: team.unavailable.filter(player => player.status === 'bye').length,
+    ir: team.unavailable.filter(player => player.status === 'injured-reserve').length
+  }
+  const parts = [
+    counts.bye > 0 && `${counts.bye} on bye`,
+    counts.ir > 0 && `${counts.ir} on IR`,
+    team.emptySlots > 0 && `${team.emptySlots} empty ${team.emptySlots === 1 ? 'slot' : 'slots'}`
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+function ProjectedTeam({ team, winProbability, align }: { team: TeamProjection; winProbability: number; align: 'left' | 'right' }) {
+  const unavailable = describeUnavailable(team)
+  return (
+    <div className={`flex-1 min-w-0 ${align === 'right' ? 'text-right' : ''}`}>
+      <div className="font-semibold text-gray-900 dark:text-white truncate">{team.teamName}</div>
+      <div className="text-2xl font-bold text-gray-900 dark:text-white">{team.projectedScore.toFixed(1)}</div>
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {team.low.toFixed(0)}-{team.high.toFixed(0)} · {Math.round(winProbability * 100)}% to win
+      </div>
+      {unavailable && <div className="text-xs text-orange-600 dark:text-orange-400">{unavailable}</div>}
+    </div>
+  )
+}
+
+function ProjectedMatchupCard({ matchup }: { matchup: MatchupProjection }) {
+  const [first, second] = matchup.teams
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-center gap-4">
+        <ProjectedTeam team={first} winProbability={matchup.winProbability} align="left" />
+        <span className="text-sm font-semibold text-gray-400 dark:text-gray-500">vs</span>
+        <ProjectedTeam team={second} winProbability={1 - matchup.winProbability} align="right" />
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700" title="Win probability">
+        <div className="bg-blue-500" style={{ width: `${matchup.winProbability * 100}%` }} />
+        <div className="bg-orange-400" style={{ width: `${(1 - matchup.winProbability) * 100}%` }} />
+      </div>
+    </div>
+  )
+}
+
 function MatchupsTable({ teams, selectedWeeks }: MatchupsTableProps) {
   const [sortField, setSortField] = useState<SortField>('wins')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [expandedTeam, setExpandedTeam] = useState<string | null>(null)
+  // null follows each season's own format; either format can be previewed
+  const [formatOverride, setFormatOverride] = useState<ScoringFormat | null>(null)
+  const { leagueId } = useLeague()
 
   const uniqueYears = useMemo(() => getUniqueYears(teams), [teams])
   const hasMultipleYears = uniqueYears.length > 1
 
+  // Weekly results for the all-play, median and luck columns
+  const { data: weeklyMatchups } = useMatchupsData({ years: uniqueYears, weeks: selectedWeeks })
+  const luck = useMemo(() => buildLuckLookup(weeklyMatchups || []), [weeklyMatchups])
+  const hasLuck = Object.keys(luck).length > 0
+
+  // Next week's projections while the current season is shown and still being played
+  const currentSeason = getCurrentNFLSeason()
+  const showProjections = uniqueYears.includes(currentSeason) && !isSeasonComplete(currentSeason)
+  const { data: projections } = useWeeklyProjections({ year: currentSeason, enabled: showProjections })
+
   // Convert teams data directly to matchups format
   // This uses MFL's official standings data which is the source of truth
-  const matchupsData = useMemo(() => {
-    return teams.map(team => ({
-      franchiseId: team.id,
-      manager: team.manager,
-      teamName: team.teamName,
-      wins: team.wins || 0,
-      losses: team.losses || 0,
-      ties: team.ties || 0,
-      pointsFor: team.pointsFor || team.totalPoints,
-      pointsAgainst: team.pointsAgainst || 0,
-      winPercentage: team.winPercentage || 0,
-      matchups: [], // Detailed matchup history not needed for this view
-      year: team.year
-    }))
+  const matchupsData = useMemo((): TeamMatchupSummary[] => {
+    return teams.map(team => {
+      const teamLuck = luck[`${team.id}-${team.year}`]
+      const format = formatOverride ?? getScoringFormat(leagueId, team.year)
+
+      return {
+        franchiseId: team.id,
+        manager: team.manager,
+        teamName: team.teamName,
+        ...getRecordForFormat(team, format, teamLuck),
+        pointsFor: team.pointsFor || team.totalPoints,
+        pointsAgainst: team.pointsAgainst || 0,
+        matchups: [], // Detailed matchup history not needed for this view
+        year: team.year,
+        luck: teamLuck
+      }
+    })
+  }, [teams, luck, formatOverride, leagueId])
+
+  const teamNames = useMemo(() => {
+    const names: Record<string, string> = {}
+    teams.forEach(team => { names[`${team.id}-${team.year}`] = team.teamName })
+    return names
   }, [teams])
 
   const sortedTeams = useMemo(() => {
@@ -83,8 +196,15 @@ function MatchupsTable({ teams, selectedWeeks }: MatchupsTableProps) {
         let aValue: string | number
         let bValue: string | number
 
-        // Handle special case for point differential
-        if (sortField === 'pointDifferential') {
+        // Teams without weekly data sort last
+        if (LUCK_SORT_FIELDS.includes(sortField)) {
+          const field = sortField as LuckSortField
+          aValue = a.luck ? a.luck[field] : -Infinity
+          bValue = b.luck ? b.luck[field] : -Infinity
+          if (aValue === bValue) return 0
+          if (aValue === -Infinity) return 1
+          if (bValue === -Infinity) return -1
+        } else if (sortField === 'pointDifferential') {
           aValue = a.pointsFor - a.pointsAgainst
           bValue = b.pointsFor - b.pointsAgainst
         } else {
@@ -154,15 +274,68 @@ function MatchupsTable({ teams, selectedWeeks }: MatchupsTableProps) {
     return 'text-gray-600 dark:text-gray-400'
   }
 
+  const formatRecord = (wins: number, losses: number, ties: number) => {
+    return `${wins}-${losses}${ties > 0 ? `-${ties}` : ''}`
+  }
+
+  const getLuckStyle = (value: number) => {
+    if (value >= 0.05) return 'text-green-600 dark:text-green-400'
+    if (value <= -0.05) return 'text-red-600 dark:text-red-400'
+    return 'text-gray-600 dark:text-gray-400'
+  }
+
+  const getResultStyle = (result: string) => {
+    if (result === 'W') return 'text-green-600 dark:text-green-400'
+    if (result === 'L') return 'text-red-600 dark:text-red-400'
+    return 'text-gray-600 dark:text-gray-400'
+  }
+
+  const columnCount = 10 + (hasMultipleYears ? 1 : 0) + (hasLuck ? 4 : 0)
+
   return (
     <div className="space-y-6">
+      {/* Upcoming Matchup Projections */}
+      {showProjections && projections && projections.matchups.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center mb-1">
+            <Target className="mr-2 h-5 w-5 text-blue-500" />
+            Week {projections.week} Projections
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Best available lineups from current rosters, each player at their average over{' '}
+            {projections.historyWeeks.length > 0
+              ? `weeks ${projections.historyWeeks[0]}-${projections.historyWeeks[projections.historyWeeks.length - 1]}`
+              : 'no completed weeks yet'}
+            . Ranges cover 80% of outcomes.
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {projections.matchups.map(matchup => (
+              <ProjectedMatchupCard key={matchup.teams.map(team => team.franchiseId).join('-')} matchup={matchup} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Season Records Table */}
       <div className="overflow-x-auto">
         <div className="mb-4">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
-            <Trophy className="mr-2 h-5 w-5 text-yellow-500" />
-            Season Records & Standings
-          </h3>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <Trophy className="mr-2 h-5 w-5 text-yellow-500" />
+              Season Records & Standings
+            </h3>
+            <select
+              value={formatOverride ?? ''}
+              onChange={(e) => setFormatOverride((e.target.value || null) as ScoringFormat | null)}
+              title="Count records with or without a weekly game against the league median"
+              className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+            >
+              <option value="">League scoring format</option>
+              {SCORING_FORMATS.map(format => (
+                <option key={format} value={format}>{SCORING_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </div>
           <p className="text-sm text-gray-600 dark:text-gray-400">
             {selectedWeeks.length > 0 
               ? `Team records for ${selectedWeeks.length === 1 ? `Week ${selectedWeeks[0]}` : `${selectedWeeks.length} selected weeks`} in the ${hasMultipleYears ? formatYearsDisplay(uniqueYears) + ' seasons' : (uniqueYears[0] || 2025) + ' season'}`
@@ -256,16 +429,60 @@ function MatchupsTable({ teams, selectedWeeks }: MatchupsTableProps) {
                   {getSortIcon('pointDifferential')}
                 </button>
               </th>
+              {hasLuck && (
+                <>
+                  <th className="px-4 py-3 text-center text-xs font-medium uppercase tracking-wider">
+                    <button
+                      onClick={() => handleSort('allPlayWinPercentage')}
+                      className="flex items-center justify-center hover:text-blue-200 transition-colors"
+                      title="Record if every team played every other team each week"
+                    >
+                      All-Play
+                      {getSortIcon('allPlayWinPercentage')}
+                    </button>
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium uppercase tracking-wider">
+                    <button
+                      onClick={() => handleSort('medianWinPercentage')}
+                      className="flex items-center justify-center hover:text-blue-200 transition-colors"
+                      title="Record against the league median score each week"
+                    >
+                      vs Median
+                      {getSortIcon('medianWinPercentage')}
+                    </button>
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium uppercase tracking-wider">
+                    <button
+                      onClick={() => handleSort('expectedWins')}
+                      className="flex items-center justify-center hover:text-blue-200 transition-colors"
+                      title="Wins an average schedule would have produced"
+                    >
+                      Exp. Wins
+                      {getSortIcon('expectedWins')}
+                    </button>
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium uppercase tracking-wider">
+                    <button
+                      onClick={() => handleSort('luck')}
+                      className="flex items-center justify-center hover:text-blue-200 transition-colors"
+                      title="Actual wins minus expected wins"
+                    >
+                      Luck
+                      {getSortIcon('luck')}
+                    </button>
+                  </th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
             {sortedTeams.map((team, index) => {
               const totalGames = team.wins + team.losses + team.ties
+              const teamKey = `${team.franchiseId}-${team.year}`
+              const isExpanded = expandedTeam === teamKey && !!team.luck
               return (
-                <tr 
-                  key={`${team.franchiseId}-${team.year}`} 
-                  className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                >
+                <Fragment key={teamKey}>
+                <tr className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
                   <td className="px-4 py-3 whitespace-nowrap">
                     <div className={`
                       w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold
@@ -275,7 +492,20 @@ function MatchupsTable({ teams, selectedWeeks }: MatchupsTableProps) {
                     </div>
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-900 dark:text-white font-medium">
-                    {team.teamName}
+                    {team.luck ? (
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => setExpandedTeam(isExpanded ? null : teamKey)}
+                          className="mr-1 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                          title="Show week-by-week breakdown"
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+                        </button>
+                        <TeamLink franchiseId={team.franchiseId} year={team.year}>{team.teamName}</TeamLink>
+                      </div>
+                    ) : (
+                      <TeamLink franchiseId={team.franchiseId} year={team.year}>{team.teamName}</TeamLink>
+                    )}
                   </td>
                   {hasMultipleYears && (
                     <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white font-medium">
@@ -310,7 +540,76 @@ function MatchupsTable({ teams, selectedWeeks }: MatchupsTableProps) {
                   <td className={`px-4 py-3 whitespace-nowrap text-sm text-center font-bold ${getPointDifferentialStyle(team.pointsFor, team.pointsAgainst)}`}>
                     {calculatePointDifferential(team.pointsFor, team.pointsAgainst)}
                   </td>
+                  {hasLuck && (
+                    <>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
+                        {team.luck ? (
+                          <>
+                            {formatRecord(team.luck.allPlayWins, team.luck.allPlayLosses, team.luck.allPlayTies)}
+                            <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                              ({formatWinPercentageValue(team.luck.allPlayWinPercentage)})
+                            </span>
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white">
+                        {team.luck ? formatRecord(team.luck.medianWins, team.luck.medianLosses, team.luck.medianTies) : '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white font-medium">
+                        {team.luck ? team.luck.expectedWins.toFixed(1) : '—'}
+                      </td>
+                      <td className={`px-4 py-3 whitespace-nowrap text-sm text-center font-bold ${team.luck ? getLuckStyle(team.luck.luck) : 'text-gray-400'}`}>
+                        {team.luck ? formatLuck(team.luck.luck) : '—'}
+                      </td>
+                    </>
+                  )}
                 </tr>
+                {isExpanded && team.luck && (
+                  <tr className="bg-gray-50 dark:bg-gray-900/40">
+                    <td colSpan={columnCount} className="px-4 py-3">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                            <th className="px-3 py-2 text-left">Week</th>
+                            <th className="px-3 py-2 text-left">Opponent</th>
+                            <th className="px-3 py-2 text-center">Score</th>
+                            <th className="px-3 py-2 text-center">Result</th>
+                            <th className="px-3 py-2 text-center">All-Play</th>
+                            <th className="px-3 py-2 text-center">vs Median</th>
+                            <th className="px-3 py-2 text-center">Exp. Wins</th>
+                            <th className="px-3 py-2 text-center">Luck</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                          {team.luck.weeks.map(week => (
+                            <tr key={week.week} className="text-gray-900 dark:text-white">
+                              <td className="px-3 py-2">{week.week}</td>
+                              <td className="px-3 py-2">
+                                <TeamLink franchiseId={week.opponentId} year={team.year}>
+                                  {teamNames[`${week.opponentId}-${team.year}`] || week.opponentId}
+                                </TeamLink>
+                              </td>
+                              <td className="px-3 py-2 text-center whitespace-nowrap">
+                                {formatPoints(week.score)} - {formatPoints(week.opponentScore)}
+                              </td>
+                              <td className={`px-3 py-2 text-center font-bold ${getResultStyle(week.result)}`}>{week.result}</td>
+                              <td className="px-3 py-2 text-center whitespace-nowrap">
+                                {formatRecord(week.allPlayWins, week.allPlayLosses, week.allPlayTies)}
+                              </td>
+                              <td className={`px-3 py-2 text-center font-bold ${getResultStyle(week.vsMedian)}`}>
+                                {week.vsMedian}
+                                <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">({formatPoints(week.medianScore)})</span>
+                              </td>
+                              <td className="px-3 py-2 text-center">{week.expectedWins.toFixed(2)}</td>
+                              <td className={`px-3 py-2 text-center font-bold ${getLuckStyle(week.luck)}`}>{formatLuck(week.luck)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+                </Fragment>
               )
             })}
           </tbody>
@@ -0,0 +1,251 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Check, Pencil, UserCog } from 'lucide-react'
+import { useOwnerRegistry, useOwnerRegistryAction, type OwnerRegistryAction } from '../hooks/useOwnerRegistry'
+import type { FranchiseSeasonOwners, OwnerSummary } from '@/lib/owner-registry'
+
+const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300'
+const buttonClass = 'px-3 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors'
+
+function formatTenure(startYear: number, endYear: number): string {
+  return startYear === endYear ? `${startYear}` : `${startYear}-${endYear}`
+}
+
+function OwnerRow({ owner, onRename, disabled }: {
+  owner: OwnerSummary
+  onRename: (name: string) => void
+  disabled: boolean
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+      <td className="px-3 py-2">
+        {draft === null ? (
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-900 dark:text-white">{owner.name}</span>
+            <button
+              onClick={() => setDraft(owner.name)}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              title="Rename (an existing name merges the two owners)"
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+          </div>
+        ) : (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (draft.trim() && draft.trim() !== owner.name) onRename(draft)
+              setDraft(null)
+            }}
+          >
+            <input value={draft} onChange={(e) => setDraft(e.target.value)} className={inputClass} autoFocus />
+            <button type="submit" disabled={disabled} className="text-green-600 dark:text-green-400">
+              <Check className="h-4 w-4" />
+            </button>
+          </form>
+        )}
+      </td>
+      <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300" title={owner.seasons.join(', ')}>
+        {owner.seasons.length}
+      </td>
+      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+        {owner.tenures.map(tenure => (
+          <div key={`${tenure.franchiseId}-${tenure.startYear}`} className="text-xs">
+            Franchise {tenure.franchiseId} · {formatTenure(tenure.startYear, tenure.endYear)}
+            {tenure.role === 'co-owner' && ' (co-owner)'}
+          </div>
+        ))}
+      </td>
+      <td className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+        {owner.coOwners.length > 0
+          ? owner.coOwners.map(coOwner => `${coOwner.name} (${coOwner.years.join(', ')})`).join(' · ')
+          : '-'}
+      </td>
+    </tr>
+  )
+}
+
+function FranchiseSeasonRow({ season, onAssign, disabled }: {
+  season: FranchiseSeasonOwners
+  onAssign: (owners: string[]) => void
+  disabled: boolean
+}) {
+  const current = season.owners.map(owner => owner.name).join(', ')
+  const [draft, setDraft] = useState(current)
+
+  return (
+    <tr className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+      <td className="px-3 py-2 text-gray-900 dark:text-white">{season.franchiseId}</td>
+      <td className="px-3 py-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className={`${inputClass} w-full`}
+          placeholder="Primary owner, co-owner..."
+        />
+      </td>
+      <td className="px-3 py-2 text-center text-xs text-gray-500 dark:text-gray-400">
+        {Array.from(new Set(season.owners.map(owner => owner.source))).join(', ')}
+      </td>
+      <td className="px-3 py-2 text-right">
+        <button
+          onClick={() => onAssign(draft.split(',').map(name => name.trim()).filter(Boolean))}
+          disabled={disabled || draft === current || draft.trim() === ''}
+          className={buttonClass}
+        >
+          Save
+        </button>
+      </td>
+    </tr>
+  )
+}
+
+/**
+ * Owner Registry Admin
+ * Seeds the owner registry from MFL and edits who owned each franchise season
+ */
+export default function OwnerRegistryAdmin() {
+  const { data: registry, isLoading, error } = useOwnerRegistry()
+  const [adminToken, setAdminToken] = useState('')
+  const [overwrite, setOverwrite] = useState(false)
+  const [selectedYear, setSelectedYear] = useState<number | null>(null)
+  const registryAction = useOwnerRegistryAction(adminToken)
+
+  const years = useMemo(
+    () => Array.from(new Set((registry?.franchiseSeasons || []).map(season => season.year))),
+    [registry]
+  )
+  const year = selectedYear ?? years[0]
+  const seasons = (registry?.franchiseSeasons || []).filter(season => season.year === year)
+
+  const run = (request: OwnerRegistryAction) => registryAction.mutate(request)
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 flex items-center mb-2">
+              <ArrowLeft className="mr-1 h-4 w-4" /> Back to dashboard
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+              <UserCog className="mr-2 h-6 w-6 text-blue-500" />
+              Owner Registry
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Who owned each franchise, season by season. Owner names across the dashboard come from here.
+            </p>
+          </div>
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(e) => setAdminToken(e.target.value)}
+            className={inputClass}
+            placeholder="Admin token (MFL_SYNC_TOKEN)"
+          />
+        </div>
+
+        {/* Seed */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap items-center gap-4">
+          <button onClick={() => run({ action: 'seed', overwrite })} disabled={registryAction.isPending} className={buttonClass}>
+            {registryAction.isPending ? 'Working...' : 'Seed from MFL'}
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+            Replace franchise seasons already in the registry
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Uses each franchise&apos;s MFL owner name (&quot;A &amp; B&quot; adds a co-owner), falling back to the built-in mappings.
+          </p>
+          {registryAction.error && (
+            <p className="w-full text-sm text-red-600 dark:text-red-400">
+              {registryAction.error instanceof Error ? registryAction.error.message : 'Request failed'}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : error || !registry ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+            <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">Owner Registry Unavailable</h3>
+            <p className="text-red-600 dark:text-red-500">
+              {error instanceof Error ? error.message : 'Could not load the owner registry'}
+            </p>
+          </div>
+        ) : registry.owners.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The registry is empty, so owner names still come from the built-in mappings. Seed it from MFL to start.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Franchise seasons */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Franchise Owners</h2>
+                <select value={year} onChange={(e) => setSelectedYear(parseInt(e.target.value))} className={inputClass}>
+                  {years.map(y => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </select>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="px-3 py-2">Franchise</th>
+                    <th className="px-3 py-2">Owners (primary first)</th>
+                    <th className="px-3 py-2 text-center">Source</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {seasons.map(season => (
+                    <FranchiseSeasonRow
+                      key={`${season.year}-${season.franchiseId}-${season.owners.map(owner => owner.ownerId).join('-')}`}
+                      season={season}
+                      disabled={registryAction.isPending}
+                      onAssign={(owners) => run({ action: 'assign', franchiseId: season.franchiseId, year: season.year, owners })}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Owners */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3 overflow-x-auto">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Owners</h2>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <th className="px-3 py-2">Owner</th>
+                    <th className="px-3 py-2 text-center">Seasons</th>
+                    <th className="px-3 py-2">Tenure</th>
+                    <th className="px-3 py-2">Co-owners</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {registry.owners.map(owner => (
+                    <OwnerRow
+                      key={`${owner.id}-${owner.name}`}
+                      owner={owner}
+                      disabled={registryAction.isPending}
+                      onRename={(name) => run({ action: 'rename', ownerId: owner.id, name })}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
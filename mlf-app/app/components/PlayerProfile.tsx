@@ -0,0 +1,281 @@
+'use client'
+
+import Link from 'next/link'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js'
+import { Line } from 'react-chartjs-2'
+import { ArrowLeft, User } from 'lucide-react'
+import { usePlayerProfile } from '../hooks/usePlayerProfile'
+import { formatPoints } from '@/lib/utils'
+import type { PlayerConsistency, PlayerProfile as PlayerProfileData, PlayerUsage } from '@/lib/player-profile'
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+)
+
+function formatPercent(share: number): string {
+  return `${Math.round(share * 100)}%`
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{label}</div>
+      <div className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{value}</div>
+      {detail && <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</div>}
+    </div>
+  )
+}
+
+function CareerCards({ career }: { career: PlayerConsistency & PlayerUsage & { points: number } }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      <StatCard label="Games" value={`${career.games}`} detail={`${career.weeksRostered} weeks rostered`} />
+      <StatCard label="Average" value={formatPoints(career.average)} detail={`median ${formatPoints(career.median)}`} />
+      <StatCard
+        label="Volatility"
+        value={career.stdDev.toFixed(1)}
+        detail={`CV ${career.coefficientOfVariation.toFixed(2)} (lower is steadier)`}
+      />
+      <StatCard
+        label="Floor / Ceiling"
+        value={`${career.floor.toFixed(1)} / ${career.ceiling.toFixed(1)}`}
+        detail="10th / 90th percentile"
+      />
+      <StatCard
+        label="Boom / Bust"
+        value={`${formatPercent(career.boomRate)} / ${formatPercent(career.bustRate)}`}
+        detail="Top / bottom quarter of the position"
+      />
+      <StatCard
+        label="Start Rate"
+        value={formatPercent(career.startRate)}
+        detail={`${career.starts} starts · avg rank ${career.averageRank.toFixed(1)}`}
+      />
+    </div>
+  )
+}
+
+function WeeklyChart({ profile }: { profile: PlayerProfileData }) {
+  const multipleYears = profile.seasons.length > 1
+  const data = {
+    labels: profile.weeks.map(week => multipleYears ? `${week.year} W${week.week}` : `Week ${week.week}`),
+    datasets: [
+      {
+        label: 'Points',
+        data: profile.weeks.map(week => week.score),
+        borderColor: 'rgba(54, 162, 235, 1)',
+        backgroundColor: profile.weeks.map(week =>
+          week.slot === 'starter' ? 'rgba(54, 162, 235, 0.8)' : 'rgba(201, 203, 207, 0.8)'
+        ),
+        tension: 0.1,
+        fill: false,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Position Rank',
+        data: profile.weeks.map(week => week.positionRank),
+        borderColor: 'rgba(255, 159, 64, 1)',
+        backgroundColor: 'rgba(255, 159, 64, 0.8)',
+        borderDash: [4, 4],
+        tension: 0.1,
+        fill: false,
+        yAxisID: 'rank',
+      },
+    ],
+  }
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: true,
+        position: 'top' as const,
+        labels: {
+          color: '#ffffff',
+          usePointStyle: true,
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        position: 'left' as const,
+        title: { display: true, text: 'Points', color: '#ffffff' },
+        ticks: { color: '#ffffff' },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+      },
+      rank: {
+        reverse: true,
+        min: 1,
+        position: 'right' as const,
+        title: { display: true, text: 'Position Rank', color: '#ffffff' },
+        ticks: { color: '#ffffff', precision: 0 },
+        grid: { drawOnChartArea: false },
+      },
+      x: {
+        ticks: { color: '#ffffff' },
+        grid: { color: 'rgba(255, 255, 255, 0.1)' },
+      },
+    },
+    interaction: {
+      intersect: false,
+      mode: 'index' as const,
+    },
+  }
+
+  return (
+    <div className="h-80 w-full">
+      <Line data={data} options={options} />
+    </div>
+  )
+}
+
+/**
+ * Player Profile
+ * One player's league history: weekly points and position rank, who rostered
+ * them and whether they started, and how consistent their scoring was
+ */
+export default function PlayerProfile({ playerId }: { playerId: string }) {
+  const { data: profile, isLoading, error } = usePlayerProfile(playerId)
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 flex items-center">
+          <ArrowLeft className="mr-1 h-4 w-4" /> Back to dashboard
+        </Link>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+              <p className="text-gray-600 dark:text-gray-400">Loading every season&apos;s lineups...</p>
+            </div>
+          </div>
+        ) : error || !profile ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+            <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">Player Unavailable</h3>
+            <p className="text-red-600 dark:text-red-500">
+              {error instanceof Error ? error.message : 'Could not load this player'}
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Header */}
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+                <User className="mr-2 h-6 w-6 text-blue-500" />
+                {profile.name}
+              </h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {profile.position}{profile.nflTeam && ` · ${profile.nflTeam}`} · {formatPoints(profile.career.points)} points
+                across {profile.seasons.length} {profile.seasons.length === 1 ? 'season' : 'seasons'} in the league
+              </p>
+            </div>
+
+            <CareerCards career={profile.career} />
+
+            {/* Weekly points and rank */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-2">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Weekly Points and Position Rank</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Rank is among every rostered player at the position that week; grey points are bench weeks
+              </p>
+              <WeeklyChart profile={profile} />
+            </div>
+
+            {/* Seasons */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+              <h2 className="px-4 pt-4 text-lg font-semibold text-gray-900 dark:text-white">Seasons</h2>
+              <table className="min-w-full text-sm mt-2">
+                <thead className="bg-gray-50 dark:bg-gray-900 text-xs uppercase text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Year</th>
+                    <th className="px-4 py-2 text-left">Rostered By</th>
+                    <th className="px-4 py-2 text-right">Starts</th>
+                    <th className="px-4 py-2 text-right">Points</th>
+                    <th className="px-4 py-2 text-right" title="MFL's season total, including weeks nobody rostered them">Season Total</th>
+                    <th className="px-4 py-2 text-right">Avg</th>
+                    <th className="px-4 py-2 text-right">Std Dev</th>
+                    <th className="px-4 py-2 text-right">Boom</th>
+                    <th className="px-4 py-2 text-right">Bust</th>
+                    <th className="px-4 py-2 text-right">Avg Rank</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {[...profile.seasons].reverse().map(season => (
+                    <tr key={season.year} className="text-gray-900 dark:text-white">
+                      <td className="px-4 py-2">{season.year}</td>
+                      <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{season.teams.join(', ')}</td>
+                      <td className="px-4 py-2 text-right">{season.starts} / {season.weeksRostered}</td>
+                      <td className="px-4 py-2 text-right">{formatPoints(season.points)}</td>
+                      <td className="px-4 py-2 text-right">{season.seasonPoints === null ? '-' : formatPoints(season.seasonPoints)}</td>
+                      <td className="px-4 py-2 text-right">{formatPoints(season.average)}</td>
+                      <td className="px-4 py-2 text-right">{season.stdDev.toFixed(1)}</td>
+                      <td className="px-4 py-2 text-right">{formatPercent(season.boomRate)}</td>
+                      <td className="px-4 py-2 text-right">{formatPercent(season.bustRate)}</td>
+                      <td className="px-4 py-2 text-right">{season.averageRank.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Weekly log */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+              <h2 className="px-4 pt-4 text-lg font-semibold text-gray-900 dark:text-white">Weekly Log</h2>
+              <table className="min-w-full text-sm mt-2">
+                <thead className="bg-gray-50 dark:bg-gray-900 text-xs uppercase text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Week</th>
+                    <th className="px-4 py-2 text-left">Team</th>
+                    <th className="px-4 py-2 text-left">Slot</th>
+                    <th className="px-4 py-2 text-right">Points</th>
+                    <th className="px-4 py-2 text-right">Position Rank</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {[...profile.weeks].reverse().map(week => (
+                    <tr key={`${week.year}-${week.week}`} className="text-gray-900 dark:text-white">
+                      <td className="px-4 py-2">{week.year} W{week.week}</td>
+                      <td className="px-4 py-2">
+                        {week.teamName}
+                        {week.manager && <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">{week.manager}</span>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={week.slot === 'starter'
+                          ? 'text-green-600 dark:text-green-400'
+                          : 'text-gray-500 dark:text-gray-400'}
+                        >
+                          {week.slot === 'starter' ? 'Starter' : 'Bench'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatPoints(week.score)}</td>
+                      <td className="px-4 py-2 text-right">{week.positionRank} of {week.positionCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
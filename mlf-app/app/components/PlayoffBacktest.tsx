@@ -0,0 +1,276 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Chart, registerables } from 'chart.js'
+import { usePlayoffBacktest } from '../hooks/usePlayoffBacktest'
+import ExportButton from './ExportButton'
+import { exportBacktestData, type ExportOptions } from '@/lib/export-utils'
+import type { BacktestModelSummary } from '@/lib/playoff-backtest'
+import type { GameModel } from '@/lib/score-model'
+
+Chart.register(...registerables)
+
+const ITERATION_OPTIONS = [1000, 2000, 5000, 10000]
+
+const MODEL_LABELS: Record<GameModel, string> = {
+  'score-distribution': 'Score distribution',
+  'win-probability': 'Win probability (legacy)',
+  elo: 'ELO ratings'
+}
+
+const MODEL_COLORS: Record<GameModel, string> = {
+  'score-distribution': 'rgb(59, 130, 246)',
+  'win-probability': 'rgb(234, 88, 12)',
+  elo: 'rgb(22, 163, 74)'
+}
+
+/**
+ * Playoff Model Backtest
+ * Replays completed seasons and shows how well-calibrated each model's playoff probabilities were
+ */
+export default function PlayoffBacktest() {
+  const [iterations, setIterations] = useState(2000)
+  const { data: report, isLoading, error } = usePlayoffBacktest({ iterations })
+
+  const handleExport = (options: ExportOptions) => {
+    if (report) exportBacktestData(report, options)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">
+            Replaying completed seasons...
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-500 mt-2">
+            Running {iterations.toLocaleString()} simulations per week and model
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+        <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">
+          Error Running Backtest
+        </h3>
+        <p className="text-red-600 dark:text-red-500">
+          {error instanceof Error ? error.message : 'No backtest data available'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Playoff Probability Backtest
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Seasons {report.years.join(', ')} · forecasts after every regular-season week ·{' '}
+            {report.iterations.toLocaleString()} simulations each
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={iterations}
+            onChange={(e) => setIterations(parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+          >
+            {ITERATION_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.toLocaleString()} simulations</option>
+            ))}
+          </select>
+          <ExportButton onExport={handleExport} label="Export" />
+        </div>
+      </div>
+
+      {/* Model Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {report.models.map(summary => (
+          <ModelSummaryCard key={summary.model} summary={summary} />
+        ))}
+      </div>
+
+      {/* Reliability Curve */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <ReliabilityChart models={report.models} />
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          Forecasts are grouped into 10% buckets. A well-calibrated model sits on the diagonal:
+          teams given 70% should make the playoffs about 70% of the time.
+        </p>
+      </div>
+
+      {/* Per-season breakdown */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Season
+              </th>
+              {report.models.map(summary => (
+                <th
+                  key={summary.model}
+                  className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                >
+                  {MODEL_LABELS[summary.model]} Brier / Log-loss
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {report.years.map(year => (
+              <tr key={year}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">{year}</td>
+                {report.models.map(summary => {
+                  const season = summary.bySeason.find(s => s.year === year)
+                  return (
+                    <td key={summary.model} className="px-4 py-3 text-sm text-right text-gray-700 dark:text-gray-300">
+                      {season ? `${season.brierScore.toFixed(4)} / ${season.logLoss.toFixed(4)}` : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function ModelSummaryCard({ summary }: { summary: BacktestModelSummary }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {MODEL_LABELS[summary.model]}
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        {summary.predictions.toLocaleString()} forecasts
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">Brier score</div>
+          <div className="text-2xl font-bold text-gray-900 dark:text-white">{summary.brierScore.toFixed(4)}</div>
+          <div className="text-xs text-gray-400">lower is better · 0.25 = coin flip</div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">Log-loss</div>
+          <div className="text-2xl font-bold text-gray-900 dark:text-white">{summary.logLoss.toFixed(4)}</div>
+          <div className="text-xs text-gray-400">lower is better · 0.693 = coin flip</div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ReliabilityChart({ models }: { models: BacktestModelSummary[] }) {
+  const chartRef = useRef<HTMLCanvasElement>(null)
+  const chartInstance = useRef<Chart | null>(null)
+
+  useEffect(() => {
+    if (!chartRef.current) return
+
+    const ctx = chartRef.current.getContext('2d')
+    if (!ctx) return
+
+    if (chartInstance.current) {
+      chartInstance.current.destroy()
+    }
+
+    chartInstance.current = new Chart(ctx, {
+      type: 'scatter',
+      data: {
+        datasets: [
+          {
+            label: 'Perfect calibration',
+            data: [{ x: 0, y: 0, count: undefined }, { x: 100, y: 100, count: undefined }],
+            showLine: true,
+            borderColor: 'rgba(107, 114, 128, 0.6)',
+            borderDash: [5, 5],
+            borderWidth: 1,
+            pointRadius: 0
+          },
+          ...models.map(summary => ({
+            label: MODEL_LABELS[summary.model],
+            data: summary.reliability.map(bin => ({
+              x: bin.meanPredicted * 100,
+              y: bin.observedRate * 100,
+              count: bin.count as number | undefined
+            })),
+            showLine: true,
+            borderColor: MODEL_COLORS[summary.model],
+            backgroundColor: MODEL_COLORS[summary.model],
+            borderWidth: 2,
+            pointRadius: 5,
+            pointHoverRadius: 7
+          }))
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            display: true,
+            position: 'top',
+            labels: {
+              usePointStyle: true,
+              padding: 15
+            }
+          },
+          title: {
+            display: true,
+            text: 'Reliability Curve',
+            font: {
+              size: 16,
+              weight: 'bold'
+            }
+          },
+          tooltip: {
+            callbacks: {
+              label: function(context) {
+                const point = context.raw as { x: number; y: number; count?: number }
+                const label = context.dataset.label || ''
+                if (point.count === undefined) return label
+                return `${label}: predicted ${point.x.toFixed(1)}%, actual ${point.y.toFixed(1)}% (${point.count} forecasts)`
+              }
+            }
+          }
+        },
+        scales: {
+          x: {
+            title: { display: true, text: 'Predicted playoff probability (%)' },
+            min: 0,
+            max: 100
+          },
+          y: {
+            title: { display: true, text: 'Observed playoff rate (%)' },
+            min: 0,
+            max: 100
+          }
+        }
+      }
+    })
+
+    return () => {
+      if (chartInstance.current) {
+        chartInstance.current.destroy()
+      }
+    }
+  }, [models])
+
+  return (
+    <div className="h-80">
+      <canvas ref={chartRef}></canvas>
+    </div>
+  )
+}
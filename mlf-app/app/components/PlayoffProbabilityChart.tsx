@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { Chart, registerables } from 'chart.js'
-import { getTeamHistory, type TeamPlayoffHistory } from '@/lib/playoff-history'
+import { usePlayoffHistory } from '../hooks/usePlayoffHistory'
 
 Chart.register(...registerables)
 
@@ -21,14 +21,11 @@ export default function PlayoffProbabilityChart({
 }: PlayoffProbabilityChartProps) {
   const chartRef = useRef<HTMLCanvasElement>(null)
   const chartInstance = useRef<Chart | null>(null)
-  const [history, setHistory] = useState<TeamPlayoffHistory | null>(null)
   const [showDivisionLine, setShowDivisionLine] = useState(true)
 
-  // Load historical data
-  useEffect(() => {
-    const teamHistory = getTeamHistory(franchiseId, year)
-    setHistory(teamHistory)
-  }, [franchiseId, year])
+  // Shared history stored server-side (see /api/mfl/playoff-history)
+  const { data: historyData, isLoading, error } = usePlayoffHistory({ year })
+  const history = historyData?.teams[franchiseId] || null
 
   // Create/update chart
   useEffect(() => {
@@ -190,11 +187,31 @@ export default function PlayoffProbabilityChart({
     }
   }, [history, franchiseName, showDivisionLine])
 
+  if (isLoading) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <p className="text-center text-gray-500 dark:text-gray-400">
+          Loading playoff probability history...
+        </p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <p className="text-center text-red-600 dark:text-red-400">
+          {error instanceof Error ? error.message : 'Failed to load playoff history'}
+        </p>
+      </div>
+    )
+  }
+
   if (!history || history.snapshots.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
         <p className="text-center text-gray-500 dark:text-gray-400">
-          No historical data available yet. Data will appear after Week 2.
+          No historical data recorded yet. Weekly odds appear once completed weeks have been synced.
         </p>
       </div>
     )
@@ -4,212 +4,66 @@ import { useState, useEffect, useMemo } from 'react'
 import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
 import type { DivisionsData } from '@/app/api/mfl/divisions/route'
 import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
-import { calculatePlayoffProbabilities, getPlayoffPicture, type PlayoffProbabilities } from '@/lib/playoff-calculator'
-import { batchUpdateSnapshots, getProbabilityChange } from '@/lib/playoff-history'
+import {
+  calculatePlayoffProbabilities,
+  getPlayoffPicture,
+  type PlayoffProbabilities,
+  type ProjectedBracket,
+  type SimulationOptions,
+  type WeekScoreProfiles
+} from '@/lib/playoff-calculator'
+import { getPlayoffBracketConfig } from '@/lib/season-config'
+import { buildHeadToHeadRecords, type HeadToHeadRecords } from '@/lib/tiebreaker-utils'
+import { describeTiebreakerChain, getTiebreakerChain } from '@/lib/tiebreaker-rules'
+import { getScoringFormat, SCORING_FORMAT_LABELS, SCORING_FORMATS, type ScoringFormat } from '@/lib/scoring-format'
+import { applyClinchAnalysis, solveClinchScenarios } from '@/lib/clinch-solver'
+import type { TeamMatchupSummary } from '@/app/api/mfl/matchups/route'
+import { deriveSeed } from '@/lib/random'
+import { buildScoreProfiles, DEFAULT_GAME_MODEL, type GameModel, type WeeklyScoreHistory } from '@/lib/score-model'
+import type { EloRatingsResponse } from '@/lib/elo-ratings'
+import { toProjectionScoreProfiles, type WeeklyProjections } from '@/lib/weekly-projections'
+import { getProbabilityChange, hasLegacyPlayoffHistory } from '@/lib/playoff-history'
+import { exportLegacyPlayoffHistory } from '@/lib/export-utils'
+import { usePlayoffHistory } from '../hooks/usePlayoffHistory'
 import TeamDetailModal from './TeamDetailModal'
+import TeamLink from './TeamLink'
+import { useLeague } from '../providers/LeagueProvider'
 
 interface PlayoffProjectionsProps {
   year: number
 }
 
 export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
+  const { leagueId } = useLeague()
   const [standings, setStandings] = useState<StandingsFranchise[]>([])
   const [divisions, setDivisions] = useState<DivisionsData | null>(null)
   const [schedules, setSchedules] = useState<TeamSchedule[]>([])
   const [currentWeek, setCurrentWeek] = useState<number>(1)
   const [probabilities, setProbabilities] = useState<PlayoffProbabilities[]>([])
+  const [simulationInfo, setSimulationInfo] = useState<{ seed: number; iterations: number } | null>(null)
+  const [gameModel, setGameModel] = useState<GameModel>(DEFAULT_GAME_MODEL)
+  // null follows the league's own format; either format can be previewed
+  const [formatOverride, setFormatOverride] = useState<ScoringFormat | null>(null)
+  // Decide this week's games from roster projections instead of the game model
+  const [useRosterProjections, setUseRosterProjections] = useState(false)
+  const [projectedBracket, setProjectedBracket] = useState<ProjectedBracket | null>(null)
+  // The options behind the headline odds, shared with the team detail view so its
+  // scenarios and rooting interests run the same model on the same inputs
+  const [simulationOptions, setSimulationOptions] = useState<SimulationOptions>({})
   const [selectedTeam, setSelectedTeam] = useState<string | null>(null)
-  const [probabilityChanges, setProbabilityChanges] = useState<Record<string, number | null>>({})
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date())
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [hasLegacyHistory, setHasLegacyHistory] = useState(false)
 
-  /**
-   * Backfill historical playoff probability data using matchups API
-   * Reconstructs standings week-by-week and runs simulations for each
-   */
-  const backfillPlayoffHistoryFromMatchups = async (
-    currentWeek: number,
-    divisionsData: DivisionsData
-  ) => {
-    // Only backfill completed weeks (current week is in progress, so use currentWeek - 1)
-    const completedWeeks = Math.max(1, currentWeek - 1)
-    console.log(`[Playoff Backfill] Starting backfill for weeks 1-${completedWeeks} (current week ${currentWeek} in progress)`)
+  const leagueScoringFormat = getScoringFormat(leagueId, year)
+  const scoringFormat = formatOverride ?? leagueScoringFormat
 
-    try {
-      // Fetch matchup data for all completed weeks in one API call
-      const weeksParam = Array.from({ length: completedWeeks }, (_, i) => i + 1).join(',')
-      const response = await fetch(`/api/mfl/matchups?year=${year}&weeks=${weeksParam}`)
-
-      if (!response.ok) {
-        console.error(`[Playoff Backfill] Failed to fetch matchup data:`, response.status)
-        throw new Error(`Failed to fetch matchup data: ${response.status}`)
-      }
-
-      interface MatchupTeamData {
-        franchiseId: string
-        manager: string
-        teamName: string
-        matchups: Array<{
-          week: number
-          score: number
-          opponentScore: number
-          result: 'W' | 'L' | 'T'
-        }>
-      }
-
-      const matchupData: MatchupTeamData[] = await response.json()
-      const allTeamIds = new Set(matchupData.map(team => team.franchiseId))
-
-      // Fetch full season schedule for remaining games simulation
-      // This ensures historical simulations have accurate remaining schedules
-      console.log('[Playoff Backfill] Fetching full season schedule...')
-      const scheduleResponse = await fetch(`/api/mfl/schedule-remaining?year=${year}&currentWeek=14`)
-
-      let fullSeasonSchedules: TeamSchedule[] = []
-      if (scheduleResponse.ok) {
-        const scheduleData = await scheduleResponse.json()
-        fullSeasonSchedules = scheduleData.schedules || []
-        console.log(`[Playoff Backfill] Loaded schedule with ${fullSeasonSchedules.length} teams`)
-      } else {
-        console.warn('[Playoff Backfill] Failed to fetch schedule, using empty schedules')
-      }
-
-      // Process each completed week sequentially, building up cumulative standings
-      for (let week = 1; week <= completedWeeks; week++) {
-        console.log(`[Playoff Backfill] Processing week ${week}...`)
-
-        // Build cumulative standings through this week
-        const teamStandingsMap: Record<string, {
-          wins: number
-          losses: number
-          ties: number
-          pointsFor: number
-          pointsAgainst: number
-          name: string
-        }> = {}
-
-        // Initialize all teams
-        matchupData.forEach(team => {
-          teamStandingsMap[team.franchiseId] = {
-            wins: 0,
-            losses: 0,
-            ties: 0,
-            pointsFor: 0,
-            pointsAgainst: 0,
-            name: team.teamName
-          }
-        })
-
-        // Accumulate stats through this week
-        matchupData.forEach(team => {
-          // Process all matchups up to and including current week
-          team.matchups
-            .filter(m => m.week <= week)
-            .forEach(matchup => {
-              const teamData = teamStandingsMap[team.franchiseId]
-
-              // Update record
-              if (matchup.result === 'W') {
-                teamData.wins++
-              } else if (matchup.result === 'L') {
-                teamData.losses++
-              } else {
-                teamData.ties++
-              }
-
-              // Update points
-              teamData.pointsFor += matchup.score
-              teamData.pointsAgainst += matchup.opponentScore
-            })
-        })
-
-        // Convert to StandingsFranchise format
-        const standingsForWeek: StandingsFranchise[] = Object.entries(teamStandingsMap).map(([id, data]) => {
-          const gamesPlayed = data.wins + data.losses + data.ties
-          return {
-            id,
-            name: data.name,
-            h2hw: data.wins.toString(),
-            h2hl: data.losses.toString(),
-            h2ht: data.ties.toString(),
-            h2hpct: ((data.wins + data.ties * 0.5) / Math.max(1, gamesPlayed)).toFixed(3),
-            h2hwlt: `${data.wins}-${data.losses}-${data.ties}`,
-            pf: data.pointsFor.toFixed(2),
-            pa: data.pointsAgainst.toFixed(2),
-            pp: data.pointsFor.toFixed(2),
-            avgpf: (data.pointsFor / Math.max(1, gamesPlayed)).toFixed(2),
-            avgpa: (data.pointsAgainst / Math.max(1, gamesPlayed)).toFixed(2),
-            divwlt: '0-0-0',
-            strk: '',
-            vp: '0',
-            all_play_w: '0',
-            all_play_l: '0',
-            all_play_t: '0'
-          }
-        })
-
-        // Create schedules with remaining games for this historical week
-        const schedulesForWeek: TeamSchedule[] = fullSeasonSchedules.length > 0
-          ? fullSeasonSchedules.map(schedule => ({
-              franchiseId: schedule.franchiseId,
-              remainingGames: schedule.remainingGames.filter(game => game.week > week),
-              completedGames: week,
-              totalGames: 14
-            }))
-          : Array.from(allTeamIds).map(teamId => ({
-              franchiseId: teamId,
-              remainingGames: [],
-              completedGames: week,
-              totalGames: 14
-            }))
-
-        const remainingGamesCount = schedulesForWeek[0]?.remainingGames.length || 0
-        console.log(`[Playoff Backfill] Week ${week}: ${remainingGamesCount} games remaining per team`)
-
-        // Calculate playoff probabilities for this week's standings state
-        const probsForWeek = calculatePlayoffProbabilities(
-          standingsForWeek,
-          schedulesForWeek,
-          divisionsData
-        )
-
-        // Save historical snapshot for this week
-        batchUpdateSnapshots(
-          year,
-          week,
-          probsForWeek.map(p => {
-            const standing = standingsForWeek.find(s => s.id === p.franchiseId)
-            return {
-              franchiseId: p.franchiseId,
-              franchiseName: standing?.name || p.franchiseId,
-              playoffProbability: p.playoffProbability,
-              divisionWinProbability: p.divisionWinProbability,
-              avgSeed: p.averageSeed,
-              wins: parseInt(standing?.h2hw || '0'),
-              losses: parseInt(standing?.h2hl || '0'),
-              ties: parseInt(standing?.h2ht || '0'),
-              pointsFor: parseFloat(standing?.pf || '0'),
-              gamesBack: 0
-            }
-          })
-        )
-
-        console.log(`[Playoff Backfill] ✓ Saved snapshot for week ${week} (Record: ${standingsForWeek[0]?.h2hwlt || 'N/A'})`)
-      }
-
-      // Set flag to prevent re-backfilling
-      if (typeof window !== 'undefined') {
-        localStorage.setItem(`mfl_playoff_history_backfilled_${year}`, 'true')
-      }
-
-      console.log(`[Playoff Backfill] ✓ Completed backfill for ${completedWeeks} completed weeks`)
-    } catch (error) {
-      console.error('[Playoff Backfill] Error:', error)
-      throw error
-    }
-  }
+  // History saved in this browser by earlier versions can be downloaded for import
+  useEffect(() => {
+    setHasLegacyHistory(hasLegacyPlayoffHistory())
+  }, [])
 
   // Fetch all necessary data
   const fetchPlayoffData = async () => {
@@ -218,95 +72,145 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
       setError(null)
 
       // Fetch current week
-      const weekResponse = await fetch(`/api/mfl/current-week?year=${year}`)
+      const weekResponse = await fetch(`/api/mfl/current-week?year=${year}&leagueId=${leagueId}`)
       if (!weekResponse.ok) throw new Error('Failed to fetch current week')
       const weekData = await weekResponse.json()
       const week = weekData.currentWeek || 1
       setCurrentWeek(week)
 
       // Fetch standings
-      const standingsResponse = await fetch(`/api/mfl/standings?year=${year}`)
+      const standingsResponse = await fetch(`/api/mfl/standings?year=${year}&leagueId=${leagueId}&format=${scoringFormat}`)
       if (!standingsResponse.ok) throw new Error('Failed to fetch standings')
       const standingsData = await standingsResponse.json()
       setStandings(standingsData.leagueStandings?.franchise || [])
 
       // Fetch divisions
-      const divisionsResponse = await fetch(`/api/mfl/divisions?year=${year}`)
+      const divisionsResponse = await fetch(`/api/mfl/divisions?year=${year}&leagueId=${leagueId}`)
       if (!divisionsResponse.ok) throw new Error('Failed to fetch divisions')
       const divisionsData = await divisionsResponse.json()
       setDivisions(divisionsData)
 
       // Fetch schedules
       const schedulesResponse = await fetch(
-        `/api/mfl/schedule-remaining?year=${year}&currentWeek=${week}`
+        `/api/mfl/schedule-remaining?year=${year}&leagueId=${leagueId}&currentWeek=${week}`
       )
       if (!schedulesResponse.ok) throw new Error('Failed to fetch schedules')
       const schedulesData = await schedulesResponse.json()
       setSchedules(schedulesData.schedules || [])
 
+      // Weekly scores for each team's scoring distribution - optional, the model
+      // falls back to standings averages if this fails
+      let weeklyHistory: WeeklyScoreHistory[] = []
+      if (week > 1) {
+        try {
+          const completedWeeks = Array.from({ length: week - 1 }, (_, i) => i + 1).join(',')
+          const progressionResponse = await fetch(
+            `/api/mfl/weekly-progression?year=${year}&leagueId=${leagueId}&weeks=${completedWeeks}`
+          )
+          if (progressionResponse.ok) {
+            const progressionData = await progressionResponse.json()
+            weeklyHistory = Array.isArray(progressionData) ? progressionData : []
+          }
+        } catch (progressionError) {
+          console.warn('[Playoff Projections] Weekly scores unavailable, using standings averages:', progressionError)
+        }
+      }
+
+      // Results so far for the head-to-head tiebreaker - optional, the step is skipped without them
+      let headToHeadRecords: HeadToHeadRecords = {}
+      if (week > 1) {
+        try {
+          const completedWeeks = Array.from({ length: week - 1 }, (_, i) => i + 1).join(',')
+          const matchupsResponse = await fetch(
+            `/api/mfl/matchups?year=${year}&leagueId=${leagueId}&weeks=${completedWeeks}`
+          )
+          if (matchupsResponse.ok) {
+            const matchupsData: TeamMatchupSummary[] = await matchupsResponse.json()
+            headToHeadRecords = buildHeadToHeadRecords(
+              matchupsData.flatMap(team => team.matchups.map(m => ({
+                franchiseId: team.franchiseId,
+                opponentId: m.opponent,
+                result: m.result
+              })))
+            )
+          }
+        } catch (matchupsError) {
+          console.warn('[Playoff Projections] Head-to-head results unavailable:', matchupsError)
+        }
+      }
+
+      // Ratings for the ELO model as they stood before this week's games
+      let eloRatings: Record<string, number> | undefined
+      if (gameModel === 'elo') {
+        const eloResponse = await fetch(`/api/mfl/elo?year=${year}&week=${week - 1}&leagueId=${leagueId}`)
+        if (!eloResponse.ok) throw new Error('Failed to fetch ELO ratings')
+        const eloData: EloRatingsResponse = await eloResponse.json()
+        eloRatings = eloData.ratings
+      }
+
+      // Roster projections for this week - optional, the game model decides the week without them
+      let weekProfiles: WeekScoreProfiles[] | undefined
+      if (useRosterProjections) {
+        try {
+          const projectionsResponse = await fetch(`/api/mfl/projections?year=${year}&week=${week}&leagueId=${leagueId}`)
+          if (projectionsResponse.ok) {
+            const projections: WeeklyProjections = await projectionsResponse.json()
+            weekProfiles = [{ week, profiles: toProjectionScoreProfiles(projections) }]
+          } else {
+            console.warn(`[Playoff Projections] Roster projections unavailable for week ${week}: ${projectionsResponse.status}`)
+          }
+        } catch (projectionsError) {
+          console.warn('[Playoff Projections] Roster projections unavailable:', projectionsError)
+        }
+      }
+
       // Calculate probabilities (after all data is loaded)
       if (standingsData.leagueStandings?.franchise && divisionsData && schedulesData.schedules) {
         console.log('Calculating playoff probabilities...')
 
-        // Check if we need to backfill historical data
-        const needsBackfill = typeof window !== 'undefined' &&
-          !localStorage.getItem(`mfl_playoff_history_backfilled_${year}`) &&
-          week > 1 // Only backfill if we're past week 1
-
-        if (needsBackfill) {
-          console.log('[Playoff Projections] Historical data not found, running backfill...')
-          try {
-            await backfillPlayoffHistoryFromMatchups(week, divisionsData)
-            console.log('[Playoff Projections] ✓ Backfill completed successfully')
-          } catch (backfillError) {
-            console.error('[Playoff Projections] Backfill failed, continuing with current week only:', backfillError)
-            // Continue with normal flow even if backfill fails
-          }
+        const options: SimulationOptions = {
+          gameModel,
+          scoreProfiles: buildScoreProfiles(standingsData.leagueStandings.franchise, weeklyHistory),
+          bracket: getPlayoffBracketConfig(year),
+          tiebreakers: getTiebreakerChain(leagueId, year),
+          headToHead: headToHeadRecords,
+          eloRatings,
+          scoringFormat,
+          weekProfiles
         }
 
-        const probs = calculatePlayoffProbabilities(
+        // Seeded by league/season/week so refreshing unchanged standings shows the same numbers
+        const simulation = calculatePlayoffProbabilities(
           standingsData.leagueStandings.franchise,
           schedulesData.schedules,
-          divisionsData
+          divisionsData,
+          undefined,
+          deriveSeed(leagueId, year, week),
+          options
         )
-        setProbabilities(probs)
+        let probs = simulation.probabilities
 
-        // Only save historical snapshot for completed weeks (not current in-progress week)
-        // This prevents showing partial/incomplete data in the trend chart
-        const lastCompletedWeek = week - 1
-        if (lastCompletedWeek > 0) {
-          console.log(`[Playoff Projections] Saving snapshot for last completed week: ${lastCompletedWeek}`)
-
-          // Note: We save based on current standings but attribute it to last completed week
-          // This represents the state "after week X completed"
-          batchUpdateSnapshots(
-            year,
-            lastCompletedWeek,
-            probs.map(p => {
-              const standing = standingsData.leagueStandings.franchise.find(
-                (f: StandingsFranchise) => f.id === p.franchiseId
-              )
-              return {
-                franchiseId: p.franchiseId,
-                franchiseName: standing?.name || p.franchiseId,
-                playoffProbability: p.playoffProbability,
-                divisionWinProbability: p.divisionWinProbability,
-                avgSeed: p.averageSeed,
-                wins: parseInt(standing?.h2hw || '0'),
-                losses: parseInt(standing?.h2hl || '0'),
-                ties: parseInt(standing?.h2ht || '0'),
-                pointsFor: parseFloat(standing?.pf || '0'),
-                gamesBack: 0
-              }
-            })
+        // Few enough games left to check every outcome - exact clinch/elimination beats the estimate
+        const clinchAnalysis = solveClinchScenarios(
+          standingsData.leagueStandings.franchise,
+          schedulesData.schedules,
+          divisionsData,
+          { tiebreakers: getTiebreakerChain(leagueId, year), headToHead: headToHeadRecords, scoringFormat }
+        )
+        if (clinchAnalysis) {
+          console.log(`[Playoff Projections] Exact clinch scenarios: ${clinchAnalysis.outcomes} outcomes of ${clinchAnalysis.remainingGames} games`)
+          probs = applyClinchAnalysis(
+            probs,
+            clinchAnalysis,
+            id => divisionsData.franchises.find((f: { id: string }) => f.id === id)?.name || id
           )
         }
 
-        const changes: Record<string, number | null> = {}
-        probs.forEach(p => {
-          changes[p.franchiseId] = getProbabilityChange(p.franchiseId, year, lastCompletedWeek > 0 ? lastCompletedWeek : 1)
-        })
-        setProbabilityChanges(changes)
+        setProbabilities(probs)
+        setSimulationOptions(options)
+        setProjectedBracket(simulation.bracket)
+        setSimulationInfo({ seed: simulation.seed, iterations: simulation.iterations })
+
       }
 
       setLastUpdated(new Date())
@@ -323,7 +227,7 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
   // Initial data fetch
   useEffect(() => {
     fetchPlayoffData()
-  }, [year])
+  }, [year, leagueId, gameModel, scoringFormat, useRosterProjections])
 
   // Get playoff picture
   const playoffPicture = useMemo(() => {
@@ -331,6 +235,22 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
     return getPlayoffPicture(standings, probabilities, divisions)
   }, [standings, probabilities, divisions])
 
+  // Week-over-week change from the shared history (recorded server-side after each completed week)
+  const { data: playoffHistory } = usePlayoffHistory({ year })
+  const probabilityChanges = useMemo(() => {
+    const lastCompletedWeek = Math.max(1, currentWeek - 1)
+    const changes: Record<string, number | null> = {}
+    probabilities.forEach(p => {
+      changes[p.franchiseId] = getProbabilityChange(playoffHistory?.teams[p.franchiseId], lastCompletedWeek)
+    })
+    return changes
+  }, [playoffHistory, probabilities, currentWeek])
+
+  const playoffWeekRange = useMemo(() => {
+    const weeks = getPlayoffBracketConfig(year).rounds.flat()
+    return `${Math.min(...weeks)}-${Math.max(...weeks)}`
+  }, [year])
+
   // Manual refresh
   const handleRefresh = () => {
     fetchPlayoffData()
@@ -430,24 +350,65 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
           </h2>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
             Last updated: {lastUpdated.toLocaleTimeString()}
+            {simulationInfo && (
+              <span className="ml-2">
+                · {simulationInfo.iterations.toLocaleString()} simulations (seed {simulationInfo.seed})
+              </span>
+            )}
           </p>
         </div>
-        <button
-          onClick={handleRefresh}
-          disabled={isRefreshing}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center gap-2"
-        >
-          {isRefreshing ? (
-            <>
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-              Refreshing...
-            </>
-          ) : (
-            <>
-              ↻ Refresh
-            </>
-          )}
-        </button>
+        <div className="flex items-center gap-2">
+          <select
+            value={gameModel}
+            onChange={(e) => setGameModel(e.target.value as GameModel)}
+            disabled={isRefreshing}
+            title="How each simulated game is decided"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+          >
+            <option value="score-distribution">Score distribution model</option>
+            <option value="elo">ELO rating model</option>
+            <option value="win-probability">Win probability model (legacy)</option>
+          </select>
+          <select
+            value={useRosterProjections ? 'projections' : 'model'}
+            onChange={(e) => setUseRosterProjections(e.target.value === 'projections')}
+            disabled={isRefreshing}
+            title="How this week's games are decided"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+          >
+            <option value="model">Week {currentWeek}: game model</option>
+            <option value="projections">Week {currentWeek}: roster projections</option>
+          </select>
+          <select
+            value={scoringFormat}
+            onChange={(e) => setFormatOverride(e.target.value as ScoringFormat)}
+            disabled={isRefreshing}
+            title="Whether teams also play the weekly median score"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+          >
+            {SCORING_FORMATS.map(format => (
+              <option key={format} value={format}>
+                {SCORING_FORMAT_LABELS[format]}{format === leagueScoringFormat ? ' (league format)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center gap-2"
+          >
+            {isRefreshing ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                Refreshing...
+              </>
+            ) : (
+              <>
+                ↻ Refresh
+              </>
+            )}
+          </button>
+        </div>
       </div>
 
       {/* Playoff Standings Table */}
@@ -477,6 +438,9 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Playoff %
                 </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Title %
+                </th>
                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Status
                 </th>
@@ -512,7 +476,9 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
                       <div className="flex items-center gap-2">
                         <div>
                           <div className="text-sm font-medium text-gray-900 dark:text-white">
-                            {franchise?.name || team.franchiseId}
+                            <TeamLink franchiseId={team.franchiseId} year={year}>
+                              {franchise?.name || team.franchiseId}
+                            </TeamLink>
                           </div>
                           <div className="text-xs text-gray-500 dark:text-gray-400">
                             {franchise?.owner_name}
@@ -524,10 +490,15 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
                               DIV
                             </span>
                           )}
-                          {/* Clinched Badge */}
-                          {prob && prob.playoffProbability >= 99 && !prob.isEliminated && (
+                          {/* Clinched Badge - exact once the solver has run */}
+                          {prob && (prob.clinch ? prob.clinch.clinchedPlayoffs : prob.playoffProbability >= 99) && !prob.isEliminated && (
                             <span className="px-2 py-0.5 text-xs font-bold bg-green-500 text-white rounded animate-pulse flex items-center gap-1">
-                              🎉 CLINCHED
+                              🎉 CLINCHED{prob.clinch?.clinchedDivision ? ' DIV' : ''}
+                            </span>
+                          )}
+                          {prob?.clinch?.controlsOwnDestiny && !prob.clinch.clinchedPlayoffs && (
+                            <span className="px-2 py-0.5 text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400 rounded">
+                              CONTROLS DESTINY
                             </span>
                           )}
                           {/* Eliminated Badge */}
@@ -576,6 +547,9 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
                         )}
                       </div>
                     </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-center text-sm font-medium text-gray-900 dark:text-white">
+                      {prob && !prob.isEliminated ? `${prob.championshipProbability.toFixed(1)}%` : '-'}
+                    </td>
                     <td className="px-4 py-4 whitespace-nowrap text-center">
                       <span className={`px-2 py-1 text-xs font-medium rounded ${getStatusColor(team.playoffProbability, prob?.isEliminated)}`}>
                         {getStatusLabel(team.playoffProbability, prob?.isEliminated)}
@@ -589,6 +563,17 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
         </div>
       </div>
 
+      {/* Projected Bracket */}
+      {projectedBracket && (
+        <ProjectedBracketView
+          bracket={projectedBracket}
+          getTeamName={(franchiseId) =>
+            divisions?.franchises.find(f => f.id === franchiseId)?.name || franchiseId
+          }
+          onSelectTeam={setSelectedTeam}
+        />
+      )}
+
       {/* Legend */}
       <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
         <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
@@ -608,10 +593,34 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
             <p className="text-gray-600 dark:text-gray-400">Seeds 4-6</p>
           </div>
           <div>
-            <span className="font-medium text-gray-900 dark:text-white">Week 15-17</span>
+            <span className="font-medium text-gray-900 dark:text-white">
+              Week {playoffWeekRange}
+            </span>
             <p className="text-gray-600 dark:text-gray-400">Playoff weeks</p>
           </div>
         </div>
+        <p className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+          <span className="font-medium text-gray-900 dark:text-white">Tiebreakers:</span>{' '}
+          {describeTiebreakerChain(getTiebreakerChain(leagueId, year))}
+        </p>
+        <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+          <span className="font-medium text-gray-900 dark:text-white">Scoring format:</span>{' '}
+          {SCORING_FORMAT_LABELS[scoringFormat]}
+          {scoringFormat === 'median' && ' - each week also counts a win or loss against the league median score'}
+          {scoringFormat !== leagueScoringFormat && ` (previewing; the league plays ${SCORING_FORMAT_LABELS[leagueScoringFormat].toLowerCase()})`}
+        </p>
+        {hasLegacyHistory && (
+          <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+            This browser still has playoff odds history saved by an earlier version.{' '}
+            <button
+              onClick={() => exportLegacyPlayoffHistory()}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Download it
+            </button>{' '}
+            for a league admin to import.
+          </p>
+        )}
       </div>
 
       {/* Team Detail Modal */}
@@ -628,8 +637,95 @@ export default function PlayoffProjections({ year }: PlayoffProjectionsProps) {
           year={year}
           allStandings={standings}
           allSchedules={schedules}
+          simulationOptions={simulationOptions}
         />
       )}
     </div>
   )
 }
+
+/**
+ * Projected Bracket
+ * Most common playoff field across simulations, filled in with its most common results
+ */
+function ProjectedBracketView({
+  bracket,
+  getTeamName,
+  onSelectTeam
+}: {
+  bracket: ProjectedBracket
+  getTeamName: (franchiseId: string) => string
+  onSelectTeam: (franchiseId: string) => void
+}) {
+  const champion = bracket.games.find(game => game.round === bracket.rounds.length - 1)?.winner
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Projected Bracket
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          This field in {bracket.seedingProbability.toFixed(1)}% of simulations ·
+          these results in {bracket.outcomeProbability.toFixed(1)}% of those
+        </p>
+      </div>
+
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${bracket.rounds.length}, minmax(0, 1fr))` }}>
+        {bracket.rounds.map((round, roundIndex) => (
+          <div key={round.name} className="flex flex-col gap-3">
+            <div>
+              <div className="text-sm font-semibold text-gray-700 dark:text-gray-300">{round.name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                Week{round.weeks.length > 1 ? 's' : ''} {round.weeks.join(' & ')}
+              </div>
+            </div>
+            <div className="flex flex-col justify-around gap-3 flex-1">
+              {bracket.games
+                .filter(game => game.round === roundIndex)
+                .map(game => (
+                  <div
+                    key={`${game.high.franchiseId}-${game.low?.franchiseId || 'bye'}`}
+                    className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700 text-sm"
+                  >
+                    {[game.high, game.low].map((team, slot) => {
+                      if (!team) {
+                        return (
+                          <div key="bye" className="px-3 py-2 text-xs italic text-gray-400">
+                            BYE
+                          </div>
+                        )
+                      }
+                      const isWinner = game.low !== null && game.winner.franchiseId === team.franchiseId
+                      return (
+                        <button
+                          key={slot}
+                          onClick={() => onSelectTeam(team.franchiseId)}
+                          className={`w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                            isWinner
+                              ? 'font-semibold text-green-700 dark:text-green-400'
+                              : 'text-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          <span className="text-xs text-blue-600 dark:text-blue-400 w-5">{team.seed}</span>
+                          <span className="truncate">{getTeamName(team.franchiseId)}</span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {champion && (
+        <p className="mt-4 text-sm text-gray-700 dark:text-gray-300">
+          🏆 Projected champion:{' '}
+          <span className="font-semibold">{getTeamName(champion.franchiseId)}</span>
+          <span className="text-gray-500 dark:text-gray-400"> ({champion.seed} seed)</span>
+        </p>
+      )}
+    </div>
+  )
+}
@@ -13,6 +13,7 @@ import {
   formatGap
 } from '@/lib/position-analysis-utils'
 import PositionTooltip from './PositionTooltip'
+import TeamLink from './TeamLink'
 
 interface PointsBehindViewProps {
   positionalData: LeaguePositionalData
@@ -205,7 +206,9 @@ export default function PointsBehindView({
                   </td>
 
                   <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white border-r border-gray-200 dark:border-gray-700 min-w-48">
-                    {formatTeamDisplay(team as any, { includeYear: hasMultipleYears })}
+                    <TeamLink franchiseId={team.franchiseId} year={team.year}>
+                      {formatTeamDisplay(team as any, { includeYear: hasMultipleYears })}
+                    </TeamLink>
                   </td>
 
                   <td className="px-3 py-2 text-sm text-gray-900 dark:text-white border-r border-gray-200 dark:border-gray-700 min-w-36">
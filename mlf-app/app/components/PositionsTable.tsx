@@ -5,6 +5,7 @@ import { Team } from '@/lib/mfl'
 import { ArrowUpDown, ArrowUp, ArrowDown, RefreshCw, Download } from 'lucide-react'
 import { formatTeamDisplay, getUniqueYears } from '@/lib/team-utils'
 import { formatDecimal } from '@/lib/utils'
+import { useLeague } from '../providers/LeagueProvider'
 import {
   LeaguePositionalData,
   TeamPositionalData,
@@ -33,6 +34,7 @@ import PositionViewTabs, { PositionViewType } from './PositionViewTabs'
 import PointsBehindView from './PointsBehindView'
 import PercentileView from './PercentileView'
 import TeamWeaknessAnalyzer from './TeamWeaknessAnalyzer'
+import TeamLink from './TeamLink'
 
 // Extended type for rows that includes comparison rows
 type TableRow = (TeamPositionalData & { avgRank: number, isAverageRow: boolean, comparisonType?: ComparisonType })
@@ -46,6 +48,7 @@ interface PositionsTableProps {
 type SortDirection = 'asc' | 'desc' | null
 
 export default function PositionsTable({ teams, statFilter = 'all', selectedWeeks = [] }: PositionsTableProps) {
+  const { leagueId } = useLeague()
   const [sortField, setSortField] = useState<string>('avgRank')
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc')
   const [positionalData, setPositionalData] = useState<LeaguePositionalData | null>(null)
@@ -63,7 +66,7 @@ export default function PositionsTable({ teams, statFilter = 'all', selectedWeek
   useEffect(() => {
     if (teams.length === 0) return
     fetchPositionalData()
-  }, [teams, selectedWeeks])
+  }, [teams, selectedWeeks, leagueId])
   
   const fetchPositionalData = async (forceRefresh = false) => {
     setIsLoading(true)
@@ -72,7 +75,6 @@ export default function PositionsTable({ teams, statFilter = 'all', selectedWeek
     try {
       // Get the first team's year and league info
       const year = teams[0]?.year || new Date().getFullYear()
-      const leagueId = '46221' // Default league ID
       
       // Build weeks parameter if selected  
       const weeksParam = selectedWeeks.length > 0 ? `&weeks=${selectedWeeks.join(',')}` : ''
@@ -400,7 +402,9 @@ export default function PositionsTable({ teams, statFilter = 'all', selectedWeek
                         </span>
                       </td>
                       <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white border-r border-gray-200 dark:border-gray-700">
-                        {formatTeamDisplay(team as any, { includeYear: hasMultipleYears })}
+                        <TeamLink franchiseId={team.id} year={team.year}>
+                          {formatTeamDisplay(team as any, { includeYear: hasMultipleYears })}
+                        </TeamLink>
                       </td>
                       <td className="px-3 py-2 text-sm text-gray-900 dark:text-white">
                         {team.manager}
@@ -627,7 +631,9 @@ export default function PositionsTable({ teams, statFilter = 'all', selectedWeek
                         {team.teamName}
                       </span>
                     ) : (
-                      formatTeamDisplay(team as any, { includeYear: hasMultipleYears })
+                      <TeamLink franchiseId={team.franchiseId} year={team.year}>
+                        {formatTeamDisplay(team as any, { includeYear: hasMultipleYears })}
+                      </TeamLink>
                     )}
                   </td>
 
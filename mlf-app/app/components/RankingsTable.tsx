@@ -2,13 +2,16 @@
 
 import { useState, useMemo } from 'react'
 import { Team } from '@/lib/mfl'
-import { Crown, TrendingUp, TrendingDown, Medal, Target, Shield, BarChart3, ToggleLeft, ToggleRight } from 'lucide-react'
+import { Crown, TrendingUp, TrendingDown, Medal, Target, Shield, BarChart3, ToggleLeft, ToggleRight, Users, Calculator, Dices, Scale } from 'lucide-react'
 import { 
   getAllRankingCategories, 
   getRankingBadgeStyle, 
   formatRankingValue 
 } from '@/lib/rankings-calc'
 import { formatTeamDisplay, getUniqueYears, groupTeamsByYear } from '@/lib/team-utils'
+import { buildLuckLookup } from '@/lib/luck-analytics'
+import { useMatchupsData } from '../hooks/useMatchupsData'
+import TeamLink from './TeamLink'
 
 interface RankingsTableProps {
   teams: Team[]
@@ -21,7 +24,11 @@ const categoryIcons: { [key: string]: React.ComponentType<{className?: string}>
   efficiency: Target,
   offense: TrendingUp,
   defense: Shield,
-  differential: TrendingUp
+  differential: TrendingUp,
+  'all-play': Users,
+  'expected-wins': Calculator,
+  luck: Dices,
+  median: Scale
 }
 
 export default function RankingsTable({ teams }: RankingsTableProps) {
@@ -31,6 +38,10 @@ export default function RankingsTable({ teams }: RankingsTableProps) {
   const uniqueYears = useMemo(() => getUniqueYears(teams), [teams])
   const hasMultipleYears = uniqueYears.length > 1
 
+  // Weekly matchups for the all-play and luck categories - those tabs appear once loaded
+  const { data: matchups } = useMatchupsData({ years: uniqueYears, weeks: [] })
+  const luck = useMemo(() => buildLuckLookup(matchups || []), [matchups])
+
   const rankingCategories = useMemo(() => {
     if (isPerYearMode && hasMultipleYears) {
       // Group teams by year and get rankings for each year
@@ -38,7 +49,7 @@ export default function RankingsTable({ teams }: RankingsTableProps) {
       const categoriesByYear: { [year: number]: any[] } = {}
       
       Object.entries(teamsByYear).forEach(([year, yearTeams]) => {
-        categoriesByYear[parseInt(year)] = getAllRankingCategories(yearTeams)
+        categoriesByYear[parseInt(year)] = getAllRankingCategories(yearTeams, luck)
       })
       
       // Find the selected category for display
@@ -49,9 +60,9 @@ export default function RankingsTable({ teams }: RankingsTableProps) {
         yearlyRankings: categoriesByYear
       }))
     } else {
-      return getAllRankingCategories(teams)
+      return getAllRankingCategories(teams, luck)
     }
-  }, [teams, isPerYearMode, hasMultipleYears, uniqueYears])
+  }, [teams, isPerYearMode, hasMultipleYears, uniqueYears, luck])
 
   const currentCategory = rankingCategories.find(cat => cat.id === selectedCategory)
 
@@ -190,7 +201,9 @@ export default function RankingsTable({ teams }: RankingsTableProps) {
                           {ranking.rank === 3 && (
                             <Medal className="h-4 w-4 text-amber-600 mr-2" />
                           )}
-                          {team ? formatTeamDisplay(team, { includeYear: false }) : ranking.teamName}
+                          {team ? (
+                            <TeamLink franchiseId={team.id} year={team.year}>{formatTeamDisplay(team, { includeYear: false })}</TeamLink>
+                          ) : ranking.teamName}
                         </div>
                       </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-900 dark:text-white font-medium">
@@ -247,7 +260,9 @@ export default function RankingsTable({ teams }: RankingsTableProps) {
                         {ranking.rank === 3 && (
                           <Medal className="h-4 w-4 text-amber-600 mr-2" />
                         )}
-                        {team ? formatTeamDisplay(team, { includeYear: !hasMultipleYears }) : ranking.teamName}
+                        {team ? (
+                          <TeamLink franchiseId={team.id} year={team.year}>{formatTeamDisplay(team, { includeYear: !hasMultipleYears })}</TeamLink>
+                        ) : ranking.teamName}
                       </div>
                     </td>
                     {hasMultipleYears && (
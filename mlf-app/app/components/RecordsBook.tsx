@@ -0,0 +1,210 @@
+'use client'
+
+import { BookOpen, Crown } from 'lucide-react'
+import { useRecordsBook } from '../hooks/useRecordsBook'
+import TeamLink from './TeamLink'
+import { formatPoints } from '@/lib/utils'
+import type { GameRecord, StreakRecord } from '@/lib/records-book'
+
+interface RecordRow {
+  key: string
+  label: string
+  detail: string
+  value: string
+}
+
+function formatRecord(wins: number, losses: number, ties: number): string {
+  return `${wins}-${losses}${ties > 0 ? `-${ties}` : ''}`
+}
+
+function gameRows(games: GameRecord[], value: (game: GameRecord) => string): RecordRow[] {
+  return games.map(game => ({
+    key: `${game.year}-${game.week}-${game.owner}`,
+    label: `${game.owner} (${game.teamName})`,
+    detail: `${game.year} week ${game.week} · ${formatPoints(game.score)}-${formatPoints(game.opponentScore)} vs ${game.opponentOwner}`,
+    value: value(game)
+  }))
+}
+
+function streakRows(streaks: StreakRecord[]): RecordRow[] {
+  return streaks.map(streak => ({
+    key: `${streak.owner}-${streak.startYear}-${streak.startWeek}`,
+    label: streak.owner,
+    detail: streak.startYear === streak.endYear
+      ? `${streak.startYear} weeks ${streak.startWeek}-${streak.endWeek}`
+      : `${streak.startYear} week ${streak.startWeek} - ${streak.endYear} week ${streak.endWeek}`,
+    value: `${streak.length}${streak.active ? ' (active)' : ''}`
+  }))
+}
+
+function RecordList({ title, rows }: { title: string; rows: RecordRow[] }) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No games stored yet</p>
+      ) : (
+        <ol className="space-y-2">
+          {rows.map((row, index) => (
+            <li key={row.key} className="flex items-start justify-between gap-3 text-sm">
+              <div className="flex items-start gap-2 min-w-0">
+                <span className="w-5 text-right text-gray-400 dark:text-gray-500">{index + 1}.</span>
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{row.label}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{row.detail}</div>
+                </div>
+              </div>
+              <span className="font-semibold text-gray-900 dark:text-white whitespace-nowrap">{row.value}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Records Book
+ * All-time league records across every stored season, followed by owner
+ */
+export default function RecordsBook() {
+  const { data: book, isLoading, error } = useRecordsBook()
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading every stored season...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !book || book.years.length === 0) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+        <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">
+          No Records Available
+        </h3>
+        <p className="text-red-600 dark:text-red-500">
+          {error instanceof Error ? error.message : 'No seasons have been synced to the database yet'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <BookOpen className="mr-2 h-5 w-5 text-blue-500" />
+          All-Time Records Book
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          {book.years[0]}-{book.years[book.years.length - 1]} · regular-season games · owners followed across franchise and team-name changes
+        </p>
+      </div>
+
+      {/* Champions */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+        {book.seasons.map(season => (
+          <div key={season.year} className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3">
+            <div className="text-xs text-yellow-700 dark:text-yellow-400 mb-1 flex items-center">
+              <Crown className="mr-1 h-3 w-3" /> {season.year}
+            </div>
+            {season.champion ? (
+              <>
+                <div className="font-bold text-gray-900 dark:text-white">{season.champion.owner}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400 truncate" title={season.champion.teamName}>
+                  <TeamLink franchiseId={season.champion.franchiseId} year={season.year}>{season.champion.teamName}</TeamLink>
+                </div>
+                {season.runnerUp && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">Runner-up: {season.runnerUp.owner}</div>
+                )}
+              </>
+            ) : (
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {season.playoffTeams.length > 0 ? 'Playoff scores incomplete' : 'In progress'}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Record lists */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <RecordList title="Highest Weekly Scores" rows={gameRows(book.highestScores, game => formatPoints(game.score))} />
+        <RecordList title="Lowest Weekly Scores" rows={gameRows(book.lowestScores, game => formatPoints(game.score))} />
+        <RecordList title="Biggest Blowouts" rows={gameRows(book.biggestBlowouts, game => `+${formatPoints(game.margin)}`)} />
+        <RecordList
+          title="Best Seasons (Points For)"
+          rows={book.bestSeasons.map(season => ({
+            key: `${season.year}-${season.owner}`,
+            label: `${season.owner} (${season.teamName})`,
+            detail: `${season.year} · ${formatRecord(season.wins, season.losses, season.ties)} · ${formatPoints(season.pointsFor / Math.max(1, season.games))} per game`,
+            value: formatPoints(season.pointsFor)
+          }))}
+        />
+        <RecordList title="Longest Winning Streaks" rows={streakRows(book.longestWinStreaks)} />
+        <RecordList title="Longest Losing Streaks" rows={streakRows(book.longestLossStreaks)} />
+      </div>
+
+      {/* Careers */}
+      <div className="overflow-x-auto">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Career Records by Owner</h3>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-blue-600 text-white">
+              <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">Owner</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Seasons</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Record</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Win %</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Points For</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Per Game</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">High Score</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Playoffs</th>
+              <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Titles</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {book.careers.map(career => (
+              <tr key={career.ownerId} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                <td className="px-3 py-2">
+                  <div className="font-medium text-gray-900 dark:text-white">{career.owner}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs" title={career.teamNames.join(' · ')}>
+                    {career.teamNames[0]}
+                    {career.franchiseIds.length > 1 && ` · franchises ${career.franchiseIds.join(', ')}`}
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300" title={career.seasons.join(', ')}>
+                  {career.seasons.length}
+                </td>
+                <td className="px-3 py-2 text-center text-gray-900 dark:text-white">
+                  {formatRecord(career.wins, career.losses, career.ties)}
+                </td>
+                <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">
+                  {(career.winPercentage * 100).toFixed(1)}%
+                </td>
+                <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{formatPoints(career.pointsFor)}</td>
+                <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{formatPoints(career.averagePointsFor)}</td>
+                <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{formatPoints(career.highestScore)}</td>
+                <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">{career.playoffAppearances}</td>
+                <td className="px-3 py-2 text-center font-semibold text-yellow-600 dark:text-yellow-400" title={career.championshipYears.join(', ')}>
+                  {career.championships > 0 ? '🏆'.repeat(career.championships) : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Covers seasons synced to the database. Playoff fields are rebuilt from the final regular-season standings
+        with the league&apos;s tiebreakers, and each playoff game is decided by the starters&apos; points stored for its week.
+        Streaks carry over from one season to the next; ties end a streak.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Flame } from 'lucide-react'
+import { useRivalries } from '../hooks/useRivalries'
+import TeamLink from './TeamLink'
+import { formatPoints } from '@/lib/utils'
+import {
+  buildRivalryLedger,
+  buildRivalryMatrix,
+  getSeriesWinPercentage,
+  type RivalryGrouping,
+  type SeriesRecord
+} from '@/lib/rivalries'
+
+function formatSeries(record: SeriesRecord): string {
+  return `${record.wins}-${record.losses}${record.ties > 0 ? `-${record.ties}` : ''}`
+}
+
+function getSeriesColorClass(record: SeriesRecord): string {
+  const winPercentage = getSeriesWinPercentage(record)
+  if (winPercentage >= 0.75) return 'bg-green-600 text-white dark:bg-green-600'
+  if (winPercentage >= 0.6) return 'bg-green-400 text-green-950 dark:bg-green-700 dark:text-green-50'
+  if (winPercentage > 0.5) return 'bg-green-100 text-green-900 dark:bg-green-900 dark:text-green-100'
+  if (winPercentage === 0.5) return 'bg-white text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+  if (winPercentage > 0.4) return 'bg-red-100 text-red-900 dark:bg-red-900 dark:text-red-100'
+  if (winPercentage > 0.25) return 'bg-red-400 text-red-950 dark:bg-red-700 dark:text-red-50'
+  return 'bg-red-600 text-white dark:bg-red-600'
+}
+
+function SeriesStat({ label, record }: { label: string; record: SeriesRecord }) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
+      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+      <div className="text-xl font-bold text-gray-900 dark:text-white">{record.games > 0 ? formatSeries(record) : '-'}</div>
+      {record.games > 0 && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {formatPoints(record.pointsFor / record.games)}-{formatPoints(record.pointsAgainst / record.games)} per game
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Rivalry History
+ * All-time head-to-head ledger between two owners or franchises, plus the
+ * league-wide series matrix
+ */
+export default function RivalryHistory() {
+  const { data, isLoading, error } = useRivalries()
+  const [grouping, setGrouping] = useState<RivalryGrouping>('owner')
+  const [selectedSide, setSelectedSide] = useState('')
+  const [selectedOpponent, setSelectedOpponent] = useState('')
+
+  const matrix = useMemo(
+    () => (data ? buildRivalryMatrix(data.meetings, grouping) : null),
+    [data, grouping]
+  )
+
+  // Fall back to the first two participants until a pair is picked (or after switching grouping)
+  const participants = matrix?.participants || []
+  const sideKey = participants.some(p => p.key === selectedSide) ? selectedSide : participants[0]?.key || ''
+  const opponentKey = participants.some(p => p.key === selectedOpponent) && selectedOpponent !== sideKey
+    ? selectedOpponent
+    : participants.find(p => p.key !== sideKey)?.key || ''
+
+  const ledger = useMemo(
+    () => (data && sideKey && opponentKey ? buildRivalryLedger(data.meetings, sideKey, opponentKey, grouping) : null),
+    [data, sideKey, opponentKey, grouping]
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading every stored meeting...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !data || !matrix || data.meetings.length === 0) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+        <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">
+          No Rivalries Available
+        </h3>
+        <p className="text-red-600 dark:text-red-500">
+          {error instanceof Error ? error.message : 'No seasons have been synced to the database yet'}
+        </p>
+      </div>
+    )
+  }
+
+  const selectClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300'
+  const selectPair = (rowKey: string, columnKey: string) => {
+    setSelectedSide(rowKey)
+    setSelectedOpponent(columnKey)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <Flame className="mr-2 h-5 w-5 text-orange-500" />
+            Head-to-Head Rivalries
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {data.years[0]}-{data.years[data.years.length - 1]} · {data.meetings.length} meetings ·{' '}
+            {grouping === 'owner' ? 'owners followed across franchise changes' : 'by franchise ID'}
+          </p>
+        </div>
+        <select
+          value={grouping}
+          onChange={(e) => setGrouping(e.target.value as RivalryGrouping)}
+          className={selectClass}
+        >
+          <option value="owner">Group by owner</option>
+          <option value="franchise">Group by franchise</option>
+        </select>
+      </div>
+
+      {/* Ledger */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={sideKey} onChange={(e) => setSelectedSide(e.target.value)} className={selectClass}>
+            {participants.map(p => (
+              <option key={p.key} value={p.key}>{p.label}</option>
+            ))}
+          </select>
+          <span className="text-sm font-semibold text-gray-500 dark:text-gray-400">vs</span>
+          <select value={opponentKey} onChange={(e) => setSelectedOpponent(e.target.value)} className={selectClass}>
+            {participants.filter(p => p.key !== sideKey).map(p => (
+              <option key={p.key} value={p.key}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {ledger && ledger.meetings.length > 0 ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <SeriesStat label="Series" record={ledger.overall} />
+              <SeriesStat label="Regular Season" record={ledger.regularSeason} />
+              <SeriesStat label="Playoffs" record={ledger.playoffs} />
+              <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
+                <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Current Streak</div>
+                <div className="text-xl font-bold text-gray-900 dark:text-white">
+                  {ledger.streak ? `${ledger.streak.result}${ledger.streak.length}` : '-'}
+                </div>
+                {ledger.streak && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {ledger.streak.result === 'W' ? ledger.side.label : ledger.opponent.label}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+              {ledger.biggestWin && (
+                <span>
+                  Biggest win: <span className="font-semibold text-green-600 dark:text-green-400">+{formatPoints(ledger.biggestWin.margin)}</span>
+                  {' '}({ledger.biggestWin.year} week {ledger.biggestWin.week})
+                </span>
+              )}
+              {ledger.biggestLoss && (
+                <span>
+                  Biggest loss: <span className="font-semibold text-red-600 dark:text-red-400">{formatPoints(ledger.biggestLoss.margin)}</span>
+                  {' '}({ledger.biggestLoss.year} week {ledger.biggestLoss.week})
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-blue-600 text-white">
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">Season</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">Week</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">{ledger.side.label}</th>
+                    <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Score</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider">{ledger.opponent.label}</th>
+                    <th className="px-3 py-2 text-center text-xs font-medium uppercase tracking-wider">Margin</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {ledger.meetings.map(meeting => (
+                    <tr key={`${meeting.year}-${meeting.week}`} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{meeting.year}</td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                        {meeting.weeks.join(', ')}
+                        {meeting.playoff && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">
+                            {meeting.roundName || 'Playoffs'}
+                          </span>
+                        )}
+                        {meeting.consolation && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                            Consolation
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                        <TeamLink franchiseId={meeting.franchiseId} year={meeting.year}>{meeting.teamName}</TeamLink>
+                      </td>
+                      <td className="px-3 py-2 text-center whitespace-nowrap">
+                        <span className={meeting.result === 'W' ? 'font-semibold text-green-600 dark:text-green-400' : meeting.result === 'L' ? 'font-semibold text-red-600 dark:text-red-400' : 'font-semibold text-gray-600 dark:text-gray-400'}>
+                          {meeting.result}
+                        </span>
+                        {' '}{formatPoints(meeting.score)}-{formatPoints(meeting.opponentScore)}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                        <TeamLink franchiseId={meeting.opponentId} year={meeting.year}>{meeting.opponentTeamName}</TeamLink>
+                      </td>
+                      <td className="px-3 py-2 text-center text-gray-700 dark:text-gray-300">
+                        {meeting.margin > 0 ? '+' : ''}{formatPoints(meeting.margin)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">These two have never met in a stored game.</p>
+        )}
+      </div>
+
+      {/* Matrix */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">League Rivalry Matrix</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Record ↓ vs →
+                </th>
+                {participants.map(column => (
+                  <th
+                    key={column.key}
+                    className="px-2 py-2 text-center text-xs font-medium text-gray-700 dark:text-gray-300 max-w-[6rem] truncate"
+                    title={`${column.label} (${column.detail})`}
+                  >
+                    {column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {participants.map(row => (
+                <tr key={row.key}>
+                  <td className="px-3 py-2 font-medium text-gray-900 dark:text-white whitespace-nowrap" title={row.detail}>
+                    {row.label}
+                  </td>
+                  {participants.map(column => {
+                    const record = matrix.records[row.key]?.[column.key]
+                    if (row.key === column.key || !record) {
+                      return (
+                        <td
+                          key={column.key}
+                          className="px-2 py-2 text-center border border-white dark:border-gray-900 bg-gray-100 text-gray-400 dark:bg-gray-700 dark:text-gray-500"
+                        >
+                          -
+                        </td>
+                      )
+                    }
+                    const isSelected = row.key === sideKey && column.key === opponentKey
+                    return (
+                      <td
+                        key={column.key}
+                        onClick={() => selectPair(row.key, column.key)}
+                        className={`px-2 py-2 text-center whitespace-nowrap cursor-pointer border border-white dark:border-gray-900 ${getSeriesColorClass(record)} ${isSelected ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+                        title={`${row.label} vs ${column.label}: ${formatSeries(record)} in ${record.games} meetings`}
+                      >
+                        {formatSeries(record)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Regular-season meetings come from stored weekly results. Playoff meetings are rebuilt from the final standings
+        and decided by the starters&apos; points stored for the round (multi-week rounds are summed). Click a matrix
+        cell to open that series; ties end a streak.
+      </p>
+    </div>
+  )
+}
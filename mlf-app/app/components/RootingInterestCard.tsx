@@ -4,13 +4,15 @@
  */
 
 import type { RootingInterest } from '@/lib/rooting-interest-calculator'
+import { isClinchingResult, type TeamClinchStatus } from '@/lib/clinch-solver'
 
 interface RootingInterestCardProps {
   interest: RootingInterest
   compact?: boolean  // Compact view for "all matchups" section
+  clinchStatus?: TeamClinchStatus  // Exact clinch sets, once few enough games remain
 }
 
-export default function RootingInterestCard({ interest, compact = false }: RootingInterestCardProps) {
+export default function RootingInterestCard({ interest, compact = false, clinchStatus }: RootingInterestCardProps) {
   const getImportanceColor = (importance: string): string => {
     switch (importance) {
       case 'critical':
@@ -64,6 +66,13 @@ export default function RootingInterestCard({ interest, compact = false }: Rooti
     ? interest.matchup.teamB
     : interest.matchup.teamA
 
+  // Is the result we're rooting for part of an exact clinching scenario?
+  const rootedResult = { week: interest.matchup.week, winner: rootForTeam.franchiseId, loser: rootAgainstTeam.franchiseId }
+  const clinchesAlone = clinchStatus?.clinchingResults.some(set =>
+    set.length === 1 && set[0].week === rootedResult.week && set[0].winner === rootedResult.winner
+  )
+  const partOfClinch = clinchStatus ? isClinchingResult(clinchStatus, rootedResult) : false
+
   return (
     <div className={`${getImportanceColor(interest.importance)} rounded-lg p-3 transition-all hover:shadow-md`}>
       {/* Importance Badge and Week */}
@@ -74,9 +83,16 @@ export default function RootingInterestCard({ interest, compact = false }: Rooti
             {interest.importance}
           </span>
         </div>
-        <span className="text-xs font-medium text-gray-600 dark:text-gray-400">
-          Week {interest.matchup.week}
-        </span>
+        <div className="flex items-center gap-2">
+          {partOfClinch && (
+            <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-500 text-white">
+              {clinchesAlone ? 'Clinching result' : 'Part of a clinching scenario'}
+            </span>
+          )}
+          <span className="text-xs font-medium text-gray-600 dark:text-gray-400">
+            Week {interest.matchup.week}
+          </span>
+        </div>
       </div>
 
       {/* Matchup */}
@@ -17,21 +17,29 @@ import {
   calculateScenarioProbability,
   type ScenarioResult
 } from '@/lib/scenario-calculator'
+import { deriveSeed } from '@/lib/random'
+import type { SimulationOptions } from '@/lib/playoff-calculator'
 
 interface ScenarioExplorerProps {
   franchiseId: string
+  leagueId: string
+  year: number
   standings: StandingsFranchise[]
   schedules: TeamSchedule[]
   divisions: DivisionsData
   currentWeek: number
+  simulationOptions?: SimulationOptions  // Tiebreakers and head-to-head results for the league
 }
 
 export default function ScenarioExplorer({
   franchiseId,
+  leagueId,
+  year,
   standings,
   schedules,
   divisions,
-  currentWeek
+  currentWeek,
+  simulationOptions
 }: ScenarioExplorerProps) {
   const [customResults, setCustomResults] = useState<Record<number, 'W' | 'L' | null>>({})
   const [calculatingCustom, setCalculatingCustom] = useState(false)
@@ -39,15 +47,22 @@ export default function ScenarioExplorer({
   const teamSchedule = schedules.find(s => s.franchiseId === franchiseId)
   const franchise = divisions.franchises.find(f => f.id === franchiseId)
 
+  // One seed per league, season, week and team so toggling a game only changes
+  // the results, not the random draws behind them
+  const simulationSeed = useMemo(
+    () => deriveSeed(leagueId, year, currentWeek, franchiseId),
+    [leagueId, year, currentWeek, franchiseId]
+  )
+
   // Calculate preset scenarios
   const scenarios = useMemo(() => {
     console.log('[Scenario Explorer] Calculating preset scenarios...')
     return {
-      bestCase: calculateBestCaseScenario(franchiseId, standings, schedules, divisions),
-      worstCase: calculateWorstCaseScenario(franchiseId, standings, schedules, divisions),
-      mostLikely: calculateMostLikelyScenario(franchiseId, standings, schedules, divisions)
+      bestCase: calculateBestCaseScenario(franchiseId, standings, schedules, divisions, simulationSeed, simulationOptions),
+      worstCase: calculateWorstCaseScenario(franchiseId, standings, schedules, divisions, simulationSeed, simulationOptions),
+      mostLikely: calculateMostLikelyScenario(franchiseId, standings, schedules, divisions, simulationSeed, simulationOptions)
     }
-  }, [franchiseId, standings, schedules, divisions])
+  }, [franchiseId, standings, schedules, divisions, simulationSeed, simulationOptions])
 
   // Calculate custom scenario
   const customScenario = useMemo(() => {
@@ -55,10 +70,10 @@ export default function ScenarioExplorer({
     if (!hasCustomResults) return null
 
     setCalculatingCustom(true)
-    const result = calculateScenarioProbability(franchiseId, customResults, standings, schedules, divisions)
+    const result = calculateScenarioProbability(franchiseId, customResults, standings, schedules, divisions, simulationSeed, simulationOptions)
     setCalculatingCustom(false)
     return result
-  }, [customResults, franchiseId, standings, schedules, divisions])
+  }, [customResults, franchiseId, standings, schedules, divisions, simulationSeed, simulationOptions])
 
   const handleGameToggle = (week: number, result: 'W' | 'L' | null) => {
     setCustomResults(prev => ({
@@ -0,0 +1,190 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Shuffle } from 'lucide-react'
+import { useMatchupsData } from '../hooks/useMatchupsData'
+import ExportButton from './ExportButton'
+import TeamLink from './TeamLink'
+import { exportScheduleSwapData, type ExportOptions } from '@/lib/export-utils'
+import { calculateScheduleSwapMatrix, getSwapWinDelta, type SwapRecord } from '@/lib/schedule-swap'
+
+interface ScheduleSwapMatrixProps {
+  years: number[]
+  selectedWeeks: number[]
+}
+
+type CellDisplay = 'record' | 'delta'
+
+function formatSwapRecord(record: SwapRecord): string {
+  return `${record.wins}-${record.losses}${record.ties > 0 ? `-${record.ties}` : ''}`
+}
+
+function formatDelta(delta: number): string {
+  if (delta === 0) return '0'
+  return `${delta > 0 ? '+' : ''}${Number.isInteger(delta) ? delta : delta.toFixed(1)}`
+}
+
+function getDeltaColorClass(delta: number, isActual: boolean): string {
+  if (isActual) return 'bg-gray-200 text-gray-900 font-bold dark:bg-gray-600 dark:text-white'
+  if (delta >= 3) return 'bg-green-600 text-white dark:bg-green-600'
+  if (delta >= 1.5) return 'bg-green-400 text-green-950 dark:bg-green-700 dark:text-green-50'
+  if (delta > 0) return 'bg-green-100 text-green-900 dark:bg-green-900 dark:text-green-100'
+  if (delta === 0) return 'bg-white text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+  if (delta > -1.5) return 'bg-red-100 text-red-900 dark:bg-red-900 dark:text-red-100'
+  if (delta > -3) return 'bg-red-400 text-red-950 dark:bg-red-700 dark:text-red-50'
+  return 'bg-red-600 text-white dark:bg-red-600'
+}
+
+/**
+ * Schedule Swap Matrix
+ * Heatmap of the record each team (row) would have had playing another team's (column) schedule
+ */
+export default function ScheduleSwapMatrix({ years, selectedWeeks }: ScheduleSwapMatrixProps) {
+  const sortedYears = useMemo(() => [...years].sort((a, b) => b - a), [years])
+  const [selectedYear, setSelectedYear] = useState<number | null>(null)
+  const [display, setDisplay] = useState<CellDisplay>('record')
+
+  const { data: matchups, isLoading, error } = useMatchupsData({ years: sortedYears, weeks: selectedWeeks })
+
+  const matrices = useMemo(() => {
+    if (!matchups) return []
+    return sortedYears
+      .map(year => calculateScheduleSwapMatrix(matchups, year, selectedWeeks))
+      .filter(matrix => matrix.teams.length > 0 && matrix.weeks.length > 0)
+  }, [matchups, sortedYears, selectedWeeks])
+
+  const matrix = matrices.find(m => m.year === selectedYear) || matrices[0]
+
+  const handleExport = (options: ExportOptions) => {
+    if (matrices.length > 0) exportScheduleSwapData(matrices, options)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading weekly matchups...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !matrix) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+        <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">
+          No Schedule Data
+        </h3>
+        <p className="text-red-600 dark:text-red-500">
+          {error instanceof Error ? error.message : 'No completed regular-season weeks in the selected range'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <Shuffle className="mr-2 h-5 w-5 text-blue-500" />
+            What If I Had Their Schedule?
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            Each row replays a team&apos;s weekly scores against the opponents in each column team&apos;s schedule ·{' '}
+            {matrix.year} weeks {matrix.weeks[0]}-{matrix.weeks[matrix.weeks.length - 1]}
+            {matrix.weeks.length < matrix.weeks[matrix.weeks.length - 1] - matrix.weeks[0] + 1 && ` (${matrix.weeks.length} selected)`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {matrices.length > 1 && (
+            <select
+              value={matrix.year}
+              onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+            >
+              {matrices.map(m => (
+                <option key={m.year} value={m.year}>{m.year}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={display}
+            onChange={(e) => setDisplay(e.target.value as CellDisplay)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+          >
+            <option value="record">Show records</option>
+            <option value="delta">Show wins vs actual</option>
+          </select>
+          <ExportButton onExport={handleExport} label="Export" />
+        </div>
+      </div>
+
+      {/* Heatmap */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Team ↓ / Schedule →
+              </th>
+              {matrix.teams.map(team => (
+                <th
+                  key={team.franchiseId}
+                  className="px-2 py-2 text-center text-xs font-medium text-gray-700 dark:text-gray-300 max-w-[6rem] truncate"
+                  title={`${team.teamName} (${team.manager})`}
+                >
+                  {team.teamName}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Best / Worst
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.teams.map((team, row) => {
+              const best = matrix.bestSchedule[team.franchiseId]
+              const worst = matrix.worstSchedule[team.franchiseId]
+              const nameOf = (id: string) => matrix.teams.find(t => t.franchiseId === id)?.teamName || id
+              return (
+                <tr key={team.franchiseId}>
+                  <td className="px-3 py-2 font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                    <TeamLink franchiseId={team.franchiseId} year={matrix.year}>{team.teamName}</TeamLink>
+                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({formatSwapRecord(team.actual)})</span>
+                  </td>
+                  {matrix.records[row].map((record, column) => {
+                    const delta = getSwapWinDelta(matrix, row, column)
+                    const isActual = row === column
+                    return (
+                      <td
+                        key={matrix.teams[column].franchiseId}
+                        className={`px-2 py-2 text-center whitespace-nowrap border border-white dark:border-gray-900 ${getDeltaColorClass(delta, isActual)}`}
+                        title={`${team.teamName} with ${matrix.teams[column].teamName}'s schedule: ${formatSwapRecord(record)} (${formatDelta(delta)} wins)`}
+                      >
+                        {display === 'record' || isActual ? formatSwapRecord(record) : formatDelta(delta)}
+                      </td>
+                    )
+                  })}
+                  <td className="px-3 py-2 text-center text-xs whitespace-nowrap">
+                    <span className="text-green-600 dark:text-green-400">{nameOf(best.franchiseId)}</span>
+                    {' / '}
+                    <span className="text-red-600 dark:text-red-400">{nameOf(worst.franchiseId)}</span>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        The diagonal is each team&apos;s actual record. When a column team played the row team, the row team plays
+        the column team in that week instead. Colors show wins gained (green) or lost (red) against the actual record;
+        ties count half. Playoff weeks are not included.
+      </p>
+    </div>
+  )
+}
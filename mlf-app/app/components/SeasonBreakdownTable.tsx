@@ -14,6 +14,7 @@ import {
 } from '@/lib/season-breakdown-utils'
 import { getRegularSeasonEndWeek, getTotalWeeksForYear } from '@/lib/season-config'
 import PlayoffProjections from './PlayoffProjections'
+import TeamLink from './TeamLink'
 
 interface SeasonBreakdownTableProps {
   teams: Team[]
@@ -281,7 +282,7 @@ export default function SeasonBreakdownTable({ teams }: SeasonBreakdownTableProp
                     <td className="px-4 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <div className="text-sm font-medium text-gray-900 dark:text-white">
-                          {team.teamName}
+                          <TeamLink franchiseId={team.id} year={team.year}>{team.teamName}</TeamLink>
                         </div>
                       </div>
                     </td>
@@ -10,10 +10,16 @@ import {
   Calendar,
   Trophy,
   ArrowLeftRight,
+  Target,
+  Shuffle,
+  BookOpen,
+  Flame,
+  Radio,
   X
 } from 'lucide-react'
+import { useLeague } from '../providers/LeagueProvider'
 
-type ViewType = 'table' | 'charts' | 'positions' | 'matchups' | 'rankings' | 'comparison' | 'breakdown' | 'playoff' | 'trades'
+type ViewType = 'table' | 'charts' | 'positions' | 'matchups' | 'rankings' | 'comparison' | 'breakdown' | 'playoff' | 'backtest' | 'trades' | 'schedule' | 'records' | 'rivalries' | 'live'
 
 interface SidebarProps {
   activeView: ViewType
@@ -32,15 +38,22 @@ const navigationItems: NavItem[] = [
   { id: 'table', label: 'Table View', icon: LayoutGrid },
   { id: 'charts', label: 'Charts View', icon: BarChart3 },
   { id: 'positions', label: 'Positions', icon: Grid3x3 },
+  { id: 'live', label: 'Live Matchups', icon: Radio },
   { id: 'matchups', label: 'Matchups & Records', icon: Swords },
   { id: 'rankings', label: 'Rankings', icon: TrendingUp },
+  { id: 'schedule', label: 'Schedule Swap', icon: Shuffle },
+  { id: 'records', label: 'Records Book', icon: BookOpen },
+  { id: 'rivalries', label: 'Rivalries', icon: Flame },
   { id: 'comparison', label: 'Compare Teams', icon: Users },
   { id: 'breakdown', label: 'Season Breakdown', icon: Calendar },
   { id: 'playoff', label: 'Playoff Tracker', icon: Trophy },
+  { id: 'backtest', label: 'Model Backtest', icon: Target },
   { id: 'trades', label: 'Trade Analyzer', icon: ArrowLeftRight },
 ]
 
 export default function Sidebar({ activeView, onViewChange, isMobileMenuOpen, setIsMobileMenuOpen }: SidebarProps) {
+  const { leagueId, leagues, setLeagueId } = useLeague()
+
   const handleNavClick = (viewId: ViewType) => {
     onViewChange(viewId)
     // Close mobile menu after selection
@@ -95,6 +108,27 @@ export default function Sidebar({ activeView, onViewChange, isMobileMenuOpen, se
           </button>
         </div>
 
+        {/* League switcher - only shown when more than one league is registered */}
+        {leagues.length > 1 && (
+          <div className="px-4 pt-4">
+            <label htmlFor="league-select" className="block text-xs font-medium text-gray-400 mb-1">
+              League
+            </label>
+            <select
+              id="league-select"
+              value={leagueId}
+              onChange={(e) => setLeagueId(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg bg-gray-700 text-white text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {leagues.map((league) => (
+                <option key={league.id} value={league.id}>
+                  {league.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Navigation items */}
         <nav className="p-4 space-y-1">
           {navigationItems.map((item) => {
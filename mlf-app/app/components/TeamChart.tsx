@@ -15,6 +15,8 @@ import { Line } from 'react-chartjs-2'
 import { Team } from '@/lib/mfl'
 import { formatTeamDisplay, getUniqueYears } from '@/lib/team-utils'
 import { useWeeklyProgressionData } from '../hooks/useWeeklyProgressionData'
+import { useEloRatings } from '../hooks/useEloRatings'
+import type { EloRatings } from '@/lib/elo-ratings'
 
 ChartJS.register(
   CategoryScale,
@@ -57,7 +59,7 @@ interface TeamProgression {
 
 interface TeamChartProps {
   teams: Team[]
-  chartType: 'totalPoints' | 'startersPoints' | 'benchPoints' | 'offensePoints' | 'defensePoints' | 'potentialPoints' | 'efficiency' | 'qbPoints' | 'rbPoints' | 'wrPoints' | 'tePoints' | 'kPoints' | 'dlPoints' | 'lbPoints' | 'cbPoints' | 'sPoints'
+  chartType: 'totalPoints' | 'startersPoints' | 'benchPoints' | 'offensePoints' | 'defensePoints' | 'potentialPoints' | 'efficiency' | 'qbPoints' | 'rbPoints' | 'wrPoints' | 'tePoints' | 'kPoints' | 'dlPoints' | 'lbPoints' | 'cbPoints' | 'sPoints' | 'eloRating'
   selectedWeeks: number[]
 }
 
@@ -95,20 +97,63 @@ const chartConfigs = {
   sPoints: { title: 'Weekly S Points', dataKey: 'sPoints' as keyof WeeklyScore }
 }
 
+/**
+ * ELO rating after each game for the charted teams, across the selected seasons
+ */
+function buildEloChartData(elo: EloRatings, teams: Team[], years: number[], selectedWeeks: number[]) {
+  const showYear = years.length > 1
+  const inRange = (point: { year: number; week: number }) =>
+    years.includes(point.year) && (selectedWeeks.length === 0 || selectedWeeks.includes(point.week))
+
+  // One line per franchise, named after its most recent team
+  const franchises = new Map<string, string>()
+  const oldestFirst = [...teams].sort((a, b) => a.year - b.year)
+  oldestFirst.forEach(team => franchises.set(team.id, team.teamName))
+
+  const points = [...new Set(
+    Array.from(franchises.keys()).flatMap(id => (elo.history[id] || []).filter(inRange).map(p => p.year * 100 + p.week))
+  )].sort((a, b) => a - b)
+
+  return {
+    labels: points.map(key => showYear ? `${Math.floor(key / 100)} W${key % 100}` : `Week ${key % 100}`),
+    datasets: Array.from(franchises.entries()).map(([franchiseId, teamName], index) => {
+      const ratings = new Map((elo.history[franchiseId] || []).map(p => [p.year * 100 + p.week, p.rating]))
+      return {
+        label: teamName,
+        data: points.map(key => {
+          const rating = ratings.get(key)
+          return rating !== undefined ? Math.round(rating) : null
+        }),
+        borderColor: chartColors[index % chartColors.length].replace('0.8', '1'),
+        backgroundColor: chartColors[index % chartColors.length],
+        tension: 0.1,
+        fill: false,
+        spanGaps: true,
+      }
+    })
+  }
+}
+
 function TeamChart({ teams, chartType, selectedWeeks }: TeamChartProps) {
-  const config = chartConfigs[chartType]
+  const isEloChart = chartType === 'eloRating'
   const uniqueYears = useMemo(() => getUniqueYears(teams), [teams])
   const hasMultipleYears = uniqueYears.length > 1
 
   // Use React Query hook for data fetching
   const {
     data: progressionData = [],
-    isLoading,
-    error,
+    isLoading: isProgressionLoading,
+    error: progressionError,
   } = useWeeklyProgressionData({
     years: uniqueYears,
     weeks: selectedWeeks,
+    enabled: !isEloChart,
   })
+  const { data: eloData, isLoading: isEloLoading, error: eloError } = useEloRatings({ enabled: isEloChart })
+
+  const isLoading = isEloChart ? isEloLoading : isProgressionLoading
+  const error = isEloChart ? eloError : progressionError
+  const hasData = isEloChart ? Object.keys(eloData?.history || {}).length > 0 : progressionData.length > 0
 
   // Loading state
   if (isLoading) {
@@ -121,7 +166,7 @@ function TeamChart({ teams, chartType, selectedWeeks }: TeamChartProps) {
   }
 
   // Error state
-  if (error || progressionData.length === 0) {
+  if (error || !hasData) {
     return (
       <div className="h-96 w-full flex items-center justify-center">
         <div className="text-center">
@@ -129,34 +174,43 @@ function TeamChart({ teams, chartType, selectedWeeks }: TeamChartProps) {
             {error instanceof Error ? error.message : error || 'No data available'}
           </p>
           <p className="text-sm text-gray-500 dark:text-gray-500">
-            Unable to load weekly progression data
+            {isEloChart ? 'Unable to load ELO ratings' : 'Unable to load weekly progression data'}
           </p>
         </div>
       </div>
     )
   }
 
-  // Get all unique weeks from the data to use as x-axis labels
-  const allWeeks = [...new Set(
-    progressionData.flatMap(team => team.weeklyScores.map(score => score.week))
-  )].sort((a, b) => a - b)
+  const title = chartType === 'eloRating' ? 'ELO Power Rating' : chartConfigs[chartType].title
+
+  let data
+  if (chartType === 'eloRating') {
+    data = buildEloChartData(eloData!, teams, uniqueYears, selectedWeeks)
+  } else {
+    const config = chartConfigs[chartType]
+
+    // Get all unique weeks from the data to use as x-axis labels
+    const allWeeks = [...new Set(
+      progressionData.flatMap(team => team.weeklyScores.map(score => score.week))
+    )].sort((a, b) => a - b)
+
+    // Create datasets for each team
+    const datasets = progressionData.map((team, index) => ({
+      label: team.teamName,
+      data: allWeeks.map(week => {
+        const weekData = team.weeklyScores.find(score => score.week === week)
+        return weekData ? (weekData[config.dataKey] as number) : 0
+      }),
+      borderColor: chartColors[index % chartColors.length].replace('0.8', '1'),
+      backgroundColor: chartColors[index % chartColors.length],
+      tension: 0.1,
+      fill: false,
+    }))
 
-  // Create datasets for each team
-  const datasets = progressionData.map((team, index) => ({
-    label: team.teamName,
-    data: allWeeks.map(week => {
-      const weekData = team.weeklyScores.find(score => score.week === week)
-      return weekData ? (weekData[config.dataKey] as number) : 0
-    }),
-    borderColor: chartColors[index % chartColors.length].replace('0.8', '1'),
-    backgroundColor: chartColors[index % chartColors.length],
-    tension: 0.1,
-    fill: false,
-  }))
-
-  const data = {
-    labels: allWeeks.map(week => `Week ${week}`),
-    datasets,
+    data = {
+      labels: allWeeks.map(week => `Week ${week}`),
+      datasets,
+    }
   }
 
   const options = {
@@ -177,7 +231,7 @@ function TeamChart({ teams, chartType, selectedWeeks }: TeamChartProps) {
       },
       title: {
         display: true,
-        text: `${config.title} ${selectedWeeks.length > 0 ? `(${selectedWeeks.length === 1 ? `Week ${selectedWeeks[0]}` : `${selectedWeeks.length} Selected Weeks`})` : hasMultipleYears ? `(${uniqueYears.length} Years)` : ''}`,
+        text: `${title} ${selectedWeeks.length > 0 ? `(${selectedWeeks.length === 1 ? `Week ${selectedWeeks[0]}` : `${selectedWeeks.length} Selected Weeks`})` : hasMultipleYears ? `(${uniqueYears.length} Years)` : ''}`,
         font: {
           size: 16,
         },
@@ -186,10 +240,10 @@ function TeamChart({ teams, chartType, selectedWeeks }: TeamChartProps) {
     },
     scales: {
       y: {
-        beginAtZero: true,
+        beginAtZero: !isEloChart,
         title: {
           display: true,
-          text: 'Points',
+          text: isEloChart ? 'Rating' : 'Points',
           color: '#ffffff',
         },
         ticks: {
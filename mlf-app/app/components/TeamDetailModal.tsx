@@ -1,14 +1,19 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import type { PlayoffProbabilities } from '@/lib/playoff-calculator'
+import type { PlayoffProbabilities, SimulationOptions } from '@/lib/playoff-calculator'
 import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
 import type { DivisionsData } from '@/app/api/mfl/divisions/route'
 import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
 import PlayoffProbabilityChart from './PlayoffProbabilityChart'
 import RootingInterestCard from './RootingInterestCard'
 import ScenarioExplorer from './ScenarioExplorer'
+import LineupRegretReport from './LineupRegretReport'
+import TeamLink from './TeamLink'
 import { calculateRootingInterests, hasRelevantRootingInterests, type RootingInterestAnalysis } from '@/lib/rooting-interest-calculator'
+import { deriveSeed } from '@/lib/random'
+import { useLeague } from '../providers/LeagueProvider'
+import { getRoundNames } from '@/lib/playoff-bracket'
 
 interface TeamDetailModalProps {
   isOpen: boolean
@@ -22,6 +27,7 @@ interface TeamDetailModalProps {
   year: number
   allStandings: StandingsFranchise[]  // All team standings (for rooting interests)
   allSchedules: TeamSchedule[]  // All team schedules (for rooting interests)
+  simulationOptions?: SimulationOptions  // The options behind the headline odds (model, profiles, tiebreakers, head-to-head)
 }
 
 export default function TeamDetailModal({
@@ -35,11 +41,19 @@ export default function TeamDetailModal({
   currentWeek,
   year,
   allStandings,
-  allSchedules
+  allSchedules,
+  simulationOptions
 }: TeamDetailModalProps) {
+  const { leagueId } = useLeague()
   // State for rooting interests
   const [rootingInterests, setRootingInterests] = useState<RootingInterestAnalysis | null>(null)
   const [loadingRootingInterests, setLoadingRootingInterests] = useState(false)
+  // Lineups are only fetched once the start/sit section is expanded
+  const [showLineupRegret, setShowLineupRegret] = useState(false)
+
+  useEffect(() => {
+    setShowLineupRegret(false)
+  }, [isOpen, franchiseId])
 
   // Close on Escape key
   useEffect(() => {
@@ -70,7 +84,9 @@ export default function TeamDetailModal({
             allStandings,
             allSchedules,
             divisions,
-            currentWeek
+            currentWeek,
+            deriveSeed(leagueId, year, currentWeek, franchiseId),
+            simulationOptions
           )
           setRootingInterests(analysis)
         } catch (error) {
@@ -83,7 +99,7 @@ export default function TeamDetailModal({
       setRootingInterests(null)
       setLoadingRootingInterests(false)
     }
-  }, [isOpen, franchiseId, currentWeek, probability.playoffProbability, probability.isEliminated, allStandings, allSchedules, divisions])
+  }, [isOpen, leagueId, year, franchiseId, currentWeek, probability.playoffProbability, probability.isEliminated, allStandings, allSchedules, divisions, simulationOptions])
 
   if (!isOpen) return null
 
@@ -113,7 +129,10 @@ export default function TeamDetailModal({
               {franchise?.name || franchiseId}
             </h2>
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              {franchise?.owner_name} • {divisionName}
+              {franchise?.owner_name} • {divisionName} •{' '}
+              <TeamLink franchiseId={franchiseId} year={year} className="text-blue-600 dark:text-blue-400">
+                Full season page
+              </TeamLink>
             </p>
           </div>
           <button
@@ -196,6 +215,38 @@ export default function TeamDetailModal({
             </div>
           </div>
 
+          {/* Championship Path */}
+          {probability.roundProbabilities.length > 1 && (
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                Championship Odds
+              </h3>
+              <div className="space-y-2">
+                {[
+                  ...getRoundNames(probability.roundProbabilities.length)
+                    .map((name, round) => ({ label: `Reach ${name}`, prob: probability.roundProbabilities[round] }))
+                    .slice(1),
+                  { label: 'Win Championship', prob: probability.championshipProbability }
+                ].map(({ label, prob }) => (
+                  <div key={label}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="text-gray-700 dark:text-gray-300">{label}</span>
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {prob.toFixed(1)}%
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                      <div
+                        className="bg-yellow-500 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${prob}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Remaining Schedule */}
           <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
             <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
@@ -265,6 +316,11 @@ export default function TeamDetailModal({
                 </p>
               </div>
             )}
+            {probability.clinch && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Exact - every remaining win/loss combination checked, with points-based tiebreakers assumed to go against you
+              </p>
+            )}
 
             {/* Magic and Elimination Numbers */}
             <div className="grid grid-cols-2 gap-3 mt-3">
@@ -340,7 +396,7 @@ export default function TeamDetailModal({
                       </h4>
                       <div className="space-y-3">
                         {rootingInterests.topMatchups.map((interest, idx) => (
-                          <RootingInterestCard key={idx} interest={interest} />
+                          <RootingInterestCard key={idx} interest={interest} clinchStatus={probability.clinch} />
                         ))}
                       </div>
                     </div>
@@ -368,7 +424,7 @@ export default function TeamDetailModal({
                               </h5>
                               <div className="space-y-2 pl-4">
                                 {matchups.map((interest, idx) => (
-                                  <RootingInterestCard key={idx} interest={interest} compact />
+                                  <RootingInterestCard key={idx} interest={interest} clinchStatus={probability.clinch} compact />
                                 ))}
                               </div>
                             </div>
@@ -398,14 +454,36 @@ export default function TeamDetailModal({
             <div className="p-4 pt-0">
               <ScenarioExplorer
                 franchiseId={franchiseId}
+                leagueId={leagueId}
+                year={year}
                 standings={allStandings}
                 schedules={allSchedules}
                 divisions={divisions}
                 currentWeek={currentWeek}
+                simulationOptions={simulationOptions}
               />
             </div>
           </details>
 
+          {/* Start/Sit Regret Section */}
+          <details
+            className="bg-gray-50 dark:bg-gray-900 rounded-lg"
+            open={showLineupRegret}
+            onToggle={(e) => setShowLineupRegret(e.currentTarget.open)}
+          >
+            <summary className="cursor-pointer p-4 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors flex items-center">
+              <span className="mr-2">🪑</span> Start/Sit Regret
+              <span className="ml-2 font-normal text-gray-600 dark:text-gray-400">
+                (Points left on the bench each week)
+              </span>
+            </summary>
+            {showLineupRegret && (
+              <div className="p-4 pt-0">
+                <LineupRegretReport year={year} franchiseId={franchiseId} />
+              </div>
+            )}
+          </details>
+
           {/* Historical Probability Chart */}
           <div>
             <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
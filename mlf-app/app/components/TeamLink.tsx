@@ -0,0 +1,28 @@
+'use client'
+
+import Link from 'next/link'
+import { useLeague } from '../providers/LeagueProvider'
+import { getTeamSeasonHref } from '@/lib/team-utils'
+
+/**
+ * Team name linking to that team's season page, in the selected league
+ * Clicks don't reach the row underneath, so rows that open a modal keep working
+ */
+export default function TeamLink({ franchiseId, year, className, children }: {
+  franchiseId: string
+  year: number
+  className?: string
+  children: React.ReactNode
+}) {
+  const { leagueId } = useLeague()
+
+  return (
+    <Link
+      href={getTeamSeasonHref(franchiseId, year, leagueId)}
+      onClick={(e) => e.stopPropagation()}
+      className={`hover:underline ${className || ''}`}
+    >
+      {children}
+    </Link>
+  )
+}
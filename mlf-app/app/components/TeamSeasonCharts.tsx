@@ -0,0 +1,119 @@
+'use client'
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js'
+import { Line } from 'react-chartjs-2'
+import type { TeamWeekResult } from '@/lib/team-season'
+import type { WeeklyProbabilitySnapshot } from '@/lib/playoff-history'
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+)
+
+const axisStyle = {
+  ticks: { color: '#ffffff' },
+  grid: { color: 'rgba(255, 255, 255, 0.1)' },
+}
+
+function percentOptions(title: string) {
+  return {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: true,
+        position: 'top' as const,
+        labels: { color: '#ffffff', usePointStyle: true },
+      },
+      title: { display: true, text: title, color: '#ffffff' },
+    },
+    scales: {
+      y: { ...axisStyle, min: 0, max: 100, title: { display: true, text: '%', color: '#ffffff' } },
+      x: axisStyle,
+    },
+    interaction: {
+      intersect: false,
+      mode: 'index' as const,
+    },
+  }
+}
+
+/**
+ * Team Season Charts
+ * Lineup efficiency and playoff odds week by week, for the team season page
+ */
+export default function TeamSeasonCharts({ weeklyResults, oddsHistory }: {
+  weeklyResults: TeamWeekResult[]
+  oddsHistory: WeeklyProbabilitySnapshot[]
+}) {
+  const efficiencyWeeks = weeklyResults.filter(week => week.efficiency !== null)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="bg-gray-800 rounded-lg shadow p-4 h-80">
+        {efficiencyWeeks.length > 0 ? (
+          <Line
+            data={{
+              labels: efficiencyWeeks.map(week => `Week ${week.week}`),
+              datasets: [{
+                label: 'Efficiency',
+                data: efficiencyWeeks.map(week => week.efficiency),
+                borderColor: 'rgba(75, 192, 192, 1)',
+                backgroundColor: 'rgba(75, 192, 192, 0.8)',
+                tension: 0.1,
+                fill: false,
+              }],
+            }}
+            options={percentOptions('Lineup Efficiency (starters / optimal)')}
+          />
+        ) : (
+          <p className="text-sm text-gray-400">No weekly lineups for this season yet.</p>
+        )}
+      </div>
+      <div className="bg-gray-800 rounded-lg shadow p-4 h-80">
+        {oddsHistory.length > 0 ? (
+          <Line
+            data={{
+              labels: oddsHistory.map(snapshot => `Week ${snapshot.week}`),
+              datasets: [
+                {
+                  label: 'Playoffs',
+                  data: oddsHistory.map(snapshot => snapshot.playoffProbability),
+                  borderColor: 'rgba(54, 162, 235, 1)',
+                  backgroundColor: 'rgba(54, 162, 235, 0.8)',
+                  tension: 0.1,
+                  fill: false,
+                },
+                {
+                  label: 'Division',
+                  data: oddsHistory.map(snapshot => snapshot.divisionWinProbability),
+                  borderColor: 'rgba(153, 102, 255, 1)',
+                  backgroundColor: 'rgba(153, 102, 255, 0.8)',
+                  tension: 0.1,
+                  fill: false,
+                },
+              ],
+            }}
+            options={percentOptions('Playoff Odds After Each Week')}
+          />
+        ) : (
+          <p className="text-sm text-gray-400">Playoff odds not recorded yet for this season.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,332 @@
+import Link from 'next/link'
+import { ArrowLeft, Shield } from 'lucide-react'
+import TeamSeasonCharts from './TeamSeasonCharts'
+import { formatPoints } from '@/lib/utils'
+import { getTeamSeasonHref } from '@/lib/team-utils'
+import type { TeamSeason } from '@/lib/team-season'
+import type { DepthStatus, Position, RosterPlayer } from '@/lib/trade-depth-calculator'
+
+const POSITIONS: Position[] = ['QB', 'RB', 'WR', 'TE', 'K', 'DL', 'LB', 'CB', 'S']
+
+const RESULT_CLASSES: Record<string, string> = {
+  W: 'text-green-600 dark:text-green-400',
+  L: 'text-red-600 dark:text-red-400',
+  T: 'text-gray-500 dark:text-gray-400'
+}
+
+const DEPTH_CLASSES: Record<DepthStatus, string> = {
+  surplus: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  adequate: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  need: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+}
+
+const cardClass = 'bg-white dark:bg-gray-800 rounded-lg shadow'
+const headClass = 'bg-gray-50 dark:bg-gray-900 text-xs uppercase text-gray-500 dark:text-gray-400'
+
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className={`${cardClass} p-4`}>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{label}</div>
+      <div className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{value}</div>
+      {detail && <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</div>}
+    </div>
+  )
+}
+
+function Section({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <div className={`${cardClass} overflow-x-auto`}>
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+        {description && <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+function RosterTable({ roster }: { roster: RosterPlayer[] }) {
+  const sorted = [...roster].sort((a, b) =>
+    POSITIONS.indexOf(a.position) - POSITIONS.indexOf(b.position) || b.seasonPPG - a.seasonPPG
+  )
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead className={headClass}>
+        <tr>
+          <th className="px-4 py-2 text-left">Player</th>
+          <th className="px-4 py-2 text-left">Pos</th>
+          <th className="px-4 py-2 text-right">PPG</th>
+          <th className="px-4 py-2 text-right">Points</th>
+          <th className="px-4 py-2 text-right">League Rank</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+        {sorted.map(player => (
+          <tr key={player.id} className="text-gray-900 dark:text-white">
+            <td className="px-4 py-2">
+              <Link href={`/player/${player.id}`} className="hover:underline">{player.name}</Link>
+            </td>
+            <td className="px-4 py-2 text-gray-500 dark:text-gray-400">{player.position}</td>
+            <td className="px-4 py-2 text-right">{player.seasonPPG.toFixed(1)}</td>
+            <td className="px-4 py-2 text-right">{formatPoints(player.totalPoints)}</td>
+            <td className="px-4 py-2 text-right">#{player.positionRank}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+/**
+ * Team Season page content, rendered on the server
+ */
+export default function TeamSeasonView({ season, years }: { season: TeamSeason; years: number[] }) {
+  const { record, scheduleStrength, depth, leagueId, year } = season
+  const games = record.wins + record.losses + record.ties
+  const latestOdds = season.oddsHistory[season.oddsHistory.length - 1]
+  const teamHref = (franchiseId: string) => getTeamSeasonHref(franchiseId, year, leagueId)
+  const teamName = (franchiseId: string) => season.teams[franchiseId] || `Team ${franchiseId}`
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 flex items-center mb-2">
+              <ArrowLeft className="mr-1 h-4 w-4" /> Back to dashboard
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+              <Shield className="mr-2 h-6 w-6 text-blue-500" />
+              {season.teamName} · {year}
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {season.manager}{season.division && ` · ${season.division}`}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {years.map(y => (
+              <Link
+                key={y}
+                href={getTeamSeasonHref(season.franchiseId, y, leagueId)}
+                className={`px-3 py-1 rounded-lg text-sm ${y === year
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              >
+                {y}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <StatCard
+            label="Record"
+            value={`${record.wins}-${record.losses}${record.ties > 0 ? `-${record.ties}` : ''}`}
+            detail={games > 0 ? `${formatPercent((record.wins + record.ties * 0.5) / games)} win rate` : 'No games yet'}
+          />
+          <StatCard
+            label="Points For / Against"
+            value={`${formatPoints(record.pointsFor)} / ${formatPoints(record.pointsAgainst)}`}
+            detail={games > 0 ? `${(record.pointsFor / games).toFixed(1)} per game` : undefined}
+          />
+          <StatCard
+            label="Playoff Odds"
+            value={latestOdds ? `${latestOdds.playoffProbability.toFixed(1)}%` : '-'}
+            detail={latestOdds ? `After week ${latestOdds.week} · avg seed ${latestOdds.avgSeed.toFixed(1)}` : 'Not recorded yet'}
+          />
+          <StatCard
+            label="Depth Rating"
+            value={depth ? `${Math.round(depth.overallDepthRating)}` : '-'}
+            detail={depth ? `${depth.roster.length} rostered players` : 'Rosters unavailable'}
+          />
+        </div>
+
+        <TeamSeasonCharts weeklyResults={season.weeklyResults} oddsHistory={season.oddsHistory} />
+
+        {/* Weekly results */}
+        <Section title="Weekly Results" description="Efficiency is the share of the optimal lineup's points the starters scored">
+          <table className="min-w-full text-sm">
+            <thead className={headClass}>
+              <tr>
+                <th className="px-4 py-2 text-left">Week</th>
+                <th className="px-4 py-2 text-left">Opponent</th>
+                <th className="px-4 py-2 text-center">Result</th>
+                <th className="px-4 py-2 text-right">Score</th>
+                <th className="px-4 py-2 text-right">Optimal</th>
+                <th className="px-4 py-2 text-right">Efficiency</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {season.weeklyResults.map(week => (
+                <tr key={week.week} className="text-gray-900 dark:text-white">
+                  <td className="px-4 py-2">{week.week}</td>
+                  <td className="px-4 py-2">
+                    {week.opponentId ? (
+                      <Link href={teamHref(week.opponentId)} className="hover:underline">{teamName(week.opponentId)}</Link>
+                    ) : (
+                      <span className="text-gray-400 dark:text-gray-500">-</span>
+                    )}
+                  </td>
+                  <td className={`px-4 py-2 text-center font-semibold ${week.result ? RESULT_CLASSES[week.result] : ''}`}>
+                    {week.result || '-'}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {formatPoints(week.score)}
+                    {week.opponentScore !== null && (
+                      <span className="text-gray-500 dark:text-gray-400"> - {formatPoints(week.opponentScore)}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">{week.optimalPoints === null ? '-' : formatPoints(week.optimalPoints)}</td>
+                  <td className="px-4 py-2 text-right">{week.efficiency === null ? '-' : `${week.efficiency.toFixed(1)}%`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Position ranks */}
+          <Section title="Position Ranks" description="Regular-season starter points at each position against every team">
+            {season.positionRanks.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No weekly lineups for this season yet.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className={headClass}>
+                  <tr>
+                    <th className="px-4 py-2 text-left">Position</th>
+                    <th className="px-4 py-2 text-right">Points</th>
+                    <th className="px-4 py-2 text-right">League Avg</th>
+                    <th className="px-4 py-2 text-center">Rank</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {season.positionRanks.map(rank => (
+                    <tr key={rank.position} className="text-gray-900 dark:text-white">
+                      <td className="px-4 py-2">{rank.position}</td>
+                      <td className="px-4 py-2 text-right">{formatPoints(rank.points)}</td>
+                      <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{formatPoints(rank.leagueAverage)}</td>
+                      <td className="px-4 py-2 text-center">
+                        <span className={`px-2 py-0.5 rounded ${rank.colorClass}`}>{rank.rank}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+
+          {/* Schedule strength */}
+          <Section title="Schedule Strength" description="Opponents' win percentage, from the standings after the last completed week">
+            {!scheduleStrength ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No schedule for this season.</p>
+            ) : (
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Played</div>
+                    <div className="font-semibold text-gray-900 dark:text-white">
+                      {formatPercent(scheduleStrength.strengthOfSchedule)} opponent win rate
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Beaten teams {formatPercent(scheduleStrength.strengthOfVictory)} · opponents avg {scheduleStrength.avgOpponentPoints.toFixed(1)} pts
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Remaining</div>
+                    <div className="font-semibold text-gray-900 dark:text-white">
+                      {scheduleStrength.remainingGames === 0
+                        ? 'Regular season over'
+                        : `${formatPercent(scheduleStrength.strengthOfRemaining)} (${scheduleStrength.remainingDifficulty})`}
+                    </div>
+                    {scheduleStrength.remainingGames > 0 && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {scheduleStrength.expectedWins.toFixed(1)} expected wins in {scheduleStrength.remainingGames} games
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {scheduleStrength.remaining.length > 0 && (
+                  <table className="min-w-full text-sm">
+                    <thead className={headClass}>
+                      <tr>
+                        <th className="px-4 py-2 text-left">Week</th>
+                        <th className="px-4 py-2 text-left">Opponent</th>
+                        <th className="px-4 py-2 text-right">Opp Win %</th>
+                        <th className="px-4 py-2 text-right">Win Chance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {scheduleStrength.remaining.map(game => (
+                        <tr key={game.week} className="text-gray-900 dark:text-white">
+                          <td className="px-4 py-2">{game.week}</td>
+                          <td className="px-4 py-2">
+                            {game.isHome ? 'vs ' : '@ '}
+                            <Link href={teamHref(game.opponentId)} className="hover:underline">{teamName(game.opponentId)}</Link>
+                          </td>
+                          <td className="px-4 py-2 text-right">{formatPercent(game.opponentWinPct)}</td>
+                          <td className="px-4 py-2 text-right">{Math.round(game.winProbability * 100)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </Section>
+        </div>
+
+        {/* Trade depth */}
+        {depth && (
+          <>
+            <Section
+              title="Trade Depth"
+              description={`Depth by position against the league (team rank 1-${Object.keys(season.teams).length}); surplus positions have tradeable backups`}
+            >
+              <table className="min-w-full text-sm">
+                <thead className={headClass}>
+                  <tr>
+                    <th className="px-4 py-2 text-left">Position</th>
+                    <th className="px-4 py-2 text-center">Status</th>
+                    <th className="px-4 py-2 text-right">Rostered</th>
+                    <th className="px-4 py-2 text-right">Tradeable</th>
+                    <th className="px-4 py-2 text-right">Team Rank</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {POSITIONS.map(position => {
+                    const positionDepth = depth.positionDepth[position]
+                    if (!positionDepth) return null
+                    return (
+                      <tr key={position} className="text-gray-900 dark:text-white">
+                        <td className="px-4 py-2">{position}</td>
+                        <td className="px-4 py-2 text-center">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DEPTH_CLASSES[positionDepth.status]}`}>
+                            {positionDepth.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-right">{positionDepth.totalRostered} / {positionDepth.required} req</td>
+                        <td className="px-4 py-2 text-right">{positionDepth.tradeableBackups.length}</td>
+                        <td className="px-4 py-2 text-right">#{positionDepth.teamPositionRank}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </Section>
+
+            <Section title="Roster" description="Season-to-date scoring, ranked against every rostered player at the position">
+              <RosterTable roster={depth.roster} />
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
 import {
   DepthAnalysisResult,
   TeamDepthAnalysis,
@@ -11,12 +12,15 @@ import {
   getUpgradeSuggestions,
   type PlayerQualityTier
 } from '@/lib/trade-depth-calculator'
+import { useLeague } from '../providers/LeagueProvider'
+import TeamLink from './TeamLink'
 
 interface TradeDepthAnalyzerProps {
   year: number
 }
 
 export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
+  const { leagueId } = useLeague()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [data, setData] = useState<DepthAnalysisResult | null>(null)
@@ -30,7 +34,7 @@ export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
 
   useEffect(() => {
     fetchTradeDepth()
-  }, [year])
+  }, [year, leagueId])
 
   useEffect(() => {
     // Refetch when franchise selection changes to get personalized data
@@ -45,8 +49,8 @@ export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
 
     try {
       const url = franchiseId
-        ? `/api/mfl/trade-depth?year=${year}&franchiseId=${franchiseId}`
-        : `/api/mfl/trade-depth?year=${year}`
+        ? `/api/mfl/trade-depth?year=${year}&leagueId=${leagueId}&franchiseId=${franchiseId}`
+        : `/api/mfl/trade-depth?year=${year}&leagueId=${leagueId}`
 
       const response = await fetch(url)
 
@@ -318,7 +322,7 @@ export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
               <tr key={team.franchiseId} className="hover:bg-gray-50 dark:hover:bg-gray-800">
                 <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100 sticky left-0 bg-white dark:bg-gray-900">
                   <div>
-                    <div>{team.teamName}</div>
+                    <div><TeamLink franchiseId={team.franchiseId} year={team.year}>{team.teamName}</TeamLink></div>
                     <div className="text-xs text-gray-500 dark:text-gray-400">{team.manager}</div>
                   </div>
                 </td>
@@ -442,7 +446,7 @@ export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
                               >
                                 <div className="flex items-center gap-2">
                                   <span className="text-gray-900 dark:text-gray-100 font-medium">
-                                    {idx + 1}. {player.name}
+                                    {idx + 1}. <Link href={`/player/${player.id}`} className="hover:underline">{player.name}</Link>
                                   </span>
                                   {getTierBadge(tier)}
                                 </div>
@@ -473,7 +477,7 @@ export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
                                   className={`flex items-center justify-between rounded p-3 border-2 ${getQualityColor(tier)}`}
                                 >
                                   <div className="flex items-center gap-2">
-                                    <span className="text-gray-900 dark:text-gray-100">{player.name}</span>
+                                    <Link href={`/player/${player.id}`} className="text-gray-900 dark:text-gray-100 hover:underline">{player.name}</Link>
                                     {getTierBadge(tier)}
                                   </div>
                                   <div className="text-right text-sm">
@@ -508,7 +512,7 @@ export default function TradeDepthAnalyzer({ year }: TradeDepthAnalyzerProps) {
                                 >
                                   <div className="flex items-center justify-between mb-1">
                                     <div className="flex items-center gap-2">
-                                      <span className="text-gray-900 dark:text-gray-100">{player.name}</span>
+                                      <Link href={`/player/${player.id}`} className="text-gray-900 dark:text-gray-100 hover:underline">{player.name}</Link>
                                       {getTierBadge(tier)}
                                     </div>
                                     <div className="text-right text-sm">
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { EloRatingsResponse } from '@/lib/elo-ratings'
+
+interface UseEloRatingsParams {
+  enabled?: boolean
+}
+
+async function fetchEloRatings({ leagueId }: { leagueId: string }): Promise<EloRatingsResponse> {
+  const response = await fetch(`/api/mfl/elo?leagueId=${leagueId}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load ELO ratings (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function useEloRatings({ enabled = true }: UseEloRatingsParams = {}) {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['elo-ratings', leagueId],
+    queryFn: () => fetchEloRatings({ leagueId }),
+    enabled,
+    staleTime: 30 * 60 * 1000, // Ratings only change when a week completes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
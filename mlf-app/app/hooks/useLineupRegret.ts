@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { LineupRegretResponse } from '@/lib/lineup-regret'
+
+interface UseLineupRegretParams {
+  year: number
+  weeks?: number[]
+  enabled?: boolean
+}
+
+async function fetchLineupRegret({ year, weeks, leagueId }: { year: number; weeks: number[]; leagueId: string }): Promise<LineupRegretResponse> {
+  const params = new URLSearchParams({ year: year.toString(), leagueId })
+  if (weeks.length > 0) params.set('weeks', weeks.join(','))
+
+  const response = await fetch(`/api/mfl/lineup-regret?${params}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load lineup regret (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function useLineupRegret({ year, weeks = [], enabled = true }: UseLineupRegretParams) {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['lineup-regret', leagueId, year, weeks],
+    queryFn: () => fetchLineupRegret({ year, weeks, leagueId }),
+    enabled,
+    staleTime: 30 * 60 * 1000, // Lineups only change when a week completes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { LiveOddsUpdate, LiveScoreboard } from '@/lib/live-win-probability'
+
+export type LiveConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'final' | 'failed'
+
+/**
+ * Subscribe to the live matchups stream (server-sent events from /api/mfl/live)
+ * The stream reconnects on its own until the week's games are final
+ */
+export function useLiveScoring() {
+  const { leagueId } = useLeague()
+  const [scoreboard, setScoreboard] = useState<LiveScoreboard | null>(null)
+  const [odds, setOdds] = useState<LiveOddsUpdate | null>(null)
+  const [status, setStatus] = useState<LiveConnectionStatus>('connecting')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setScoreboard(null)
+    setOdds(null)
+    setStatus('connecting')
+    setError(null)
+
+    const source = new EventSource(`/api/mfl/live?leagueId=${leagueId}`)
+
+    source.addEventListener('scoreboard', event => {
+      setScoreboard(JSON.parse((event as MessageEvent).data))
+      setStatus(current => (current === 'final' ? current : 'live'))
+      setError(null)
+    })
+    source.addEventListener('odds', event => {
+      setOdds(JSON.parse((event as MessageEvent).data))
+    })
+    source.addEventListener('poll-error', event => {
+      const body = JSON.parse((event as MessageEvent).data)
+      setError(body?.details || body?.error || 'Failed to fetch live scoring')
+    })
+    source.addEventListener('final', () => {
+      setStatus('final')
+      source.close()
+    })
+    source.onerror = () => {
+      // A closed source won't retry - the route answered with an error instead of a stream
+      if (source.readyState === EventSource.CLOSED) {
+        setStatus(current => (current === 'final' ? current : 'failed'))
+        setError(current => current || 'Failed to connect to live scoring')
+      } else {
+        setStatus(current => (current === 'final' ? current : 'reconnecting'))
+      }
+    }
+
+    return () => source.close()
+  }, [leagueId])
+
+  return { scoreboard, odds, status, error }
+}
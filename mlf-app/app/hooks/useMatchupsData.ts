@@ -1,27 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
-
-export interface MatchupRecord {
-  franchiseId: string
-  manager: string
-  teamName: string
-  year: number
-  wins: number
-  losses: number
-  pointsFor: number
-  pointsAgainst: number
-  winPercentage: number
-  allPlayWins: number
-  allPlayLosses: number
-  allPlayWinPercentage: number
-  weeklyResults: {
-    week: number
-    opponent: string
-    pointsFor: number
-    pointsAgainst: number
-    result: 'W' | 'L'
-    margin: number
-  }[]
-}
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { TeamMatchupSummary } from '@/app/api/mfl/matchups/route'
 
 interface UseMatchupsDataParams {
   years: number[]
@@ -29,13 +8,13 @@ interface UseMatchupsDataParams {
   enabled?: boolean
 }
 
-async function fetchMatchupsData({ years, weeks }: { years: number[], weeks: number[] }): Promise<MatchupRecord[]> {
+async function fetchMatchupsData({ years, weeks, leagueId }: { years: number[], weeks: number[], leagueId: string }): Promise<TeamMatchupSummary[]> {
   if (years.length === 0) return []
 
   // Fetch matchups for all years in parallel
   const promises = years.map(async (year) => {
     const weeksParam = weeks.length > 0 ? `&weeks=${weeks.join(',')}` : ''
-    const apiUrl = `/api/mfl/matchups?year=${year}${weeksParam}`
+    const apiUrl = `/api/mfl/matchups?year=${year}&leagueId=${leagueId}${weeksParam}`
 
     const response = await fetch(apiUrl)
 
@@ -56,7 +35,7 @@ async function fetchMatchupsData({ years, weeks }: { years: number[], weeks: num
   })
 
   const results = await Promise.allSettled(promises)
-  const allMatchupsData: MatchupRecord[] = []
+  const allMatchupsData: TeamMatchupSummary[] = []
 
   results.forEach((result, index) => {
     if (result.status === 'fulfilled' && Array.isArray(result.value)) {
@@ -70,9 +49,11 @@ async function fetchMatchupsData({ years, weeks }: { years: number[], weeks: num
 }
 
 export function useMatchupsData({ years, weeks, enabled = true }: UseMatchupsDataParams) {
+  const { leagueId } = useLeague()
+
   return useQuery({
-    queryKey: ['matchups', years.sort(), weeks.sort()],
-    queryFn: () => fetchMatchupsData({ years, weeks }),
+    queryKey: ['matchups', leagueId, [...years].sort((a, b) => a - b), [...weeks].sort((a, b) => a - b)],
+    queryFn: () => fetchMatchupsData({ years, weeks, leagueId }),
     enabled: enabled && years.length > 0,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { OwnerRegistryResponse } from '@/lib/owner-registry'
+
+export type OwnerRegistryAction =
+  | { action: 'seed'; years?: number[]; overwrite?: boolean }
+  | { action: 'assign'; franchiseId: string; year: number; owners: string[] }
+  | { action: 'rename'; ownerId: string; name: string }
+
+async function fetchOwnerRegistry({ leagueId }: { leagueId: string }): Promise<OwnerRegistryResponse> {
+  const response = await fetch(`/api/mfl/owners?leagueId=${leagueId}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load owner registry (${response.status})`)
+  }
+
+  return response.json()
+}
+
+async function postOwnerRegistryAction({
+  leagueId,
+  adminToken,
+  request
+}: {
+  leagueId: string
+  adminToken: string
+  request: OwnerRegistryAction
+}): Promise<void> {
+  const params = new URLSearchParams({ leagueId, action: request.action })
+  if (request.action === 'seed') {
+    if (request.years && request.years.length > 0) params.set('years', request.years.join(','))
+    if (request.overwrite) params.set('overwrite', 'true')
+  }
+
+  const response = await fetch(`/api/mfl/owners?${params.toString()}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(adminToken ? { Authorization: `Bearer ${adminToken}` } : {})
+    },
+    body: request.action === 'seed' ? undefined : JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to ${request.action} owners (${response.status})`)
+  }
+}
+
+export function useOwnerRegistry() {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['owner-registry', leagueId],
+    queryFn: () => fetchOwnerRegistry({ leagueId }),
+    staleTime: 5 * 60 * 1000, // Matches the server's registry refresh
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
+
+/**
+ * Seed or edit the registry; owner names elsewhere in the app follow on their next fetch
+ */
+export function useOwnerRegistryAction(adminToken: string) {
+  const { leagueId } = useLeague()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (request: OwnerRegistryAction) => postOwnerRegistryAction({ leagueId, adminToken, request }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['owner-registry', leagueId] })
+  })
+}
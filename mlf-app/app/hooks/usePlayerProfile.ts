@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { PlayerProfile } from '@/lib/player-profile'
+
+async function fetchPlayerProfile({ playerId, leagueId }: { playerId: string; leagueId: string }): Promise<PlayerProfile> {
+  const response = await fetch(`/api/mfl/players/${encodeURIComponent(playerId)}?leagueId=${leagueId}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load player profile (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function usePlayerProfile(playerId: string) {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['player-profile', leagueId, playerId],
+    queryFn: () => fetchPlayerProfile({ playerId, leagueId }),
+    staleTime: 30 * 60 * 1000, // History only changes when a week completes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { BacktestReport } from '@/lib/playoff-backtest'
+
+interface UsePlayoffBacktestParams {
+  iterations: number
+  enabled?: boolean
+}
+
+async function fetchPlayoffBacktest({ iterations, leagueId }: { iterations: number, leagueId: string }): Promise<BacktestReport> {
+  const response = await fetch(`/api/mfl/backtest?leagueId=${leagueId}&iterations=${iterations}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to run playoff backtest (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function usePlayoffBacktest({ iterations, enabled = true }: UsePlayoffBacktestParams) {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['playoff-backtest', leagueId, iterations],
+    queryFn: () => fetchPlayoffBacktest({ iterations, leagueId }),
+    enabled,
+    staleTime: Infinity, // Completed seasons never change
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  })
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { PlayoffHistoryResponse } from '@/lib/playoff-history'
+
+interface UsePlayoffHistoryParams {
+  year: number
+  enabled?: boolean
+}
+
+async function fetchPlayoffHistory({ year, leagueId }: { year: number, leagueId: string }): Promise<PlayoffHistoryResponse> {
+  const response = await fetch(`/api/mfl/playoff-history?year=${year}&leagueId=${leagueId}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load playoff history (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function usePlayoffHistory({ year, enabled = true }: UsePlayoffHistoryParams) {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['playoff-history', leagueId, year],
+    queryFn: () => fetchPlayoffHistory({ year, leagueId }),
+    enabled,
+    staleTime: 30 * 60 * 1000, // Snapshots only change when a week completes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { RecordsBookResponse } from '@/lib/records-book'
+
+async function fetchRecordsBook({ leagueId }: { leagueId: string }): Promise<RecordsBookResponse> {
+  const response = await fetch(`/api/mfl/records?leagueId=${leagueId}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load records book (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function useRecordsBook() {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['records-book', leagueId],
+    queryFn: () => fetchRecordsBook({ leagueId }),
+    staleTime: 30 * 60 * 1000, // Records only change when a week completes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { RivalriesResponse } from '@/lib/rivalries'
+
+async function fetchRivalries({ leagueId }: { leagueId: string }): Promise<RivalriesResponse> {
+  const response = await fetch(`/api/mfl/rivalries?leagueId=${leagueId}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load rivalries (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function useRivalries() {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['rivalries', leagueId],
+    queryFn: () => fetchRivalries({ leagueId }),
+    staleTime: 30 * 60 * 1000, // Meetings only change when a week completes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
 import { Team } from '@/lib/mfl'
 
 interface UseTeamsDataParams {
@@ -10,11 +11,12 @@ interface UseTeamsDataParams {
 interface FetchTeamsParams {
   year: number
   weeks: number[]
+  leagueId: string
 }
 
-async function fetchTeamsForYear({ year, weeks }: FetchTeamsParams): Promise<Team[]> {
+async function fetchTeamsForYear({ year, weeks, leagueId }: FetchTeamsParams): Promise<Team[]> {
   const weeksParam = weeks.length > 0 ? `&weeks=${weeks.join(',')}` : ''
-  const apiUrl = `/api/mfl?year=${year}${weeksParam}`
+  const apiUrl = `/api/mfl?year=${year}&leagueId=${leagueId}${weeksParam}`
 
   const response = await fetch(apiUrl)
 
@@ -48,11 +50,11 @@ async function fetchTeamsForYear({ year, weeks }: FetchTeamsParams): Promise<Tea
   return data.map((team: Team) => ({ ...team, year: team.year || year }))
 }
 
-async function fetchAllTeamsData({ years, weeks }: { years: number[], weeks: number[] }): Promise<Team[]> {
+async function fetchAllTeamsData({ years, weeks, leagueId }: { years: number[], weeks: number[], leagueId: string }): Promise<Team[]> {
   if (years.length === 0) return []
 
   // Fetch all years in parallel for better performance
-  const promises = years.map(year => fetchTeamsForYear({ year, weeks }))
+  const promises = years.map(year => fetchTeamsForYear({ year, weeks, leagueId }))
   const results = await Promise.allSettled(promises)
 
   const allTeamsData: Team[] = []
@@ -78,9 +80,11 @@ async function fetchAllTeamsData({ years, weeks }: { years: number[], weeks: num
 }
 
 export function useTeamsData({ years, weeks, enabled = true }: UseTeamsDataParams) {
+  const { leagueId } = useLeague()
+
   return useQuery({
-    queryKey: ['teams', years.sort(), weeks.sort()],
-    queryFn: () => fetchAllTeamsData({ years, weeks }),
+    queryKey: ['teams', leagueId, years.sort(), weeks.sort()],
+    queryFn: () => fetchAllTeamsData({ years, weeks, leagueId }),
     enabled: enabled && years.length > 0,
     staleTime: 1 * 60 * 1000, // 1 minute for real-time updates
     gcTime: 10 * 60 * 1000, // 10 minutes
@@ -89,9 +93,11 @@ export function useTeamsData({ years, weeks, enabled = true }: UseTeamsDataParam
 
 // Hook for a single year (for components that need specific year data)
 export function useTeamsDataForYear(year: number, weeks: number[] = []) {
+  const { leagueId } = useLeague()
+
   return useQuery({
-    queryKey: ['teams', year, weeks.sort()],
-    queryFn: () => fetchTeamsForYear({ year, weeks }),
+    queryKey: ['teams', leagueId, year, weeks.sort()],
+    queryFn: () => fetchTeamsForYear({ year, weeks, leagueId }),
     staleTime: 1 * 60 * 1000, // 1 minute for real-time updates
     gcTime: 10 * 60 * 1000,
   })
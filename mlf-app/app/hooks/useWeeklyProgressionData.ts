@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
 
 export interface WeeklyProgressionData {
   franchiseId: string
@@ -33,13 +34,13 @@ interface UseWeeklyProgressionParams {
   enabled?: boolean
 }
 
-async function fetchWeeklyProgressionData({ years, weeks }: { years: number[], weeks: number[] }): Promise<WeeklyProgressionData[]> {
+async function fetchWeeklyProgressionData({ years, weeks, leagueId }: { years: number[], weeks: number[], leagueId: string }): Promise<WeeklyProgressionData[]> {
   if (years.length === 0) return []
 
   // Fetch weekly progression for all years in parallel
   const promises = years.map(async (year) => {
     const weeksParam = weeks.length > 0 ? `&weeks=${weeks.join(',')}` : ''
-    const apiUrl = `/api/mfl/weekly-progression?year=${year}${weeksParam}`
+    const apiUrl = `/api/mfl/weekly-progression?year=${year}&leagueId=${leagueId}${weeksParam}`
 
     const response = await fetch(apiUrl)
 
@@ -74,9 +75,11 @@ async function fetchWeeklyProgressionData({ years, weeks }: { years: number[], w
 }
 
 export function useWeeklyProgressionData({ years, weeks, enabled = true }: UseWeeklyProgressionParams) {
+  const { leagueId } = useLeague()
+
   return useQuery({
-    queryKey: ['weekly-progression', years.sort(), weeks.sort()],
-    queryFn: () => fetchWeeklyProgressionData({ years, weeks }),
+    queryKey: ['weekly-progression', leagueId, years.sort(), weeks.sort()],
+    queryFn: () => fetchWeeklyProgressionData({ years, weeks, leagueId }),
     enabled: enabled && years.length > 0,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { useLeague } from '@/app/providers/LeagueProvider'
+import type { WeeklyProjections } from '@/lib/weekly-projections'
+
+interface UseWeeklyProjectionsParams {
+  year: number
+  enabled?: boolean
+}
+
+async function fetchWeeklyProjections({ leagueId, year }: { leagueId: string; year: number }): Promise<WeeklyProjections> {
+  const response = await fetch(`/api/mfl/projections?leagueId=${leagueId}&year=${year}`)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.details || body?.error || `Failed to load projections (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function useWeeklyProjections({ year, enabled = true }: UseWeeklyProjectionsParams) {
+  const { leagueId } = useLeague()
+
+  return useQuery({
+    queryKey: ['weekly-projections', leagueId, year],
+    queryFn: () => fetchWeeklyProjections({ leagueId, year }),
+    enabled,
+    staleTime: 15 * 60 * 1000, // Rosters are cached for 15 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
@@ -16,7 +16,12 @@ import RankingsTable from './components/RankingsTable'
 import HeadToHeadComparison from './components/HeadToHeadComparison'
 import SeasonBreakdownTable from './components/SeasonBreakdownTable'
 import PlayoffProjections from './components/PlayoffProjections'
+import PlayoffBacktest from './components/PlayoffBacktest'
 import TradeDepthAnalyzer from './components/TradeDepthAnalyzer'
+import ScheduleSwapMatrix from './components/ScheduleSwapMatrix'
+import RecordsBook from './components/RecordsBook'
+import RivalryHistory from './components/RivalryHistory'
+import LiveMatchups from './components/LiveMatchups'
 import ExportButton from './components/ExportButton'
 import Sidebar from './components/Sidebar'
 import { Menu } from 'lucide-react'
@@ -36,7 +41,7 @@ const currentYear = getCurrentYear()
 export default function Home() {
   const [selectedYears, setSelectedYears] = useState<number[]>([currentYear])
   const [selectedWeeks, setSelectedWeeks] = useState<number[]>([]) // Empty array means all weeks
-  const [activeView, setActiveView] = useState<'table' | 'charts' | 'positions' | 'matchups' | 'rankings' | 'comparison' | 'breakdown' | 'playoff' | 'trades'>('table')
+  const [activeView, setActiveView] = useState<'table' | 'charts' | 'positions' | 'matchups' | 'rankings' | 'comparison' | 'breakdown' | 'playoff' | 'backtest' | 'trades' | 'schedule' | 'records' | 'rivalries' | 'live'>('table')
   const [selectedManagers, setSelectedManagers] = useState<string[]>([])
   const [statFilter, setStatFilter] = useState<'all' | 'offense' | 'defense'>('all')
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
@@ -217,7 +222,12 @@ export default function Home() {
                  activeView === 'comparison' ? 'Team Comparison' :
                  activeView === 'breakdown' ? 'Regular Season vs Postseason Performance' :
                  activeView === 'playoff' ? 'Playoff Probability Tracker' :
+                 activeView === 'backtest' ? 'Playoff Model Backtest' :
                  activeView === 'trades' ? 'Trade Depth Analyzer' :
+                 activeView === 'schedule' ? 'Schedule Swap Matrix' :
+                 activeView === 'records' ? 'All-Time Records Book' :
+                 activeView === 'rivalries' ? 'Head-to-Head Rivalries' :
+                 activeView === 'live' ? 'Live Matchups' :
                  'Matchups & Records'}
               </h2>
               <div className="flex items-center space-x-4">
@@ -299,8 +309,18 @@ export default function Home() {
               <SeasonBreakdownTable teams={filteredTeams} />
             ) : activeView === 'playoff' ? (
               <PlayoffProjections year={selectedYears[0] || currentYear} />
+            ) : activeView === 'backtest' ? (
+              <PlayoffBacktest />
             ) : activeView === 'trades' ? (
               <TradeDepthAnalyzer year={selectedYears[0] || currentYear} />
+            ) : activeView === 'schedule' ? (
+              <ScheduleSwapMatrix years={selectedYears.length === 0 ? availableYears : selectedYears} selectedWeeks={selectedWeeks} />
+            ) : activeView === 'records' ? (
+              <RecordsBook />
+            ) : activeView === 'rivalries' ? (
+              <RivalryHistory />
+            ) : activeView === 'live' ? (
+              <LiveMatchups />
             ) : (
               <div className="space-y-8">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -317,6 +337,9 @@ export default function Home() {
                     <TeamChart teams={filteredTeams} chartType="efficiency" selectedWeeks={selectedWeeks} />
                   </div>
                 </div>
+                <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                  <TeamChart teams={filteredTeams} chartType="eloRating" selectedWeeks={selectedWeeks} />
+                </div>
               </div>
             )}
           </div>
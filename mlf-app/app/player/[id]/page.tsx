@@ -0,0 +1,10 @@
+import PlayerProfile from '../../components/PlayerProfile'
+
+export const metadata = {
+  title: 'Player Profile | MyFantasyLeague Leaderboard'
+}
+
+export default async function PlayerProfilePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <PlayerProfile playerId={id} />
+}
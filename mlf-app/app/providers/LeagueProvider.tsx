@@ -0,0 +1,69 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+
+export interface LeagueOption {
+  id: string
+  name: string
+  startYear: number
+}
+
+interface LeagueContextValue {
+  leagueId: string
+  leagues: LeagueOption[]
+  setLeagueId: (leagueId: string) => void
+}
+
+interface LeagueProviderProps {
+  children: React.ReactNode
+}
+
+const STORAGE_KEY = 'mfl-selected-league'
+const DEFAULT_LEAGUE_ID = process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID || '46221'
+
+const LeagueContext = createContext<LeagueContextValue>({
+  leagueId: DEFAULT_LEAGUE_ID,
+  leagues: [],
+  setLeagueId: () => {},
+})
+
+export default function LeagueProvider({ children }: LeagueProviderProps) {
+  const [leagueId, setLeagueIdState] = useState(DEFAULT_LEAGUE_ID)
+  const [leagues, setLeagues] = useState<LeagueOption[]>([])
+
+  // Load registered leagues and restore the last selection
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY)
+
+    fetch('/api/mfl/leagues')
+      .then(response => response.json())
+      .then(data => {
+        const registered: LeagueOption[] = Array.isArray(data.leagues) ? data.leagues : []
+        setLeagues(registered)
+
+        if (stored && registered.some(league => league.id === stored)) {
+          setLeagueIdState(stored)
+        } else if (data.defaultLeagueId) {
+          setLeagueIdState(data.defaultLeagueId)
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load leagues:', error)
+      })
+  }, [])
+
+  const setLeagueId = (id: string) => {
+    setLeagueIdState(id)
+    localStorage.setItem(STORAGE_KEY, id)
+  }
+
+  return (
+    <LeagueContext.Provider value={{ leagueId, leagues, setLeagueId }}>
+      {children}
+    </LeagueContext.Provider>
+  )
+}
+
+export function useLeague() {
+  return useContext(LeagueContext)
+}
@@ -0,0 +1,48 @@
+import { notFound } from 'next/navigation'
+import TeamSeasonView from '../../../components/TeamSeasonView'
+import { getLeague, isRegisteredLeague, resolveLeagueId } from '@/lib/league-registry'
+import { getCurrentNFLSeason } from '@/lib/season-config'
+import { getAvailableYears } from '@/lib/utils'
+import { fetchTeamSeason } from '@/lib/team-season-service'
+import type { TeamSeason } from '@/lib/team-season'
+
+export const metadata = {
+  title: 'Team Season | MyFantasyLeague Leaderboard'
+}
+
+export default async function TeamSeasonPage({ params, searchParams }: {
+  params: Promise<{ franchiseId: string; year: string }>
+  searchParams: Promise<{ leagueId?: string | string[] }>
+}) {
+  const { franchiseId, year } = await params
+  const { leagueId: requestedLeagueId } = await searchParams
+  if (typeof requestedLeagueId === 'string' && requestedLeagueId.trim() && !isRegisteredLeague(requestedLeagueId.trim())) notFound()
+  const leagueId = resolveLeagueId(new URLSearchParams(
+    typeof requestedLeagueId === 'string' ? { leagueId: requestedLeagueId } : {}
+  ))
+  const season = parseInt(year)
+  const years = getAvailableYears(getLeague(leagueId)?.startYear).filter(y => y <= getCurrentNFLSeason())
+
+  if (!years.includes(season)) notFound()
+
+  let teamSeason: TeamSeason | null
+  try {
+    teamSeason = await fetchTeamSeason(franchiseId, season, leagueId)
+  } catch (error) {
+    console.error('[Team Season Page] Error:', error)
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-8">
+        <div className="max-w-6xl mx-auto bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+          <h3 className="text-red-800 dark:text-red-400 font-semibold mb-2">Team Season Unavailable</h3>
+          <p className="text-red-600 dark:text-red-500">
+            {error instanceof Error ? error.message : 'Could not load this season from MFL'}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!teamSeason) notFound()
+
+  return <TeamSeasonView season={teamSeason} years={years} />
+}
@@ -49,7 +49,7 @@ export async function GET(request: NextRequest) {
   
   try {
     // Check cache first
-    const cachedData = getFromCache(cacheKey)
+    const cachedData = await getFromCache(cacheKey)
     if (cachedData && (Date.now() - cachedData.timestamp) < CACHE_DURATION) {
       console.log('Returning cached player scores data')
       return NextResponse.json(cachedData.data, { headers: getCorsHeaders() })
@@ -133,7 +133,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Cache the results
-    setCache(cacheKey, responseData)
+    await setCache(cacheKey, responseData)
     
     console.log(`Successfully processed player scores for ${Object.keys(franchiseData).length} franchises`)
     
@@ -143,7 +143,7 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching player scores:', error)
     
     // Try to return cached data as fallback
-    const cachedData = getFromCache(cacheKey)
+    const cachedData = await getFromCache(cacheKey)
     if (cachedData) {
       console.log('Returning stale cached data due to error')
       return NextResponse.json(cachedData.data, { 
@@ -72,7 +72,7 @@ export async function GET(request: NextRequest) {
   
   try {
     // Check cache first
-    const cachedData = getFromCache(cacheKey)
+    const cachedData = await getFromCache(cacheKey)
     if (cachedData && (Date.now() - cachedData.timestamp) < cacheTime) {
       console.log('Returning cached weekly results data')
       return NextResponse.json(cachedData.data, { headers: getCorsHeaders() })
@@ -140,7 +140,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Cache the results
-    setCache(cacheKey, finalResponse)
+    await setCache(cacheKey, finalResponse)
     
     console.log(`Successfully fetched weekly results: ${responseData.length} total results`)
     
@@ -150,7 +150,7 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching weekly results:', error)
     
     // Try to return cached data as fallback
-    const cachedData = getFromCache(cacheKey)
+    const cachedData = await getFromCache(cacheKey)
     if (cachedData) {
       console.log('Returning stale cached data due to error')
       return NextResponse.json(cachedData.data, { 
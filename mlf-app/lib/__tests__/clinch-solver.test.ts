@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the exact clinch/elimination solver
+ * An 8-team, 2-division league with 5 playoff spots (2 division winners + 3 wildcards)
+ */
+
+import { MAX_EXACT_GAMES, solveClinchScenarios } from '../clinch-solver'
+import type { HeadToHeadRecords } from '../tiebreaker-utils'
+import type { TiebreakerChain } from '../tiebreaker-rules'
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
+import type { DivisionsData } from '@/app/api/mfl/divisions/route'
+
+describe('Clinch Solver', () => {
+  // East: 0001 (11-3), 0002 (8-6), 0003 (9-5), 0004 (9-5)
+  // West: 0005 and 0006 tied for the division at 8-6, 0007 (2-11), 0008 (1-12)
+  const records: Record<string, [number, number, number]> = {
+    '0001': [11, 3, 1400],
+    '0002': [8, 6, 1300],
+    '0003': [9, 5, 1350],
+    '0004': [9, 5, 1340],
+    '0005': [8, 6, 1200],
+    '0006': [8, 6, 1250],
+    '0007': [2, 11, 1000],
+    '0008': [1, 12, 950]
+  }
+
+  const standings: StandingsFranchise[] = Object.entries(records).map(([id, [wins, losses, pointsFor]]) => ({
+    id,
+    pf: String(pointsFor),
+    pa: '1200',
+    avgpf: (pointsFor / (wins + losses)).toFixed(2),
+    avgpa: '85.71',
+    h2hw: String(wins),
+    h2hl: String(losses),
+    h2ht: '0',
+    h2hpct: (wins / (wins + losses)).toFixed(3),
+    h2hwlt: `${wins}-${losses}-0`,
+    divwlt: '3-3-0',
+    strk: 'W1'
+  }))
+
+  const franchiseIds = Object.keys(records)
+  const divisionsData: DivisionsData = {
+    divisions: [{ id: '00', name: 'East' }, { id: '01', name: 'West' }],
+    franchises: [],
+    divisionMap: Object.fromEntries(franchiseIds.map((id, i) => [id, i < 4 ? '00' : '01'])),
+    divisionNames: { '00': 'East', '01': 'West' },
+    divisionTeams: { '00': franchiseIds.slice(0, 4), '01': franchiseIds.slice(4) }
+  }
+
+  // Only the bottom two still play, so every race is settled on record but not on points
+  const lastGame: TeamSchedule[] = franchiseIds.map(id => ({
+    franchiseId: id,
+    remainingGames: id === '0007' ? [{ week: 14, opponentId: '0008', isHome: true }]
+      : id === '0008' ? [{ week: 14, opponentId: '0007', isHome: false }]
+      : [],
+    completedGames: id === '0007' || id === '0008' ? 13 : 14,
+    totalGames: 14
+  }))
+
+  const tiebreakers: TiebreakerChain = ['win-pct', 'head-to-head', 'points-for']
+
+  describe('solveClinchScenarios', () => {
+    it('should clinch through head-to-head when the last wildcard tie is decided before points', () => {
+      // 0002 beat both West teams, so whichever misses the division loses the tie to 0002
+      const headToHead: HeadToHeadRecords = {
+        '0002': { wins: { '0005': 1, '0006': 1 }, losses: {} },
+        '0005': { wins: {}, losses: { '0002': 1 } },
+        '0006': { wins: {}, losses: { '0002': 1 } }
+      }
+
+      const analysis = solveClinchScenarios(standings, lastGame, divisionsData, { tiebreakers, headToHead })
+
+      expect(analysis?.outcomes).toBe(2)
+      expect(analysis?.teams['0002'].clinchedPlayoffs).toBe(true)
+      expect(analysis?.teams['0007'].eliminated).toBe(true)
+    })
+
+    it('should not clinch when a rival could win its division on points', () => {
+      // 0002 beat 0005 but lost to 0006. 0006 leads 0005 on points so far, but the
+      // division is decided on points still to come: if 0005 wins it, 0006 takes the wildcard
+      const headToHead: HeadToHeadRecords = {
+        '0002': { wins: { '0005': 1 }, losses: { '0006': 1 } },
+        '0005': { wins: {}, losses: { '0002': 1 } },
+        '0006': { wins: { '0002': 1 }, losses: {} }
+      }
+
+      const analysis = solveClinchScenarios(standings, lastGame, divisionsData, { tiebreakers, headToHead })
+
+      expect(analysis?.teams['0002'].clinchedPlayoffs).toBe(false)
+      expect(analysis?.teams['0002'].eliminated).toBe(false)
+      expect(analysis?.teams['0005'].clinchedDivision).toBe(false)
+      expect(analysis?.teams['0006'].clinchedDivision).toBe(false)
+    })
+
+    it('should leave a team tied on points neither clinched nor eliminated', () => {
+      // Without head-to-head, 0002 and the West runner-up are separated only by points
+      const analysis = solveClinchScenarios(standings, lastGame, divisionsData, { tiebreakers: ['win-pct', 'points-for'] })
+
+      expect(analysis?.teams['0002'].clinchedPlayoffs).toBe(false)
+      expect(analysis?.teams['0002'].eliminated).toBe(false)
+      expect(analysis?.teams['0001'].clinchedDivision).toBe(true)
+    })
+
+    it(`should only solve ${MAX_EXACT_GAMES} or fewer remaining games`, () => {
+      // Every team plays every other team once more: 28 games
+      const roundRobin: TeamSchedule[] = franchiseIds.map(id => ({
+        franchiseId: id,
+        remainingGames: franchiseIds
+          .filter(opponentId => opponentId !== id)
+          .map((opponentId, i) => ({ week: 15 + i, opponentId, isHome: id < opponentId })),
+        completedGames: 14,
+        totalGames: 21
+      }))
+
+      expect(solveClinchScenarios(standings, roundRobin, divisionsData)).toBeNull()
+    })
+
+    it('should not solve median leagues', () => {
+      expect(solveClinchScenarios(standings, lastGame, divisionsData, { scoringFormat: 'median' })).toBeNull()
+    })
+  })
+})
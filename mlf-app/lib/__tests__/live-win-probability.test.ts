@@ -0,0 +1,113 @@
+/**
+ * Unit tests for live win probability
+ * Covers player scoring profiles, in-game projections and matchup odds
+ */
+
+import {
+  NFL_GAME_SECONDS,
+  buildLiveMatchup,
+  buildPlayerScoreProfiles,
+  calculateProjectedWinProbability,
+  getLivePlayerStatus,
+  getPlayerScoreProfile,
+  normalCdf,
+  projectLiveTeam
+} from '../live-win-probability'
+import type { WeeklyLineup } from '../mfl-weekly-results'
+
+const lineup = (week: number, players: Array<{ id: string; position: string; score: number }>): WeeklyLineup => ({
+  week,
+  franchiseId: '0001',
+  starterIds: players.map(p => p.id),
+  starterData: players.map(p => ({ ...p, name: `Player ${p.id}` })),
+  benchIds: [],
+  benchData: []
+})
+
+describe('Live Win Probability', () => {
+  const lineups = [
+    lineup(1, [{ id: 'qb1', position: 'QB', score: 20 }, { id: 'wr1', position: 'WR', score: 10 }]),
+    lineup(2, [{ id: 'qb1', position: 'QB', score: 30 }, { id: 'wr1', position: 'WR', score: 0 }]),
+    lineup(3, [{ id: 'qb1', position: 'QB', score: 25 }, { id: 'wr1', position: 'WR', score: 14 }])
+  ]
+  const profiles = buildPlayerScoreProfiles(lineups)
+
+  describe('buildPlayerScoreProfiles', () => {
+    it('should average each player\'s weeks, skipping zero-point weeks', () => {
+      expect(profiles.players.qb1.mean).toBeCloseTo(25, 6)
+      expect(profiles.players.qb1.games).toBe(3)
+      expect(profiles.players.wr1.mean).toBeCloseTo(12, 6)
+      expect(profiles.players.wr1.games).toBe(2)
+    })
+
+    it('should fall back to the position, then the league, for unknown players', () => {
+      expect(getPlayerScoreProfile(profiles, 'qb2', 'QB').mean).toBeCloseTo(25, 6)
+      expect(getPlayerScoreProfile(profiles, 'k1', 'K').mean).toBe(profiles.league.mean)
+      expect(getPlayerScoreProfile(profiles, 'k1', 'K').games).toBe(0)
+    })
+  })
+
+  describe('getLivePlayerStatus', () => {
+    it('should classify players by time left in their game', () => {
+      expect(getLivePlayerStatus(NFL_GAME_SECONDS)).toBe('yet-to-play')
+      expect(getLivePlayerStatus(1800)).toBe('playing')
+      expect(getLivePlayerStatus(0)).toBe('finished')
+    })
+  })
+
+  describe('projectLiveTeam', () => {
+    it('should add the unplayed share of each starter\'s mean to the current score', () => {
+      const team = projectLiveTeam(
+        {
+          franchiseId: '0001',
+          teamName: 'Team 1',
+          manager: 'Owner 1',
+          score: 40,
+          starters: [
+            { id: 'qb1', score: 10, secondsRemaining: NFL_GAME_SECONDS / 2 },
+            { id: 'wr1', score: 30, secondsRemaining: 0 }
+          ]
+        },
+        profiles,
+        { qb1: { name: 'QB One', position: 'QB' } }
+      )
+
+      expect(team.projectedScore).toBeCloseTo(52.5, 6)
+      expect(team.playersPlaying).toBe(1)
+      expect(team.playersYetToPlay).toBe(0)
+      expect(team.starters[0].name).toBe('QB One')
+      expect(team.starters[1].projectedRemaining).toBe(0)
+    })
+  })
+
+  describe('calculateProjectedWinProbability', () => {
+    it('should be even for equal projections and favour the higher one', () => {
+      expect(calculateProjectedWinProbability({ projectedScore: 100, stdDev: 10 }, { projectedScore: 100, stdDev: 10 })).toBeCloseTo(0.5, 6)
+      expect(calculateProjectedWinProbability({ projectedScore: 110, stdDev: 10 }, { projectedScore: 100, stdDev: 10 })).toBeGreaterThan(0.5)
+    })
+
+    it('should be certain once nothing is left to play', () => {
+      expect(calculateProjectedWinProbability({ projectedScore: 101, stdDev: 0 }, { projectedScore: 100, stdDev: 0 })).toBe(1)
+      expect(calculateProjectedWinProbability({ projectedScore: 99, stdDev: 0 }, { projectedScore: 100, stdDev: 0 })).toBe(0)
+      expect(calculateProjectedWinProbability({ projectedScore: 100, stdDev: 0 }, { projectedScore: 100, stdDev: 0 })).toBe(0.5)
+    })
+  })
+
+  describe('normalCdf', () => {
+    it('should match known standard normal values', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5, 6)
+      expect(normalCdf(1.96)).toBeCloseTo(0.975, 3)
+      expect(normalCdf(-1)).toBeCloseTo(0.1587, 3)
+    })
+  })
+
+  describe('buildLiveMatchup', () => {
+    it('should mark a matchup final only when every starter on both sides is done', () => {
+      const done = { franchiseId: '0001', teamName: 'A', manager: 'A', score: 100, projectedScore: 100, stdDev: 0, playersYetToPlay: 0, playersPlaying: 0, starters: [] }
+      const playing = { ...done, franchiseId: '0002', playersPlaying: 1, stdDev: 5 }
+
+      expect(buildLiveMatchup(done, { ...done, franchiseId: '0002', score: 90, projectedScore: 90 }).isFinal).toBe(true)
+      expect(buildLiveMatchup(done, playing).isFinal).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the championship bracket
+ * Covers bracket sizing, first-round byes, fixed vs reseeded pairings and multi-week rounds
+ */
+
+import {
+  getBracketSize,
+  getRoundCount,
+  getRoundNames,
+  getRoundWeeks,
+  simulateBracket,
+  type BracketSeed,
+  type PlayBracketGame
+} from '../playoff-bracket'
+
+const makeSeeds = (count: number): BracketSeed[] =>
+  Array.from({ length: count }, (_, i) => ({ seed: i + 1, franchiseId: `000${i + 1}`.slice(-4) }))
+
+// Chalk: the better seed always wins
+const higherSeedWins: PlayBracketGame = high => high
+
+const pairings = (games: ReturnType<typeof simulateBracket>['games'], round: number) =>
+  games
+    .filter(game => game.round === round)
+    .map(game => [game.high.seed, game.low?.seed ?? null])
+
+describe('Playoff Bracket', () => {
+  describe('getBracketSize and getRoundCount', () => {
+    it('should round the field up to the next power of two', () => {
+      expect(getBracketSize(4)).toBe(4)
+      expect(getBracketSize(6)).toBe(8)
+      expect(getBracketSize(7)).toBe(8)
+      expect(getRoundCount(6)).toBe(3)
+      expect(getRoundCount(4)).toBe(2)
+    })
+  })
+
+  describe('getRoundNames', () => {
+    it('should name rounds counting back from the final', () => {
+      expect(getRoundNames(3)).toEqual(['Quarterfinals', 'Semifinals', 'Championship'])
+      expect(getRoundNames(4)).toEqual(['Round 1', 'Quarterfinals', 'Semifinals', 'Championship'])
+    })
+  })
+
+  describe('getRoundWeeks', () => {
+    it('should line the championship up with the last configured round', () => {
+      expect(getRoundWeeks({ rounds: [[14], [15], [16], [17]], reseed: false }, 2)).toEqual([[16], [17]])
+    })
+
+    it('should fill missing early rounds with the weeks just before', () => {
+      expect(getRoundWeeks({ rounds: [[16], [17]], reseed: false }, 3)).toEqual([[15], [16], [17]])
+    })
+  })
+
+  describe('simulateBracket with a fixed bracket', () => {
+    const config = { rounds: [[15], [16], [17]], reseed: false }
+
+    it('should give the top two seeds first-round byes in a six-team field', () => {
+      const { games } = simulateBracket(makeSeeds(6), config, higherSeedWins)
+
+      expect(pairings(games, 0)).toEqual([[1, null], [4, 5], [2, null], [3, 6]])
+    })
+
+    it('should keep winners in their slot instead of reseeding', () => {
+      // 5 upsets 4 and should then face 1, not 2
+      const upset: PlayBracketGame = (high, low) => (high.seed === 4 ? low : high)
+      const { games, champion } = simulateBracket(makeSeeds(6), config, upset)
+
+      expect(pairings(games, 1)).toEqual([[1, 5], [2, 3]])
+      expect(champion?.seed).toBe(1)
+    })
+
+    it('should play each round in its configured weeks', () => {
+      const { games } = simulateBracket(makeSeeds(4), config, higherSeedWins)
+
+      expect(games.filter(game => game.round === 0).every(game => game.weeks[0] === 16)).toBe(true)
+      expect(games.find(game => game.round === 1)?.weeks).toEqual([17])
+    })
+  })
+
+  describe('simulateBracket with reseeding', () => {
+    const config = { rounds: [[15], [16], [17]], reseed: true }
+
+    it('should pair the best remaining seed with the worst after an upset', () => {
+      // 6 upsets 3, so 1 plays 6 and 2 plays 4 in the semifinals
+      const upset: PlayBracketGame = (high, low) => (high.seed === 3 ? low : high)
+      const { games, champion } = simulateBracket(makeSeeds(6), config, upset)
+
+      expect(pairings(games, 0)).toEqual([[1, null], [2, null], [3, 6], [4, 5]])
+      expect(pairings(games, 1)).toEqual([[1, 6], [2, 4]])
+      expect(champion?.seed).toBe(1)
+    })
+  })
+
+  describe('simulateBracket edge cases', () => {
+    it('should pass every week of a multi-week round to the game', () => {
+      const weeksSeen: number[][] = []
+      const recordWeeks: PlayBracketGame = (high, _low, weeks) => {
+        weeksSeen.push(weeks)
+        return high
+      }
+
+      simulateBracket(makeSeeds(2), { rounds: [[16, 17]], reseed: false }, recordWeeks)
+
+      expect(weeksSeen).toEqual([[16, 17]])
+    })
+
+    it('should crown a lone team and return no champion for an empty field', () => {
+      expect(simulateBracket(makeSeeds(1), { rounds: [[17]], reseed: false }, higherSeedWins).champion?.seed).toBe(1)
+      expect(simulateBracket([], { rounds: [[17]], reseed: false }, higherSeedWins).champion).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the Monte Carlo playoff calculator
+ * An 8-team, 2-division league with two weeks left; 5 teams make the playoffs
+ * (2 division winners + 3 wildcards)
+ */
+
+import { calculatePlayoffProbabilities } from '../playoff-calculator'
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
+import type { DivisionsData } from '@/app/api/mfl/divisions/route'
+
+describe('Playoff Calculator', () => {
+  const franchiseIds = ['0001', '0002', '0003', '0004', '0005', '0006', '0007', '0008']
+
+  const standings: StandingsFranchise[] = franchiseIds.map((id, i) => {
+    const wins = 8 - Math.floor(i / 2)
+    const losses = 12 - wins
+    return {
+      id,
+      pf: String(1320 - i * 36),
+      pa: '1200',
+      avgpf: String(110 - i * 3),
+      avgpa: '100',
+      h2hw: String(wins),
+      h2hl: String(losses),
+      h2ht: '0',
+      h2hpct: (wins / 12).toFixed(3),
+      h2hwlt: `${wins}-${losses}-0`,
+      divwlt: '3-3-0',
+      strk: 'W1'
+    }
+  })
+
+  // Week 13: 1v2, 3v4, 5v6, 7v8; week 14: 1v3, 2v4, 5v7, 6v8
+  const opponents: Record<number, Record<string, string>> = {
+    13: { '0001': '0002', '0002': '0001', '0003': '0004', '0004': '0003', '0005': '0006', '0006': '0005', '0007': '0008', '0008': '0007' },
+    14: { '0001': '0003', '0003': '0001', '0002': '0004', '0004': '0002', '0005': '0007', '0007': '0005', '0006': '0008', '0008': '0006' }
+  }
+
+  const schedules: TeamSchedule[] = franchiseIds.map(id => ({
+    franchiseId: id,
+    completedGames: 12,
+    totalGames: 14,
+    remainingGames: [13, 14].map(week => ({ week, opponentId: opponents[week][id], isHome: id < opponents[week][id] }))
+  }))
+
+  const divisionsData: DivisionsData = {
+    divisions: [{ id: '00', name: 'East' }, { id: '01', name: 'West' }],
+    franchises: [],
+    divisionMap: Object.fromEntries(franchiseIds.map((id, i) => [id, i < 4 ? '00' : '01'])),
+    divisionNames: { '00': 'East', '01': 'West' },
+    divisionTeams: { '00': franchiseIds.slice(0, 4), '01': franchiseIds.slice(4) }
+  }
+
+  describe('calculatePlayoffProbabilities', () => {
+    it('should reproduce the same probabilities from the same seed', () => {
+      const first = calculatePlayoffProbabilities(standings, schedules, divisionsData, 300, 42)
+      const second = calculatePlayoffProbabilities(standings, schedules, divisionsData, 300, 42)
+
+      expect(second.seed).toBe(42)
+      expect(second.probabilities).toEqual(first.probabilities)
+      expect(second.bracket).toEqual(first.bracket)
+    })
+
+    it('should fill exactly five playoff spots and crown one champion per simulation', () => {
+      const { probabilities } = calculatePlayoffProbabilities(standings, schedules, divisionsData, 300, 7)
+
+      const playoffTotal = probabilities.reduce((sum, team) => sum + team.playoffProbability, 0)
+      const championshipTotal = probabilities.reduce((sum, team) => sum + team.championshipProbability, 0)
+
+      expect(playoffTotal).toBeCloseTo(500, 6)
+      expect(championshipTotal).toBeCloseTo(100, 6)
+    })
+
+    it('should favour the best record for the top seed', () => {
+      const { probabilities } = calculatePlayoffProbabilities(standings, schedules, divisionsData, 300, 7)
+      const leader = probabilities.find(team => team.franchiseId === '0001')
+      const trailer = probabilities.find(team => team.franchiseId === '0008')
+
+      expect(leader?.playoffProbability).toBe(100)
+      expect(leader?.seedProbabilities[0] ?? 0).toBeGreaterThan(trailer?.seedProbabilities[0] ?? 0)
+    })
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the seeded PRNG used by the Monte Carlo simulations
+ */
+
+import { createSeededRandom, deriveSeed } from '../random'
+
+describe('Seeded Random', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(12345)
+      const b = createSeededRandom(12345)
+
+      const sequenceA = Array.from({ length: 20 }, () => a())
+      const sequenceB = Array.from({ length: 20 }, () => b())
+
+      expect(sequenceA).toEqual(sequenceB)
+    })
+
+    it('should produce different sequences for different seeds', () => {
+      const a = createSeededRandom(1)
+      const b = createSeededRandom(2)
+
+      expect(Array.from({ length: 5 }, () => a())).not.toEqual(Array.from({ length: 5 }, () => b()))
+    })
+
+    it('should return floats in [0, 1)', () => {
+      const random = createSeededRandom(42)
+      const values = Array.from({ length: 1000 }, () => random())
+
+      expect(values.every(value => value >= 0 && value < 1)).toBe(true)
+    })
+  })
+
+  describe('deriveSeed', () => {
+    it('should derive the same unsigned 32-bit seed from the same parts', () => {
+      const seed = deriveSeed('46221', 2025, 10, '0001')
+
+      expect(seed).toBe(deriveSeed('46221', 2025, 10, '0001'))
+      expect(Number.isInteger(seed) && seed >= 0 && seed < 4294967296).toBe(true)
+    })
+
+    it('should change with the league, season, week or team', () => {
+      const seed = deriveSeed('46221', 2025, 10, '0001')
+
+      expect(deriveSeed('12345', 2025, 10, '0001')).not.toBe(seed)
+      expect(deriveSeed('46221', 2024, 10, '0001')).not.toBe(seed)
+      expect(deriveSeed('46221', 2025, 11, '0001')).not.toBe(seed)
+      expect(deriveSeed('46221', 2025, 10, '0002')).not.toBe(seed)
+    })
+  })
+})
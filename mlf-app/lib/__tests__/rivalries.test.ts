@@ -0,0 +1,107 @@
+/**
+ * Unit tests for head-to-head rivalries
+ * Covers playoff meetings from MFL's bracket and consolation games outside it
+ */
+
+import { buildRivalryLedger, buildRivalryMeetings } from '../rivalries'
+import { DEFAULT_TIEBREAKER_CHAIN } from '../tiebreaker-rules'
+import { DEFAULT_SCORING_FORMAT } from '../scoring-format'
+import { DEFAULT_PLAYOFF_BRACKET } from '../season-config'
+import type { RecordsBookSeason } from '../records-book'
+import type { SeasonGame } from '../playoff-backtest'
+import type { MFLPlayoffBracketResponse } from '../mfl'
+
+// Both rows of a stored matchup, one per team
+const game = (week: number, franchiseId: string, opponentId: string, score: number, opponentScore: number): SeasonGame[] => [
+  { week, franchiseId, opponentId, score, opponentScore, result: score > opponentScore ? 'W' : score < opponentScore ? 'L' : 'T' },
+  { week, franchiseId: opponentId, opponentId: franchiseId, score: opponentScore, opponentScore: score, result: opponentScore > score ? 'W' : opponentScore < score ? 'L' : 'T' }
+]
+
+// A two-team championship bracket: 0001 (1 seed) beats 0002 (2 seed) in week 15
+const bracket: MFLPlayoffBracketResponse = {
+  playoffBracket: {
+    playoffRound: {
+      week: '15',
+      playoffGame: {
+        game_id: '1',
+        home: { franchise_id: '0001', seed: '1', points: '120' },
+        away: { franchise_id: '0002', seed: '2', points: '100' }
+      }
+    }
+  }
+}
+
+const season: RecordsBookSeason = {
+  year: 2024,
+  teams: ['0001', '0002', '0003', '0004'].map(franchiseId => ({
+    franchiseId,
+    teamName: `Team ${franchiseId}`,
+    owner: `Owner ${franchiseId}`,
+    ownerId: `owner-${franchiseId}`
+  })),
+  games: [
+    ...game(1, '0001', '0002', 110, 90),
+    ...game(1, '0003', '0004', 80, 95),
+    ...game(15, '0001', '0002', 120, 100),
+    // Consolation game between the two teams that missed the playoffs
+    ...game(15, '0003', '0004', 105, 70)
+  ],
+  weeklyScores: {},
+  lastRegularWeek: 14,
+  complete: true,
+  divisionsData: null,
+  tiebreakers: DEFAULT_TIEBREAKER_CHAIN,
+  scoringFormat: DEFAULT_SCORING_FORMAT,
+  bracket: DEFAULT_PLAYOFF_BRACKET,
+  playoffBracket: bracket
+}
+
+describe('Rivalries', () => {
+  describe('buildRivalryMeetings', () => {
+    it('should mark only championship bracket games as playoff meetings', () => {
+      const meetings = buildRivalryMeetings([season])
+      const week15 = meetings.filter(meeting => meeting.week === 15)
+
+      expect(meetings).toHaveLength(4)
+      expect(week15).toHaveLength(2)
+
+      const final = week15.find(meeting => meeting.playoff)!
+      expect(final.teams.map(team => team.franchiseId)).toEqual(['0001', '0002'])
+      expect(final.consolation).toBe(false)
+      expect(final.roundName).toBe('Championship')
+
+      const consolation = week15.find(meeting => !meeting.playoff)!
+      expect(consolation.teams.map(team => team.franchiseId)).toEqual(['0003', '0004'])
+      expect(consolation.consolation).toBe(true)
+      expect(consolation.roundName).toBeNull()
+    })
+
+    it('should keep regular-season games out of both post-season flags', () => {
+      const meetings = buildRivalryMeetings([season]).filter(meeting => meeting.week === 1)
+
+      meetings.forEach(meeting => {
+        expect(meeting.playoff).toBe(false)
+        expect(meeting.consolation).toBe(false)
+      })
+    })
+  })
+
+  describe('buildRivalryLedger', () => {
+    it('should count consolation games in the series but not the playoff record', () => {
+      const ledger = buildRivalryLedger(buildRivalryMeetings([season]), '0003', '0004', 'franchise')!
+
+      expect(ledger.overall).toMatchObject({ games: 2, wins: 1, losses: 1 })
+      expect(ledger.regularSeason).toMatchObject({ games: 1, wins: 0, losses: 1 })
+      expect(ledger.playoffs.games).toBe(0)
+      expect(ledger.meetings[0].consolation).toBe(true)
+    })
+
+    it('should count bracket games in the playoff record', () => {
+      const ledger = buildRivalryLedger(buildRivalryMeetings([season]), '0001', '0002', 'franchise')!
+
+      expect(ledger.overall).toMatchObject({ games: 2, wins: 2 })
+      expect(ledger.regularSeason).toMatchObject({ games: 1, wins: 1 })
+      expect(ledger.playoffs).toMatchObject({ games: 1, wins: 1 })
+    })
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the median scoring format
+ * Covers weekly medians (odd and even fields, ties), median records and combined records
+ */
+
+import {
+  calculateMedianRecords,
+  calculateMedianResults,
+  combineRecords,
+  getResultsPerGame,
+  getScoringFormat,
+  parseScoringFormat
+} from '../scoring-format'
+
+describe('Scoring Format', () => {
+  // Week 1: four teams, median 105 (average of the middle two)
+  // Week 2: three teams, median 90 (middle score), which ties
+  const scores = [
+    { week: 1, franchiseId: '0001', score: 130 },
+    { week: 1, franchiseId: '0002', score: 110 },
+    { week: 1, franchiseId: '0003', score: 100 },
+    { week: 1, franchiseId: '0004', score: 80 },
+    { week: 2, franchiseId: '0001', score: 90 },
+    { week: 2, franchiseId: '0002', score: 120 },
+    { week: 2, franchiseId: '0003', score: 70 }
+  ]
+
+  describe('calculateMedianResults', () => {
+    it('should compare each score with its own week\'s median', () => {
+      const results = calculateMedianResults(scores)
+
+      expect(results.filter(r => r.week === 1).map(r => r.median)).toEqual([105, 105, 105, 105])
+      expect(results.filter(r => r.week === 1).map(r => r.medianResult)).toEqual(['W', 'W', 'L', 'L'])
+      expect(results.filter(r => r.week === 2).map(r => r.medianResult)).toEqual(['T', 'W', 'L'])
+    })
+
+    it('should keep the fields of the scores passed in', () => {
+      const [first] = calculateMedianResults([{ week: 3, franchiseId: '0001', score: 99, opponentId: '0002' }])
+
+      expect(first.opponentId).toBe('0002')
+      expect(first.medianResult).toBe('T')
+    })
+  })
+
+  describe('calculateMedianRecords', () => {
+    it('should total each team\'s record against the median', () => {
+      const records = calculateMedianRecords(scores)
+
+      expect(records['0001']).toEqual({ wins: 1, losses: 0, ties: 1 })
+      expect(records['0002']).toEqual({ wins: 2, losses: 0, ties: 0 })
+      expect(records['0004']).toEqual({ wins: 0, losses: 1, ties: 0 })
+    })
+  })
+
+  describe('combineRecords', () => {
+    it('should fold median results into the head-to-head record, ties counting half', () => {
+      const combined = combineRecords({ wins: 1, losses: 1, ties: 0 }, { wins: 1, losses: 0, ties: 1 })
+
+      expect(combined).toEqual({ wins: 2, losses: 1, ties: 1, winPercentage: 0.625 })
+    })
+
+    it('should leave a head-to-head record unchanged without median results', () => {
+      expect(combineRecords({ wins: 3, losses: 1, ties: 0 }).winPercentage).toBe(0.75)
+    })
+  })
+
+  describe('format lookup', () => {
+    it('should count two results per game only in median leagues', () => {
+      expect(getResultsPerGame('median')).toBe(2)
+      expect(getResultsPerGame('head-to-head')).toBe(1)
+    })
+
+    it('should default unknown leagues to head-to-head and reject unknown formats', () => {
+      expect(getScoringFormat('99999', 2025)).toBe('head-to-head')
+      expect(parseScoringFormat('median')).toBe('median')
+      expect(parseScoringFormat('all-play')).toBeNull()
+      expect(parseScoringFormat(null)).toBeNull()
+    })
+  })
+})
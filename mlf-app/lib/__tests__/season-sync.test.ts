@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the incremental season sync
+ * Covers checksums (stat-correction detection), both MFL weekly results layouts
+ * and when a week counts as finalized
+ */
+
+import { buildPlayerScoreRows, buildWeeklyResultRows, computeWeekChecksum } from '../season-sync'
+import type { WeeklyFranchise, WeeklyLineup, WeeklyResultsResponse } from '../mfl-weekly-results'
+import { isWeekFinal } from '../season-config'
+
+describe('Season Sync', () => {
+  const franchise = (id: string, score: string): WeeklyFranchise => ({ id, score, starters: '', player: [] })
+
+  const matchupWeek: WeeklyResultsResponse['weeklyResults'] = {
+    week: '5',
+    matchup: [
+      { franchise: [franchise('0001', '120.50'), franchise('0002', '98.25')] },
+      { franchise: [franchise('0003', '101.00'), franchise('0004', '101.00')] }
+    ]
+  }
+
+  const lineups: WeeklyLineup[] = [
+    {
+      week: 5,
+      franchiseId: '0001',
+      starterIds: ['13590'],
+      starterData: [{ id: '13590', position: 'QB', score: 24.5, name: 'Mahomes, Patrick', team: 'KCC' }],
+      benchIds: ['16211'],
+      benchData: [{ id: '16211', position: 'WR', score: 11.2, name: 'Nacua, Puka' }],
+      shouldStartIds: ['13590']
+    }
+  ]
+
+  describe('computeWeekChecksum', () => {
+    const rows = [
+      { franchiseId: '0001', opponentId: '0002', score: 120.5, opponentScore: 98.25 },
+      { franchiseId: '0002', opponentId: '0001', score: 98.25, opponentScore: 120.5 }
+    ]
+
+    it('should not depend on row order', () => {
+      expect(computeWeekChecksum([...rows].reverse())).toBe(computeWeekChecksum(rows))
+    })
+
+    it('should change when a stat correction changes a team score', () => {
+      const corrected = [{ ...rows[0], score: 121.5 }, { ...rows[1], opponentScore: 121.5 }]
+
+      expect(computeWeekChecksum(corrected)).not.toBe(computeWeekChecksum(rows))
+    })
+
+    it('should change when only a bench player score is corrected', () => {
+      const playerRows = buildPlayerScoreRows(lineups, 2025, '46221')
+      const corrected = playerRows.map(row => (row.isStarter ? row : { ...row, score: row.score + 1 }))
+
+      expect(computeWeekChecksum(rows, corrected)).not.toBe(computeWeekChecksum(rows, playerRows))
+    })
+  })
+
+  describe('buildPlayerScoreRows', () => {
+    it('should store starters and bench with their should-start flag', () => {
+      const rows = buildPlayerScoreRows(lineups, 2025, '46221')
+
+      expect(rows).toHaveLength(2)
+      expect(rows[0]).toEqual({
+        leagueId: '46221',
+        year: 2025,
+        week: 5,
+        playerId: '13590',
+        playerName: 'Mahomes, Patrick',
+        position: 'QB',
+        franchiseId: '0001',
+        score: 24.5,
+        isStarter: true,
+        shouldStart: true,
+        team: 'KCC'
+      })
+      expect(rows[1].isStarter).toBe(false)
+      expect(rows[1].team).toBeNull()
+    })
+  })
+
+  describe('buildWeeklyResultRows', () => {
+    it('should write one row per franchise with results from each matchup', () => {
+      const rows = buildWeeklyResultRows(matchupWeek, 2025, 5, '46221', false)
+
+      expect(rows).toHaveLength(4)
+      expect(rows.find(row => row.franchiseId === '0001')?.result).toBe('W')
+      expect(rows.find(row => row.franchiseId === '0002')?.result).toBe('L')
+      expect(rows.find(row => row.franchiseId === '0002')?.opponentId).toBe('0001')
+      expect(rows.filter(row => row.result === 'T')).toHaveLength(2)
+      expect(rows.filter(row => row.isHomeTeam)).toHaveLength(2)
+    })
+
+    it('should stamp every row with the same checksum, covering player scores', () => {
+      const playerRows = buildPlayerScoreRows(lineups, 2025, '46221')
+      const rows = buildWeeklyResultRows(matchupWeek, 2025, 5, '46221', false, playerRows)
+
+      expect(new Set(rows.map(row => row.dataChecksum)).size).toBe(1)
+      expect(rows[0].dataChecksum).toBe(computeWeekChecksum(rows, playerRows))
+    })
+
+    it('should skip matchups that have not been played', () => {
+      const unplayed = { week: '6', matchup: [{ franchise: [franchise('0001', '0'), franchise('0002', '0')] }] }
+
+      expect(buildWeeklyResultRows(unplayed, 2025, 6, '46221', false)).toHaveLength(0)
+    })
+
+    it('should keep playoff-week franchise scores that have no matchups', () => {
+      const playoffWeek = { week: '16', franchise: [franchise('0001', '130.10'), franchise('0005', '88.00')] }
+      const rows = buildWeeklyResultRows(playoffWeek, 2025, 16, '46221', true)
+
+      expect(rows).toHaveLength(2)
+      expect(rows[0].franchiseId).toBe('0001')
+      expect(rows[0].score).toBe(130.1)
+      expect(rows[0].opponentId).toBeNull()
+      expect(rows[0].result).toBe('')
+      expect(rows.every(row => row.mflFinalized)).toBe(true)
+    })
+
+    it('should skip a franchise-layout week with no scores yet', () => {
+      const unplayed = { week: '17', franchise: [franchise('0001', '0'), franchise('0005', '')] }
+
+      expect(buildWeeklyResultRows(unplayed, 2025, 17, '46221', false)).toHaveLength(0)
+    })
+
+    it('should return no rows for a missing response', () => {
+      expect(buildWeeklyResultRows(undefined, 2025, 5, '46221', false)).toHaveLength(0)
+    })
+  })
+
+  describe('isWeekFinal', () => {
+    it('should finalize every week of a completed season', () => {
+      expect(isWeekFinal(2023, 1)).toBe(true)
+      expect(isWeekFinal(2023, 17)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the tiebreaker chain
+ * Covers step order, group ties among three teams, skipped steps and seeded coin flips
+ */
+
+import {
+  applyTiebreaker,
+  determinePlayoffSeeding,
+  sortByTiebreakers,
+  type TeamRecord
+} from '../tiebreaker-utils'
+import { createSeededRandom } from '../random'
+import type { TiebreakerChain } from '../tiebreaker-rules'
+
+const team = (franchiseId: string, overrides: Partial<TeamRecord> = {}): TeamRecord => ({
+  franchiseId,
+  wins: 8,
+  losses: 6,
+  ties: 0,
+  pointsFor: 1500,
+  pointsAgainst: 1400,
+  divisionWins: 3,
+  divisionLosses: 3,
+  divisionTies: 0,
+  ...overrides
+})
+
+const ids = (teams: TeamRecord[]) => teams.map(t => t.franchiseId)
+
+describe('Tiebreakers', () => {
+  describe('applyTiebreaker', () => {
+    it('should report the first step in the chain that separates two teams', () => {
+      const a = team('0001', { pointsFor: 1550 })
+      const b = team('0002', { divisionWins: 5, divisionLosses: 1 })
+
+      const result = applyTiebreaker(a, b, ['win-pct', 'points-for', 'division-record'])
+
+      expect(result?.winner).toBe('0001')
+      expect(result?.rule).toBe('points-for')
+      expect(result?.step).toBe(2)
+    })
+
+    it('should follow the league chain order rather than a fixed one', () => {
+      const a = team('0001', { pointsFor: 1550 })
+      const b = team('0002', { divisionWins: 5, divisionLosses: 1 })
+
+      expect(applyTiebreaker(a, b, ['division-record', 'points-for'])?.winner).toBe('0002')
+    })
+
+    it('should skip head-to-head when the teams never met', () => {
+      const a = team('0001', { pointsAgainst: 1300 })
+      const b = team('0002')
+
+      const result = applyTiebreaker(a, b, ['head-to-head', 'points-against'])
+
+      expect(result?.rule).toBe('points-against')
+      expect(result?.winner).toBe('0001')
+    })
+
+    it('should return null when tied through the whole chain', () => {
+      expect(applyTiebreaker(team('0001'), team('0002'), ['win-pct', 'points-for'])).toBeNull()
+    })
+
+    it('should break a coin flip the same way every time for the same teams', () => {
+      const chain: TiebreakerChain = ['win-pct', 'coin-flip']
+      const first = applyTiebreaker(team('0001'), team('0002'), chain)
+
+      expect(first?.rule).toBe('coin-flip')
+      expect(applyTiebreaker(team('0001'), team('0002'), chain)?.winner).toBe(first?.winner)
+    })
+  })
+
+  describe('sortByTiebreakers', () => {
+    it('should rank a three-way tie by combined head-to-head among the group', () => {
+      // 0003 swept both; 0001 beat 0002
+      const a = team('0001', { headToHeadWins: { '0002': 1 }, headToHeadLosses: { '0003': 1 } })
+      const b = team('0002', { headToHeadLosses: { '0001': 1, '0003': 1 } })
+      const c = team('0003', { headToHeadWins: { '0001': 1, '0002': 1 } })
+
+      expect(ids(sortByTiebreakers([a, b, c], ['win-pct', 'head-to-head']))).toEqual(['0003', '0001', '0002'])
+    })
+
+    it('should restart the chain for teams still tied after a group split', () => {
+      // Points for separates 0003 from the pair; the pair then falls to division record
+      const a = team('0001')
+      const b = team('0002', { divisionWins: 4, divisionLosses: 2 })
+      const c = team('0003', { pointsFor: 1600 })
+
+      expect(ids(sortByTiebreakers([a, b, c], ['win-pct', 'points-for', 'division-record']))).toEqual(['0003', '0002', '0001'])
+    })
+
+    it('should rank by win percentage before a chain that leaves it out', () => {
+      // 0002 has the most points, but 0001 has the better record
+      const a = team('0001', { wins: 9, losses: 5 })
+      const b = team('0002', { pointsFor: 1700 })
+      const c = team('0003', { pointsFor: 1600 })
+
+      expect(ids(sortByTiebreakers([b, c, a], ['points-for', 'division-record']))).toEqual(['0001', '0002', '0003'])
+      expect(applyTiebreaker(b, a, ['points-for'])?.rule).toBe('win-pct')
+    })
+
+    it('should use the simulation random source for coin flips when given one', () => {
+      const teams = [team('0001'), team('0002'), team('0003')]
+      const chain: TiebreakerChain = ['coin-flip']
+
+      const first = ids(sortByTiebreakers(teams, chain, createSeededRandom(9)))
+
+      expect(ids(sortByTiebreakers(teams, chain, createSeededRandom(9)))).toEqual(first)
+    })
+  })
+
+  describe('determinePlayoffSeeding', () => {
+    it('should seed division winners ahead of better wildcard records', () => {
+      const teams = [
+        team('0001', { wins: 10, losses: 4 }),
+        team('0002', { wins: 9, losses: 5 }),
+        team('0003', { wins: 7, losses: 7 }),
+        team('0004', { wins: 4, losses: 10 })
+      ]
+      const divisionMap = { '0001': '00', '0002': '00', '0003': '01', '0004': '01' }
+
+      const seeding = determinePlayoffSeeding(teams, divisionMap)
+
+      expect(seeding.map(entry => entry.franchiseId)).toEqual(['0001', '0003', '0002', '0004'])
+      expect(seeding.map(entry => entry.isDivisionWinner)).toEqual([true, true, false, false])
+    })
+  })
+})
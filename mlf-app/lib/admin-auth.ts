@@ -0,0 +1,18 @@
+// Admin Route Authorization
+// Shared token check for operational routes (cache purge, season sync)
+
+import type { NextRequest } from 'next/server'
+
+/**
+ * Check a request against an admin token, sent as a Bearer token or x-admin-token header
+ * Without a configured token, routes are open in development and closed everywhere else
+ */
+export function isAuthorizedAdminRequest(request: NextRequest, token: string | undefined): boolean {
+  if (!token) return process.env.NODE_ENV === 'development'
+
+  const authorization = request.headers.get('authorization')
+  const provided = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : request.headers.get('x-admin-token')
+  return provided === token
+}
@@ -0,0 +1,476 @@
+/**
+ * Exact Clinch/Elimination Solver
+ * Late in the season there are few enough remaining games to check every
+ * combination of results (2^games) instead of estimating. Each combination is
+ * seeded with the league's tiebreaker chain; steps that depend on points not
+ * yet scored (points for/against, strength of schedule, all-play, coin flips)
+ * go against a team, and for every rival, when checking whether it has clinched,
+ * and the other way round when checking whether it's eliminated. Rivals tied for
+ * a division until those steps could win it either way, so each of them is tried
+ * as the division winner. Games are decided as wins or losses;
+ * ties are not enumerated. Median leagues aren't solved: a result against the
+ * median depends on every score that week, not on a single game
+ */
+
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
+import type { DivisionsData } from '@/app/api/mfl/divisions/route'
+import type { PlayoffProbabilities } from './playoff-calculator'
+import {
+  applyTiebreaker,
+  calculateWinPercentage,
+  determinePlayoffSeeding,
+  sortByTiebreakers,
+  type HeadToHeadRecords,
+  type TeamRecord
+} from './tiebreaker-utils'
+import { DEFAULT_TIEBREAKER_CHAIN, type TiebreakerChain, type TiebreakerStep } from './tiebreaker-rules'
+import type { ScoringFormat } from './scoring-format'
+
+// 2^12 = 4096 outcomes - the last two weeks of a 12-team league
+export const MAX_EXACT_GAMES = 12
+
+// Larger result sets are rarely useful to read and cost more to search
+const MAX_CLINCH_SET_SIZE = 4
+const MAX_CLINCH_SETS = 5
+
+// Stands in for points nobody has scored yet
+const UNKNOWN_POINTS_EXTREME = 1e9
+
+// Steps decided by points nobody has scored yet (coin flips are mapped to points-for)
+const POINTS_STEPS = new Set<TiebreakerStep>(['points-for', 'points-against', 'opponent-points', 'all-play'])
+
+// Where a team lands on every points-based step, from below everyone (0) to above everyone (3)
+type PointsLevel = 0 | 1 | 2 | 3
+
+export interface RemainingResult {
+  week: number
+  winner: string
+  loser: string
+}
+
+export interface TeamClinchStatus {
+  franchiseId: string
+  clinchedPlayoffs: boolean
+  clinchedDivision: boolean
+  eliminated: boolean
+  controlsOwnDestiny: boolean // In by winning out, whatever else happens
+  clinchingResults: RemainingResult[][] // Minimal sets of results that clinch a spot, smallest first
+}
+
+export interface ClinchAnalysis {
+  remainingGames: number
+  outcomes: number // Result combinations checked
+  teams: Record<string, TeamClinchStatus>
+}
+
+interface RemainingGame {
+  week: number
+  teamA: string
+  teamB: string
+}
+
+/**
+ * Remaining games, each listed once (schedules list every game from both sides)
+ */
+function collectRemainingGames(standings: StandingsFranchise[], schedules: TeamSchedule[]): RemainingGame[] {
+  const teamIds = new Set(standings.map(s => s.id))
+  const seen = new Set<string>()
+  const games: RemainingGame[] = []
+
+  schedules.forEach(schedule => {
+    schedule.remainingGames.forEach(game => {
+      if (!teamIds.has(schedule.franchiseId) || !teamIds.has(game.opponentId)) return
+      const [teamA, teamB] = [schedule.franchiseId, game.opponentId].sort()
+      const key = `${game.week}-${teamA}-${teamB}`
+      if (seen.has(key)) return
+      seen.add(key)
+      games.push({ week: game.week, teamA, teamB })
+    })
+  })
+
+  return games.sort((a, b) => a.week - b.week || a.teamA.localeCompare(b.teamA))
+}
+
+function buildBaseRecords(
+  standings: StandingsFranchise[],
+  headToHead: HeadToHeadRecords
+): Record<string, TeamRecord> {
+  const records: Record<string, TeamRecord> = {}
+
+  standings.forEach(team => {
+    const [divWins, divLosses, divTies] = team.divwlt.split('-').map(part => parseInt(part) || 0)
+    records[team.id] = {
+      franchiseId: team.id,
+      wins: parseInt(team.h2hw) || 0,
+      losses: parseInt(team.h2hl) || 0,
+      ties: parseInt(team.h2ht) || 0,
+      pointsFor: parseFloat(team.pf) || 0,
+      pointsAgainst: parseFloat(team.pa) || 0,
+      divisionWins: divWins || 0,
+      divisionLosses: divLosses || 0,
+      divisionTies: divTies || 0,
+      headToHeadWins: { ...headToHead[team.id]?.wins },
+      headToHeadLosses: { ...headToHead[team.id]?.losses },
+      allPlayWins: team.all_play_w !== undefined ? parseInt(team.all_play_w) || 0 : undefined,
+      allPlayLosses: team.all_play_l !== undefined ? parseInt(team.all_play_l) || 0 : undefined,
+      allPlayTies: team.all_play_t !== undefined ? parseInt(team.all_play_t) || 0 : undefined,
+      victoryPoints: team.vp !== undefined ? parseFloat(team.vp) || 0 : undefined
+    }
+  })
+
+  return records
+}
+
+/**
+ * Final records for one combination of results; bit i set means games[i].teamA won
+ */
+function applyOutcome(
+  base: Record<string, TeamRecord>,
+  games: RemainingGame[],
+  outcome: number,
+  divisionMap: Record<string, string>
+): TeamRecord[] {
+  const records: Record<string, TeamRecord> = {}
+  Object.values(base).forEach(record => {
+    records[record.franchiseId] = {
+      ...record,
+      headToHeadWins: { ...record.headToHeadWins },
+      headToHeadLosses: { ...record.headToHeadLosses }
+    }
+  })
+
+  games.forEach((game, i) => {
+    const teamAWon = (outcome >> i) & 1
+    const winner = records[teamAWon ? game.teamA : game.teamB]
+    const loser = records[teamAWon ? game.teamB : game.teamA]
+
+    winner.wins++
+    loser.losses++
+    // Same approximation as the simulator: a win is worth one victory point
+    if (winner.victoryPoints !== undefined) winner.victoryPoints++
+    winner.headToHeadWins![loser.franchiseId] = (winner.headToHeadWins![loser.franchiseId] || 0) + 1
+    loser.headToHeadLosses![winner.franchiseId] = (loser.headToHeadLosses![winner.franchiseId] || 0) + 1
+    if (divisionMap[game.teamA] !== undefined && divisionMap[game.teamA] === divisionMap[game.teamB]) {
+      winner.divisionWins++
+      loser.divisionLosses++
+    }
+  })
+
+  return Object.values(records)
+}
+
+function withPointsLevel(team: TeamRecord, level: PointsLevel): TeamRecord {
+  const value = (level - 1.5) * UNKNOWN_POINTS_EXTREME
+  return {
+    ...team,
+    pointsFor: value,
+    pointsAgainst: -value,
+    opponentPointsFor: team.opponentPointsFor === undefined ? undefined : -value,
+    ...(team.allPlayWins !== undefined && {
+      allPlayWins: level * UNKNOWN_POINTS_EXTREME,
+      allPlayLosses: (3 - level) * UNKNOWN_POINTS_EXTREME,
+      allPlayTies: 0
+    })
+  }
+}
+
+/**
+ * Every way points could settle the league for one team: the team gets the best
+ * or worst possible value on every points-based step and every rival the opposite.
+ * Rivals still tied with a division's leader once those steps are skipped could
+ * each win the division on points, so one set of records is returned per choice
+ * of division winners. Teams tied through the whole chain keep their incoming
+ * order, so the team also goes first (best) or last (worst)
+ */
+function withExtremePoints(
+  records: TeamRecord[],
+  franchiseId: string,
+  best: boolean,
+  divisionMap: Record<string, string>,
+  chain: TiebreakerChain
+): TeamRecord[][] {
+  const rivalLevel: PointsLevel = best ? 0 : 2
+  // A chosen division winner edges the other rivals on points, but never the team itself
+  const withLevels = (chosen: Set<string>) => {
+    const team = withPointsLevel(records.find(r => r.franchiseId === franchiseId)!, best ? 3 : 0)
+    const others = records
+      .filter(r => r.franchiseId !== franchiseId)
+      .map(r => withPointsLevel(r, chosen.has(r.franchiseId) ? (rivalLevel + 1) as PointsLevel : rivalLevel))
+    return best ? [team, ...others] : [...others, team]
+  }
+
+  const base = withLevels(new Set())
+  const chainWithoutPoints = chain.filter(step => !POINTS_STEPS.has(step))
+
+  const divisions = new Map<string, TeamRecord[]>()
+  base.forEach(record => {
+    const division = divisionMap[record.franchiseId]
+    if (division === undefined) return
+    divisions.set(division, [...(divisions.get(division) || []), record])
+  })
+
+  const candidateSets: string[][] = []
+  divisions.forEach(members => {
+    const [leader] = sortByTiebreakers(members, chain)
+    if (leader.franchiseId === franchiseId) return
+    const candidates = members.filter(member =>
+      member.franchiseId !== franchiseId &&
+      (member === leader || applyTiebreaker(leader, member, chainWithoutPoints) === null)
+    )
+    if (candidates.length > 1) candidateSets.push(candidates.map(c => c.franchiseId))
+  })
+
+  const choices = candidateSets.reduce<string[][]>(
+    (combos, candidates) => combos.flatMap(combo => candidates.map(candidate => [...combo, candidate])),
+    [[]]
+  )
+  return choices.map(choice => choice.length === 0 ? base : withLevels(new Set(choice)))
+}
+
+/**
+ * Find minimal sets of results that make truthTable true whatever the other games do
+ * (prime implicants, smallest first)
+ */
+function findMinimalResultSets(truthTable: Uint8Array, gameCount: number, maxSize: number): Array<{ mask: number; value: number }> {
+  const found: Array<{ mask: number; value: number }> = []
+  const allGames = (1 << gameCount) - 1
+
+  const masksBySize: number[][] = Array.from({ length: maxSize + 1 }, () => [])
+  for (let mask = 1; mask <= allGames; mask++) {
+    let size = 0
+    for (let m = mask; m; m &= m - 1) size++
+    if (size <= maxSize) masksBySize[size].push(mask)
+  }
+
+  for (let size = 1; size <= maxSize && found.length < MAX_CLINCH_SETS; size++) {
+    for (const mask of masksBySize[size]) {
+      const free = allGames & ~mask
+      // Every assignment of the chosen games: spread value's bits over mask
+      for (let combo = 0; combo < (1 << size); combo++) {
+        let value = 0
+        let bit = 0
+        for (let i = 0; i < gameCount; i++) {
+          if ((mask >> i) & 1) {
+            if ((combo >> bit) & 1) value |= 1 << i
+            bit++
+          }
+        }
+
+        // Contains a smaller set already found - not minimal
+        if (found.some(f => (f.mask & mask) === f.mask && (value & f.mask) === f.value)) continue
+
+        let always = true
+        for (let sub = free; ; sub = (sub - 1) & free) {
+          if (!truthTable[value | sub]) {
+            always = false
+            break
+          }
+          if (sub === 0) break
+        }
+
+        if (always) {
+          found.push({ mask, value })
+          if (found.length >= MAX_CLINCH_SETS) return found
+        }
+      }
+    }
+  }
+
+  return found
+}
+
+/**
+ * Exact clinched/eliminated status for every team
+ * Returns null while more than MAX_EXACT_GAMES games remain, and for median leagues
+ */
+export function solveClinchScenarios(
+  standings: StandingsFranchise[],
+  schedules: TeamSchedule[],
+  divisionsData: DivisionsData,
+  options: { tiebreakers?: TiebreakerChain; headToHead?: HeadToHeadRecords; scoringFormat?: ScoringFormat } = {}
+): ClinchAnalysis | null {
+  if (options.scoringFormat === 'median') return null
+
+  const games = collectRemainingGames(standings, schedules)
+  if (games.length > MAX_EXACT_GAMES) return null
+
+  // Coin flips can't be known in advance, so they follow the same best/worst case as points
+  const chain = (options.tiebreakers ?? DEFAULT_TIEBREAKER_CHAIN)
+    .map(step => step === 'coin-flip' ? 'points-for' as const : step)
+  const base = buildBaseRecords(standings, options.headToHead ?? {})
+  const teamIds = standings.map(s => s.id)
+  const outcomes = 1 << games.length
+
+  // Per team and outcome: in even when points go against them / in when points go their way
+  const inWorstCase: Record<string, Uint8Array> = {}
+  const inBestCase: Record<string, Uint8Array> = {}
+  const divisionWorstCase: Record<string, Uint8Array> = {}
+  teamIds.forEach(id => {
+    inWorstCase[id] = new Uint8Array(outcomes)
+    inBestCase[id] = new Uint8Array(outcomes)
+    divisionWorstCase[id] = new Uint8Array(outcomes)
+  })
+
+  for (let outcome = 0; outcome < outcomes; outcome++) {
+    const records = applyOutcome(base, games, outcome, divisionsData.divisionMap)
+    const seeding = determinePlayoffSeeding(records, divisionsData.divisionMap, chain)
+
+    // Win % always ranks first, so a team nobody matches is never compared on points
+    const winPctCounts: Record<string, number> = {}
+    records.forEach(r => {
+      const key = calculateWinPercentage(r.wins, r.losses, r.ties).toFixed(3)
+      winPctCounts[key] = (winPctCounts[key] || 0) + 1
+    })
+
+    records.forEach(record => {
+      const id = record.franchiseId
+      // Better points can only help, so a team out as things stand is out in the
+      // worst case too (and one that's in is in at best) - one extra seeding covers it
+      const isIn = seeding.some(s => s.franchiseId === id)
+      const pointsMatter = winPctCounts[calculateWinPercentage(record.wins, record.losses, record.ties).toFixed(3)] > 1
+      const extremeSeeds = pointsMatter
+        ? withExtremePoints(records, id, !isIn, divisionsData.divisionMap, chain)
+          .map(extreme => determinePlayoffSeeding(extreme, divisionsData.divisionMap, chain).find(s => s.franchiseId === id))
+        : [seeding.find(s => s.franchiseId === id)]
+
+      if (isIn) {
+        inBestCase[id][outcome] = 1
+        inWorstCase[id][outcome] = extremeSeeds.every(seed => seed) ? 1 : 0
+        divisionWorstCase[id][outcome] = extremeSeeds.every(seed => seed?.isDivisionWinner) ? 1 : 0
+      } else {
+        inBestCase[id][outcome] = extremeSeeds.some(seed => seed) ? 1 : 0
+      }
+    })
+  }
+
+  const teams: Record<string, TeamClinchStatus> = {}
+  teamIds.forEach(id => {
+    const clinchedPlayoffs = inWorstCase[id].every(v => v === 1)
+    const clinchedDivision = divisionWorstCase[id].every(v => v === 1)
+    const eliminated = inBestCase[id].every(v => v === 0)
+
+    // Winning out: fix this team's games as wins and check every other combination
+    let ownMask = 0
+    let ownWins = 0
+    games.forEach((game, i) => {
+      if (game.teamA === id || game.teamB === id) {
+        ownMask |= 1 << i
+        if (game.teamA === id) ownWins |= 1 << i
+      }
+    })
+    let controlsOwnDestiny = false
+    if (!clinchedPlayoffs && !eliminated && ownMask !== 0) {
+      controlsOwnDestiny = true
+      const free = (outcomes - 1) & ~ownMask
+      for (let sub = free; ; sub = (sub - 1) & free) {
+        if (!inWorstCase[id][ownWins | sub]) {
+          controlsOwnDestiny = false
+          break
+        }
+        if (sub === 0) break
+      }
+    }
+
+    const clinchingResults = clinchedPlayoffs || eliminated
+      ? []
+      : findMinimalResultSets(inWorstCase[id], games.length, MAX_CLINCH_SET_SIZE).map(({ mask, value }) =>
+          games
+            .map((game, i) => ({ game, i }))
+            .filter(({ i }) => (mask >> i) & 1)
+            .map(({ game, i }) => {
+              const teamAWon = (value >> i) & 1
+              return {
+                week: game.week,
+                winner: teamAWon ? game.teamA : game.teamB,
+                loser: teamAWon ? game.teamB : game.teamA
+              }
+            })
+        )
+
+    teams[id] = {
+      franchiseId: id,
+      clinchedPlayoffs,
+      clinchedDivision,
+      eliminated,
+      controlsOwnDestiny,
+      clinchingResults
+    }
+  })
+
+  return {
+    remainingGames: games.length,
+    outcomes,
+    teams
+  }
+}
+
+/**
+ * One result as read from a team's point of view, e.g. "Beat Sharks (Wk 13)"
+ */
+export function describeRemainingResult(
+  result: RemainingResult,
+  franchiseId: string,
+  getTeamName: (franchiseId: string) => string
+): string {
+  if (result.winner === franchiseId) return `Beat ${getTeamName(result.loser)} (Wk ${result.week})`
+  if (result.loser === franchiseId) return `Lose to ${getTeamName(result.winner)} (Wk ${result.week})`
+  return `${getTeamName(result.winner)} beat ${getTeamName(result.loser)} (Wk ${result.week})`
+}
+
+/**
+ * Whether a result appears in any of a team's minimal clinching sets
+ */
+export function isClinchingResult(status: TeamClinchStatus, result: RemainingResult): boolean {
+  return status.clinchingResults.some(set =>
+    set.some(r => r.week === result.week && r.winner === result.winner && r.loser === result.loser)
+  )
+}
+
+/**
+ * Replace the simulation's estimated clinch/elimination details with the exact ones
+ */
+export function applyClinchAnalysis(
+  probabilities: PlayoffProbabilities[],
+  analysis: ClinchAnalysis,
+  getTeamName: (franchiseId: string) => string
+): PlayoffProbabilities[] {
+  return probabilities.map(probability => {
+    const status = analysis.teams[probability.franchiseId]
+    if (!status) return probability
+
+    const clinchScenarios: string[] = []
+    if (status.clinchedDivision) {
+      clinchScenarios.push('✓ Clinched division title!')
+    } else if (status.clinchedPlayoffs) {
+      clinchScenarios.push('✓ Clinched playoff spot!')
+    } else if (status.eliminated) {
+      clinchScenarios.push('✗ Eliminated from playoff contention')
+    } else {
+      if (status.controlsOwnDestiny) {
+        clinchScenarios.push('Controls own destiny - win out and you\'re in')
+      }
+      status.clinchingResults.forEach(set => {
+        clinchScenarios.push(
+          `Clinch with: ${set.map(result => describeRemainingResult(result, probability.franchiseId, getTeamName)).join(' + ')}`
+        )
+      })
+      if (status.clinchingResults.length === 0) {
+        clinchScenarios.push(`Still alive, but no set of ${MAX_CLINCH_SET_SIZE} or fewer results guarantees a spot`)
+      }
+    }
+
+    return {
+      ...probability,
+      clinchScenarios,
+      magicNumber: status.clinchedPlayoffs ? 0 : probability.magicNumber,
+      eliminationNumber: status.eliminated ? 0 : probability.eliminationNumber,
+      isEliminated: status.eliminated,
+      eliminationReason: status.eliminated
+        ? `Misses the playoffs in all ${analysis.outcomes.toLocaleString()} remaining outcomes`
+        : undefined,
+      eliminationDetails: status.eliminated ? probability.eliminationDetails : undefined,
+      clinch: status
+    }
+  })
+}
@@ -1,4 +1,9 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { getDefaultLeagueId } from './league-registry'
+import type { WeeklyLineup } from './mfl-weekly-results'
+import type { PlayerScoreRow, TeamRow, WeeklyResultRow } from './season-sync'
+import type { ProbabilitySnapshotRow } from './probability-snapshots'
+import { toOwnerRole, toOwnerSource, type OwnerTenureRow } from './owner-registry'
 
 // Global instance to prevent multiple connections in development
 const globalForPrisma = globalThis as unknown as {
@@ -9,15 +14,26 @@ export const prisma = globalForPrisma.prisma ?? new PrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
+// Filters for player_scores queries
+interface PlayerScoreWhere {
+  leagueId: string
+  year: number
+  week?: { in: number[] }
+  franchiseId?: string
+  playerId?: string
+  position?: string
+  isStarter?: boolean
+}
+
 // Database utility functions
 export class DatabaseService {
 
   /**
    * Get teams for a specific year from database
    */
-  static async getTeams(year: number) {
+  static async getTeams(year: number, leagueId: string = getDefaultLeagueId()) {
     return await prisma.team.findMany({
-      where: { year },
+      where: { leagueId, year },
       orderBy: [
         { wins: 'desc' },
         { losses: 'asc' },
@@ -29,8 +45,8 @@ export class DatabaseService {
   /**
    * Get weekly results for a specific year/week
    */
-  static async getWeeklyResults(year: number, week?: number) {
-    const where: any = { year }
+  static async getWeeklyResults(year: number, week?: number, leagueId: string = getDefaultLeagueId()) {
+    const where: any = { leagueId, year }
     if (week) where.week = week
 
     return await prisma.weeklyResult.findMany({
@@ -45,11 +61,57 @@ export class DatabaseService {
     })
   }
 
+  /**
+   * Get every stored season, oldest first
+   */
+  static async getSeasons(leagueId: string = getDefaultLeagueId()) {
+    return await prisma.season.findMany({
+      where: { leagueId },
+      orderBy: { year: 'asc' }
+    })
+  }
+
+  /**
+   * Get teams and weekly results for every stored season
+   */
+  static async getAllSeasonResults(leagueId: string = getDefaultLeagueId()) {
+    const [teams, weeklyResults] = await Promise.all([
+      prisma.team.findMany({
+        where: { leagueId },
+        orderBy: [{ year: 'asc' }, { franchiseId: 'asc' }]
+      }),
+      prisma.weeklyResult.findMany({
+        where: { leagueId },
+        orderBy: [{ year: 'asc' }, { week: 'asc' }, { franchiseId: 'asc' }]
+      })
+    ])
+    return { teams, weeklyResults }
+  }
+
+  /**
+   * Starters' points per franchise and week for every stored season
+   * Covers playoff weeks, which have lineups but no stored matchups
+   */
+  static async getStarterWeekTotals(leagueId: string = getDefaultLeagueId()) {
+    const totals = await prisma.playerScore.groupBy({
+      by: ['year', 'week', 'franchiseId'],
+      where: { leagueId, isStarter: true },
+      _sum: { score: true }
+    })
+
+    return totals.map((row: { year: number; week: number; franchiseId: string; _sum: { score: number | null } }) => ({
+      year: row.year,
+      week: row.week,
+      franchiseId: row.franchiseId,
+      score: row._sum.score || 0
+    }))
+  }
+
   /**
    * Get positional data for a specific year
    */
-  static async getPositionalData(year: number, weeks?: number[]) {
-    const where: any = { year }
+  static async getPositionalData(year: number, weeks?: number[], leagueId: string = getDefaultLeagueId()) {
+    const where: any = { leagueId, year }
     if (weeks && weeks.length > 0) {
       where.week = { in: weeks }
     }
@@ -69,9 +131,9 @@ export class DatabaseService {
   /**
    * Check if a season exists in database
    */
-  static async seasonExists(year: number): Promise<boolean> {
+  static async seasonExists(year: number, leagueId: string = getDefaultLeagueId()): Promise<boolean> {
     const season = await prisma.season.findUnique({
-      where: { year }
+      where: { leagueId_year: { leagueId, year } }
     })
     return !!season
   }
@@ -79,9 +141,9 @@ export class DatabaseService {
   /**
    * Check if week data is finalized in MFL
    */
-  static async isWeekFinalized(year: number, week: number): Promise<boolean> {
+  static async isWeekFinalized(year: number, week: number, leagueId: string = getDefaultLeagueId()): Promise<boolean> {
     const weekResult = await prisma.weeklyResult.findFirst({
-      where: { year, week, mflFinalized: true }
+      where: { leagueId, year, week, mflFinalized: true }
     })
     return !!weekResult
   }
@@ -97,7 +159,7 @@ export class DatabaseService {
     settings?: any
   }) {
     return await prisma.season.upsert({
-      where: { year: data.year },
+      where: { leagueId_year: { leagueId: data.leagueId, year: data.year } },
       update: data,
       create: data
     })
@@ -141,13 +203,14 @@ export class DatabaseService {
 
   /**
    * Update team season totals from weekly results
+   * Only head-to-head games count; playoff weeks stored without an opponent don't
    */
-  static async updateTeamTotals(year: number) {
-    const teams = await prisma.team.findMany({ where: { year } })
+  static async updateTeamTotals(year: number, leagueId: string = getDefaultLeagueId()) {
+    const teams = await prisma.team.findMany({ where: { leagueId, year } })
 
     for (const team of teams) {
       const weeklyResults = await prisma.weeklyResult.findMany({
-        where: { year, franchiseId: team.franchiseId }
+        where: { leagueId, year, franchiseId: team.franchiseId, opponentId: { not: null } }
       })
 
       const wins = weeklyResults.filter((w: any) => w.result === 'W').length
@@ -169,12 +232,419 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Create or update teams, keyed by league, franchise and year
+   */
+  static async upsertTeams(teams: TeamRow[]) {
+    return await prisma.$transaction(
+      teams.map(team => prisma.team.upsert({
+        where: {
+          leagueId_franchiseId_year: {
+            leagueId: team.leagueId,
+            franchiseId: team.franchiseId,
+            year: team.year
+          }
+        },
+        update: team,
+        create: team
+      }))
+    )
+  }
+
+  /**
+   * Get the stored checksum and finalization state of each synced week
+   */
+  static async getWeekSyncState(year: number, leagueId: string = getDefaultLeagueId()) {
+    const [rows, playerWeeks] = await Promise.all([
+      prisma.weeklyResult.findMany({
+        where: { leagueId, year },
+        select: { week: true, dataChecksum: true, mflFinalized: true }
+      }),
+      prisma.playerScore.groupBy({
+        by: ['week'],
+        where: { leagueId, year }
+      })
+    ])
+    const weeksWithPlayers = new Set(playerWeeks.map((row: { week: number }) => row.week))
+
+    const weeks = new Map<number, { checksum: string | null; finalized: boolean; hasPlayerScores: boolean }>()
+    rows.forEach((row: { week: number; dataChecksum: string | null; mflFinalized: boolean }) => {
+      const existing = weeks.get(row.week)
+      weeks.set(row.week, {
+        checksum: existing?.checksum ?? row.dataChecksum,
+        // A week only counts as finalized when every row is
+        finalized: (existing?.finalized ?? true) && row.mflFinalized,
+        hasPlayerScores: weeksWithPlayers.has(row.week)
+      })
+    })
+    return weeks
+  }
+
+  /**
+   * Replace all weekly results for one week in a single transaction
+   */
+  static async replaceWeeklyResults(year: number, week: number, results: WeeklyResultRow[], leagueId: string = getDefaultLeagueId()) {
+    return await prisma.$transaction([
+      prisma.weeklyResult.deleteMany({ where: { leagueId, year, week } }),
+      prisma.weeklyResult.createMany({ data: results })
+    ])
+  }
+
+  /**
+   * Replace all player scores for one week in a single transaction
+   */
+  static async replacePlayerScores(year: number, week: number, scores: PlayerScoreRow[], leagueId: string = getDefaultLeagueId()) {
+    return await prisma.$transaction([
+      prisma.playerScore.deleteMany({ where: { leagueId, year, week } }),
+      prisma.playerScore.createMany({ data: scores })
+    ])
+  }
+
+  /**
+   * Get player weekly scores with optional filters
+   */
+  static async getPlayerScores(
+    year: number,
+    filters: {
+      weeks?: number[]
+      franchiseId?: string
+      playerId?: string
+      position?: string
+      startersOnly?: boolean
+    } = {},
+    leagueId: string = getDefaultLeagueId()
+  ) {
+    const where: PlayerScoreWhere = { leagueId, year }
+    if (filters.weeks && filters.weeks.length > 0) where.week = { in: filters.weeks }
+    if (filters.franchiseId) where.franchiseId = filters.franchiseId
+    if (filters.playerId) where.playerId = filters.playerId
+    if (filters.position) where.position = filters.position
+    if (filters.startersOnly) where.isStarter = true
+
+    return await prisma.playerScore.findMany({
+      where,
+      orderBy: [
+        { week: 'asc' },
+        { franchiseId: 'asc' },
+        { score: 'desc' }
+      ]
+    })
+  }
+
+  /**
+   * Get season point totals per player and franchise, highest first
+   */
+  static async getPlayerSeasonTotals(
+    year: number,
+    filters: { franchiseId?: string; position?: string; startersOnly?: boolean } = {},
+    leagueId: string = getDefaultLeagueId()
+  ) {
+    const where: PlayerScoreWhere = { leagueId, year }
+    if (filters.franchiseId) where.franchiseId = filters.franchiseId
+    if (filters.position) where.position = filters.position
+    if (filters.startersOnly) where.isStarter = true
+
+    const totals = await prisma.playerScore.groupBy({
+      by: ['playerId', 'playerName', 'position', 'franchiseId'],
+      where,
+      _sum: { score: true },
+      _count: { week: true },
+      orderBy: { _sum: { score: 'desc' } }
+    })
+
+    return totals.map(row => ({
+      playerId: row.playerId,
+      playerName: row.playerName ?? `Player ${row.playerId}`,
+      position: row.position ?? 'UNKNOWN',
+      franchiseId: row.franchiseId,
+      totalPoints: row._sum.score || 0,
+      weeks: row._count.week
+    }))
+  }
+
+  /**
+   * Get a player's weekly scores across every stored season
+   */
+  static async getPlayerHistory(playerId: string, leagueId: string = getDefaultLeagueId()) {
+    return await prisma.playerScore.findMany({
+      where: { leagueId, playerId },
+      orderBy: [
+        { year: 'asc' },
+        { week: 'asc' }
+      ]
+    })
+  }
+
+  /**
+   * Rebuild weekly lineups from stored player scores
+   * Same shape as fetchAllWeeklyResults, so position totals and lineup
+   * analysis can run without calling MFL
+   */
+  static async getWeeklyLineups(year: number, weeks?: number[], leagueId: string = getDefaultLeagueId()): Promise<WeeklyLineup[]> {
+    const scores = await this.getPlayerScores(year, { weeks }, leagueId)
+    const lineups = new Map<string, WeeklyLineup>()
+
+    scores.forEach(row => {
+      const key = `${row.week}-${row.franchiseId}`
+      let lineup = lineups.get(key)
+      if (!lineup) {
+        lineup = {
+          week: row.week,
+          franchiseId: row.franchiseId,
+          starterIds: [],
+          starterData: [],
+          benchIds: [],
+          benchData: [],
+          shouldStartIds: []
+        }
+        lineups.set(key, lineup)
+      }
+
+      const playerData = {
+        id: row.playerId,
+        position: row.position ?? 'UNKNOWN',
+        score: row.score,
+        name: row.playerName ?? `Player ${row.playerId}`,
+        team: row.team || undefined
+      }
+
+      if (row.isStarter) {
+        lineup.starterIds.push(row.playerId)
+        lineup.starterData.push(playerData)
+      } else {
+        lineup.benchIds.push(row.playerId)
+        lineup.benchData.push(playerData)
+      }
+      if (row.shouldStart) {
+        lineup.shouldStartIds!.push(row.playerId)
+      }
+    })
+
+    return Array.from(lineups.values())
+  }
+
+  /**
+   * Record that a week was re-checked against MFL without changes
+   */
+  static async markWeekVerified(year: number, week: number, finalized: boolean, leagueId: string = getDefaultLeagueId()) {
+    return await prisma.weeklyResult.updateMany({
+      where: { leagueId, year, week },
+      data: { lastVerified: new Date(), mflFinalized: finalized }
+    })
+  }
+
+  /**
+   * Start a sync log entry
+   */
+  static async createSyncLog(data: { year: number; leagueId: string; trigger: string }) {
+    return await prisma.syncLog.create({
+      data: { ...data, status: 'running' }
+    })
+  }
+
+  /**
+   * Complete a sync log entry with its outcome
+   */
+  static async finishSyncLog(id: string, data: {
+    status: string
+    weeksChecked?: number
+    weeksImported?: number
+    weeksCorrected?: number
+    weeksUnchanged?: number
+    weeksFinalized?: number
+    details?: Prisma.InputJsonValue
+    error?: string
+  }) {
+    return await prisma.syncLog.update({
+      where: { id },
+      data: { ...data, finishedAt: new Date() }
+    })
+  }
+
+  /**
+   * Get recent sync runs, newest first
+   */
+  static async getSyncLogs(leagueId: string = getDefaultLeagueId(), year?: number, limit: number = 20) {
+    const where: { leagueId: string; year?: number } = { leagueId }
+    if (year) where.year = year
+
+    return await prisma.syncLog.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Get the most recent sync run that completed without errors
+   */
+  static async getLastSuccessfulSync(year: number, leagueId: string = getDefaultLeagueId()) {
+    return await prisma.syncLog.findFirst({
+      where: { leagueId, year, status: 'success' },
+      orderBy: { startedAt: 'desc' }
+    })
+  }
+
+  /**
+   * Get stored playoff probability snapshots for a season, oldest week first
+   */
+  static async getProbabilitySnapshots(year: number, leagueId: string = getDefaultLeagueId()) {
+    return await prisma.probabilitySnapshot.findMany({
+      where: { leagueId, year },
+      orderBy: [
+        { week: 'asc' },
+        { franchiseId: 'asc' }
+      ]
+    })
+  }
+
+  /**
+   * Create or replace probability snapshots, keyed by league, year, week and franchise
+   */
+  static async upsertProbabilitySnapshots(snapshots: ProbabilitySnapshotRow[]) {
+    return await prisma.$transaction(
+      snapshots.map(snapshot => prisma.probabilitySnapshot.upsert({
+        where: {
+          leagueId_year_week_franchiseId: {
+            leagueId: snapshot.leagueId,
+            year: snapshot.year,
+            week: snapshot.week,
+            franchiseId: snapshot.franchiseId
+          }
+        },
+        update: snapshot,
+        create: snapshot
+      }))
+    )
+  }
+
+  /**
+   * Get every owner tenure with its owner, oldest season first
+   */
+  static async getOwnerTenures(leagueId: string = getDefaultLeagueId()): Promise<OwnerTenureRow[]> {
+    const rows = await prisma.ownerTenure.findMany({
+      where: { leagueId },
+      include: {
+        owner: { select: { id: true, name: true } }
+      },
+      orderBy: [
+        { year: 'asc' },
+        { franchiseId: 'asc' }
+      ]
+    })
+
+    return rows.map(row => ({
+      id: row.id,
+      franchiseId: row.franchiseId,
+      year: row.year,
+      role: toOwnerRole(row.role),
+      source: toOwnerSource(row.source),
+      owner: row.owner
+    }))
+  }
+
+  /**
+   * Find an owner by exact name
+   */
+  static async findOwnerByName(name: string, leagueId: string = getDefaultLeagueId()) {
+    return await prisma.owner.findUnique({
+      where: { leagueId_name: { leagueId, name } }
+    })
+  }
+
+  /**
+   * Replace the owners of one franchise season; the first name is the primary owner,
+   * the rest co-owners. Owners are created as needed
+   */
+  static async replaceFranchiseOwners(
+    franchiseId: string,
+    year: number,
+    names: string[],
+    source: string,
+    leagueId: string = getDefaultLeagueId()
+  ) {
+    const owners = await prisma.$transaction(
+      names.map(name => prisma.owner.upsert({
+        where: { leagueId_name: { leagueId, name } },
+        update: {},
+        create: { leagueId, name }
+      }))
+    )
+
+    return await prisma.$transaction([
+      prisma.ownerTenure.deleteMany({ where: { leagueId, franchiseId, year } }),
+      prisma.ownerTenure.createMany({
+        data: owners.map((owner: { id: string }, index: number) => ({
+          leagueId,
+          ownerId: owner.id,
+          franchiseId,
+          year,
+          role: index === 0 ? 'primary' : 'co-owner',
+          source
+        }))
+      })
+    ])
+  }
+
+  /**
+   * Find an owner by ID
+   */
+  static async getOwner(ownerId: string) {
+    return await prisma.owner.findUnique({ where: { id: ownerId } })
+  }
+
+  /**
+   * Rename an owner
+   */
+  static async renameOwner(ownerId: string, name: string) {
+    return await prisma.owner.update({
+      where: { id: ownerId },
+      data: { name }
+    })
+  }
+
+  /**
+   * Move one owner's tenures to another and delete the first
+   * Tenures for a franchise season the target already holds are dropped
+   * Both owners must be different owners in the same league
+   */
+  static async mergeOwners(fromOwnerId: string, intoOwnerId: string) {
+    if (fromOwnerId === intoOwnerId) {
+      throw new Error('Cannot merge an owner into itself')
+    }
+    const [fromOwner, intoOwner] = await Promise.all([this.getOwner(fromOwnerId), this.getOwner(intoOwnerId)])
+    if (!fromOwner || !intoOwner) {
+      throw new Error(`Owner ${fromOwner ? intoOwnerId : fromOwnerId} not found`)
+    }
+    if (fromOwner.leagueId !== intoOwner.leagueId) {
+      throw new Error('Cannot merge owners from different leagues')
+    }
+
+    const [fromTenures, intoTenures] = await Promise.all([
+      prisma.ownerTenure.findMany({ where: { ownerId: fromOwnerId } }),
+      prisma.ownerTenure.findMany({ where: { ownerId: intoOwnerId } })
+    ])
+    const held = new Set(intoTenures.map((tenure: { franchiseId: string; year: number }) => `${tenure.year}-${tenure.franchiseId}`))
+    const movableIds = fromTenures
+      .filter((tenure: { franchiseId: string; year: number }) => !held.has(`${tenure.year}-${tenure.franchiseId}`))
+      .map((tenure: { id: string }) => tenure.id)
+
+    return await prisma.$transaction([
+      prisma.ownerTenure.updateMany({
+        where: { id: { in: movableIds } },
+        data: { ownerId: intoOwnerId }
+      }),
+      // Cascades to the dropped tenures
+      prisma.owner.delete({ where: { id: fromOwnerId } })
+    ])
+  }
+
   /**
    * Get data freshness info
    */
-  static async getDataFreshness(year: number) {
+  static async getDataFreshness(year: number, leagueId: string = getDefaultLeagueId()) {
     const season = await prisma.season.findUnique({
-      where: { year },
+      where: { leagueId_year: { leagueId, year } },
       include: {
         _count: {
           select: {
@@ -190,7 +660,7 @@ export class DatabaseService {
     if (!season) return null
 
     const lastWeeklyResult = await prisma.weeklyResult.findFirst({
-      where: { year },
+      where: { leagueId, year },
       orderBy: { updatedAt: 'desc' }
     })
 
@@ -4,7 +4,8 @@
  */
 
 import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
-import type { DivisionsData } from '@/app/api/mfl/divisions/route'
+import type { Division, DivisionsData, Franchise, LeagueResponse } from '@/app/api/mfl/divisions/route'
+import { toArray } from './mfl-client'
 
 export interface DivisionStanding {
   divisionId: string
@@ -30,6 +31,40 @@ export interface DivisionTeamStanding {
   divisionRank: number
 }
 
+/**
+ * Build division lookups from an MFL league export
+ */
+export function buildDivisionsData(data: LeagueResponse): DivisionsData {
+  const divisions: Division[] = toArray(data.league?.divisions?.division)
+  const franchises: Franchise[] = toArray(data.league?.franchises?.franchise)
+
+  const divisionMap: Record<string, string> = {}
+  const divisionNames: Record<string, string> = {}
+  const divisionTeams: Record<string, string[]> = {}
+
+  // Build division names lookup
+  divisions.forEach(div => {
+    divisionNames[div.id] = div.name
+    divisionTeams[div.id] = []
+  })
+
+  // Build franchise -> division mapping and division -> teams mapping
+  franchises.forEach(franchise => {
+    divisionMap[franchise.id] = franchise.division
+    if (divisionTeams[franchise.division]) {
+      divisionTeams[franchise.division].push(franchise.id)
+    } else {
+      // Handle case where division doesn't exist in divisions list
+      divisionTeams[franchise.division] = [franchise.id]
+      if (!divisionNames[franchise.division]) {
+        divisionNames[franchise.division] = `Division ${franchise.division}`
+      }
+    }
+  })
+
+  return { divisions, franchises, divisionMap, divisionNames, divisionTeams }
+}
+
 /**
  * Parse division record string (e.g., "3-1-0") into components
  */
@@ -0,0 +1,166 @@
+/**
+ * ELO Power Ratings
+ * Every franchise starts at 1500 and gains or loses rating after each game in
+ * proportion to how surprising the result was, scaled up for blowouts. Ratings
+ * carry over between seasons, pulled a third of the way back to 1500 so last
+ * year's results count for less than this year's
+ */
+
+import type { SeasonGame } from './playoff-backtest'
+
+export const ELO_BASE_RATING = 1500
+export const ELO_K_FACTOR = 20
+export const ELO_SEASON_REGRESSION = 1 / 3
+
+// Rating gap at which the favorite wins 10 times out of 11
+const ELO_SCALE = 400
+
+// Points of margin that count as "one unit" of blowout in the margin multiplier
+const MARGIN_SCALE = 10
+
+/** One completed season of results (each game listed once per team, as parseSeasonGames returns) */
+export interface EloSeason {
+  year: number
+  games: SeasonGame[]
+}
+
+/** A franchise's rating after one game */
+export interface EloRatingPoint {
+  year: number
+  week: number
+  rating: number
+  change: number
+  opponentId: string
+  result: 'W' | 'L' | 'T'
+  winProbability: number // Pre-game chance of winning (0-1)
+}
+
+export interface EloRatings {
+  ratings: Record<string, number> // Latest rating by franchise
+  history: Record<string, EloRatingPoint[]> // Week-by-week, oldest first
+  throughYear: number | null
+  throughWeek: number | null
+}
+
+/** Response of GET /api/mfl/elo */
+export interface EloRatingsResponse extends EloRatings {
+  leagueId: string
+}
+
+/**
+ * Chance the first team beats the second
+ */
+export function calculateEloWinProbability(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / ELO_SCALE))
+}
+
+/**
+ * Blowouts move ratings more than close games; the winner's pre-game edge is
+ * discounted so favorites don't inflate by running up scores on weak teams
+ */
+function marginMultiplier(margin: number, winnerRatingEdge: number): number {
+  const blowout = Math.log(Math.abs(margin) / MARGIN_SCALE + 1) + 1
+  return blowout * (2.2 / (Math.max(0, winnerRatingEdge) * 0.001 + 2.2))
+}
+
+/**
+ * Pull a rating part of the way back to the base between seasons
+ */
+export function regressRating(rating: number, regression: number = ELO_SEASON_REGRESSION): number {
+  return ELO_BASE_RATING + (rating - ELO_BASE_RATING) * (1 - regression)
+}
+
+/**
+ * Replay every game in order and return ratings plus their weekly history
+ * throughYear/throughWeek stop the replay early (ratings "as of" that week);
+ * throughWeek 0 gives the preseason ratings of throughYear, after regression
+ */
+export function buildEloRatings(
+  seasons: EloSeason[],
+  options: { throughYear?: number; throughWeek?: number } = {}
+): EloRatings {
+  const ratings: Record<string, number> = {}
+  const history: Record<string, EloRatingPoint[]> = {}
+  const ordered = [...seasons].sort((a, b) => a.year - b.year)
+  let lastYear: number | null = null
+  let lastWeek: number | null = null
+
+  const ratingOf = (franchiseId: string) => ratings[franchiseId] ?? ELO_BASE_RATING
+  const addPoint = (franchiseId: string, point: EloRatingPoint) => {
+    if (!history[franchiseId]) history[franchiseId] = []
+    history[franchiseId].push(point)
+  }
+  const regressAll = () => {
+    Object.keys(ratings).forEach(id => {
+      ratings[id] = regressRating(ratings[id])
+    })
+  }
+
+  for (const season of ordered) {
+    if (options.throughYear !== undefined && season.year > options.throughYear) break
+
+    if (lastYear !== null) regressAll()
+    lastYear = season.year
+    lastWeek = 0
+
+    const weekLimit = season.year === options.throughYear && options.throughWeek !== undefined
+      ? options.throughWeek
+      : Infinity
+
+    // Each team plays once a week, so games in a week can be applied one at a time
+    const seen = new Set<string>()
+    const games = season.games
+      .filter(game => game.week <= weekLimit)
+      .sort((a, b) => a.week - b.week)
+      .filter(game => {
+        const key = `${game.week}-${[game.franchiseId, game.opponentId].sort().join('-')}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+
+    games.forEach(game => {
+      const rating = ratingOf(game.franchiseId)
+      const opponentRating = ratingOf(game.opponentId)
+      const winProbability = calculateEloWinProbability(rating, opponentRating)
+      const actual = game.result === 'W' ? 1 : game.result === 'T' ? 0.5 : 0
+
+      const winnerEdge = game.result === 'L' ? opponentRating - rating : rating - opponentRating
+      const multiplier = game.result === 'T' ? 1 : marginMultiplier(game.score - game.opponentScore, winnerEdge)
+      const change = ELO_K_FACTOR * multiplier * (actual - winProbability)
+
+      ratings[game.franchiseId] = rating + change
+      ratings[game.opponentId] = opponentRating - change
+
+      addPoint(game.franchiseId, {
+        year: season.year,
+        week: game.week,
+        rating: ratings[game.franchiseId],
+        change,
+        opponentId: game.opponentId,
+        result: game.result,
+        winProbability
+      })
+      addPoint(game.opponentId, {
+        year: season.year,
+        week: game.week,
+        rating: ratings[game.opponentId],
+        change: -change,
+        opponentId: game.franchiseId,
+        result: game.result === 'W' ? 'L' : game.result === 'L' ? 'W' : 'T',
+        winProbability: 1 - winProbability
+      })
+
+      lastWeek = Math.max(lastWeek ?? 0, game.week)
+    })
+  }
+
+  // Asked for a season with no results yet - its preseason ratings
+  if (lastYear !== null && options.throughYear !== undefined && options.throughYear > lastYear) {
+    regressAll()
+    lastYear = options.throughYear
+    lastWeek = 0
+  }
+
+  return { ratings, history, throughYear: lastYear, throughWeek: lastWeek }
+}
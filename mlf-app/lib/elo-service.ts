@@ -0,0 +1,60 @@
+/**
+ * ELO Ratings Service
+ * Loads every season's results from MFL's schedule export, from the league's
+ * first season on, for the rating system in elo-ratings.ts
+ */
+
+import { MflClient } from './mfl-client'
+import { getLeague } from './league-registry'
+import { parseSeasonGames } from './playoff-backtest'
+import { buildEloRatings, type EloRatings, type EloSeason } from './elo-ratings'
+import {
+  getCurrentNFLSeason,
+  getCurrentWeekForSeason,
+  getTotalWeeksForYear,
+  isSeasonComplete
+} from './season-config'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+
+const FIRST_SEASON = 2021
+
+/**
+ * Completed games of every season up to throughYear
+ * The current season stops at the last finished week so live scores never move a rating
+ */
+export async function loadEloSeasons(
+  leagueId: string,
+  throughYear: number = getCurrentNFLSeason()
+): Promise<EloSeason[]> {
+  const startYear = getLeague(leagueId)?.startYear || FIRST_SEASON
+  const years = Array.from({ length: Math.max(0, throughYear - startYear + 1) }, (_, i) => startYear + i)
+
+  const results = await Promise.allSettled(years.map(async year => {
+    const schedule = await MflClient.schedule<ScheduleResponse>(year, leagueId)
+    const lastWeek = isSeasonComplete(year)
+      ? getTotalWeeksForYear(year)
+      : getCurrentWeekForSeason(year) - 1
+    return { year, games: parseSeasonGames(schedule, lastWeek) }
+  }))
+
+  const seasons: EloSeason[] = []
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      if (result.value.games.length > 0) seasons.push(result.value)
+    } else {
+      console.warn(`[ELO Ratings] No results for ${years[index]}, skipping:`, result.reason)
+    }
+  })
+  return seasons
+}
+
+/**
+ * Ratings as of a given week (default: after every completed game)
+ */
+export async function getEloRatings(
+  leagueId: string,
+  options: { throughYear?: number; throughWeek?: number } = {}
+): Promise<EloRatings> {
+  const seasons = await loadEloSeasons(leagueId, options.throughYear)
+  return buildEloRatings(seasons, options)
+}
@@ -1,4 +1,7 @@
 import { Team } from './mfl'
+import type { BacktestReport } from './playoff-backtest'
+import { getSwapWinDelta, type ScheduleSwapMatrix } from './schedule-swap'
+import { exportHistoryAsJson } from './playoff-history'
 
 export type ExportFormat = 'csv' | 'json'
 
@@ -381,4 +384,84 @@ function getChartValue(team: Team, chartType: string): number {
     case 'sPoints': return team.sPoints
     default: return team.totalPoints
   }
-}
\ No newline at end of file
+}
+
+// Playoff backtest export - CSV has one row per forecast, JSON includes the summary metrics
+export function exportBacktestData(report: BacktestReport, options: ExportOptions): void {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-')
+  const filename = options.filename || `mfl-playoff-backtest-${timestamp}`
+
+  if (options.format === 'csv') {
+    const headers = ['Year', 'Week', 'Model', 'Franchise ID', 'Playoff Probability', 'Made Playoffs']
+    const rows = report.predictions.map(p => [
+      p.year,
+      p.week,
+      p.model,
+      p.franchiseId,
+      p.probability.toFixed(4),
+      p.madePlayoffs ? 1 : 0
+    ])
+
+    const csvData = options.includeHeaders !== false ? [headers, ...rows] : rows
+    const csvContent = arrayToCSV(csvData)
+    downloadFile(csvContent, `${filename}.csv`, 'text/csv;charset=utf-8;')
+  } else {
+    const jsonContent = JSON.stringify({
+      exportDate: new Date().toISOString(),
+      exportType: 'playoff-backtest',
+      ...report
+    }, null, 2)
+    downloadFile(jsonContent, `${filename}.json`, 'application/json;charset=utf-8;')
+  }
+}
+
+// Schedule swap matrix - CSV is the grid of records (rows: team's scores, columns: schedule played),
+// JSON has every cell with its win change against the actual record
+export function exportScheduleSwapData(matrices: ScheduleSwapMatrix[], options: ExportOptions): void {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-')
+  const filename = options.filename || `mfl-schedule-swap-${timestamp}`
+
+  if (options.format === 'csv') {
+    const csvData: (string | number)[][] = []
+    matrices.forEach((matrix, index) => {
+      if (index > 0) csvData.push([])
+      if (options.includeHeaders !== false) {
+        csvData.push([`${matrix.year} (weeks ${matrix.weeks.join(' ')})`, ...matrix.teams.map(t => `${t.teamName} schedule`)])
+      }
+      matrix.teams.forEach((team, row) => {
+        csvData.push([
+          team.teamName,
+          ...matrix.records[row].map(r => `${r.wins}-${r.losses}${r.ties > 0 ? `-${r.ties}` : ''}`)
+        ])
+      })
+    })
+
+    const csvContent = arrayToCSV(csvData)
+    downloadFile(csvContent, `${filename}.csv`, 'text/csv;charset=utf-8;')
+  } else {
+    const data = matrices.map(matrix => ({
+      year: matrix.year,
+      weeks: matrix.weeks,
+      teams: matrix.teams,
+      cells: matrix.teams.flatMap((team, row) => matrix.teams.map((scheduleTeam, column) => ({
+        franchiseId: team.franchiseId,
+        scheduleOf: scheduleTeam.franchiseId,
+        ...matrix.records[row][column],
+        winsVsActual: getSwapWinDelta(matrix, row, column)
+      })))
+    }))
+
+    const jsonContent = JSON.stringify({
+      exportDate: new Date().toISOString(),
+      exportType: 'schedule-swap',
+      data
+    }, null, 2)
+    downloadFile(jsonContent, `${filename}.json`, 'application/json;charset=utf-8;')
+  }
+}
+
+// Playoff history saved in this browser by earlier versions, in the shape the
+// playoff-history import expects (POST /api/mfl/playoff-history?action=import)
+export function exportLegacyPlayoffHistory(filename = 'mfl-playoff-history'): void {
+  downloadFile(exportHistoryAsJson(), `${filename}.json`, 'application/json;charset=utf-8;')
+}
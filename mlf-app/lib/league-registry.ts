@@ -0,0 +1,137 @@
+// League Registry
+// Lists the MFL leagues this deployment serves so every route, cache key,
+// database row and owner mapping can be scoped to a league ID
+
+export interface LeagueDefinition {
+  /** MFL league ID (e.g., "46221") */
+  id: string
+  /** Display name shown in the league switcher */
+  name: string
+  /** First season the league existed on MFL */
+  startYear: number
+}
+
+// The original league this dashboard was built for
+const FALLBACK_LEAGUE: LeagueDefinition = {
+  id: '46221',
+  name: 'Dynasty League',
+  startYear: 2021
+}
+
+/**
+ * Parse the MFL_LEAGUES environment variable
+ *
+ * Accepts either a JSON array of league definitions:
+ *   MFL_LEAGUES='[{"id":"46221","name":"Dynasty League","startYear":2021}]'
+ * or a comma-separated list of id:name[:startYear] entries:
+ *   MFL_LEAGUES='46221:Dynasty League:2021,12345:Redraft League'
+ */
+function parseLeaguesEnv(raw: string | undefined): LeagueDefinition[] {
+  if (!raw || raw.trim() === '') return []
+
+  const trimmed = raw.trim()
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed) as Array<Partial<LeagueDefinition>>
+      return parsed
+        .filter(league => league && league.id)
+        .map(league => ({
+          id: String(league.id),
+          name: league.name || `League ${league.id}`,
+          startYear: Number(league.startYear) || FALLBACK_LEAGUE.startYear
+        }))
+    } catch (error) {
+      console.error('[League Registry] Invalid MFL_LEAGUES JSON:', error)
+      return []
+    }
+  }
+
+  return trimmed
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [id, name, startYear] = entry.split(':').map(part => part.trim())
+      return {
+        id,
+        name: name || `League ${id}`,
+        startYear: parseInt(startYear) || FALLBACK_LEAGUE.startYear
+      }
+    })
+    .filter(league => league.id)
+}
+
+/**
+ * Get the default league ID for requests that don't specify one
+ */
+export function getDefaultLeagueId(): string {
+  return process.env.NEXT_PUBLIC_DEFAULT_LEAGUE_ID
+    || parseLeaguesEnv(process.env.MFL_LEAGUES)[0]?.id
+    || FALLBACK_LEAGUE.id
+}
+
+/**
+ * Get all leagues registered with this deployment
+ * The default league is always included so single-league setups keep working
+ */
+export function getRegisteredLeagues(): LeagueDefinition[] {
+  const leagues = parseLeaguesEnv(process.env.MFL_LEAGUES)
+  const defaultLeagueId = getDefaultLeagueId()
+
+  if (!leagues.some(league => league.id === defaultLeagueId)) {
+    leagues.unshift(
+      defaultLeagueId === FALLBACK_LEAGUE.id
+        ? FALLBACK_LEAGUE
+        : { ...FALLBACK_LEAGUE, id: defaultLeagueId, name: `League ${defaultLeagueId}` }
+    )
+  }
+
+  return leagues
+}
+
+/**
+ * Look up a registered league by ID
+ */
+export function getLeague(leagueId: string): LeagueDefinition | undefined {
+  return getRegisteredLeagues().find(league => league.id === leagueId)
+}
+
+/**
+ * Check if a league ID is registered with this deployment
+ */
+export function isRegisteredLeague(leagueId: string): boolean {
+  return getRegisteredLeagues().some(league => league.id === leagueId)
+}
+
+/**
+ * A request named a league this deployment doesn't serve
+ */
+export class UnknownLeagueError extends Error {
+  readonly leagueId: string
+
+  constructor(leagueId: string) {
+    super(`League ${leagueId} is not registered in MFL_LEAGUES`)
+    this.name = 'UnknownLeagueError'
+    this.leagueId = leagueId
+  }
+}
+
+/**
+ * Resolve the league ID for an API request
+ * Reads the `leagueId` query parameter and falls back to the default league
+ * Throws UnknownLeagueError for an unregistered league (middleware.ts answers
+ * those with a 400 before they reach a route)
+ */
+export function resolveLeagueId(searchParams: URLSearchParams): string {
+  const requested = searchParams.get('leagueId')?.trim()
+
+  if (requested) {
+    if (!isRegisteredLeague(requested)) {
+      throw new UnknownLeagueError(requested)
+    }
+    return requested
+  }
+
+  return getDefaultLeagueId()
+}
\ No newline at end of file
@@ -0,0 +1,217 @@
+/**
+ * Start/Sit Regret
+ * Compares each weekly lineup with the best one the roster allowed and pairs
+ * every bench player who belonged in the optimal lineup with the starter they
+ * should have replaced. A loss is a "lineup loss" when the optimal lineup would
+ * have outscored the opponent's actual score
+ */
+
+import { calculatePotentialPoints, type PlayerCalculationInfo } from './mfl-calculations'
+import type { WeeklyLineup } from './mfl-weekly-results'
+import type { SeasonGame } from './playoff-backtest'
+
+export interface RegretPlayer {
+  id: string
+  name: string
+  position: string
+  team?: string
+  score: number
+}
+
+/** One start/sit decision: benchPlayer should have started instead of starter */
+export interface LineupSwap {
+  benchPlayer: RegretPlayer
+  starter: RegretPlayer
+  pointsLost: number
+}
+
+export interface WeeklyRegret {
+  week: number
+  actualPoints: number
+  optimalPoints: number
+  pointsLost: number
+  swaps: LineupSwap[]
+  opponentId: string | null
+  opponentScore: number | null
+  result: SeasonGame['result'] | null
+  lostToLineup: boolean // Lost, but the optimal lineup would have won
+}
+
+export interface TeamRegretSummary {
+  franchiseId: string
+  teamName: string
+  manager: string
+  year: number
+  actualPoints: number
+  optimalPoints: number
+  totalPointsLost: number
+  averagePointsLost: number
+  efficiency: number // Actual / optimal (0-100)
+  perfectWeeks: number
+  lineupLosses: number
+  weeks: WeeklyRegret[]
+}
+
+/** Response of GET /api/mfl/lineup-regret */
+export interface LineupRegretResponse {
+  leagueId: string
+  year: number
+  source: 'database' | 'mfl-api' | 'hybrid'
+  teams: TeamRegretSummary[] // Most points left on the bench first
+}
+
+// Differences smaller than this are rounding noise in MFL's scores
+const POINTS_EPSILON = 0.005
+
+const POSITION_ALIASES: Record<string, string> = {
+  PK: 'K',
+  DE: 'DL',
+  DT: 'DL'
+}
+
+const OFFENSE_FLEX = ['RB', 'WR', 'TE']
+const DEFENSE_FLEX = ['DL', 'LB', 'CB', 'S']
+
+function normalizePosition(position: string): string {
+  return POSITION_ALIASES[position] || position
+}
+
+function flexGroup(position: string): string | null {
+  const normalized = normalizePosition(position)
+  if (OFFENSE_FLEX.includes(normalized)) return 'offense'
+  if (DEFENSE_FLEX.includes(normalized)) return 'defense'
+  return null
+}
+
+function sumScores(players: RegretPlayer[]): number {
+  return players.reduce((sum, player) => sum + player.score, 0)
+}
+
+/**
+ * Players in the best lineup the roster allowed
+ * MFL's shouldStart flags are used when present; older seasons fall back to
+ * building the lineup from the league's requirements
+ */
+function findOptimalIds(lineup: WeeklyLineup): Set<string> {
+  const rosterIds = new Set([...lineup.starterIds, ...lineup.benchIds])
+  const shouldStart = (lineup.shouldStartIds || []).filter(id => rosterIds.has(id))
+  if (shouldStart.length > 0) return new Set(shouldStart)
+
+  const players: PlayerCalculationInfo[] = [
+    ...lineup.starterData.map(player => ({ ...player, team: player.team || 'UNK', status: 'starter' as const, isEligible: true })),
+    ...lineup.benchData.map(player => ({ ...player, team: player.team || 'UNK', status: 'bench' as const, isEligible: true }))
+  ]
+  return new Set(calculatePotentialPoints(players).optimalLineup.map(player => player.id))
+}
+
+/**
+ * Pair benched players who belonged in the optimal lineup with the starters
+ * they displace - same position first, then the same flex group, then anyone
+ */
+export function pairLineupSwaps(benchedIn: RegretPlayer[], startedOut: RegretPlayer[]): LineupSwap[] {
+  const remainingIn = [...benchedIn].sort((a, b) => b.score - a.score)
+  const remainingOut = [...startedOut].sort((a, b) => a.score - b.score)
+  const swaps: LineupSwap[] = []
+
+  const passes: Array<(bench: RegretPlayer, starter: RegretPlayer) => boolean> = [
+    (bench, starter) => normalizePosition(bench.position) === normalizePosition(starter.position),
+    (bench, starter) => flexGroup(bench.position) !== null && flexGroup(bench.position) === flexGroup(starter.position),
+    () => true
+  ]
+
+  passes.forEach(matches => {
+    for (let i = 0; i < remainingIn.length; i++) {
+      const bench = remainingIn[i]
+      const starterIndex = remainingOut.findIndex(starter => matches(bench, starter))
+      if (starterIndex === -1) continue
+
+      const [starter] = remainingOut.splice(starterIndex, 1)
+      remainingIn.splice(i, 1)
+      i--
+      swaps.push({ benchPlayer: bench, starter, pointsLost: bench.score - starter.score })
+    }
+  })
+
+  return swaps.sort((a, b) => b.pointsLost - a.pointsLost)
+}
+
+/**
+ * Regret for one team's lineup in one week
+ * game is that week's result from the schedule, when the team played one
+ */
+export function calculateWeeklyRegret(lineup: WeeklyLineup, game?: SeasonGame): WeeklyRegret {
+  const roster: RegretPlayer[] = [...lineup.starterData, ...lineup.benchData]
+  const starterIds = new Set(lineup.starterIds)
+  const optimalIds = findOptimalIds(lineup)
+
+  const actualPoints = sumScores(lineup.starterData)
+  const optimalLineupPoints = sumScores(roster.filter(player => optimalIds.has(player.id)))
+  // MFL's opt_pts is authoritative when it reported one
+  const optimalPoints = Math.max(
+    lineup.optimalPoints && lineup.optimalPoints > 0 ? lineup.optimalPoints : optimalLineupPoints,
+    actualPoints
+  )
+  const pointsLost = optimalPoints - actualPoints > POINTS_EPSILON ? optimalPoints - actualPoints : 0
+
+  const swaps = pointsLost > 0
+    ? pairLineupSwaps(
+        roster.filter(player => optimalIds.has(player.id) && !starterIds.has(player.id)),
+        lineup.starterData.filter(player => !optimalIds.has(player.id))
+      )
+    : []
+
+  return {
+    week: lineup.week,
+    actualPoints,
+    optimalPoints,
+    pointsLost,
+    swaps,
+    opponentId: game?.opponentId ?? null,
+    opponentScore: game?.opponentScore ?? null,
+    result: game?.result ?? null,
+    lostToLineup: game?.result === 'L' && optimalPoints > game.opponentScore
+  }
+}
+
+/**
+ * Season regret for every team, most points left on the bench first
+ */
+export function calculateSeasonRegret(
+  lineups: WeeklyLineup[],
+  games: SeasonGame[],
+  year: number,
+  teams: Record<string, { teamName: string; manager: string }> = {}
+): TeamRegretSummary[] {
+  const gamesByKey = new Map(games.map(game => [`${game.week}-${game.franchiseId}`, game]))
+  const weeksByTeam = new Map<string, WeeklyRegret[]>()
+
+  lineups.forEach(lineup => {
+    if (lineup.starterData.length === 0) return
+    const weekly = calculateWeeklyRegret(lineup, gamesByKey.get(`${lineup.week}-${lineup.franchiseId}`))
+    weeksByTeam.set(lineup.franchiseId, [...(weeksByTeam.get(lineup.franchiseId) || []), weekly])
+  })
+
+  return Array.from(weeksByTeam.entries())
+    .map(([franchiseId, weeks]) => {
+      const sorted = weeks.sort((a, b) => a.week - b.week)
+      const actualPoints = sorted.reduce((sum, week) => sum + week.actualPoints, 0)
+      const optimalPoints = sorted.reduce((sum, week) => sum + week.optimalPoints, 0)
+      const totalPointsLost = sorted.reduce((sum, week) => sum + week.pointsLost, 0)
+
+      return {
+        franchiseId,
+        teamName: teams[franchiseId]?.teamName || `Team ${franchiseId}`,
+        manager: teams[franchiseId]?.manager || 'Unknown',
+        year,
+        actualPoints,
+        optimalPoints,
+        totalPointsLost,
+        averagePointsLost: sorted.length > 0 ? totalPointsLost / sorted.length : 0,
+        efficiency: optimalPoints > 0 ? (actualPoints / optimalPoints) * 100 : 0,
+        perfectWeeks: sorted.filter(week => week.pointsLost === 0).length,
+        lineupLosses: sorted.filter(week => week.lostToLineup).length,
+        weeks: sorted
+      }
+    })
+    .sort((a, b) => b.totalPointsLost - a.totalPointsLost)
+}
@@ -0,0 +1,217 @@
+/**
+ * Live Scoring Service
+ * Live scoreboards from MFL's liveScoring export, projected with each starter's
+ * scoring history from this season's weekly lineups (database first, via
+ * SmartDataService) and names from MFL's players export. Live playoff odds rerun
+ * the simulator with this week's games decided by those projections, on the
+ * same seed as a pre-week baseline so the difference is the live results alone
+ */
+
+import { MflClient, toArray } from './mfl-client'
+import { fetchLiveScoring } from './mfl-api-endpoints'
+import { fetchPlayerMappings } from './mfl-weekly-results'
+import { SmartDataService } from './smart-data-service'
+import { getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
+import { buildDivisionsData } from './division-utils'
+import { buildWeekInputs, parseRemainingSchedules, parseSeasonGames } from './playoff-backtest'
+import {
+  calculatePlayoffProbabilities,
+  type PlayoffSimulation,
+  type SimulationOptions
+} from './playoff-calculator'
+import { getTiebreakerChain } from './tiebreaker-rules'
+import { getScoringFormat } from './scoring-format'
+import { DEFAULT_GAME_MODEL } from './score-model'
+import { deriveSeed } from './random'
+import { getPlayoffBracketConfig, getRegularSeasonEndWeek } from './season-config'
+import {
+  buildLiveMatchup,
+  buildPlayerScoreProfiles,
+  projectLiveTeam,
+  toLiveScoreProfiles,
+  type LiveOddsUpdate,
+  type LivePlayerScore,
+  type LiveScoreboard,
+  type PlayerInfo,
+  type PlayerScoreProfiles
+} from './live-win-probability'
+import type { MFLLiveScoreFranchise } from './mfl'
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { ScheduleResponse, TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
+import type { DivisionsData, LeagueResponse } from '@/app/api/mfl/divisions/route'
+
+// Rerun on every poll, so fewer than the Playoff Projections view
+export const LIVE_ODDS_ITERATIONS = 2000
+
+/**
+ * Everything a live week needs that doesn't change while it is played
+ */
+export interface LiveContext {
+  leagueId: string
+  year: number
+  week: number
+  teams: Record<string, { teamName: string; manager: string }>
+  playerProfiles: PlayerScoreProfiles
+  playerInfo: Record<string, PlayerInfo>
+  /** Simulator inputs as of the start of the week; null outside the regular season */
+  odds: {
+    standings: StandingsFranchise[]
+    schedules: TeamSchedule[]
+    divisionsData: DivisionsData
+    options: SimulationOptions
+    seed: number
+    baseline: PlayoffSimulation
+  } | null
+}
+
+/**
+ * Load a week's teams, player histories and pre-week playoff odds
+ */
+export async function loadLiveContext(year: number, leagueId: string, week: number): Promise<LiveContext> {
+  await loadOwnerRegistry(leagueId)
+
+  const historyWeeks = Array.from({ length: Math.max(0, week - 1) }, (_, i) => i + 1)
+  const [lineups, players, league, schedule] = await Promise.all([
+    historyWeeks.length > 0
+      ? SmartDataService.getWeeklyLineups({ year, leagueId, includeWeeks: historyWeeks }).then(result => result.data)
+      : Promise.resolve([]),
+    fetchPlayerMappings(year, leagueId).catch(error => {
+      console.warn(`[Live Scoring] No player names for ${year}:`, error)
+      return []
+    }),
+    MflClient.league<LeagueResponse>(year, leagueId),
+    MflClient.schedule<ScheduleResponse>(year, leagueId)
+  ])
+
+  const teams: LiveContext['teams'] = {}
+  toArray(league.league?.franchises?.franchise).forEach(franchise => {
+    if (franchise.id) {
+      teams[franchise.id] = {
+        teamName: franchise.name || `Team ${franchise.id}`,
+        manager: getOwnerName(franchise.id, year, leagueId)
+      }
+    }
+  })
+
+  const playerInfo: Record<string, PlayerInfo> = {}
+  players.forEach(player => {
+    playerInfo[player.id] = { name: player.name, position: player.position }
+  })
+
+  const lastRegularWeek = getRegularSeasonEndWeek(year)
+  let odds: LiveContext['odds'] = null
+
+  if (week <= lastRegularWeek) {
+    const divisionsData = buildDivisionsData(league)
+    const scoringFormat = getScoringFormat(leagueId, year)
+    const games = parseSeasonGames(schedule, week - 1)
+    const { standings, simulationOptions } = buildWeekInputs(games, divisionsData, week - 1, lastRegularWeek, scoringFormat)
+    // The schedule export has no scores for this week yet, so parseSeasonGames drops it
+    const schedules = parseRemainingSchedules(schedule, divisionsData, week, lastRegularWeek)
+    const options: SimulationOptions = {
+      ...simulationOptions,
+      gameModel: DEFAULT_GAME_MODEL,
+      bracket: getPlayoffBracketConfig(year),
+      tiebreakers: getTiebreakerChain(leagueId, year)
+    }
+    const seed = deriveSeed(leagueId, year, week)
+    const baseline = calculatePlayoffProbabilities(standings, schedules, divisionsData, LIVE_ODDS_ITERATIONS, seed, options)
+
+    odds = { standings, schedules, divisionsData, options, seed, baseline }
+  }
+
+  return {
+    leagueId,
+    year,
+    week,
+    teams,
+    playerProfiles: buildPlayerScoreProfiles(lineups),
+    playerInfo,
+    odds
+  }
+}
+
+function parseLiveFranchise(franchise: MFLLiveScoreFranchise): { franchiseId: string; score: number; starters: LivePlayerScore[] } {
+  return {
+    franchiseId: franchise.id,
+    score: parseFloat(franchise.score) || 0,
+    starters: toArray(franchise.players?.player ?? franchise.player)
+      .filter(player => player.status !== 'nonstarter')
+      .map(player => ({
+        id: player.id,
+        score: parseFloat(player.score) || 0,
+        secondsRemaining: parseInt(player.gameSecondsRemaining) || 0
+      }))
+  }
+}
+
+/**
+ * Current scores, players left and win probabilities for every matchup this week
+ */
+export async function fetchLiveScoreboard(context: LiveContext): Promise<LiveScoreboard> {
+  const data = await fetchLiveScoring(String(context.year), context.leagueId, context.week)
+
+  const matchups = toArray(data.liveScoring?.matchup)
+    .map(matchup => toArray(matchup.franchise))
+    .filter(teams => teams.length === 2)
+    .map(teams => {
+      const [team, opponent] = teams.map(franchise => {
+        const live = parseLiveFranchise(franchise)
+        return projectLiveTeam(
+          {
+            ...live,
+            teamName: context.teams[live.franchiseId]?.teamName || `Team ${live.franchiseId}`,
+            manager: context.teams[live.franchiseId]?.manager || ''
+          },
+          context.playerProfiles,
+          context.playerInfo
+        )
+      })
+      return buildLiveMatchup(team, opponent)
+    })
+
+  return {
+    leagueId: context.leagueId,
+    year: context.year,
+    week: context.week,
+    updatedAt: new Date().toISOString(),
+    matchups
+  }
+}
+
+/**
+ * Playoff odds with this week's games decided by the live projections, next to
+ * the pre-week odds; null outside the regular season
+ */
+export function calculateLiveOdds(context: LiveContext, scoreboard: LiveScoreboard): LiveOddsUpdate | null {
+  if (!context.odds) return null
+
+  const { standings, schedules, divisionsData, options, seed, baseline } = context.odds
+  const live = calculatePlayoffProbabilities(standings, schedules, divisionsData, LIVE_ODDS_ITERATIONS, seed, {
+    ...options,
+    weekProfiles: [{ week: context.week, profiles: toLiveScoreProfiles(scoreboard) }]
+  })
+
+  return {
+    leagueId: context.leagueId,
+    year: context.year,
+    week: context.week,
+    seed,
+    iterations: LIVE_ODDS_ITERATIONS,
+    updatedAt: new Date().toISOString(),
+    odds: live.probabilities
+      .map(probability => {
+        const before = baseline.probabilities.find(p => p.franchiseId === probability.franchiseId)
+        return {
+          franchiseId: probability.franchiseId,
+          teamName: context.teams[probability.franchiseId]?.teamName || `Team ${probability.franchiseId}`,
+          playoffProbability: probability.playoffProbability,
+          baselineProbability: before?.playoffProbability ?? 0,
+          championshipProbability: probability.championshipProbability,
+          baselineChampionshipProbability: before?.championshipProbability ?? 0
+        }
+      })
+      .sort((a, b) => b.playoffProbability - a.playoffProbability)
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Live Win Probability
+ * In-game odds for a week in progress. Each starter still to play (or part-way
+ * through a game) adds the unplayed share of their historical scoring distribution
+ * to the team's current score; a matchup's win probability is the chance one
+ * projected total beats the other, treating both as normal
+ */
+
+import type { WeeklyLineup } from './mfl-weekly-results'
+import type { ScoreProfiles } from './score-model'
+
+export const NFL_GAME_SECONDS = 3600
+
+// Player variances are noisy over a few weeks, so each is shrunk toward their
+// position's variance as if they had this many extra weeks of position-average games
+const VARIANCE_PRIOR_GAMES = 3
+
+// For a league with no history at all (week 1)
+const DEFAULT_PLAYER_PROFILE = { mean: 8, stdDev: 6 }
+
+export interface PlayerScoreProfile {
+  playerId: string
+  mean: number
+  stdDev: number
+  games: number // Weeks the profile was built from (0 = position or league fallback)
+}
+
+export interface PlayerScoreProfiles {
+  players: Record<string, PlayerScoreProfile>
+  positions: Record<string, { mean: number; stdDev: number }>
+  league: { mean: number; stdDev: number }
+}
+
+export interface PlayerInfo {
+  name: string
+  position: string
+}
+
+export type LivePlayerStatus = 'yet-to-play' | 'playing' | 'finished'
+
+/** One starter's live line, as parsed from MFL's liveScoring export */
+export interface LivePlayerScore {
+  id: string
+  score: number
+  secondsRemaining: number
+}
+
+export interface LivePlayer extends LivePlayerScore {
+  name: string
+  position: string
+  status: LivePlayerStatus
+  projectedRemaining: number // Expected points still to come
+}
+
+export interface LiveTeam {
+  franchiseId: string
+  teamName: string
+  manager: string
+  score: number
+  projectedScore: number // Current score plus every starter's expected remaining points
+  stdDev: number // Uncertainty in the projected score
+  playersYetToPlay: number
+  playersPlaying: number
+  starters: LivePlayer[]
+}
+
+export interface LiveMatchup {
+  teams: [LiveTeam, LiveTeam]
+  winProbability: number // Chance the first team wins (0-1)
+  isFinal: boolean
+}
+
+export interface LiveScoreboard {
+  leagueId: string
+  year: number
+  week: number
+  updatedAt: string
+  matchups: LiveMatchup[]
+}
+
+export interface LivePlayoffOdds {
+  franchiseId: string
+  teamName: string
+  playoffProbability: number // 0-100, with this week's live scores
+  baselineProbability: number // 0-100, before this week's games
+  championshipProbability: number // 0-100
+  baselineChampionshipProbability: number // 0-100
+}
+
+export interface LiveOddsUpdate {
+  leagueId: string
+  year: number
+  week: number
+  seed: number
+  iterations: number
+  updatedAt: string
+  odds: LivePlayoffOdds[]
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function variance(values: number[], avg: number): number {
+  if (values.length < 2) return 0
+  return values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1)
+}
+
+function summarize(values: number[], fallback: { mean: number; stdDev: number }): { mean: number; stdDev: number } {
+  if (values.length < 2) return fallback
+  const avg = mean(values)
+  return { mean: avg, stdDev: Math.sqrt(variance(values, avg)) }
+}
+
+/**
+ * Scoring distributions for every player who has appeared in a lineup (starter or bench)
+ * Weeks with no points are skipped - byes and inactives come back as zeros
+ */
+export function buildPlayerScoreProfiles(lineups: WeeklyLineup[]): PlayerScoreProfiles {
+  const scoresByPlayer = new Map<string, number[]>()
+  const positionByPlayer = new Map<string, string>()
+
+  lineups.forEach(lineup => {
+    [...lineup.starterData, ...lineup.benchData].forEach(player => {
+      if (!Number.isFinite(player.score) || player.score === 0) return
+      const scores = scoresByPlayer.get(player.id) || []
+      scores.push(player.score)
+      scoresByPlayer.set(player.id, scores)
+      positionByPlayer.set(player.id, player.position)
+    })
+  })
+
+  const allScores = Array.from(scoresByPlayer.values()).flat()
+  const league = summarize(allScores, DEFAULT_PLAYER_PROFILE)
+
+  const scoresByPosition = new Map<string, number[]>()
+  scoresByPlayer.forEach((scores, playerId) => {
+    const position = positionByPlayer.get(playerId) || 'UNKNOWN'
+    scoresByPosition.set(position, [...(scoresByPosition.get(position) || []), ...scores])
+  })
+
+  const positions: PlayerScoreProfiles['positions'] = {}
+  scoresByPosition.forEach((scores, position) => {
+    positions[position] = summarize(scores, league)
+  })
+
+  const players: PlayerScoreProfiles['players'] = {}
+  scoresByPlayer.forEach((scores, playerId) => {
+    const prior = positions[positionByPlayer.get(playerId) || 'UNKNOWN'] || league
+    const playerMean = mean(scores)
+    const degrees = Math.max(0, scores.length - 1)
+    const playerVariance = (variance(scores, playerMean) * degrees + prior.stdDev ** 2 * VARIANCE_PRIOR_GAMES) /
+      (degrees + VARIANCE_PRIOR_GAMES)
+
+    players[playerId] = {
+      playerId,
+      mean: playerMean,
+      stdDev: Math.sqrt(playerVariance),
+      games: scores.length
+    }
+  })
+
+  return { players, positions, league }
+}
+
+/**
+ * A player's distribution, falling back to their position and then the league
+ */
+export function getPlayerScoreProfile(
+  profiles: PlayerScoreProfiles,
+  playerId: string,
+  position?: string
+): PlayerScoreProfile {
+  const own = profiles.players[playerId]
+  if (own) return own
+  const fallback = (position && profiles.positions[position]) || profiles.league
+  return { playerId, ...fallback, games: 0 }
+}
+
+export function getLivePlayerStatus(secondsRemaining: number): LivePlayerStatus {
+  if (secondsRemaining <= 0) return 'finished'
+  if (secondsRemaining >= NFL_GAME_SECONDS) return 'yet-to-play'
+  return 'playing'
+}
+
+/**
+ * Project a team's final score from its starters' live lines
+ * A player with a share of their game left adds that share of their mean and variance
+ */
+export function projectLiveTeam(
+  team: { franchiseId: string; teamName: string; manager: string; score: number; starters: LivePlayerScore[] },
+  profiles: PlayerScoreProfiles,
+  playerInfo: Record<string, PlayerInfo>
+): LiveTeam {
+  let projectedRemaining = 0
+  let remainingVariance = 0
+
+  const starters: LivePlayer[] = team.starters.map(player => {
+    const info = playerInfo[player.id]
+    const profile = getPlayerScoreProfile(profiles, player.id, info?.position)
+    const share = Math.min(1, Math.max(0, player.secondsRemaining / NFL_GAME_SECONDS))
+    const expected = profile.mean * share
+
+    projectedRemaining += expected
+    remainingVariance += profile.stdDev ** 2 * share
+
+    return {
+      ...player,
+      name: info?.name || `Player ${player.id}`,
+      position: info?.position || 'UNKNOWN',
+      status: getLivePlayerStatus(player.secondsRemaining),
+      projectedRemaining: expected
+    }
+  })
+
+  return {
+    franchiseId: team.franchiseId,
+    teamName: team.teamName,
+    manager: team.manager,
+    score: team.score,
+    projectedScore: team.score + projectedRemaining,
+    stdDev: Math.sqrt(remainingVariance),
+    playersYetToPlay: starters.filter(player => player.status === 'yet-to-play').length,
+    playersPlaying: starters.filter(player => player.status === 'playing').length,
+    starters
+  }
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1e-7)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(x * x) / 2)
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Chance the first projected total finishes ahead of the second (a tie counts half once nothing is left to play)
+ */
+export function calculateProjectedWinProbability(
+  team: { projectedScore: number; stdDev: number },
+  opponent: { projectedScore: number; stdDev: number }
+): number {
+  const spread = Math.sqrt(team.stdDev ** 2 + opponent.stdDev ** 2)
+  const margin = team.projectedScore - opponent.projectedScore
+
+  if (spread === 0) return margin > 0 ? 1 : margin < 0 ? 0 : 0.5
+  return normalCdf(margin / spread)
+}
+
+export function buildLiveMatchup(team: LiveTeam, opponent: LiveTeam): LiveMatchup {
+  const isFinal = [team, opponent].every(side => side.playersYetToPlay === 0 && side.playersPlaying === 0)
+  return {
+    teams: [team, opponent],
+    winProbability: calculateProjectedWinProbability(team, opponent),
+    isFinal
+  }
+}
+
+/**
+ * Projected final scores as simulator profiles (see SimulationOptions.weekProfiles)
+ */
+export function toLiveScoreProfiles(scoreboard: LiveScoreboard): ScoreProfiles {
+  const profiles: ScoreProfiles = {}
+  scoreboard.matchups.forEach(matchup => {
+    matchup.teams.forEach(team => {
+      profiles[team.franchiseId] = {
+        franchiseId: team.franchiseId,
+        mean: team.projectedScore,
+        stdDev: team.stdDev,
+        sampleSize: 0
+      }
+    })
+  })
+  return profiles
+}
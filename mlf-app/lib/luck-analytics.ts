@@ -0,0 +1,191 @@
+/**
+ * All-Play and Luck Analytics
+ * Separates how well a team scored from who it happened to play. Each week a
+ * team's score is compared with every other team's (all-play) and with the
+ * league median; expected wins are the all-play win rate summed over the
+ * season, and luck is actual wins minus expected wins
+ */
+
+import type { TeamMatchupSummary } from '@/app/api/mfl/matchups/route'
+import { getRegularSeasonEndWeek } from './season-config'
+
+export type GameResult = 'W' | 'L' | 'T'
+
+export interface WeeklyLuck {
+  week: number
+  opponentId: string
+  score: number
+  opponentScore: number
+  result: GameResult
+  allPlayWins: number
+  allPlayLosses: number
+  allPlayTies: number
+  expectedWins: number // Share of the league this score would have beaten (0-1)
+  medianScore: number
+  vsMedian: GameResult
+  luck: number // Actual result (1/0.5/0) minus expected wins
+}
+
+export interface TeamLuckSummary {
+  franchiseId: string
+  teamName: string
+  manager: string
+  year: number
+  actualWins: number // Ties count half
+  expectedWins: number
+  luck: number
+  allPlayWins: number
+  allPlayLosses: number
+  allPlayTies: number
+  allPlayWinPercentage: number // 0-1
+  medianWins: number
+  medianLosses: number
+  medianTies: number
+  medianWinPercentage: number // 0-1
+  weeks: WeeklyLuck[]
+}
+
+/**
+ * Middle score of a week (mean of the two middle scores for an even league)
+ */
+export function calculateMedian(scores: number[]): number {
+  if (scores.length === 0) return 0
+  const sorted = [...scores].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function compare(score: number, other: number): GameResult {
+  if (score > other) return 'W'
+  if (score < other) return 'L'
+  return 'T'
+}
+
+function resultValue(result: GameResult): number {
+  return result === 'W' ? 1 : result === 'T' ? 0.5 : 0
+}
+
+function winPercentage(wins: number, losses: number, ties: number): number {
+  const games = wins + losses + ties
+  return games > 0 ? (wins + ties * 0.5) / games : 0
+}
+
+/**
+ * All-play, median and luck figures for one season of matchups
+ * Only regular-season weeks count, so actual wins line up with the standings
+ */
+export function calculateSeasonLuck(summaries: TeamMatchupSummary[], year: number): TeamLuckSummary[] {
+  const lastRegularWeek = getRegularSeasonEndWeek(year)
+
+  // Every score posted each week
+  const scoresByWeek = new Map<number, number[]>()
+  summaries.forEach(team => {
+    team.matchups
+      .filter(m => m.week <= lastRegularWeek)
+      .forEach(m => {
+        const scores = scoresByWeek.get(m.week) || []
+        scores.push(m.score)
+        scoresByWeek.set(m.week, scores)
+      })
+  })
+
+  return summaries.map(team => {
+    const weeks: WeeklyLuck[] = team.matchups
+      .filter(m => m.week <= lastRegularWeek)
+      .sort((a, b) => a.week - b.week)
+      .map(m => {
+        const weekScores = scoresByWeek.get(m.week) || []
+        let allPlayWins = 0
+        let allPlayLosses = 0
+        let allPlayTies = 0
+
+        // Everyone else's score that week - drop this team's own score once
+        let skippedSelf = false
+        weekScores.forEach(other => {
+          if (!skippedSelf && other === m.score) {
+            skippedSelf = true
+            return
+          }
+          const result = compare(m.score, other)
+          if (result === 'W') allPlayWins++
+          else if (result === 'L') allPlayLosses++
+          else allPlayTies++
+        })
+
+        const opponents = allPlayWins + allPlayLosses + allPlayTies
+        const expectedWins = opponents > 0 ? (allPlayWins + allPlayTies * 0.5) / opponents : 0
+        const medianScore = calculateMedian(weekScores)
+
+        return {
+          week: m.week,
+          opponentId: m.opponent,
+          score: m.score,
+          opponentScore: m.opponentScore,
+          result: m.result,
+          allPlayWins,
+          allPlayLosses,
+          allPlayTies,
+          expectedWins,
+          medianScore,
+          vsMedian: compare(m.score, medianScore),
+          luck: resultValue(m.result) - expectedWins
+        }
+      })
+
+    const sum = (pick: (week: WeeklyLuck) => number) => weeks.reduce((total, week) => total + pick(week), 0)
+    const count = (pick: (week: WeeklyLuck) => boolean) => weeks.filter(pick).length
+
+    const actualWins = sum(week => resultValue(week.result))
+    const expectedWins = sum(week => week.expectedWins)
+    const allPlayWins = sum(week => week.allPlayWins)
+    const allPlayLosses = sum(week => week.allPlayLosses)
+    const allPlayTies = sum(week => week.allPlayTies)
+    const medianWins = count(week => week.vsMedian === 'W')
+    const medianLosses = count(week => week.vsMedian === 'L')
+    const medianTies = count(week => week.vsMedian === 'T')
+
+    return {
+      franchiseId: team.franchiseId,
+      teamName: team.teamName,
+      manager: team.manager,
+      year,
+      actualWins,
+      expectedWins,
+      luck: actualWins - expectedWins,
+      allPlayWins,
+      allPlayLosses,
+      allPlayTies,
+      allPlayWinPercentage: winPercentage(allPlayWins, allPlayLosses, allPlayTies),
+      medianWins,
+      medianLosses,
+      medianTies,
+      medianWinPercentage: winPercentage(medianWins, medianLosses, medianTies),
+      weeks
+    }
+  })
+}
+
+/**
+ * Luck figures for matchups spanning several seasons, keyed by `${franchiseId}-${year}`
+ */
+export function buildLuckLookup(summaries: TeamMatchupSummary[]): Record<string, TeamLuckSummary> {
+  const byYear = new Map<number, TeamMatchupSummary[]>()
+  summaries.forEach(summary => {
+    byYear.set(summary.year, [...(byYear.get(summary.year) || []), summary])
+  })
+
+  const lookup: Record<string, TeamLuckSummary> = {}
+  byYear.forEach((yearSummaries, year) => {
+    calculateSeasonLuck(yearSummaries, year).forEach(luck => {
+      lookup[`${luck.franchiseId}-${year}`] = luck
+    })
+  })
+  return lookup
+}
+
+/**
+ * Signed display of a luck value, e.g. "+1.4" / "-0.8"
+ */
+export function formatLuck(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`
+}
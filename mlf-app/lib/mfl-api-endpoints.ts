@@ -1,8 +1,8 @@
 // MFL API Endpoint Utilities
 // This file contains specific functions for each MFL API endpoint
 
-import { fetchWithRetry } from './mfl-api'
-import { getYearSpecificHeaders } from './mfl-api-keys'
+import { MflClient, toArray } from './mfl-client'
+import { getDefaultLeagueId } from './league-registry'
 import { 
   MFLPlayerScoresResponse, 
   MFLRosterResponse, 
@@ -30,64 +30,21 @@ export const LINEUP_REQUIREMENTS: LineupRequirements = {
   total: 18
 }
 
-// Base configuration
-const DEFAULT_LEAGUE_ID = '46221'
-const DEFAULT_USER_AGENT = 'dynasty-dashboard'
-
-// Get base API configuration
-function getApiConfig() {
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const userAgent = process.env.MFL_USER_AGENT || DEFAULT_USER_AGENT
-  
-  return { baseUrl, userAgent }
-}
-
-// Year-specific request headers for accurate historical data
-function getRequestHeaders(year?: string) {
-  const { userAgent } = getApiConfig()
-  
-  if (year) {
-    // Use year-specific authentication for maximum accuracy
-    return getYearSpecificHeaders(parseInt(year), userAgent)
-  }
-  
-  // Fallback to default API key
-  const apiKey = process.env.MFL_API_KEY
-  const headers: Record<string, string> = {
-    'User-Agent': userAgent,
-    'Accept': 'application/json',
-    'Cache-Control': 'no-cache'
-  }
-  
-  if (apiKey) {
-    headers['Authorization'] = `Bearer ${apiKey}`
-  }
-  
-  return headers
-}
-
 /**
  * Fetch player scores for a specific week
  * @param year - Season year 
  * @param leagueId - League ID
  * @param week - Week number or "YTD" for year-to-date
+ * @param playerIds - Limit to these players (optional)
  * @returns Player scores data
  */
 export async function fetchPlayerScores(
   year: string, 
-  leagueId: string = DEFAULT_LEAGUE_ID, 
-  week: string | number = 'YTD'
+  leagueId: string = getDefaultLeagueId(), 
+  week: string | number = 'YTD',
+  playerIds?: string[]
 ): Promise<MFLPlayerScoresResponse> {
-  const { baseUrl } = getApiConfig()
-  const url = `${baseUrl}/${year}/export?TYPE=playerScores&L=${leagueId}&W=${week}&JSON=1`
-  
-  console.log(`Fetching player scores: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLPlayerScoresResponse
+  return MflClient.playerScores(year, leagueId, week, playerIds)
 }
 
 /**
@@ -99,23 +56,10 @@ export async function fetchPlayerScores(
  */
 export async function fetchRosters(
   year: string, 
-  leagueId: string = DEFAULT_LEAGUE_ID, 
+  leagueId: string = getDefaultLeagueId(), 
   franchiseId?: string
 ): Promise<MFLRosterResponse> {
-  const { baseUrl } = getApiConfig()
-  let url = `${baseUrl}/${year}/export?TYPE=rosters&L=${leagueId}&JSON=1`
-  
-  if (franchiseId) {
-    url += `&FRANCHISE=${franchiseId}`
-  }
-  
-  console.log(`Fetching rosters: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLRosterResponse
+  return MflClient.rosters(year, leagueId, franchiseId)
 }
 
 /**
@@ -127,19 +71,10 @@ export async function fetchRosters(
  */
 export async function fetchWeeklyResults(
   year: string, 
-  leagueId: string = DEFAULT_LEAGUE_ID, 
+  leagueId: string = getDefaultLeagueId(), 
   week: string | number
 ): Promise<MFLWeeklyResultsResponse> {
-  const { baseUrl } = getApiConfig()
-  const url = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=${week}&JSON=1`
-  
-  console.log(`Fetching weekly results: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLWeeklyResultsResponse
+  return MflClient.weeklyResults(year, leagueId, week)
 }
 
 /**
@@ -151,18 +86,9 @@ export async function fetchWeeklyResults(
  */
 export async function fetchYTDWeeklyResults(
   year: string, 
-  leagueId: string = DEFAULT_LEAGUE_ID
+  leagueId: string = getDefaultLeagueId()
 ): Promise<MFLWeeklyResultsResponse> {
-  const { baseUrl } = getApiConfig()
-  const url = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=YTD&JSON=1`
-  
-  console.log(`Fetching YTD weekly results: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLWeeklyResultsResponse
+  return MflClient.weeklyResults(year, leagueId, 'YTD')
 }
 
 /**
@@ -171,16 +97,7 @@ export async function fetchYTDWeeklyResults(
  * @returns Player database
  */
 export async function fetchPlayers(year: string): Promise<MFLPlayersResponse> {
-  const { baseUrl } = getApiConfig()
-  const url = `${baseUrl}/${year}/export?TYPE=players&JSON=1`
-  
-  console.log(`Fetching players: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLPlayersResponse
+  return MflClient.players(year)
 }
 
 /**
@@ -192,23 +109,10 @@ export async function fetchPlayers(year: string): Promise<MFLPlayersResponse> {
  */
 export async function fetchLiveScoring(
   year: string, 
-  leagueId: string = DEFAULT_LEAGUE_ID, 
+  leagueId: string = getDefaultLeagueId(), 
   week?: string | number
 ): Promise<MFLLiveScoreResponse> {
-  const { baseUrl } = getApiConfig()
-  let url = `${baseUrl}/${year}/export?TYPE=liveScoring&L=${leagueId}&JSON=1`
-  
-  if (week) {
-    url += `&W=${week}`
-  }
-  
-  console.log(`Fetching live scoring: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLLiveScoreResponse
+  return MflClient.liveScoring(year, leagueId, week)
 }
 
 /**
@@ -222,29 +126,12 @@ export async function fetchLiveScoring(
  */
 export async function fetchPlayerRosterStatus(
   year: string, 
-  leagueId: string = DEFAULT_LEAGUE_ID, 
+  leagueId: string = getDefaultLeagueId(), 
   playerIds: string[],
   week?: string | number,
   franchiseId?: string
 ): Promise<MFLPlayerRosterStatusResponse> {
-  const { baseUrl } = getApiConfig()
-  let url = `${baseUrl}/${year}/export?TYPE=playerRosterStatus&L=${leagueId}&P=${playerIds.join(',')}&JSON=1`
-  
-  if (week) {
-    url += `&W=${week}`
-  }
-  
-  if (franchiseId) {
-    url += `&F=${franchiseId}`
-  }
-  
-  console.log(`Fetching player roster status: ${url}`)
-  
-  const response = await fetchWithRetry(url, {
-    headers: getRequestHeaders(year)
-  })
-  
-  return response as MFLPlayerRosterStatusResponse
+  return MflClient.playerRosterStatus(year, leagueId, playerIds, week, franchiseId)
 }
 
 /**
@@ -275,30 +162,15 @@ export function combinePlayerData(
     })
   }
   
-  // Build roster status lookup
-  const franchiseList = rosterData.rosters?.franchise
-  if (Array.isArray(franchiseList)) {
-    // Multiple franchises
-    franchiseList.forEach(franchise => {
-      const players = Array.isArray((franchise as any).player) ? (franchise as any).player : [(franchise as any).player].filter(Boolean)
-      players.forEach((player: any) => {
-        rosterStatusMap.set(player.id, {
-          franchiseId: (franchise as any).id,
-          status: player.status || 'active'
-        })
-      })
-    })
-  } else if (franchiseList) {
-    // Single franchise
-    const franchise = franchiseList
-    const players = Array.isArray((franchise as any).player) ? (franchise as any).player : [(franchise as any).player].filter(Boolean)
-    players.forEach((player: any) => {
+  // Build roster status lookup (MFL returns a bare object for a single franchise or player)
+  toArray(rosterData.rosters?.franchise).forEach(franchise => {
+    toArray(franchise.player).forEach(player => {
       rosterStatusMap.set(player.id, {
-        franchiseId: (franchise as any).id,
+        franchiseId: franchise.id,
         status: player.status || 'active'
       })
     })
-  }
+  })
   
   // Combine all data
   const players: Player[] = []
@@ -499,7 +371,13 @@ export function extractOfficialScoring(
     for (const franchise of franchises) {
       if (franchise.id === franchiseId) {
         // MFL sometimes includes additional scoring fields in franchise data
-        const franchiseData = franchise as any
+        const franchiseData: typeof franchise & {
+          benchPoints?: string
+          bp?: string
+          potentialPoints?: string
+          pp?: string
+          maxpf?: string
+        } = franchise
         
         // Check for common MFL scoring field names
         const benchPoints = parseFloat(franchiseData.benchPoints || franchiseData.bp || '0')
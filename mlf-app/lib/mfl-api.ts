@@ -1,9 +1,12 @@
 // MFL API utilities with rate limiting, caching, and retry logic
 
-interface CacheEntry {
-  data: unknown
-  timestamp: number
-}
+import { getFixtureMode, mflFetch, readFixture } from './mfl-fixtures'
+import { MflApiError, MflNetworkError, MflRateLimitError } from './mfl-errors'
+import { createCacheEntry, DEFAULT_CACHE_TTL, getCacheBackend, isCacheEntryFresh } from './mfl-cache'
+import type { CacheEntry } from './mfl-cache'
+
+export { getCacheTtl, isCacheEntryFresh } from './mfl-cache'
+export type { CacheEntry } from './mfl-cache'
 
 interface RequestQueue {
   url: string
@@ -13,8 +16,12 @@ interface RequestQueue {
   retryCount: number
 }
 
-// In-memory cache for API responses
-const cache = new Map<string, CacheEntry>()
+// Background refreshes in flight, so a stale key only revalidates once
+const pendingRevalidations = new Map<string, Promise<unknown>>()
+
+// Expired entries are purged at most once an hour
+const PURGE_INTERVAL = 60 * 60 * 1000
+let lastPurgeTime = 0
 
 // Request queue to prevent hammering the API
 const requestQueue: RequestQueue[] = []
@@ -43,42 +50,86 @@ export function getCacheKey(type: string, params: Record<string, string>): strin
 
 /**
  * Get data from cache
+ * Returns stale entries too (check isCacheEntryFresh) so callers can fall back to them
  */
-export function getFromCache(key: string): CacheEntry | null {
-  return cache.get(key) || null
+export async function getFromCache(key: string): Promise<CacheEntry | null> {
+  try {
+    return await getCacheBackend().get(key)
+  } catch (error) {
+    console.error(`Cache read failed for key ${key}:`, error)
+    return null
+  }
 }
 
 /**
  * Set data in cache
+ * ttl is in milliseconds; pass null for data that never changes (see getCacheTtl)
  */
-export function setCache(key: string, data: unknown): void {
-  cache.set(key, {
-    data,
-    timestamp: Date.now()
-  })
-  
-  // Clean up old cache entries (older than 1 hour)
-  const oneHourAgo = Date.now() - (60 * 60 * 1000)
-  for (const [cacheKey, entry] of cache.entries()) {
-    if (entry.timestamp < oneHourAgo) {
-      cache.delete(cacheKey)
+export async function setCache(key: string, data: unknown, ttl: number | null = DEFAULT_CACHE_TTL): Promise<void> {
+  const backend = getCacheBackend()
+
+  try {
+    await backend.set(key, createCacheEntry(data, ttl))
+
+    // Clean up entries past their stale window
+    if (Date.now() - lastPurgeTime > PURGE_INTERVAL) {
+      lastPurgeTime = Date.now()
+      const purged = await backend.purgeExpired()
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired cache entries`)
+      }
     }
+  } catch (error) {
+    console.error(`Cache write failed for key ${key}:`, error)
   }
 }
 
 /**
  * Clear cache for a specific key or all cache
  */
-export function clearCache(key?: string): void {
+export async function clearCache(key?: string): Promise<void> {
   if (key) {
-    cache.delete(key)
+    await getCacheBackend().delete(key)
     console.log(`Cache cleared for key: ${key}`)
   } else {
-    cache.clear()
+    await getCacheBackend().clear()
     console.log('All cache cleared')
   }
 }
 
+/**
+ * Stale-while-revalidate read-through cache
+ * Fresh entries are returned as-is, stale entries are returned immediately while
+ * the fetcher refreshes them in the background, and misses wait for the fetcher
+ */
+export async function getCachedOrFetch<T>(
+  key: string,
+  ttl: number | null,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const cached = await getFromCache(key)
+
+  if (cached && isCacheEntryFresh(cached)) {
+    return cached.data as T
+  }
+
+  if (cached) {
+    if (!pendingRevalidations.has(key)) {
+      console.log(`Serving stale cache for ${key} while revalidating`)
+      const revalidation = fetcher()
+        .then(data => setCache(key, data, ttl))
+        .catch(error => console.error(`Background revalidation failed for ${key}:`, error))
+        .finally(() => pendingRevalidations.delete(key))
+      pendingRevalidations.set(key, revalidation)
+    }
+    return cached.data as T
+  }
+
+  const data = await fetcher()
+  await setCache(key, data, ttl)
+  return data
+}
+
 /**
  * Sleep utility for delays
  */
@@ -115,7 +166,7 @@ async function processRequestQueue(): Promise<void> {
 
       console.log(`Processing MFL API request: ${request.url}`)
       
-      const response = await fetch(request.url, request.options)
+      const response = await mflFetch(request.url, request.options)
       lastRequestTime = Date.now()
 
       // Handle rate limiting (429 status)
@@ -131,12 +182,12 @@ async function processRequestQueue(): Promise<void> {
           })
           continue
         } else {
-          throw new Error('Rate limit exceeded. Maximum retry attempts reached.')
+          throw new MflRateLimitError(request.url)
         }
       }
 
       if (!response.ok) {
-        throw new Error(`MFL API error: ${response.status} ${response.statusText}`)
+        throw new MflApiError(`MFL API error: ${response.status} ${response.statusText}`, request.url, response.status)
       }
 
       const data = await response.json()
@@ -145,10 +196,12 @@ async function processRequestQueue(): Promise<void> {
     } catch (error) {
       console.error('MFL API request failed:', error)
       
-      // Retry on network errors
-      if (request.retryCount < MAX_RETRY_ATTEMPTS && 
-          error instanceof Error && 
-          (error.message.includes('fetch') || error.message.includes('network'))) {
+      // Retry on network errors (fetch rejects with a TypeError)
+      const isNetworkError = !(error instanceof MflApiError) &&
+        error instanceof Error &&
+        (error instanceof TypeError || error.message.includes('fetch') || error.message.includes('network'))
+
+      if (request.retryCount < MAX_RETRY_ATTEMPTS && isNetworkError) {
         
         const retryDelay = getRetryDelay(request.retryCount)
         console.log(`Network error. Retrying in ${retryDelay}ms (attempt ${request.retryCount + 1}/${MAX_RETRY_ATTEMPTS})`)
@@ -161,7 +214,7 @@ async function processRequestQueue(): Promise<void> {
         continue
       }
       
-      request.reject(error)
+      request.reject(isNetworkError ? new MflNetworkError(request.url, error) : error)
     }
   }
 
@@ -172,6 +225,14 @@ async function processRequestQueue(): Promise<void> {
  * Fetch data from MFL API with retry logic and rate limiting
  */
 export function fetchWithRetry(url: string, options: RequestInit = {}): Promise<unknown> {
+  // Replayed fixtures skip the queue - there is no rate limit to respect offline
+  if (getFixtureMode() === 'replay') {
+    const data = readFixture(url)
+    return data === null
+      ? Promise.reject(new MflApiError(`MFL API error: no fixture recorded for ${url}`, url, 404))
+      : Promise.resolve(data)
+  }
+
   return new Promise((resolve, reject) => {
     requestQueue.push({
       url,
@@ -199,7 +260,8 @@ export function getQueueStatus() {
     queueLength: requestQueue.length,
     isProcessing: isProcessingQueue,
     lastRequestTime,
-    cacheSize: cache.size
+    cacheBackend: getCacheBackend().name,
+    pendingRevalidations: pendingRevalidations.size
   }
 }
 
@@ -0,0 +1,370 @@
+// MFL Response Cache
+// Pluggable storage behind getFromCache/setCache in mfl-api.ts so cached MFL
+// data survives server restarts and serverless cold starts
+//
+// Backends (MFL_CACHE_BACKEND):
+//   memory     - default, in-process Map (lost on restart)
+//   sqlite     - cache_entries table in the Prisma datasource
+//   filesystem - one JSON file per key under MFL_CACHE_DIR
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { getCurrentWeekForSeason, isSeasonComplete, isWeekFinal } from './season-config'
+
+export type CacheBackendName = 'memory' | 'sqlite' | 'filesystem'
+
+export interface CacheEntry {
+  data: unknown
+  /** When the entry was written (ms) */
+  timestamp: number
+  /** When the entry stops being fresh (ms) - null never expires */
+  expiresAt: number | null
+  /** When the entry can no longer be served stale (ms) - null never expires */
+  staleUntil: number | null
+}
+
+export interface StoredCacheEntry extends CacheEntry {
+  key: string
+}
+
+export interface CacheBackend {
+  readonly name: CacheBackendName
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  /** Delete every entry, or only those whose key starts with prefix */
+  clear(prefix?: string): Promise<number>
+  /** Delete entries past their stale window */
+  purgeExpired(): Promise<number>
+  list(prefix?: string): Promise<StoredCacheEntry[]>
+}
+
+// TTLs in milliseconds; null means the entry never expires
+export const LIVE_WEEK_TTL = 60 * 1000 // 1 minute while games are in progress
+export const DEFAULT_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+// How long an expired entry may still be served while it revalidates
+export const STALE_WINDOW = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+/**
+ * Default TTLs per MFL export TYPE (and dashboard route cache type)
+ * Week-scoped data is further adjusted by getCacheTtl
+ */
+const ENDPOINT_TTLS: Record<string, number> = {
+  league: 60 * 60 * 1000,
+  calendar: 24 * 60 * 60 * 1000,
+  schedule: 6 * 60 * 60 * 1000,
+  players: 24 * 60 * 60 * 1000,
+  rosters: 15 * 60 * 1000,
+  playerRosterStatus: 15 * 60 * 1000,
+  standings: 5 * 60 * 1000,
+  leagueStandings: 5 * 60 * 1000,
+  weeklyResults: 5 * 60 * 1000,
+  playerScores: 5 * 60 * 1000,
+  liveScoring: 30 * 1000,
+  nflByeWeeks: 24 * 60 * 60 * 1000
+}
+
+function isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+  return entry.staleUntil !== null && now >= entry.staleUntil
+}
+
+function withoutKey({ data, timestamp, expiresAt, staleUntil }: StoredCacheEntry): CacheEntry {
+  return { data, timestamp, expiresAt, staleUntil }
+}
+
+/**
+ * Check if a cache entry is still within its TTL
+ */
+export function isCacheEntryFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt === null || now < entry.expiresAt
+}
+
+/**
+ * Build a cache entry for data written now with the given TTL
+ */
+export function createCacheEntry(data: unknown, ttl: number | null): CacheEntry {
+  const timestamp = Date.now()
+  const expiresAt = ttl === null ? null : timestamp + ttl
+  return {
+    data,
+    timestamp,
+    expiresAt,
+    staleUntil: expiresAt === null ? null : expiresAt + STALE_WINDOW
+  }
+}
+
+/**
+ * Pick a TTL for an endpoint and its request params
+ * Completed seasons and finalized past weeks never change, so they never expire;
+ * the week in progress expires quickly so live scores stay current, and the
+ * week still open to stat corrections keeps the endpoint default
+ */
+export function getCacheTtl(type: string, params: Record<string, string | number | undefined> = {}): number | null {
+  const year = parseInt(String(params.year ?? params.YEAR ?? ''))
+  const week = parseInt(String(params.W ?? params.week ?? ''))
+
+  if (!isNaN(year)) {
+    if (isSeasonComplete(year)) return null
+
+    if (!isNaN(week)) {
+      if (isWeekFinal(year, week)) return null
+      if (week === getCurrentWeekForSeason(year)) return Math.min(LIVE_WEEK_TTL, ENDPOINT_TTLS[type] ?? LIVE_WEEK_TTL)
+    }
+  }
+
+  return ENDPOINT_TTLS[type] ?? DEFAULT_CACHE_TTL
+}
+
+/**
+ * In-process Map - fastest, but empty after every restart
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory' as const
+  private entries = new Map<string, CacheEntry>()
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return this.entries.get(key) || null
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    if (!prefix) {
+      const count = this.entries.size
+      this.entries.clear()
+      return count
+    }
+
+    let count = 0
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key)
+        count++
+      }
+    }
+    return count
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now()
+    let count = 0
+    for (const [key, entry] of this.entries.entries()) {
+      if (isExpired(entry, now)) {
+        this.entries.delete(key)
+        count++
+      }
+    }
+    return count
+  }
+
+  async list(prefix?: string): Promise<StoredCacheEntry[]> {
+    return Array.from(this.entries.entries())
+      .filter(([key]) => !prefix || key.startsWith(prefix))
+      .map(([key, entry]) => ({ key, ...entry }))
+  }
+}
+
+/**
+ * One JSON file per key - survives restarts on hosts with a writable disk
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'filesystem' as const
+
+  constructor(private readonly dir: string) {}
+
+  private filePath(key: string): string {
+    // Keys contain characters that aren't safe in file names
+    const hash = crypto.createHash('sha256').update(key).digest('hex')
+    return path.join(this.dir, `${hash}.json`)
+  }
+
+  private readFile(file: string): StoredCacheEntry | null {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as StoredCacheEntry
+    } catch {
+      return null
+    }
+  }
+
+  private readAll(): Array<{ file: string; entry: StoredCacheEntry }> {
+    if (!fs.existsSync(this.dir)) return []
+
+    return fs.readdirSync(this.dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => path.join(this.dir, name))
+      .map(file => ({ file, entry: this.readFile(file) }))
+      .filter((item): item is { file: string; entry: StoredCacheEntry } => item.entry !== null)
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const stored = this.readFile(this.filePath(key))
+    if (!stored || stored.key !== key) return null
+    return withoutKey(stored)
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    fs.mkdirSync(this.dir, { recursive: true })
+
+    // Write then rename so concurrent readers never see a partial file
+    const file = this.filePath(key)
+    const tmpFile = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tmpFile, JSON.stringify({ key, ...entry }))
+    fs.renameSync(tmpFile, file)
+  }
+
+  async delete(key: string): Promise<void> {
+    fs.rmSync(this.filePath(key), { force: true })
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    const targets = this.readAll().filter(({ entry }) => !prefix || entry.key.startsWith(prefix))
+    targets.forEach(({ file }) => fs.rmSync(file, { force: true }))
+    return targets.length
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now()
+    const targets = this.readAll().filter(({ entry }) => isExpired(entry, now))
+    targets.forEach(({ file }) => fs.rmSync(file, { force: true }))
+    return targets.length
+  }
+
+  async list(prefix?: string): Promise<StoredCacheEntry[]> {
+    return this.readAll()
+      .map(({ entry }) => entry)
+      .filter(entry => !prefix || entry.key.startsWith(prefix))
+  }
+}
+
+// A cache_entries row
+interface CacheRow {
+  key: string
+  value: string // JSON
+  createdAt: Date
+  expiresAt: Date | null
+  staleUntil: Date | null
+}
+
+/**
+ * cache_entries table in the Prisma SQLite datasource
+ * Prisma is loaded lazily so the other backends never open a database connection
+ */
+export class PrismaCacheBackend implements CacheBackend {
+  readonly name = 'sqlite' as const
+
+  private async client() {
+    const { prisma } = await import('./database')
+    return prisma
+  }
+
+  private toEntry(row: CacheRow): StoredCacheEntry {
+    return {
+      key: row.key,
+      data: JSON.parse(row.value),
+      timestamp: row.createdAt.getTime(),
+      expiresAt: row.expiresAt ? row.expiresAt.getTime() : null,
+      staleUntil: row.staleUntil ? row.staleUntil.getTime() : null
+    }
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const prisma = await this.client()
+    const row = await prisma.cacheEntry.findUnique({ where: { key } })
+    return row ? withoutKey(this.toEntry(row)) : null
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const prisma = await this.client()
+    const fields = {
+      value: JSON.stringify(entry.data),
+      createdAt: new Date(entry.timestamp),
+      expiresAt: entry.expiresAt === null ? null : new Date(entry.expiresAt),
+      staleUntil: entry.staleUntil === null ? null : new Date(entry.staleUntil)
+    }
+
+    await prisma.cacheEntry.upsert({
+      where: { key },
+      update: fields,
+      create: { key, ...fields }
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    const prisma = await this.client()
+    await prisma.cacheEntry.deleteMany({ where: { key } })
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    const prisma = await this.client()
+    const result = await prisma.cacheEntry.deleteMany({
+      where: prefix ? { key: { startsWith: prefix } } : {}
+    })
+    return result.count
+  }
+
+  async purgeExpired(): Promise<number> {
+    const prisma = await this.client()
+    const result = await prisma.cacheEntry.deleteMany({
+      where: { staleUntil: { lte: new Date() } }
+    })
+    return result.count
+  }
+
+  async list(prefix?: string): Promise<StoredCacheEntry[]> {
+    const prisma = await this.client()
+    const rows = await prisma.cacheEntry.findMany({
+      where: prefix ? { key: { startsWith: prefix } } : {},
+      orderBy: { key: 'asc' }
+    })
+    return rows.map((row: CacheRow) => this.toEntry(row))
+  }
+}
+
+let activeBackend: CacheBackend | null = null
+
+/**
+ * Get the configured cache backend name from the environment
+ */
+export function getCacheBackendName(): CacheBackendName {
+  const name = (process.env.MFL_CACHE_BACKEND || '').toLowerCase()
+  if (name === 'sqlite' || name === 'filesystem') return name
+  return 'memory'
+}
+
+/**
+ * Get the directory the filesystem backend writes to
+ */
+export function getCacheDir(): string {
+  return process.env.MFL_CACHE_DIR || path.join(process.cwd(), '.cache', 'mfl')
+}
+
+/**
+ * Get the process-wide cache backend, creating it on first use
+ */
+export function getCacheBackend(): CacheBackend {
+  if (!activeBackend) {
+    const name = getCacheBackendName()
+    activeBackend = name === 'sqlite'
+      ? new PrismaCacheBackend()
+      : name === 'filesystem'
+        ? new FileCacheBackend(getCacheDir())
+        : new MemoryCacheBackend()
+    console.log(`[MFL Cache] Using ${activeBackend.name} backend`)
+  }
+  return activeBackend
+}
+
+/**
+ * Replace the active backend (tests, scripts)
+ */
+export function setCacheBackend(backend: CacheBackend | null): void {
+  activeBackend = backend
+}
@@ -0,0 +1,254 @@
+// MFL Client
+// Single entry point for MFL export requests. Every method goes through the
+// shared rate-limit queue in mfl-api.ts with year-specific authentication, so
+// retries, 429 handling, caching and fixture replay behave the same on every route
+
+import { fetchWithRetry, getCacheKey, getCachedOrFetch, getCacheTtl, setCache } from './mfl-api'
+import { getFixtureMode } from './mfl-fixtures'
+import { getYearSpecificHeaders } from './mfl-api-keys'
+import { getDefaultLeagueId } from './league-registry'
+import { MflResponseError } from './mfl-errors'
+import type {
+  MFLByeWeeksResponse,
+  MFLCalendarResponse,
+  MFLLeagueResponse,
+  MFLLeagueStandingsResponse,
+  MFLLiveScoreResponse,
+  MFLPlayerRosterStatusResponse,
+  MFLPlayerScoresResponse,
+  MFLPlayersResponse,
+  MFLPlayoffBracketResponse,
+  MFLPlayoffBracketsResponse,
+  MFLRosterResponse,
+  MFLScheduleResponse,
+  MFLStandingsResponse,
+  MFLWeeklyResultsResponse
+} from './mfl'
+
+export type MflExportType =
+  | 'league'
+  | 'standings'
+  | 'leagueStandings'
+  | 'schedule'
+  | 'calendar'
+  | 'rosters'
+  | 'players'
+  | 'playerScores'
+  | 'weeklyResults'
+  | 'liveScoring'
+  | 'playerRosterStatus'
+  | 'nflByeWeeks'
+  | 'playoffBrackets'
+  | 'playoffBracket'
+
+export type MflExportParams = Record<string, string | number | undefined>
+
+export interface MflExportOptions {
+  /** Skip the cached (possibly stale) copy and ask MFL; the response still refreshes the cache */
+  fresh?: boolean
+}
+
+const DEFAULT_USER_AGENT = 'dynasty-dashboard'
+
+/**
+ * Normalize MFL's single-item-or-array fields into an array
+ * MFL collapses one-element lists into a bare object and omits empty ones
+ */
+export function toArray<T>(value: T | T[] | null | undefined): T[] {
+  if (value === null || value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Build an export URL for the configured MFL host
+ */
+export function buildExportUrl(year: number | string, type: MflExportType, params: MflExportParams = {}): string {
+  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
+  const query = new URLSearchParams({ TYPE: type })
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value))
+    }
+  })
+  query.set('JSON', '1')
+
+  return `${baseUrl}/${year}/export?${query.toString()}`
+}
+
+/**
+ * Request any export TYPE through the shared queue
+ * Responses are cached with a TTL picked per TYPE and week (see getCacheTtl);
+ * fixture record/replay bypasses the cache so recordings always hit the source
+ */
+export async function mflExport<T>(
+  year: number | string,
+  type: MflExportType,
+  params: MflExportParams = {},
+  options: MflExportOptions = {}
+): Promise<T> {
+  const url = buildExportUrl(year, type, params)
+  const headers = getYearSpecificHeaders(
+    typeof year === 'number' ? year : parseInt(year),
+    process.env.MFL_USER_AGENT || DEFAULT_USER_AGENT
+  )
+
+  const request = async (): Promise<T> => {
+    console.log(`[MFL Client] ${type}: ${url}`)
+
+    const data = await fetchWithRetry(url, { headers })
+
+    // MFL reports some failures (bad league ID, private data) as a 200 with an error body
+    const errorBody = (data as { error?: unknown } | null)?.error
+    if (errorBody) {
+      const message = typeof errorBody === 'string'
+        ? errorBody
+        : (errorBody as { $t?: string }).$t || JSON.stringify(errorBody)
+      throw new MflResponseError(message, url)
+    }
+
+    return data as T
+  }
+
+  if (getFixtureMode() !== 'off') {
+    return request()
+  }
+
+  const cacheParams: Record<string, string> = { year: String(year) }
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') cacheParams[key] = String(value)
+  })
+
+  const cacheKey = getCacheKey(`export-${type}`, cacheParams)
+  const ttl = getCacheTtl(type, cacheParams)
+
+  if (options.fresh) {
+    const data = await request()
+    await setCache(cacheKey, data, ttl)
+    return data
+  }
+
+  return getCachedOrFetch<T>(cacheKey, ttl, request)
+}
+
+/**
+ * Typed methods for each MFL export TYPE the dashboard uses
+ * Callers with a narrower local response type can pass it as the type argument
+ */
+export class MflClient {
+
+  static league<T = MFLLeagueResponse>(year: number | string, leagueId: string = getDefaultLeagueId()): Promise<T> {
+    return mflExport<T>(year, 'league', { L: leagueId })
+  }
+
+  static standings<T = MFLStandingsResponse>(
+    year: number | string,
+    leagueId: string = getDefaultLeagueId(),
+    params: MflExportParams = {}
+  ): Promise<T> {
+    return mflExport<T>(year, 'standings', { L: leagueId, ...params })
+  }
+
+  static leagueStandings<T = MFLLeagueStandingsResponse>(year: number | string, leagueId: string = getDefaultLeagueId()): Promise<T> {
+    return mflExport<T>(year, 'leagueStandings', { L: leagueId })
+  }
+
+  static schedule<T = MFLScheduleResponse>(
+    year: number | string,
+    leagueId: string = getDefaultLeagueId(),
+    week?: number | string
+  ): Promise<T> {
+    return mflExport<T>(year, 'schedule', { L: leagueId, W: week })
+  }
+
+  static calendar<T = MFLCalendarResponse>(year: number | string, leagueId: string = getDefaultLeagueId()): Promise<T> {
+    return mflExport<T>(year, 'calendar', { L: leagueId })
+  }
+
+  static rosters<T = MFLRosterResponse>(
+    year: number | string,
+    leagueId: string = getDefaultLeagueId(),
+    franchiseId?: string
+  ): Promise<T> {
+    return mflExport<T>(year, 'rosters', { L: leagueId, FRANCHISE: franchiseId })
+  }
+
+  /**
+   * Player database - league-scoped when a league ID is given
+   */
+  static players<T = MFLPlayersResponse>(year: number | string, leagueId?: string): Promise<T> {
+    return mflExport<T>(year, 'players', { L: leagueId })
+  }
+
+  /**
+   * Player scores - pass player IDs to limit the export to those players
+   */
+  static playerScores<T = MFLPlayerScoresResponse>(
+    year: number | string,
+    leagueId: string = getDefaultLeagueId(),
+    week: number | string = 'YTD',
+    playerIds?: string[]
+  ): Promise<T> {
+    return mflExport<T>(year, 'playerScores', { L: leagueId, W: week, PLAYERS: playerIds?.join(',') })
+  }
+
+  /**
+   * Weekly results - omit the week for the latest week, or pass "YTD" for season totals
+   */
+  static weeklyResults<T = MFLWeeklyResultsResponse>(
+    year: number | string,
+    leagueId: string = getDefaultLeagueId(),
+    week?: number | string,
+    options: MflExportOptions = {}
+  ): Promise<T> {
+    return mflExport<T>(year, 'weeklyResults', { L: leagueId, W: week }, options)
+  }
+
+  static liveScoring<T = MFLLiveScoreResponse>(
+    year: number | string,
+    leagueId: string = getDefaultLeagueId(),
+    week?: number | string
+  ): Promise<T> {
+    return mflExport<T>(year, 'liveScoring', { L: leagueId, W: week })
+  }
+
+  static playerRosterStatus<T = MFLPlayerRosterStatusResponse>(
+    year: number | string,
+    leagueId: string,
+    playerIds: string[],
+    week?: number | string,
+    franchiseId?: string
+  ): Promise<T> {
+    return mflExport<T>(year, 'playerRosterStatus', {
+      L: leagueId,
+      P: playerIds.join(','),
+      W: week,
+      F: franchiseId
+    })
+  }
+
+  /**
+   * The league's playoff brackets - ids and names, without games
+   */
+  static playoffBrackets<T = MFLPlayoffBracketsResponse>(year: number | string, leagueId: string = getDefaultLeagueId()): Promise<T> {
+    return mflExport<T>(year, 'playoffBrackets', { L: leagueId })
+  }
+
+  /**
+   * One playoff bracket's rounds and games, with each seeded franchise
+   */
+  static playoffBracket<T = MFLPlayoffBracketResponse>(
+    year: number | string,
+    leagueId: string,
+    bracketId: string
+  ): Promise<T> {
+    return mflExport<T>(year, 'playoffBracket', { L: leagueId, BRACKET_ID: bracketId })
+  }
+
+  /**
+   * NFL bye weeks - not league-specific
+   */
+  static nflByeWeeks<T = MFLByeWeeksResponse>(year: number | string, week?: number | string): Promise<T> {
+    return mflExport<T>(year, 'nflByeWeeks', { W: week })
+  }
+}
@@ -4,9 +4,13 @@
  * Prefers MFL-provided totals over recalculation
  */
 
-import { fetchWithRetry } from './mfl-api'
-import { getYearSpecificHeaders } from './mfl-api-keys'
+import { MflClient, toArray } from './mfl-client'
 import { MFL_LINEUP_REQUIREMENTS } from './mfl-calculations'
+import type { WeeklyResultsResponse } from './mfl-weekly-results'
+import type { MFLLeagueStandingsResponse } from './mfl'
+
+// Some seasons nest leagueStandings under a standings key
+type LeagueStandingsExport = MFLLeagueStandingsResponse & { standings?: MFLLeagueStandingsResponse }
 
 export interface SeasonTotals {
   franchiseId: string
@@ -88,13 +92,8 @@ export async function getSeasonTotals(
   const cached = getCached(cacheKey)
   if (cached) return cached
 
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const url = `${baseUrl}/${year}/export?TYPE=leagueStandings&L=${leagueId}&JSON=1`
-  const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-  
   try {
-    const response = await fetchWithRetry(url, { headers })
-    const data = response as any
+    const data = await MflClient.leagueStandings<LeagueStandingsExport>(year, leagueId)
     
     // Handle different response structures
     const franchises = data?.leagueStandings?.franchise || 
@@ -170,32 +169,24 @@ export async function getWeeklyStats(
   const cached = getCached(cacheKey)
   if (cached) return cached
 
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
   const allStats: WeeklyStats[] = []
   
   for (const week of weeks) {
     try {
-      const url = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=${week}&JSON=1`
-      const response = await fetchWithRetry(url, { headers })
-      const data = response as any
+      const data = await MflClient.weeklyResults<WeeklyResultsResponse>(year, leagueId, week)
       
       // Extract franchises from different possible structures
       let franchises: any[] = []
       if (data?.weeklyResults?.franchise) {
         // Playoff format
-        franchises = Array.isArray(data.weeklyResults.franchise)
-          ? data.weeklyResults.franchise
-          : [data.weeklyResults.franchise]
+        franchises = toArray(data.weeklyResults.franchise)
       } else if (data?.weeklyResults?.matchup) {
         // Regular season format
-        const matchups = Array.isArray(data.weeklyResults.matchup)
-          ? data.weeklyResults.matchup
-          : [data.weeklyResults.matchup]
+        const matchups = toArray(data.weeklyResults.matchup)
         
         matchups.forEach((m: any) => {
           if (m.franchise) {
-            const teams = Array.isArray(m.franchise) ? m.franchise : [m.franchise]
+            const teams = toArray(m.franchise)
             franchises.push(...teams)
           }
         })
@@ -274,30 +265,21 @@ export async function getOptimalLineup(
   week: number,
   franchiseId: string
 ): Promise<string[]> {
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const url = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=${week}&JSON=1`
-  const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-  
   try {
-    const response = await fetchWithRetry(url, { headers })
-    const data = response as any
+    const data = await MflClient.weeklyResults<WeeklyResultsResponse>(year, leagueId, week)
     
     // Find the franchise data
     let franchiseData: any = null
     
     if (data?.weeklyResults?.franchise) {
-      const franchises = Array.isArray(data.weeklyResults.franchise)
-        ? data.weeklyResults.franchise
-        : [data.weeklyResults.franchise]
+      const franchises = toArray(data.weeklyResults.franchise)
       franchiseData = franchises.find((f: any) => f.id === franchiseId)
     } else if (data?.weeklyResults?.matchup) {
-      const matchups = Array.isArray(data.weeklyResults.matchup)
-        ? data.weeklyResults.matchup
-        : [data.weeklyResults.matchup]
+      const matchups = toArray(data.weeklyResults.matchup)
       
       for (const m of matchups) {
         if (m.franchise) {
-          const teams = Array.isArray(m.franchise) ? m.franchise : [m.franchise]
+          const teams = toArray(m.franchise)
           franchiseData = teams.find((f: any) => f.id === franchiseId)
           if (franchiseData) break
         }
@@ -456,6 +438,8 @@ export async function getPositionBreakdown(
   // Import the weekly results functions dynamically to avoid circular dependencies
   const { fetchAllWeeklyResults, calculateAccuratePositionTotals } = await import('./mfl-weekly-results')
   const { getOwnerName } = await import('./owner-mappings')
+  const { loadOwnerRegistry } = await import('./owner-registry-service')
+  await loadOwnerRegistry(leagueId)
   
   // Try to get weekly lineup data with fallback strategies
   let weeklyLineups: any[] = []
@@ -508,7 +492,7 @@ export async function getPositionBreakdown(
     return {
       franchiseId: fId,
       teamName: teamNames[fId] || `Team ${fId}`,
-      manager: getOwnerName(fId, year),
+      manager: getOwnerName(fId, year, leagueId),
       year,
       positionTotals,
       weeklyPositions
@@ -566,17 +550,13 @@ async function fetchTeamNames(leagueId: string, year: number): Promise<Record<st
   }
   
   try {
-    const leagueUrl = `https://api.myfantasyleague.com/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-    const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
-    const response = await fetchWithRetry(leagueUrl, { headers }) as any
+    const response = await MflClient.league(year, leagueId)
     
     const teamNames: Record<string, string> = {}
     
     // Extract franchise data from league info
     if (response.league && response.league.franchises && response.league.franchises.franchise) {
-      const franchises = Array.isArray(response.league.franchises.franchise) 
-        ? response.league.franchises.franchise 
-        : [response.league.franchises.franchise]
+      const franchises = toArray(response.league.franchises.franchise)
       
       franchises.forEach((franchise: any) => {
         if (franchise.id && franchise.name) {
@@ -618,6 +598,8 @@ async function getFallbackPositionBreakdown(
     // Get team names
     const teamNames = await fetchTeamNames(leagueId, year)
     const { getOwnerName } = await import('./owner-mappings')
+    const { loadOwnerRegistry } = await import('./owner-registry-service')
+    await loadOwnerRegistry(leagueId)
     
     // Historical position distribution percentages based on MFL league averages
     const POSITION_DISTRIBUTION = {
@@ -664,7 +646,7 @@ async function getFallbackPositionBreakdown(
       return {
         franchiseId: teamTotal.franchiseId,
         teamName: teamNames[teamTotal.franchiseId] || `Team ${teamTotal.franchiseId}`,
-        manager: getOwnerName(teamTotal.franchiseId, year),
+        manager: getOwnerName(teamTotal.franchiseId, year, leagueId),
         year,
         positionTotals,
         // Don't provide weekly positions for fallback data
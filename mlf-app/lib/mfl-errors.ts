@@ -0,0 +1,64 @@
+// MFL API Error Types
+// Thrown by the shared request queue and MflClient so routes can tell
+// rate limiting apart from other failures without string matching
+
+/**
+ * Base error for any failed MFL export request
+ */
+export class MflApiError extends Error {
+  /** HTTP status from MFL (undefined for network failures) */
+  readonly status?: number
+  /** Request URL */
+  readonly url: string
+
+  constructor(message: string, url: string, status?: number) {
+    super(message)
+    this.name = 'MflApiError'
+    this.url = url
+    this.status = status
+  }
+}
+
+/**
+ * MFL kept answering 429 after every retry in the queue
+ */
+export class MflRateLimitError extends MflApiError {
+  constructor(url: string) {
+    super('Rate limit exceeded. Maximum retry attempts reached.', url, 429)
+    this.name = 'MflRateLimitError'
+  }
+}
+
+/**
+ * The request never got an HTTP response (DNS, connection reset, timeout)
+ */
+export class MflNetworkError extends MflApiError {
+  constructor(url: string, cause: unknown) {
+    super(`Network error: ${cause instanceof Error ? cause.message : String(cause)}`, url)
+    this.name = 'MflNetworkError'
+  }
+}
+
+/**
+ * MFL answered 200 with an error payload instead of export data
+ */
+export class MflResponseError extends MflApiError {
+  constructor(message: string, url: string) {
+    super(`MFL API error: ${message}`, url)
+    this.name = 'MflResponseError'
+  }
+}
+
+/**
+ * Check if MFL had nothing at the URL - including an unrecorded export in fixture replay
+ */
+export function isNotFoundError(error: unknown): error is MflApiError {
+  return error instanceof MflApiError && error.status === 404
+}
+
+/**
+ * Check if an error came from MFL rate limiting
+ */
+export function isRateLimitError(error: unknown): error is MflRateLimitError {
+  return error instanceof MflRateLimitError
+}
@@ -0,0 +1,197 @@
+// MFL Fixture Record/Replay
+// Captures real MFL export responses into versioned JSON fixture files and
+// replays them so the dashboard and tests can run offline against a frozen season
+//
+// Modes (MFL_FIXTURE_MODE):
+//   off    - default, requests go straight to MFL
+//   record - requests go to MFL and successful JSON responses are saved
+//   replay - requests are answered from fixture files, MFL is never contacted
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+export type FixtureMode = 'off' | 'record' | 'replay'
+
+/** Bump when the fixture envelope format changes */
+export const FIXTURE_FORMAT_VERSION = 1
+
+/** Export TYPEs the recorder captures for a season */
+export const RECORDED_EXPORT_TYPES = [
+  'league',
+  'standings',
+  'leagueStandings',
+  'schedule',
+  'calendar',
+  'rosters',
+  'players',
+  'playerScores',
+  'weeklyResults',
+  'playoffBrackets',
+  'playoffBracket',
+  'liveScoring',
+  'playerRosterStatus',
+  'nflByeWeeks'
+] as const
+
+// Query parameters that never affect the response body
+const IGNORED_PARAMS = new Set(['JSON', 'APIKEY'])
+
+// Longer values (playerRosterStatus player lists) are hashed to keep file names within OS limits
+const MAX_FILE_PARAM_LENGTH = 64
+
+export interface FixtureFile {
+  formatVersion: number
+  recordedAt: string
+  year: string
+  type: string
+  params: Record<string, string>
+  data: unknown
+}
+
+/**
+ * Get the active fixture mode from the environment
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.MFL_FIXTURE_MODE || '').toLowerCase()
+  if (mode === 'record' || mode === 'replay') return mode
+  return 'off'
+}
+
+/**
+ * Get the root directory fixtures are read from and written to
+ */
+export function getFixtureDir(): string {
+  return process.env.MFL_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'mfl')
+}
+
+/**
+ * Describe an MFL export URL as year, TYPE and the remaining relevant params
+ * Returns null for URLs that aren't MFL exports (HTML pages, other hosts' paths)
+ */
+export function parseExportUrl(url: string): { year: string; type: string; params: Record<string, string> } | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+
+  const match = parsed.pathname.match(/^\/(\d{4})\/export$/)
+  const type = parsed.searchParams.get('TYPE')
+  if (!match || !type) return null
+
+  const params: Record<string, string> = {}
+  parsed.searchParams.forEach((value, key) => {
+    if (key === 'TYPE' || IGNORED_PARAMS.has(key.toUpperCase())) return
+    params[key] = value
+  })
+
+  return { year: match[1], type, params }
+}
+
+function toFileParam(value: string): string {
+  const safe = value.replace(/[^A-Za-z0-9,._-]/g, '_')
+  if (safe.length <= MAX_FILE_PARAM_LENGTH) return safe
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 16)
+}
+
+/**
+ * Map an MFL export URL to its fixture file path
+ * Layout: <dir>/<year>/<leagueId|global>/<TYPE>[__KEY-value...].json
+ */
+export function getFixturePath(url: string): string | null {
+  const parsed = parseExportUrl(url)
+  if (!parsed) return null
+
+  const { year, type, params } = parsed
+  const leagueId = params.L || 'global'
+
+  const suffix = Object.keys(params)
+    .filter(key => key !== 'L')
+    .sort()
+    .map(key => `__${key}-${toFileParam(params[key])}`)
+    .join('')
+
+  return path.join(getFixtureDir(), year, leagueId, `${type}${suffix}.json`)
+}
+
+/**
+ * Read the recorded response for an MFL export URL
+ * Returns null when no fixture has been recorded
+ */
+export function readFixture(url: string): unknown | null {
+  const fixturePath = getFixturePath(url)
+  if (!fixturePath || !fs.existsSync(fixturePath)) return null
+
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as FixtureFile
+
+  if (fixture.formatVersion !== FIXTURE_FORMAT_VERSION) {
+    console.warn(`[MFL Fixtures] ${fixturePath} has format v${fixture.formatVersion}, expected v${FIXTURE_FORMAT_VERSION}`)
+  }
+
+  return fixture.data
+}
+
+/**
+ * Save a response for an MFL export URL
+ */
+export function writeFixture(url: string, data: unknown): string | null {
+  const parsed = parseExportUrl(url)
+  const fixturePath = getFixturePath(url)
+  if (!parsed || !fixturePath) return null
+
+  const fixture: FixtureFile = {
+    formatVersion: FIXTURE_FORMAT_VERSION,
+    recordedAt: new Date().toISOString(),
+    year: parsed.year,
+    type: parsed.type,
+    params: parsed.params,
+    data
+  }
+
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true })
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n')
+  console.log(`[MFL Fixtures] Recorded ${fixturePath}`)
+
+  return fixturePath
+}
+
+/**
+ * Build a JSON Response the same shape as fetch() returns
+ */
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+/**
+ * Drop-in replacement for fetch() on MFL export URLs that honours the fixture mode
+ */
+export async function mflFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const mode = getFixtureMode()
+  const isExport = parseExportUrl(url) !== null
+
+  if (mode === 'replay' && isExport) {
+    const data = readFixture(url)
+    if (data === null) {
+      console.warn(`[MFL Fixtures] No fixture for ${url}`)
+      return jsonResponse({ error: 'No fixture recorded', url }, 404)
+    }
+    return jsonResponse(data)
+  }
+
+  const response = await fetch(url, options)
+
+  if (mode === 'record' && isExport && response.ok) {
+    try {
+      writeFixture(url, await response.clone().json())
+    } catch (error) {
+      console.warn(`[MFL Fixtures] Could not record ${url}:`, error)
+    }
+  }
+
+  return response
+}
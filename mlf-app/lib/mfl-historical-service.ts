@@ -1,8 +1,8 @@
 // Enhanced MFL Historical Data Service
 // Provides accurate data for historical seasons (2021-2024)
 
-import { fetchWithRetry } from './mfl-api'
-import { getYearSpecificHeaders } from './mfl-api-keys'
+import { MflClient, toArray } from './mfl-client'
+import { getDefaultLeagueId } from './league-registry'
 import { 
   MFLWeeklyResultsResponse,
   MFLPlayerScoresResponse,
@@ -58,13 +58,10 @@ interface YTDWeekData {
  */
 export async function fetchHistoricalSeasonData(
   year: string,
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<Map<string, HistoricalTeamData>> {
   console.log(`*** FETCHING COMPLETE HISTORICAL DATA FOR ${year} ***`)
   
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const headers = getYearSpecificHeaders(parseInt(year))
-  
   try {
     // First, fetch dynamic lineup requirements for this year
     console.log(`Fetching dynamic lineup requirements for ${year}`)
@@ -76,10 +73,9 @@ export async function fetchHistoricalSeasonData(
     }
     
     // Fetch YTD weekly results - this contains the most complete data
-    const ytdUrl = `${baseUrl}/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=YTD&JSON=1`
-    console.log(`Fetching YTD data: ${ytdUrl}`)
+    console.log(`Fetching YTD data for ${year}, league ${leagueId}`)
     
-    const ytdResponse = await fetchWithRetry(ytdUrl, { headers }) as MFLWeeklyResultsResponse
+    const ytdResponse = await MflClient.weeklyResults<MFLWeeklyResultsResponse>(year, leagueId, 'YTD')
     
     if (!ytdResponse?.weeklyResults) {
       console.error('No YTD weekly results found')
@@ -87,16 +83,13 @@ export async function fetchHistoricalSeasonData(
     }
     
     // Also fetch player database for position information
-    const playersUrl = `${baseUrl}/${year}/export?TYPE=players&JSON=1`
-    const playersResponse = await fetchWithRetry(playersUrl, { headers }) as MFLPlayersResponse
+    const playersResponse = await MflClient.players<MFLPlayersResponse>(year)
     
     // Build player position lookup
     const playerPositions = new Map<string, string>()
-    if (playersResponse.players?.player) {
-      playersResponse.players.player.forEach(player => {
-        playerPositions.set(player.id, player.position)
-      })
-    }
+    toArray(playersResponse.players?.player).forEach(player => {
+      playerPositions.set(player.id, player.position)
+    })
     
     console.log(`Processing ${ytdResponse.weeklyResults.matchup?.length || 0} weeks of YTD data`)
     
@@ -124,10 +117,10 @@ function parseYTDData(
   // First pass: collect all franchise IDs
   ytdWeeks.forEach((week, weekIndex) => {
     if (week?.matchup) {
-      const matchups = Array.isArray(week.matchup) ? week.matchup : [week.matchup]
+      const matchups = toArray(week.matchup)
       matchups.forEach(matchup => {
         if (matchup?.franchise) {
-          const franchises = Array.isArray(matchup.franchise) ? matchup.franchise : [matchup.franchise]
+          const franchises = toArray(matchup.franchise)
           franchises.forEach(franchise => {
             if (franchise.id) {
               franchiseIds.add(franchise.id)
@@ -168,11 +161,11 @@ function parseYTDData(
   // Second pass: aggregate data across all weeks
   ytdWeeks.forEach((week, weekIndex) => {
     if (week?.matchup) {
-      const matchups = Array.isArray(week.matchup) ? week.matchup : [week.matchup]
+      const matchups = toArray(week.matchup)
       
       matchups.forEach(matchup => {
         if (matchup?.franchise) {
-          const franchises = Array.isArray(matchup.franchise) ? matchup.franchise : [matchup.franchise]
+          const franchises = toArray(matchup.franchise)
           
           franchises.forEach(franchise => {
             if (!franchise.id || !teamsData.has(franchise.id)) return
@@ -292,14 +285,10 @@ function isDefensePosition(position: string): boolean {
  */
 export async function fetchLineupRequirements(
   year: string,
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<LineupRequirements | null> {
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const headers = getYearSpecificHeaders(parseInt(year))
-  
   try {
-    const leagueUrl = `${baseUrl}/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-    const response = await fetchWithRetry(leagueUrl, { headers })
+    const response = await MflClient.league(year, leagueId)
     
     if ((response as any)?.league?.starters) {
       return parseLineupRequirements((response as any).league.starters)
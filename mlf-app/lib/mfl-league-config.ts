@@ -1,8 +1,8 @@
 // MFL League Configuration Service
 // Fetches dynamic season settings from the MFL API
 
-import { fetchWithRetry } from './mfl-api'
-import { getYearSpecificHeaders } from './mfl-api-keys'
+import { MflClient } from './mfl-client'
+import { getDefaultLeagueId } from './league-registry'
 import { getYearConfig, YearSpecificSeasonConfig } from './season-config'
 
 export interface MFLLeagueConfig {
@@ -18,18 +18,13 @@ export interface MFLLeagueConfig {
  */
 export async function fetchMFLLeagueConfig(
   year: string,
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<MFLLeagueConfig | null> {
-  
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const headers = getYearSpecificHeaders(parseInt(year))
-  
   try {
     // Fetch league configuration
-    const leagueUrl = `${baseUrl}/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-    console.log(`Fetching league config for season structure: ${leagueUrl}`)
+    console.log(`Fetching league config for season structure: ${year}, league ${leagueId}`)
     
-    const response = await fetchWithRetry(leagueUrl, { headers })
+    const response = await MflClient.league(year, leagueId)
     
     if ((response as any)?.league) {
       const league = (response as any).league
@@ -72,7 +67,7 @@ export async function fetchMFLLeagueConfig(
  */
 export async function getEnhancedSeasonConfig(
   year: number,
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<YearSpecificSeasonConfig> {
   
   // Start with static configuration
@@ -115,7 +110,7 @@ export async function getEnhancedSeasonConfig(
  */
 export async function getEnhancedTotalWeeks(
   year: number, 
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<number> {
   const config = await getEnhancedSeasonConfig(year, leagueId)
   return config.totalWeeks
@@ -126,7 +121,7 @@ export async function getEnhancedTotalWeeks(
  */
 export async function getEnhancedRegularSeasonEndWeek(
   year: number,
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<number> {
   const config = await getEnhancedSeasonConfig(year, leagueId)
   return config.regularSeasonEndWeek
@@ -143,7 +138,7 @@ const CACHE_DURATION = 60 * 60 * 1000 // 1 hour
  */
 export async function getCachedEnhancedSeasonConfig(
   year: number,
-  leagueId: string = '46221'
+  leagueId: string = getDefaultLeagueId()
 ): Promise<YearSpecificSeasonConfig> {
   
   const cacheKey = `${year}-${leagueId}`
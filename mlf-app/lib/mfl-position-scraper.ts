@@ -3,6 +3,7 @@
 
 import * as cheerio from 'cheerio'
 import { getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
 import { fetchAllWeeklyResults, calculateAccuratePositionTotals, WeeklyLineup } from './mfl-weekly-results'
 
 export interface PlayerWeeklyData {
@@ -415,6 +416,7 @@ export async function scrapeLeaguePositionalData(
   weekFilter?: number[]
 ): Promise<LeaguePositionalData> {
   console.log(`Starting league positional data scrape for ${year}`)
+  await loadOwnerRegistry(leagueId)
   
   // First, get all team information
   const leagueUrl = `https://www45.myfantasyleague.com/${year}/options?L=${leagueId}&O=118`
@@ -442,7 +444,7 @@ export async function scrapeLeaguePositionalData(
       if (match) {
         const [, , franchiseId, teamName] = match
         if (franchiseId !== '0000') { // Skip commissioner
-          franchiseData[franchiseId] = { name: teamName, manager: getOwnerName(franchiseId, year) }
+          franchiseData[franchiseId] = { name: teamName, manager: getOwnerName(franchiseId, year, leagueId) }
           franchiseIds.push(franchiseId)
         }
       }
@@ -474,7 +476,7 @@ export async function scrapeLeaguePositionalData(
         return {
           franchiseId,
           teamName: franchiseData[franchiseId]?.name || `Team ${franchiseId}`,
-          manager: franchiseData[franchiseId]?.manager || getOwnerName(franchiseId, year),
+          manager: franchiseData[franchiseId]?.manager || getOwnerName(franchiseId, year, leagueId),
           year,
           players: [],
           positionTotals: {
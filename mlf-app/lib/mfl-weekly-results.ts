@@ -4,6 +4,7 @@
  */
 
 import { getTotalWeeksForYear } from './season-config'
+import { MflClient, toArray, type MflExportOptions } from './mfl-client'
 
 export interface WeeklyMatchup {
   franchise: WeeklyFranchise[]
@@ -14,6 +15,7 @@ export interface WeeklyFranchise {
   starters: string // comma-separated player IDs
   score: string
   player: WeeklyPlayer[]
+  opt_pts?: string // MFL's optimal lineup points, when reported
 }
 
 export interface WeeklyPlayer {
@@ -27,7 +29,8 @@ export interface WeeklyResultsResponse {
   encoding: string
   weeklyResults: {
     week: string
-    matchup: WeeklyMatchup[]
+    matchup?: WeeklyMatchup[] // Weeks with scheduled matchups
+    franchise?: WeeklyFranchise[] // Playoff weeks: every franchise's score, no pairings
   }
 }
 
@@ -35,6 +38,18 @@ export interface PlayerMapping {
   id: string
   position: string
   name: string
+  team?: string // NFL team
+  status?: string
+}
+
+// One player in MFL's players export; older seasons split the name
+interface MflPlayerRecord {
+  id: string
+  position: string
+  name?: string
+  first_name?: string
+  last_name?: string
+  team?: string
   status?: string
 }
 
@@ -47,6 +62,7 @@ export interface WeeklyLineup {
     position: string
     score: number
     name: string
+    team?: string
   }>
   benchIds: string[]
   benchData: Array<{
@@ -54,6 +70,7 @@ export interface WeeklyLineup {
     position: string
     score: number
     name: string
+    team?: string
   }>
   // MFL native optimal data (if available)
   optimalPoints?: number
@@ -61,42 +78,17 @@ export interface WeeklyLineup {
 }
 
 /**
- * Fetch weekly results for a specific week with retry logic
+ * Fetch weekly results for a specific week
+ * Retries and rate limiting are handled by the shared MFL client queue
+ * Pass { fresh: true } to skip a cached copy that may be stale
  */
-export async function fetchWeeklyResults(year: number, leagueId: string, week: number, retryCount = 0): Promise<WeeklyResultsResponse> {
-  const url = `https://api.myfantasyleague.com/${year}/export?TYPE=weeklyResults&L=${leagueId}&W=${week}&JSON=1`
-  const MAX_RETRIES = 2
-  const RETRY_DELAY = 5000 // 5 seconds
-  
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'MFL-Dashboard/1.0'
-      }
-    })
-    
-    // Handle rate limiting with exponential backoff
-    if (response.status === 429 && retryCount < MAX_RETRIES) {
-      const delayMs = RETRY_DELAY * Math.pow(2, retryCount) // Exponential backoff
-      console.log(`Rate limited on week ${week}, retrying in ${delayMs}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`)
-      await delay(delayMs)
-      return fetchWeeklyResults(year, leagueId, week, retryCount + 1)
-    }
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch weekly results for week ${week}: ${response.status}`)
-    }
-    
-    return response.json()
-  } catch (error) {
-    if (retryCount < MAX_RETRIES) {
-      const delayMs = RETRY_DELAY * Math.pow(2, retryCount)
-      console.log(`Error fetching week ${week}, retrying in ${delayMs}ms (attempt ${retryCount + 1}/${MAX_RETRIES}):`, error)
-      await delay(delayMs)
-      return fetchWeeklyResults(year, leagueId, week, retryCount + 1)
-    }
-    throw error
-  }
+export async function fetchWeeklyResults(
+  year: number,
+  leagueId: string,
+  week: number,
+  options: MflExportOptions = {}
+): Promise<WeeklyResultsResponse> {
+  return MflClient.weeklyResults<WeeklyResultsResponse>(year, leagueId, week, options)
 }
 
 /**
@@ -125,7 +117,7 @@ export async function fetchAllWeeklyResults(year: number, leagueId: string): Pro
   }
 
   // Fetch weeks one at a time with very conservative delays to avoid 429 errors
-  const weeklyData: any[] = []
+  const weeklyData: WeeklyResultsResponse[] = []
   const DELAY_MS = 3000 // 3 second delay between each individual week request
 
   for (let week = 1; week <= MAX_POSSIBLE_WEEKS; week++) {
@@ -176,162 +168,135 @@ export async function fetchAllWeeklyResults(year: number, leagueId: string): Pro
   const allLineups: WeeklyLineup[] = []
   
   weeklyData.forEach((weekData, weekIndex) => {
-    const week = weekIndex + 1
+    allLineups.push(...parseWeeklyLineups(weekData, weekIndex + 1, playerMappings))
+  })
+  
+  console.log(`Successfully processed ${allLineups.length} weekly lineups`)
+  return allLineups
+}
+
+/**
+ * Convert one week of weeklyResults into per-franchise lineups
+ * Handles both the regular season (matchup) and playoff (franchise) layouts
+ */
+export function parseWeeklyLineups(weekData: WeeklyResultsResponse, week: number, playerMappings: PlayerMapping[]): WeeklyLineup[] {
+  const lineups: WeeklyLineup[] = []
+  const mappingsById = new Map(playerMappings.map(mapping => [mapping.id, mapping]))
+
+  // Handle different response structures between regular season and playoffs
+  let franchisesToProcess: WeeklyFranchise[] = []
+  
+  if (weekData.weeklyResults.franchise) {
+    // Playoff format: franchises directly under weeklyResults.franchise
+    franchisesToProcess = toArray(weekData.weeklyResults.franchise)
     
-    // Handle different response structures between regular season and playoffs
-    let franchisesToProcess: any[] = []
+    console.log(`Week ${week}: Processing ${franchisesToProcess.length} franchises from playoff format`)
+  } else if (weekData.weeklyResults.matchup) {
+    // Regular season format: franchises nested under matchups
+    const matchups = toArray(weekData.weeklyResults.matchup)
+    
+    matchups.forEach(matchup => {
+      // Handle case where matchup might be the franchise container directly
+      const franchises = matchup.franchise ? toArray(matchup.franchise) : [matchup as unknown as WeeklyFranchise]
+      franchisesToProcess.push(...franchises)
+    })
     
-    if (weekData.weeklyResults.franchise) {
-      // Playoff format: franchises directly under weeklyResults.franchise
-      franchisesToProcess = Array.isArray(weekData.weeklyResults.franchise)
-        ? weekData.weeklyResults.franchise
-        : [weekData.weeklyResults.franchise]
-      
-      console.log(`Week ${week}: Processing ${franchisesToProcess.length} franchises from playoff format`)
-    } else if (weekData.weeklyResults.matchup) {
-      // Regular season format: franchises nested under matchups
-      const matchups = Array.isArray(weekData.weeklyResults.matchup) 
-        ? weekData.weeklyResults.matchup  // Regular season: array of matchups
-        : [weekData.weeklyResults.matchup] // Single matchup object
-      
-      matchups.forEach((matchup: any) => {
-        // Handle case where matchup might be the franchise container directly
-        const franchises = matchup.franchise || [matchup]
-        franchisesToProcess.push(...franchises)
-      })
-      
-      console.log(`Week ${week}: Processing ${franchisesToProcess.length} franchises from regular season format`)
-    } else {
-      console.warn(`Week ${week}: No franchise data found in response`)
+    console.log(`Week ${week}: Processing ${franchisesToProcess.length} franchises from regular season format`)
+  } else {
+    console.warn(`Week ${week}: No franchise data found in response`)
+    return lineups
+  }
+  
+  // Process all franchises regardless of format
+  franchisesToProcess.forEach(franchise => {
+    if (!franchise.id || !franchise.player) {
+      console.warn(`Week ${week}: Franchise missing required data:`, franchise)
       return
     }
-    
-    // Process all franchises regardless of format
-    franchisesToProcess.forEach(franchise => {
-      if (!franchise.id || !franchise.player) {
-        console.warn(`Week ${week}: Franchise missing required data:`, franchise)
-        return
+
+    // Extract starter IDs from starters field (fallback)
+    const starterIds = franchise.starters ? franchise.starters.split(',').filter(id => id.trim()) : []
+
+    // Process ALL players in the franchise (starters + bench)
+    const allPlayers = toArray(franchise.player)
+    const starterData: WeeklyLineup['starterData'] = []
+    const benchData: WeeklyLineup['benchData'] = []
+    const benchIds: string[] = []
+    const shouldStartIds: string[] = []
+
+    allPlayers.forEach(player => {
+      const mapping = mappingsById.get(player.id)
+      const playerData = {
+        id: player.id,
+        position: mapping?.position || 'UNKNOWN',
+        score: parseFloat(player.score || '0'),
+        name: mapping?.name || `Player ${player.id}`,
+        team: mapping?.team
       }
 
-      // Extract starter IDs from starters field (fallback)
-      const starterIds = franchise.starters ? franchise.starters.split(',').filter((id: any) => id.trim()) : []
-
-      // Process ALL players in the franchise (starters + bench)
-      const allPlayers = franchise.player || []
-      const starterData: any[] = []
-      const benchData: any[] = []
-      const benchIds: string[] = []
-      const shouldStartIds: string[] = []
-
-      allPlayers.forEach((player: any) => {
-        const mapping = playerMappings.find((m: any) => m.id === player.id)
-        const playerData = {
-          id: player.id,
-          position: mapping?.position || 'UNKNOWN',
-          score: parseFloat(player.score || '0'),
-          name: mapping?.name || `Player ${player.id}`
-        }
-
-        // Check MFL's shouldStart field for optimal lineup
-        if (player.shouldStart === '1') {
-          shouldStartIds.push(player.id)
-        }
-
-        // Categorize as starter or bench based on status or starter list
-        const isStarter = player.status === 'starter' || starterIds.includes(player.id)
-
-        if (isStarter) {
-          starterData.push(playerData)
-        } else {
-          benchData.push(playerData)
-          benchIds.push(player.id)
-        }
-      })
-
-      // Look for MFL's native optimal points
-      const optimalPoints = franchise.opt_pts ? parseFloat(franchise.opt_pts) : undefined
-
-      console.log(`Week ${week} - Franchise ${franchise.id}: ${starterData.length} starters, ${benchData.length} bench, ${shouldStartIds.length} shouldStart, optPts=${optimalPoints || 'N/A'}`)
-
-      allLineups.push({
-        week,
-        franchiseId: franchise.id,
-        starterIds,
-        starterData,
-        benchIds,
-        benchData,
-        optimalPoints,
-        shouldStartIds
-      })
+      // Check MFL's shouldStart field for optimal lineup
+      if (player.shouldStart === '1') {
+        shouldStartIds.push(player.id)
+      }
+
+      // Categorize as starter or bench based on status or starter list
+      const isStarter = player.status === 'starter' || starterIds.includes(player.id)
+
+      if (isStarter) {
+        starterData.push(playerData)
+      } else {
+        benchData.push(playerData)
+        benchIds.push(player.id)
+      }
+    })
+
+    // Look for MFL's native optimal points
+    const optimalPoints = franchise.opt_pts ? parseFloat(franchise.opt_pts) : undefined
+
+    console.log(`Week ${week} - Franchise ${franchise.id}: ${starterData.length} starters, ${benchData.length} bench, ${shouldStartIds.length} shouldStart, optPts=${optimalPoints || 'N/A'}`)
+
+    lineups.push({
+      week,
+      franchiseId: franchise.id,
+      starterIds,
+      starterData,
+      benchIds,
+      benchData,
+      optimalPoints,
+      shouldStartIds
     })
   })
-  
-  console.log(`Successfully processed ${allLineups.length} weekly lineups`)
-  return allLineups
+
+  return lineups
 }
 
 /**
- * Fetch player mappings (ID to position/name) with retry logic
+ * Fetch player mappings (ID to position/name)
  * Enhanced with IR/Taxi filtering and better caching
  */
-export async function fetchPlayerMappings(year: number, leagueId: string, retryCount = 0): Promise<PlayerMapping[]> {
-  const url = `https://api.myfantasyleague.com/${year}/export?TYPE=players&L=${leagueId}&JSON=1`
-  const MAX_RETRIES = 2
-  const RETRY_DELAY = 5000 // 5 seconds
-  
-  try {
-    console.log(`Fetching player mappings: ${url}`)
-    
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'MFL-Dashboard/1.0'
+export async function fetchPlayerMappings(year: number, leagueId: string): Promise<PlayerMapping[]> {
+  console.log(`Fetching player mappings for ${year}, league ${leagueId}`)
+
+  const data = await MflClient.players<{ players?: { player?: MflPlayerRecord | MflPlayerRecord[] } }>(year, leagueId)
+
+  // The players API returns different structure - need to check actual format
+  return toArray(data.players?.player)
+    .filter(player => {
+      // Filter out IR/Taxi/Inactive players if status is available
+      if (player.status) {
+        const status = player.status.toLowerCase()
+        return !['injured_reserve', 'ir', 'taxi', 'taxi_squad', 'inactive'].includes(status)
       }
+      // If no status field, include all players (will be filtered by starter status later)
+      return true
     })
-    
-    // Handle rate limiting with exponential backoff
-    if (response.status === 429 && retryCount < MAX_RETRIES) {
-      const delayMs = RETRY_DELAY * Math.pow(2, retryCount)
-      console.log(`Rate limited on player mappings, retrying in ${delayMs}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`)
-      await delay(delayMs)
-      return fetchPlayerMappings(year, leagueId, retryCount + 1)
-    }
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch player mappings: ${response.status}`)
-    }
-    
-    const data = await response.json()
-    
-    // The players API returns different structure - need to check actual format
-    if (data.players && data.players.player) {
-      return data.players.player
-        .filter((player: any) => {
-          // Filter out IR/Taxi/Inactive players if status is available
-          if (player.status) {
-            const status = player.status.toLowerCase()
-            return !['injured_reserve', 'ir', 'taxi', 'taxi_squad', 'inactive'].includes(status)
-          }
-          // If no status field, include all players (will be filtered by starter status later)
-          return true
-        })
-        .map((player: any) => ({
-          id: player.id,
-          position: normalizePlayerPosition(player.position),
-          name: player.name || `${player.first_name || ''} ${player.last_name || ''}`.trim(),
-          status: player.status || 'active'
-        }))
-    }
-    
-    return []
-  } catch (error) {
-    if (retryCount < MAX_RETRIES) {
-      const delayMs = RETRY_DELAY * Math.pow(2, retryCount)
-      console.log(`Error fetching player mappings, retrying in ${delayMs}ms (attempt ${retryCount + 1}/${MAX_RETRIES}):`, error)
-      await delay(delayMs)
-      return fetchPlayerMappings(year, leagueId, retryCount + 1)
-    }
-    throw error
-  }
+    .map(player => ({
+      id: player.id,
+      position: normalizePlayerPosition(player.position),
+      name: player.name || `${player.first_name || ''} ${player.last_name || ''}`.trim(),
+      team: player.team,
+      status: player.status || 'active'
+    }))
 }
 
 /**
@@ -1,5 +1,7 @@
 import { getOwnerName } from './owner-mappings'
 import { getSeasonTotals, calculateEfficiency } from './mfl-data-service'
+import { getDefaultLeagueId } from './league-registry'
+import { combineRecords, getScoringFormat, type MedianRecord } from './scoring-format'
 
 export interface Player {
   id: string
@@ -53,6 +55,10 @@ export interface Team {
   pointsFor: number
   pointsAgainst: number
   winPercentage: number
+  // Median results, already included in the record above (median leagues only)
+  medianWins?: number
+  medianLosses?: number
+  medianTies?: number
   // Weekly tracking data
   weeklyScores?: WeeklyLineup[]
   currentRoster?: Player[]
@@ -117,10 +123,12 @@ export interface MFLRosterResponse {
 export interface MFLWeeklyResultsResponse {
   weeklyResults?: {
     matchup: Array<{
+      week?: string // Set when the export spans several weeks
       franchise: Array<{
         id: string
         score: string
         result: string
+        week?: string
         player?: Array<{
           id: string
           score: string
@@ -144,21 +152,34 @@ export interface MFLPlayersResponse {
   }
 }
 
+export interface MFLLiveScorePlayer {
+  id: string
+  score: string
+  gameSecondsRemaining: string
+  status: string // 'starter' or 'nonstarter'
+}
+
+export interface MFLLiveScoreFranchise {
+  id: string
+  score: string
+  gameSecondsRemaining: string
+  playersCurrentlyPlaying: string
+  playersYetToPlay: string
+  isHome?: string
+  players?: {
+    player?: MFLLiveScorePlayer[] | MFLLiveScorePlayer
+  }
+  player?: MFLLiveScorePlayer[] | MFLLiveScorePlayer
+}
+
+// Head-to-head weeks list each game under matchup; franchise holds teams outside a matchup
 export interface MFLLiveScoreResponse {
   liveScoring?: {
-    franchise: Array<{
-      id: string
-      score: string
-      gameSecondsRemaining: string
-      playersCurrentlyPlaying: string
-      playersYetToPlay: string
-      player?: Array<{
-        id: string
-        score: string
-        gameSecondsRemaining: string
-        status: string
-      }>
-    }>
+    week?: string
+    matchup?: Array<{
+      franchise: MFLLiveScoreFranchise[]
+    }> | { franchise: MFLLiveScoreFranchise[] }
+    franchise?: MFLLiveScoreFranchise[] | MFLLiveScoreFranchise
   }
 }
 
@@ -180,6 +201,131 @@ export interface MFLPlayerRosterStatusResponse {
   }
 }
 
+export interface MFLLeagueResponse {
+  league?: {
+    id?: string
+    name?: string
+    franchises?: {
+      count?: string
+      franchise: Array<{
+        id: string
+        name?: string
+        owner_name?: string
+        division?: string
+        logo?: string
+        icon?: string
+      }>
+    }
+    divisions?: {
+      count?: string
+      division: Array<{
+        id: string
+        name: string
+      }>
+    }
+    starters?: unknown
+  }
+}
+
+export interface MFLLeagueStandingsResponse {
+  leagueStandings?: {
+    franchise: Array<{
+      id: string
+      h2hw?: string
+      h2hl?: string
+      h2ht?: string
+      pf?: string
+      pa?: string
+      divwlt?: string
+      [field: string]: string | undefined
+    }>
+  }
+}
+
+export interface MFLScheduleResponse {
+  schedule?: {
+    weeklySchedule: Array<{
+      week: string
+      matchup: Array<{
+        franchise: Array<{
+          id: string
+          isHome?: string
+          score?: string
+          result?: string
+          spread?: string
+        }>
+      }>
+    }>
+  }
+}
+
+// NFL teams on bye, for one week (W) or the whole season
+export interface MFLByeWeeksResponse {
+  nflByeWeeks?: {
+    week?: string
+    team?: Array<{
+      id: string // NFL team code, as in the players export
+      bye_week: string
+    }> | {
+      id: string
+      bye_week: string
+    }
+  }
+}
+
+export interface MFLPlayoffBracketSummary {
+  id: string
+  name?: string
+  teamsInvolved?: string
+}
+
+// The league's playoff brackets (championship, consolation, ...)
+export interface MFLPlayoffBracketsResponse {
+  playoffBrackets?: {
+    playoffBracket?: MFLPlayoffBracketSummary | MFLPlayoffBracketSummary[]
+  }
+}
+
+// One side of a bracket game: a seeded franchise, or the winner of an earlier game
+export interface MFLPlayoffBracketSide {
+  franchise_id?: string
+  seed?: string
+  points?: string
+  winner_of_game?: string
+}
+
+export interface MFLPlayoffBracketGame {
+  game_id: string
+  home?: MFLPlayoffBracketSide
+  away?: MFLPlayoffBracketSide
+}
+
+export interface MFLPlayoffBracketRound {
+  week: string
+  playoffGame?: MFLPlayoffBracketGame | MFLPlayoffBracketGame[]
+}
+
+// One playoff bracket, round by round
+export interface MFLPlayoffBracketResponse {
+  playoffBracket?: {
+    bracket_id?: string
+    playoffRound?: MFLPlayoffBracketRound | MFLPlayoffBracketRound[]
+  }
+}
+
+export interface MFLCalendarResponse {
+  calendar?: {
+    event?: Array<{
+      id: string
+      type: string
+      start_time: string
+      end_time: string
+      title: string
+      happens?: string
+    }>
+  }
+}
+
 // Lineup requirements for the league
 export interface LineupRequirements {
   qb: number      // 1
@@ -264,19 +410,12 @@ export interface MFLStandingsResponse {
 }
 
 // Simple function to fetch team data (used by smart-data-service and import scripts)
-export async function fetchTeamsData(year: string, leagueId: string = '46221'): Promise<Team[]> {
-  const { fetchWithRetry } = await import('./mfl-api')
-  const { getYearSpecificHeaders } = await import('./mfl-api-keys')
-
-  const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
-  const standingsUrl = `${baseUrl}/${year}/export?TYPE=standings&L=${leagueId}&JSON=1`
-  const leagueUrl = `${baseUrl}/${year}/export?TYPE=league&L=${leagueId}&JSON=1`
-
-  const headers = getYearSpecificHeaders(parseInt(year), process.env.MFL_USER_AGENT || 'dynasty-dashboard')
+export async function fetchTeamsData(year: string, leagueId: string = getDefaultLeagueId()): Promise<Team[]> {
+  const { MflClient } = await import('./mfl-client')
 
   const [standingsData, leagueData] = await Promise.all([
-    fetchWithRetry(standingsUrl, { headers }),
-    fetchWithRetry(leagueUrl, { headers })
+    MflClient.standings<unknown>(year, leagueId),
+    MflClient.league<unknown>(year, leagueId)
   ])
 
   const combinedData = {
@@ -284,16 +423,55 @@ export async function fetchTeamsData(year: string, leagueId: string = '46221'):
     league: leagueData
   }
 
-  return normalizeTeamData(combinedData as MFLStandingsResponse, parseInt(year))
+  return normalizeTeamData(combinedData as MFLStandingsResponse, parseInt(year), leagueId)
 }
 
-export async function normalizeTeamData(mflData: MFLStandingsResponse, year: number): Promise<Team[]> {
+/**
+ * A franchise's record from its MFL standings row, which is head-to-head only;
+ * median leagues fold in the franchise's results against the weekly median
+ */
+function getFranchiseRecord(
+  f: Record<string, unknown>,
+  medianRecords: Record<string, MedianRecord> | null
+): Pick<Team, 'wins' | 'losses' | 'ties' | 'winPercentage' | 'medianWins' | 'medianLosses' | 'medianTies'> {
+  const record = {
+    wins: parseFloat((f.h2hw as string) || '0') || 0,           // MFL's h2hw
+    losses: parseFloat((f.h2hl as string) || '0') || 0,         // MFL's h2hl
+    ties: parseFloat((f.h2ht as string) || '0') || 0,           // MFL's h2ht
+    winPercentage: parseFloat((f.h2hpct as string) || '0') || 0 // MFL's h2hpct
+  }
+  if (!medianRecords) return record
+
+  const median = medianRecords[f.id as string] ?? { wins: 0, losses: 0, ties: 0 }
+  return {
+    ...combineRecords(record, median),
+    medianWins: median.wins,
+    medianLosses: median.losses,
+    medianTies: median.ties
+  }
+}
+
+export async function normalizeTeamData(
+  mflData: MFLStandingsResponse,
+  year: number,
+  leagueId: string = getDefaultLeagueId()
+): Promise<Team[]> {
   // Validate the response structure
   if (!mflData || typeof mflData !== 'object') {
     console.error('Invalid MFL data structure:', mflData)
     return []
   }
 
+  // Imported dynamically so client components importing types from here don't pull in the database
+  const { loadOwnerRegistry } = await import('./owner-registry-service')
+  await loadOwnerRegistry(leagueId)
+
+  let medianRecords: Record<string, MedianRecord> | null = null
+  if (getScoringFormat(leagueId, year) === 'median') {
+    const { fetchMedianRecords } = await import('./scoring-format-service')
+    medianRecords = await fetchMedianRecords(year, leagueId)
+  }
+
   console.log('MFL Data structure:', Object.keys(mflData))
 
   // Handle combined structure (standings + league + detailedScoring)
@@ -415,8 +593,8 @@ export async function normalizeTeamData(mflData: MFLStandingsResponse, year: num
 
       const team = {
         id: franchiseId,
-        manager: getOwnerName(franchiseId, year),
-        teamName: franchiseNames[franchiseId] || getOwnerName(franchiseId, year),
+        manager: getOwnerName(franchiseId, year, leagueId),
+        teamName: franchiseNames[franchiseId] || getOwnerName(franchiseId, year, leagueId),
         startersPoints,
         benchPoints,
         offensePoints,
@@ -437,12 +615,9 @@ export async function normalizeTeamData(mflData: MFLStandingsResponse, year: num
         defenseFlexPoints: (detailedData?.defenseFlexPoints as number) || 0,
         year,
         // Matchup/Record data - Use MFL's provided fields directly
-        wins: parseFloat((f.h2hw as string) || '0') || 0,           // MFL's h2hw
-        losses: parseFloat((f.h2hl as string) || '0') || 0,         // MFL's h2hl
-        ties: parseFloat((f.h2ht as string) || '0') || 0,           // MFL's h2ht
+        ...getFranchiseRecord(f, medianRecords),
         pointsFor: startersPoints,                                  // Use starter points for H2H matchups
-        pointsAgainst,                                              // MFL's pa
-        winPercentage: parseFloat((f.h2hpct as string) || '0') || 0 // MFL's h2hpct
+        pointsAgainst                                               // MFL's pa
       }
       
       if (index === 0) {
@@ -492,8 +667,8 @@ export async function normalizeTeamData(mflData: MFLStandingsResponse, year: num
 
     const team = {
       id: franchiseId,
-      manager: getOwnerName(franchiseId, year),
-      teamName: getOwnerName(franchiseId, year),
+      manager: getOwnerName(franchiseId, year, leagueId),
+      teamName: getOwnerName(franchiseId, year, leagueId),
       startersPoints: totalPoints,  // Fallback: assume starters = total
       benchPoints: 0,               // Not available in season totals
       offensePoints: totalPoints * 0.7,  // Estimate
@@ -514,12 +689,9 @@ export async function normalizeTeamData(mflData: MFLStandingsResponse, year: num
       defenseFlexPoints: 0,
       year,
       // Matchup/Record data - Use MFL's provided fields directly
-      wins: parseFloat((f.h2hw as string) || '0') || 0,
-      losses: parseFloat((f.h2hl as string) || '0') || 0,
-      ties: parseFloat((f.h2ht as string) || '0') || 0,
+      ...getFranchiseRecord(f, medianRecords),
       pointsFor: totalPoints,      // MFL's pf
-      pointsAgainst,               // MFL's pa
-      winPercentage: parseFloat((f.h2hpct as string) || '0') || 0
+      pointsAgainst                // MFL's pa
     }
 
     if (index === 0) {
@@ -1,9 +1,11 @@
-// Manual mapping of MFL franchise IDs to owner names
-// Update this file as needed since MFL API doesn't provide owner information
-// for this league
-//
-// FUTURE-PROOF DESIGN: When adding new seasons, copy the most recent season
-// mapping as a template and update as needed
+// Owner names for MFL franchise IDs
+// The owner registry (owners/owner_tenures tables, edited at /admin/owners) is
+// the source of truth; see owner-registry.ts. The hand-kept mappings below are
+// the fallback for seasons the registry doesn't cover yet, and seed it for
+// seasons where MFL doesn't publish owner names
+
+import { getDefaultLeagueId } from './league-registry'
+import { getRegisteredOwnerId, getRegisteredOwnerName, normalizeOwnerName } from './owner-registry'
 
 export interface OwnerMapping {
   [franchiseId: string]: string
@@ -34,9 +36,9 @@ export const OWNER_MAPPINGS_2024: OwnerMapping = {
   '0004': 'Andre Laffitte', // Running Up that Hill
   '0005': 'Brian Tutino', // Bijan Mustard
   '0006': 'Jared Ey', // CryBabyMahomes
-  '0007': 'David Schwartz ', // MAXXimum WATTage
+  '0007': 'David Schwartz', // MAXXimum WATTage
   '0008': 'Bryan Birchmeier', // Errant Venture
-  '0009': 'Matt Wishart ', // Monday Night Ra
+  '0009': 'Matt Wishart', // Monday Night Ra
   '0010': 'Michael Foos', // DJ Moore Touchdowns
   '0011': 'Roderick Dunn', // Boston Strong
   '0012': 'Justin Herrmann', // Jesus Christ that's Kendrick Bourne!
@@ -102,8 +104,8 @@ export const OWNER_MAPPINGS_2021: OwnerMapping = {
   '0016': 'Andre Laffitte', // Double EntAndres
 }
 
-// Future season template - copy this when creating mappings for new seasons
-// Example: export const OWNER_MAPPINGS_2026: OwnerMapping = { ...OWNER_MAPPINGS_TEMPLATE }
+// Most recent lineup of owners, kept for reference
+// New seasons are added through the owner registry rather than a new constant here
 export const OWNER_MAPPINGS_TEMPLATE: OwnerMapping = {
   '0001': 'Ryan Monaco',
   '0002': 'Damian Kruhmin', 
@@ -128,10 +130,42 @@ const ALL_OWNER_MAPPINGS: Record<number, OwnerMapping> = {
   2021: OWNER_MAPPINGS_2021,
 }
 
-// Master function to get owner name by franchise ID and year
-export function getOwnerName(franchiseId: string, year: number): string {
+// Mappings by league ID then year
+// The built-in mappings above belong to league 46221, whichever league is the default
+const LEAGUE_OWNER_MAPPINGS: Record<string, Record<number, OwnerMapping>> = {
+  '46221': ALL_OWNER_MAPPINGS,
+}
+
+function getLeagueMappings(leagueId: string): Record<number, OwnerMapping> {
+  if (!LEAGUE_OWNER_MAPPINGS[leagueId]) {
+    LEAGUE_OWNER_MAPPINGS[leagueId] = {}
+  }
+  return LEAGUE_OWNER_MAPPINGS[leagueId]
+}
+
+// Built-in mapping for exactly this season, without falling back to another year
+export function getLegacyOwnerMapping(
+  year: number,
+  leagueId: string = getDefaultLeagueId()
+): OwnerMapping | undefined {
+  return getLeagueMappings(leagueId)[year]
+}
+
+// Master function to get owner name by franchise ID, year and league
+// Reads the owner registry first; call loadOwnerRegistry (owner-registry-service.ts)
+// before building a response so it's current
+export function getOwnerName(
+  franchiseId: string,
+  year: number,
+  leagueId: string = getDefaultLeagueId()
+): string {
+  const registered = getRegisteredOwnerName(franchiseId, year, leagueId)
+  if (registered) return registered
+
+  const leagueMappings = getLeagueMappings(leagueId)
+
   // Try to find the mapping for the specific year
-  const mapping = ALL_OWNER_MAPPINGS[year]
+  const mapping = leagueMappings[year]
   
   if (mapping) {
     return mapping[franchiseId] || `Manager ${franchiseId}`
@@ -139,22 +173,43 @@ export function getOwnerName(franchiseId: string, year: number): string {
   
   // For future years not yet defined, use the most recent mapping as fallback
   const currentYear = new Date().getFullYear()
-  let fallbackMapping = OWNER_MAPPINGS_2025 // Default to 2025
+  let fallbackMapping: OwnerMapping | undefined
   
   // Find the most recent mapping available
-  for (let checkYear = currentYear; checkYear >= 2021; checkYear--) {
-    if (ALL_OWNER_MAPPINGS[checkYear]) {
-      fallbackMapping = ALL_OWNER_MAPPINGS[checkYear]
+  for (let checkYear = Math.max(currentYear, year); checkYear >= 2000; checkYear--) {
+    if (leagueMappings[checkYear]) {
+      fallbackMapping = leagueMappings[checkYear]
       break
     }
   }
+
+  if (!fallbackMapping) {
+    return `Manager ${franchiseId}`
+  }
   
   console.log(`[Owner Mappings] Using ${currentYear >= year ? 'future' : 'historical'} fallback mapping for year ${year}`)
   return fallbackMapping[franchiseId] || `Manager ${franchiseId}`
 }
 
+// Stable key for the owner of a franchise season: the registry's owner ID, or
+// for seasons the registry doesn't cover, the mapped name (normalized so stray
+// spaces in a hand-typed mapping don't split one owner in two)
+export function getOwnerId(
+  franchiseId: string,
+  year: number,
+  leagueId: string = getDefaultLeagueId()
+): string {
+  return getRegisteredOwnerId(franchiseId, year, leagueId) ??
+    `name:${normalizeOwnerName(getOwnerName(franchiseId, year, leagueId))}`
+}
+
 // Helper function to add new season mappings dynamically
-export function addSeasonMapping(year: number, mappings: OwnerMapping): void {
-  ALL_OWNER_MAPPINGS[year] = mappings
-  console.log(`[Owner Mappings] Added mappings for ${year} season`)
-}
\ No newline at end of file
+// @deprecated Only changes this process's memory; add owners through the registry instead
+export function addSeasonMapping(
+  year: number,
+  mappings: OwnerMapping,
+  leagueId: string = getDefaultLeagueId()
+): void {
+  getLeagueMappings(leagueId)[year] = mappings
+  console.log(`[Owner Mappings] Added mappings for ${year} season (league ${leagueId})`)
+}
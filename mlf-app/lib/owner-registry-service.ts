@@ -0,0 +1,169 @@
+/**
+ * Owner Registry Service
+ * Loads the owner registry (see owner-registry.ts) from the database, seeds it
+ * from MFL's franchise owner_name with the built-in mappings as a fallback,
+ * and applies edits from the admin page
+ */
+
+import { DatabaseService } from './database'
+import { MflClient, toArray } from './mfl-client'
+import { getLegacyOwnerMapping } from './owner-mappings'
+import {
+  normalizeOwnerName,
+  setOwnerRegistry,
+  splitOwnerNames,
+  summarizeOwnerRegistry,
+  type OwnerRegistry,
+  type OwnerSource
+} from './owner-registry'
+import type { MFLLeagueResponse } from './mfl'
+
+// Edits made on another server instance show up after this long
+const REGISTRY_TTL_MS = 5 * 60 * 1000
+
+const loadedAt = new Map<string, number>()
+const inFlight = new Map<string, Promise<void>>()
+
+/**
+ * An admin edit the registry can't apply (bad name, unknown owner, cross-league merge)
+ */
+export class OwnerRegistryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OwnerRegistryError'
+  }
+}
+
+export interface OwnerSeedResult {
+  year: number
+  fromMfl: number
+  fromLegacy: number
+  skipped: number // Already in the registry
+  missing: string[] // Franchises with no owner name anywhere
+}
+
+/**
+ * Refresh the in-memory registry getOwnerName reads
+ * A database error is logged and leaves getOwnerName on the built-in mappings
+ */
+export async function loadOwnerRegistry(leagueId: string, { force = false }: { force?: boolean } = {}): Promise<void> {
+  if (!force && Date.now() - (loadedAt.get(leagueId) ?? 0) < REGISTRY_TTL_MS) return
+
+  const pending = inFlight.get(leagueId)
+  if (pending) return pending
+
+  const load = (async () => {
+    try {
+      const rows = await DatabaseService.getOwnerTenures(leagueId)
+      setOwnerRegistry(leagueId, rows)
+    } catch (error) {
+      console.warn(`[Owner Registry] Could not load league ${leagueId}, using built-in owner mappings:`, error)
+    } finally {
+      // Also set on failure so a missing database isn't retried on every request
+      loadedAt.set(leagueId, Date.now())
+      inFlight.delete(leagueId)
+    }
+  })()
+  inFlight.set(leagueId, load)
+  return load
+}
+
+/**
+ * Registry grouped by owner and by franchise season
+ */
+export async function getOwnerRegistry(leagueId: string): Promise<OwnerRegistry> {
+  const rows = await DatabaseService.getOwnerTenures(leagueId)
+  return summarizeOwnerRegistry(rows)
+}
+
+/**
+ * Fill the registry for each season from MFL's owner_name, falling back to the
+ * built-in mappings. Franchise seasons already in the registry are kept unless
+ * overwrite is set, so admin edits survive a re-seed
+ */
+export async function seedOwnerRegistry(
+  leagueId: string,
+  years: number[],
+  { overwrite = false }: { overwrite?: boolean } = {}
+): Promise<OwnerSeedResult[]> {
+  const existingRows = await DatabaseService.getOwnerTenures(leagueId)
+  const existing = new Set(existingRows.map(row => `${row.year}-${row.franchiseId}`))
+  const results: OwnerSeedResult[] = []
+
+  for (const year of years) {
+    const league = await MflClient.league<MFLLeagueResponse>(year, leagueId).catch(error => {
+      console.warn(`[Owner Registry] No MFL league export for ${year}:`, error)
+      return null
+    })
+    const legacyMapping = getLegacyOwnerMapping(year, leagueId) || {}
+    const franchises: Array<{ id: string; owner_name?: string }> = league
+      ? toArray(league.league?.franchises?.franchise)
+      : Object.keys(legacyMapping).map(id => ({ id }))
+    const result: OwnerSeedResult = { year, fromMfl: 0, fromLegacy: 0, skipped: 0, missing: [] }
+
+    for (const franchise of franchises) {
+      if (!overwrite && existing.has(`${year}-${franchise.id}`)) {
+        result.skipped++
+        continue
+      }
+
+      let names = splitOwnerNames(franchise.owner_name)
+      let source: OwnerSource = 'mfl'
+      if (names.length === 0) {
+        const legacyName = legacyMapping[franchise.id]
+        names = legacyName ? [normalizeOwnerName(legacyName)] : []
+        source = 'legacy'
+      }
+      if (names.length === 0) {
+        result.missing.push(franchise.id)
+        continue
+      }
+
+      await DatabaseService.replaceFranchiseOwners(franchise.id, year, names, source, leagueId)
+      if (source === 'mfl') result.fromMfl++
+      else result.fromLegacy++
+    }
+
+    results.push(result)
+  }
+
+  await loadOwnerRegistry(leagueId, { force: true })
+  return results
+}
+
+/**
+ * Set the owners of a franchise season, primary owner first
+ */
+export async function assignFranchiseOwners(
+  leagueId: string,
+  franchiseId: string,
+  year: number,
+  names: string[]
+): Promise<void> {
+  const cleaned = Array.from(new Set(names.map(normalizeOwnerName).filter(name => name.length > 0)))
+  if (cleaned.length === 0) throw new OwnerRegistryError('At least one owner name is required')
+
+  await DatabaseService.replaceFranchiseOwners(franchiseId, year, cleaned, 'admin', leagueId)
+  await loadOwnerRegistry(leagueId, { force: true })
+}
+
+/**
+ * Rename an owner; renaming to another owner's name in the same league merges the two
+ */
+export async function renameOwner(leagueId: string, ownerId: string, name: string): Promise<void> {
+  const cleaned = normalizeOwnerName(name)
+  if (!cleaned) throw new OwnerRegistryError('Owner name is required')
+
+  const owner = await DatabaseService.getOwner(ownerId)
+  if (!owner || owner.leagueId !== leagueId) {
+    throw new OwnerRegistryError(`Owner ${ownerId} is not in league ${leagueId}`)
+  }
+
+  const existing = await DatabaseService.findOwnerByName(cleaned, leagueId)
+  if (existing && existing.id !== ownerId) {
+    await DatabaseService.mergeOwners(ownerId, existing.id)
+  } else {
+    await DatabaseService.renameOwner(ownerId, cleaned)
+  }
+  await loadOwnerRegistry(leagueId, { force: true })
+}
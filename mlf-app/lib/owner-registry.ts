@@ -0,0 +1,169 @@
+/**
+ * Owner Registry
+ * Links each franchise season to the people who managed it, so an owner is
+ * one identity across seasons and franchise IDs. Rows live in the owners and
+ * owner_tenures tables (see owner-registry-service.ts); this module keeps the
+ * in-memory copy that getOwnerName reads synchronously
+ */
+
+export type OwnerRole = 'primary' | 'co-owner'
+export type OwnerSource = 'mfl' | 'legacy' | 'admin'
+
+/** A tenure as read back from owner_tenures, with its owner */
+export interface OwnerTenureRow {
+  id: string
+  franchiseId: string
+  year: number
+  role: OwnerRole
+  source: OwnerSource
+  owner: { id: string; name: string }
+}
+
+/** Consecutive seasons an owner held one franchise */
+export interface OwnerTenureSpan {
+  franchiseId: string
+  startYear: number
+  endYear: number
+  role: OwnerRole
+}
+
+export interface OwnerSummary {
+  id: string
+  name: string
+  seasons: number[]
+  tenures: OwnerTenureSpan[] // Oldest first
+  coOwners: Array<{ name: string; years: number[] }> // Everyone who shared a franchise season with this owner
+}
+
+export interface FranchiseSeasonOwners {
+  franchiseId: string
+  year: number
+  owners: Array<{ ownerId: string; name: string; role: OwnerRole; source: OwnerSource }> // Primary first
+}
+
+export interface OwnerRegistry {
+  owners: OwnerSummary[] // By name
+  franchiseSeasons: FranchiseSeasonOwners[] // Newest season first
+}
+
+/** Response of GET /api/mfl/owners */
+export interface OwnerRegistryResponse extends OwnerRegistry {
+  leagueId: string
+}
+
+// leagueId -> "year-franchiseId" -> primary owner
+const registries = new Map<string, Map<string, { id: string; name: string }>>()
+
+/**
+ * Trim and collapse whitespace so hand-typed names compare equal
+ */
+export function normalizeOwnerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Read a stored role; anything but 'primary' is a co-owner
+ */
+export function toOwnerRole(role: string): OwnerRole {
+  return role === 'primary' ? 'primary' : 'co-owner'
+}
+
+/**
+ * Read a stored source; unknown values are treated as admin edits
+ */
+export function toOwnerSource(source: string): OwnerSource {
+  return source === 'mfl' || source === 'legacy' ? source : 'admin'
+}
+
+/**
+ * Split an MFL owner_name into the people behind it, primary owner first
+ * e.g. "Jane Doe & John Roe" -> ['Jane Doe', 'John Roe']
+ */
+export function splitOwnerNames(ownerName: string | undefined): string[] {
+  if (!ownerName) return []
+  return ownerName
+    .split(/\s*(?:&|\/|\band\b)\s*/i)
+    .map(normalizeOwnerName)
+    .filter(name => name.length > 0)
+}
+
+/**
+ * Replace the in-memory registry for a league
+ */
+export function setOwnerRegistry(leagueId: string, rows: OwnerTenureRow[]): void {
+  const owners = new Map<string, { id: string; name: string }>()
+  rows.forEach(row => {
+    const key = `${row.year}-${row.franchiseId}`
+    // A co-owner stands in only when the season has no primary owner
+    if (row.role === 'primary' || !owners.has(key)) owners.set(key, { id: row.owner.id, name: row.owner.name })
+  })
+  registries.set(leagueId, owners)
+}
+
+/**
+ * Primary owner of a franchise season, or undefined when the registry doesn't cover it
+ */
+export function getRegisteredOwnerName(franchiseId: string, year: number, leagueId: string): string | undefined {
+  return registries.get(leagueId)?.get(`${year}-${franchiseId}`)?.name
+}
+
+/**
+ * Registry ID of a franchise season's primary owner, or undefined when the registry doesn't cover it
+ */
+export function getRegisteredOwnerId(franchiseId: string, year: number, leagueId: string): string | undefined {
+  return registries.get(leagueId)?.get(`${year}-${franchiseId}`)?.id
+}
+
+/**
+ * Group tenure rows by owner and by franchise season for the admin page
+ */
+export function summarizeOwnerRegistry(rows: OwnerTenureRow[]): OwnerRegistry {
+  const rowsByOwner = new Map<string, OwnerTenureRow[]>()
+  const rowsBySeason = new Map<string, OwnerTenureRow[]>()
+  rows.forEach(row => {
+    rowsByOwner.set(row.owner.id, [...(rowsByOwner.get(row.owner.id) || []), row])
+    const seasonKey = `${row.year}-${row.franchiseId}`
+    rowsBySeason.set(seasonKey, [...(rowsBySeason.get(seasonKey) || []), row])
+  })
+
+  const owners: OwnerSummary[] = Array.from(rowsByOwner.values()).map(ownerRows => {
+    const sorted = [...ownerRows].sort((a, b) => a.year - b.year || a.franchiseId.localeCompare(b.franchiseId))
+
+    const tenures: OwnerTenureSpan[] = []
+    sorted.forEach(row => {
+      const span = tenures.find(t => t.franchiseId === row.franchiseId && t.role === row.role && t.endYear === row.year - 1)
+      if (span) span.endYear = row.year
+      else tenures.push({ franchiseId: row.franchiseId, startYear: row.year, endYear: row.year, role: row.role })
+    })
+
+    const coOwnerYears = new Map<string, number[]>()
+    sorted.forEach(row => {
+      rowsBySeason.get(`${row.year}-${row.franchiseId}`)!
+        .filter(other => other.owner.id !== row.owner.id)
+        .forEach(other => coOwnerYears.set(other.owner.name, [...(coOwnerYears.get(other.owner.name) || []), row.year]))
+    })
+
+    return {
+      id: sorted[0].owner.id,
+      name: sorted[0].owner.name,
+      seasons: Array.from(new Set(sorted.map(row => row.year))),
+      tenures: tenures.sort((a, b) => a.startYear - b.startYear),
+      coOwners: Array.from(coOwnerYears.entries()).map(([name, years]) => ({ name, years }))
+    }
+  })
+
+  const franchiseSeasons: FranchiseSeasonOwners[] = Array.from(rowsBySeason.values())
+    .map(seasonRows => ({
+      franchiseId: seasonRows[0].franchiseId,
+      year: seasonRows[0].year,
+      owners: [...seasonRows]
+        .sort((a, b) => (a.role === 'primary' ? 0 : 1) - (b.role === 'primary' ? 0 : 1))
+        .map(row => ({ ownerId: row.owner.id, name: row.owner.name, role: row.role, source: row.source }))
+    }))
+    .sort((a, b) => b.year - a.year || a.franchiseId.localeCompare(b.franchiseId))
+
+  return {
+    owners: owners.sort((a, b) => a.name.localeCompare(b.name)),
+    franchiseSeasons
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Player Profile Service
+ * Inputs for player-profile.ts: each season's weekly lineups (database first,
+ * via SmartDataService), MFL's season totals from the playerScores export, and
+ * the player's current name, position and NFL team from the players database
+ */
+
+import { MflClient, toArray } from './mfl-client'
+import { fetchPlayers, fetchPlayerScores } from './mfl-api-endpoints'
+import { SmartDataService } from './smart-data-service'
+import { getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
+import { getLeague } from './league-registry'
+import { getAvailableYears } from './utils'
+import {
+  getCurrentNFLSeason,
+  getCurrentWeekForSeason,
+  getTotalWeeksForYear,
+  isSeasonComplete
+} from './season-config'
+import { buildPlayerProfile, type PlayerProfile, type PlayerProfileSeason } from './player-profile'
+import type { LeagueResponse } from '@/app/api/mfl/divisions/route'
+
+/**
+ * A player's profile across every season of the league; null if never rostered
+ */
+export async function fetchPlayerProfile(playerId: string, leagueId: string): Promise<PlayerProfile | null> {
+  await loadOwnerRegistry(leagueId)
+
+  const years = getAvailableYears(getLeague(leagueId)?.startYear)
+    .filter(year => year <= getCurrentNFLSeason())
+    .sort((a, b) => a - b)
+  const seasons: PlayerProfileSeason[] = []
+
+  // One season at a time - an unsynced season is a request per week through the MFL queue
+  for (const year of years) {
+    // Only completed weeks - a lineup is still changing while its week is live
+    const lastWeek = isSeasonComplete(year) ? getTotalWeeksForYear(year) : getCurrentWeekForSeason(year) - 1
+    if (lastWeek < 1) continue
+
+    const [lineups, league, scores] = await Promise.all([
+      SmartDataService.getWeeklyLineups({
+        year,
+        leagueId,
+        includeWeeks: Array.from({ length: lastWeek }, (_, i) => i + 1)
+      }).then(result => result.data),
+      MflClient.league<LeagueResponse>(year, leagueId).catch(error => {
+        console.warn(`[Player Profile] No league export for ${year}, using franchise IDs:`, error)
+        return null
+      }),
+      fetchPlayerScores(String(year), leagueId, 'YTD', [playerId]).catch(error => {
+        console.warn(`[Player Profile] No season total for player ${playerId} in ${year}:`, error)
+        return null
+      })
+    ])
+
+    const teams: PlayerProfileSeason['teams'] = {}
+    toArray(league?.league?.franchises?.franchise).forEach(franchise => {
+      if (franchise.id) {
+        teams[franchise.id] = {
+          teamName: franchise.name || `Team ${franchise.id}`,
+          manager: getOwnerName(franchise.id, year, leagueId)
+        }
+      }
+    })
+
+    const seasonScore = toArray(scores?.playerScores?.playerScore).find(score => score.id === playerId)
+    seasons.push({
+      year,
+      lineups,
+      teams,
+      seasonPoints: seasonScore ? parseFloat(seasonScore.score) || 0 : null
+    })
+  }
+
+  const players = await fetchPlayers(String(getCurrentNFLSeason())).catch(error => {
+    console.warn('[Player Profile] Players database unavailable, using lineup names:', error)
+    return null
+  })
+  const info = toArray(players?.players?.player).find(player => player.id === playerId)
+
+  return buildPlayerProfile(
+    playerId,
+    leagueId,
+    info ? { name: info.name, position: info.position, nflTeam: info.team } : null,
+    seasons
+  )
+}
@@ -0,0 +1,218 @@
+/**
+ * Player Profiles
+ * One player's league history from the weekly lineups: every week they were
+ * rostered, by whom and whether they started, their rank among every rostered
+ * player at their position that week, and how steady their scoring was
+ */
+
+import { calculateMedian } from './luck-analytics'
+import type { WeeklyLineup } from './mfl-weekly-results'
+
+// A boom (bust) week ranks in the top (bottom) quarter of the position that week
+export const BOOM_BUST_SHARE = 0.25
+
+export type PlayerSlot = 'starter' | 'bench'
+
+export interface PlayerWeek {
+  year: number
+  week: number
+  franchiseId: string
+  teamName: string
+  manager: string
+  slot: PlayerSlot
+  score: number
+  positionRank: number // 1 = best at the position that week, among rostered players
+  positionCount: number // Rostered players at the position that week
+}
+
+export interface PlayerConsistency {
+  games: number // Weeks with points or in the starting lineup (byes on the bench don't count)
+  average: number
+  median: number
+  stdDev: number
+  coefficientOfVariation: number // stdDev / average - lower is steadier
+  floor: number // 10th percentile
+  ceiling: number // 90th percentile
+  boomRate: number // 0-1
+  bustRate: number // 0-1
+  averageRank: number // Mean weekly position rank
+}
+
+export interface PlayerUsage {
+  weeksRostered: number
+  starts: number
+  startRate: number // 0-1, of weeks rostered
+}
+
+export interface PlayerSeason extends PlayerConsistency, PlayerUsage {
+  year: number
+  points: number // Points in rostered weeks
+  seasonPoints: number | null // MFL's season total, including weeks nobody rostered them
+  teams: string[] // Team names that rostered them, in order
+}
+
+export interface PlayerProfile {
+  playerId: string
+  leagueId: string
+  name: string
+  position: string
+  nflTeam: string
+  weeks: PlayerWeek[]
+  seasons: PlayerSeason[]
+  career: PlayerConsistency & PlayerUsage & { points: number }
+}
+
+export interface PlayerProfileSeason {
+  year: number
+  lineups: WeeklyLineup[]
+  teams: Record<string, { teamName: string; manager: string }>
+  seasonPoints?: number | null
+}
+
+function percentile(sorted: number[], share: number): number {
+  if (sorted.length === 0) return 0
+  const index = (sorted.length - 1) * share
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+function isCountedWeek(week: PlayerWeek): boolean {
+  return week.score !== 0 || week.slot === 'starter'
+}
+
+/**
+ * Scoring consistency over a set of weeks
+ */
+export function calculateConsistency(weeks: PlayerWeek[]): PlayerConsistency {
+  const counted = weeks.filter(isCountedWeek)
+  const scores = counted.map(week => week.score).sort((a, b) => a - b)
+  const games = scores.length
+
+  if (games === 0) {
+    return {
+      games: 0, average: 0, median: 0, stdDev: 0, coefficientOfVariation: 0,
+      floor: 0, ceiling: 0, boomRate: 0, bustRate: 0, averageRank: 0
+    }
+  }
+
+  const average = scores.reduce((sum, score) => sum + score, 0) / games
+  const stdDev = games > 1
+    ? Math.sqrt(scores.reduce((sum, score) => sum + (score - average) ** 2, 0) / (games - 1))
+    : 0
+
+  const booms = counted.filter(week =>
+    week.positionRank <= Math.ceil(week.positionCount * BOOM_BUST_SHARE)
+  ).length
+  const busts = counted.filter(week =>
+    week.positionRank > week.positionCount - Math.ceil(week.positionCount * BOOM_BUST_SHARE)
+  ).length
+
+  return {
+    games,
+    average,
+    median: calculateMedian(scores),
+    stdDev,
+    coefficientOfVariation: average > 0 ? stdDev / average : 0,
+    floor: percentile(scores, 0.1),
+    ceiling: percentile(scores, 0.9),
+    boomRate: booms / games,
+    bustRate: busts / games,
+    averageRank: counted.reduce((sum, week) => sum + week.positionRank, 0) / games
+  }
+}
+
+function calculateUsage(weeks: PlayerWeek[]): PlayerUsage {
+  const starts = weeks.filter(week => week.slot === 'starter').length
+  return {
+    weeksRostered: weeks.length,
+    starts,
+    startRate: weeks.length > 0 ? starts / weeks.length : 0
+  }
+}
+
+/**
+ * Every week a player was rostered in a season, ranked against their position
+ */
+export function extractPlayerWeeks(playerId: string, season: PlayerProfileSeason): PlayerWeek[] {
+  const weeks: PlayerWeek[] = []
+  const lineupsByWeek = new Map<number, WeeklyLineup[]>()
+  season.lineups.forEach(lineup => {
+    lineupsByWeek.set(lineup.week, [...(lineupsByWeek.get(lineup.week) || []), lineup])
+  })
+
+  lineupsByWeek.forEach((lineups, week) => {
+    const entries = lineups.flatMap(lineup => [
+      ...lineup.starterData.map(player => ({ ...player, franchiseId: lineup.franchiseId, slot: 'starter' as const })),
+      ...lineup.benchData.map(player => ({ ...player, franchiseId: lineup.franchiseId, slot: 'bench' as const }))
+    ])
+    const entry = entries.find(player => player.id === playerId)
+    if (!entry) return
+
+    const positionScores = entries
+      .filter(player => player.position === entry.position)
+      .map(player => player.score)
+
+    weeks.push({
+      year: season.year,
+      week,
+      franchiseId: entry.franchiseId,
+      teamName: season.teams[entry.franchiseId]?.teamName || `Team ${entry.franchiseId}`,
+      manager: season.teams[entry.franchiseId]?.manager || '',
+      slot: entry.slot,
+      score: entry.score,
+      positionRank: 1 + positionScores.filter(score => score > entry.score).length,
+      positionCount: positionScores.length
+    })
+  })
+
+  return weeks.sort((a, b) => a.week - b.week)
+}
+
+/**
+ * Build a player's profile from each season's lineups
+ * Returns null when the player was never rostered in the league
+ */
+export function buildPlayerProfile(
+  playerId: string,
+  leagueId: string,
+  info: { name: string; position: string; nflTeam: string } | null,
+  seasons: PlayerProfileSeason[]
+): PlayerProfile | null {
+  const seasonWeeks = [...seasons]
+    .sort((a, b) => a.year - b.year)
+    .map(season => ({ season, weeks: extractPlayerWeeks(playerId, season) }))
+  const weeks = seasonWeeks.flatMap(entry => entry.weeks)
+
+  if (weeks.length === 0) return null
+
+  // The lineups carry a name and position even for players MFL's database has dropped
+  const lineupEntry = seasons
+    .flatMap(season => season.lineups)
+    .flatMap(lineup => [...lineup.starterData, ...lineup.benchData])
+    .find(player => player.id === playerId)
+
+  return {
+    playerId,
+    leagueId,
+    name: info?.name || lineupEntry?.name || `Player ${playerId}`,
+    position: info?.position || lineupEntry?.position || 'UNKNOWN',
+    nflTeam: info?.nflTeam || lineupEntry?.team || '',
+    weeks,
+    seasons: seasonWeeks
+      .filter(entry => entry.weeks.length > 0)
+      .map(({ season, weeks: yearWeeks }) => ({
+        year: season.year,
+        ...calculateConsistency(yearWeeks),
+        ...calculateUsage(yearWeeks),
+        points: yearWeeks.reduce((sum, week) => sum + week.score, 0),
+        seasonPoints: season.seasonPoints ?? null,
+        teams: Array.from(new Set(yearWeeks.map(week => week.teamName)))
+      })),
+    career: {
+      ...calculateConsistency(weeks),
+      ...calculateUsage(weeks),
+      points: weeks.reduce((sum, week) => sum + week.score, 0)
+    }
+  }
+}
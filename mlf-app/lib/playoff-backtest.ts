@@ -0,0 +1,555 @@
+/**
+ * Playoff Probability Backtest
+ * Replays completed seasons week by week: reconstructs standings and the
+ * remaining schedule as of each week, runs the simulator, and scores the
+ * probabilities against who actually made the playoffs
+ */
+
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { ScheduleResponse, TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
+import type { DivisionsData } from '@/app/api/mfl/divisions/route'
+import { calculatePlayoffProbabilities, type SimulationOptions } from './playoff-calculator'
+import { buildHeadToHeadRecords, determinePlayoffSeeding, type TeamRecord } from './tiebreaker-utils'
+import { DEFAULT_TIEBREAKER_CHAIN, type TiebreakerChain } from './tiebreaker-rules'
+import { DEFAULT_SCORING_FORMAT, calculateMedianResults, type ScoringFormat } from './scoring-format'
+import { buildScoreProfiles, type GameModel, type WeeklyScoreHistory } from './score-model'
+import { buildEloRatings, type EloSeason } from './elo-ratings'
+import { deriveSeed } from './random'
+import { toArray } from './mfl-client'
+import type { MFLPlayoffBracketResponse, MFLPlayoffBracketsResponse } from './mfl'
+
+export const BACKTEST_MODELS: GameModel[] = ['score-distribution', 'win-probability', 'elo']
+export const DEFAULT_BACKTEST_ITERATIONS = 2000
+export const RELIABILITY_BINS = 10
+
+// Probabilities of exactly 0/1 would make log-loss infinite on a miss
+const LOG_LOSS_EPSILON = 1e-3
+
+/** One team's side of a completed regular-season game */
+export interface SeasonGame {
+  week: number
+  franchiseId: string
+  opponentId: string
+  score: number
+  opponentScore: number
+  result: 'W' | 'L' | 'T'
+}
+
+/** One forecast: P(playoffs) for a team after a given week, and what happened */
+export interface BacktestPrediction {
+  year: number
+  week: number
+  model: GameModel
+  franchiseId: string
+  probability: number // 0-1
+  madePlayoffs: boolean
+}
+
+export interface ReliabilityBin {
+  lower: number
+  upper: number
+  count: number
+  meanPredicted: number // 0-1
+  observedRate: number // 0-1
+}
+
+export interface CalibrationMetrics {
+  predictions: number
+  brierScore: number
+  logLoss: number
+  reliability: ReliabilityBin[]
+}
+
+export interface BacktestModelSummary extends CalibrationMetrics {
+  model: GameModel
+  bySeason: Array<{ year: number } & Omit<CalibrationMetrics, 'reliability'>>
+}
+
+export interface BacktestReport {
+  generatedAt: string
+  years: number[]
+  iterations: number
+  models: BacktestModelSummary[]
+  predictions: BacktestPrediction[]
+}
+
+/**
+ * Pull completed regular-season games out of an MFL schedule export
+ * Each game is returned once per team; unplayed games (no scores) are skipped
+ */
+export function parseSeasonGames(schedule: ScheduleResponse, lastRegularWeek: number): SeasonGame[] {
+  const games: SeasonGame[] = []
+
+  toArray(schedule.schedule?.weeklySchedule).forEach(weekData => {
+    const week = parseInt(weekData.week)
+    if (isNaN(week) || week > lastRegularWeek) return
+
+    toArray(weekData.matchup).forEach(matchup => {
+      const teams = toArray(matchup.franchise)
+      if (teams.length !== 2) return
+
+      const [a, b] = teams
+      const scoreA = parseFloat(a.score || '')
+      const scoreB = parseFloat(b.score || '')
+      if (isNaN(scoreA) || isNaN(scoreB) || (scoreA === 0 && scoreB === 0)) return
+
+      const resultA: SeasonGame['result'] = scoreA > scoreB ? 'W' : scoreA < scoreB ? 'L' : 'T'
+      const resultB: SeasonGame['result'] = resultA === 'W' ? 'L' : resultA === 'L' ? 'W' : 'T'
+
+      games.push(
+        { week, franchiseId: a.id, opponentId: b.id, score: scoreA, opponentScore: scoreB, result: resultA },
+        { week, franchiseId: b.id, opponentId: a.id, score: scoreB, opponentScore: scoreA, result: resultB }
+      )
+    })
+  })
+
+  return games
+}
+
+interface TeamTotals {
+  wins: number
+  losses: number
+  ties: number
+  pointsFor: number
+  pointsAgainst: number
+  divisionWins: number
+  divisionLosses: number
+  divisionTies: number
+  headToHeadWins: Record<string, number>
+  headToHeadLosses: Record<string, number>
+  allPlayWins: number
+  allPlayLosses: number
+  allPlayTies: number
+  medianWins: number
+  medianLosses: number
+  medianTies: number
+}
+
+function accumulateTotals(
+  games: SeasonGame[],
+  franchiseIds: string[],
+  divisionMap: Record<string, string>,
+  throughWeek: number,
+  scoringFormat: ScoringFormat
+): Record<string, TeamTotals> {
+  const totals: Record<string, TeamTotals> = {}
+  franchiseIds.forEach(id => {
+    totals[id] = {
+      wins: 0, losses: 0, ties: 0, pointsFor: 0, pointsAgainst: 0,
+      divisionWins: 0, divisionLosses: 0, divisionTies: 0,
+      headToHeadWins: {}, headToHeadLosses: {},
+      allPlayWins: 0, allPlayLosses: 0, allPlayTies: 0,
+      medianWins: 0, medianLosses: 0, medianTies: 0
+    }
+  })
+
+  const playedGames = games.filter(game => game.week <= throughWeek && totals[game.franchiseId])
+
+  playedGames.forEach(game => {
+    playedGames
+      .filter(other => other.week === game.week && other.franchiseId !== game.franchiseId)
+      .forEach(other => {
+        const team = totals[game.franchiseId]
+        if (game.score > other.score) team.allPlayWins++
+        else if (game.score < other.score) team.allPlayLosses++
+        else team.allPlayTies++
+      })
+  })
+
+  playedGames
+    .forEach(game => {
+      const team = totals[game.franchiseId]
+      const isDivisionGame = divisionMap[game.franchiseId] !== undefined &&
+        divisionMap[game.franchiseId] === divisionMap[game.opponentId]
+
+      team.pointsFor += game.score
+      team.pointsAgainst += game.opponentScore
+
+      if (game.result === 'W') {
+        team.wins++
+        if (isDivisionGame) team.divisionWins++
+        team.headToHeadWins[game.opponentId] = (team.headToHeadWins[game.opponentId] || 0) + 1
+      } else if (game.result === 'L') {
+        team.losses++
+        if (isDivisionGame) team.divisionLosses++
+        team.headToHeadLosses[game.opponentId] = (team.headToHeadLosses[game.opponentId] || 0) + 1
+      } else {
+        team.ties++
+        if (isDivisionGame) team.divisionTies++
+      }
+    })
+
+  // Median leagues add a result against each week's median score to the record
+  if (scoringFormat === 'median') {
+    calculateMedianResults(playedGames).forEach(({ franchiseId, medianResult }) => {
+      const team = totals[franchiseId]
+      if (medianResult === 'W') {
+        team.wins++
+        team.medianWins++
+      } else if (medianResult === 'L') {
+        team.losses++
+        team.medianLosses++
+      } else {
+        team.ties++
+        team.medianTies++
+      }
+    })
+  }
+
+  return totals
+}
+
+/**
+ * Standings as they stood after a given week
+ */
+export function reconstructStandings(
+  games: SeasonGame[],
+  divisionsData: DivisionsData,
+  throughWeek: number,
+  scoringFormat: ScoringFormat = DEFAULT_SCORING_FORMAT
+): StandingsFranchise[] {
+  const franchiseIds = divisionsData.franchises.map(f => f.id)
+  const totals = accumulateTotals(games, franchiseIds, divisionsData.divisionMap, throughWeek, scoringFormat)
+
+  return divisionsData.franchises.map(franchise => {
+    const t = totals[franchise.id]
+    const results = t.wins + t.losses + t.ties
+    const gamesPlayed = results - t.medianWins - t.medianLosses - t.medianTies
+    return {
+      id: franchise.id,
+      name: franchise.name,
+      h2hw: t.wins.toString(),
+      h2hl: t.losses.toString(),
+      h2ht: t.ties.toString(),
+      h2hpct: ((t.wins + t.ties * 0.5) / Math.max(1, results)).toFixed(3),
+      h2hwlt: `${t.wins}-${t.losses}-${t.ties}`,
+      pf: t.pointsFor.toFixed(2),
+      pa: t.pointsAgainst.toFixed(2),
+      avgpf: (t.pointsFor / Math.max(1, gamesPlayed)).toFixed(2),
+      avgpa: (t.pointsAgainst / Math.max(1, gamesPlayed)).toFixed(2),
+      divwlt: `${t.divisionWins}-${t.divisionLosses}-${t.divisionTies}`,
+      strk: '',
+      all_play_w: t.allPlayWins.toString(),
+      all_play_l: t.allPlayLosses.toString(),
+      all_play_t: t.allPlayTies.toString(),
+      ...(scoringFormat === 'median' && {
+        median_w: t.medianWins.toString(),
+        median_l: t.medianLosses.toString(),
+        median_t: t.medianTies.toString()
+      })
+    }
+  })
+}
+
+/**
+ * Regular-season games still to be played after a given week
+ */
+export function buildRemainingSchedules(
+  games: SeasonGame[],
+  divisionsData: DivisionsData,
+  afterWeek: number,
+  lastRegularWeek: number
+): TeamSchedule[] {
+  return divisionsData.franchises.map(franchise => {
+    const teamGames = games.filter(game => game.franchiseId === franchise.id)
+    return {
+      franchiseId: franchise.id,
+      remainingGames: teamGames
+        .filter(game => game.week > afterWeek)
+        .map(game => ({ week: game.week, opponentId: game.opponentId, isHome: false })),
+      completedGames: teamGames.filter(game => game.week <= afterWeek).length,
+      totalGames: lastRegularWeek
+    }
+  })
+}
+
+/**
+ * Regular-season games from a week on, straight from the schedule export
+ * Unlike parseSeasonGames this keeps games without scores, so it works mid-season
+ */
+export function parseRemainingSchedules(
+  schedule: ScheduleResponse,
+  divisionsData: DivisionsData,
+  fromWeek: number,
+  lastRegularWeek: number
+): TeamSchedule[] {
+  const schedules = new Map<string, TeamSchedule>(
+    divisionsData.franchises.map(franchise => [
+      franchise.id,
+      { franchiseId: franchise.id, remainingGames: [], completedGames: 0, totalGames: 0 }
+    ])
+  )
+
+  toArray(schedule.schedule?.weeklySchedule).forEach(weekData => {
+    const week = parseInt(weekData.week)
+    if (isNaN(week) || week > lastRegularWeek) return
+
+    toArray(weekData.matchup).forEach(matchup => {
+      const teams = toArray(matchup.franchise)
+      if (teams.length !== 2) return
+
+      teams.forEach((team, index) => {
+        const teamSchedule = schedules.get(team.id)
+        if (!teamSchedule) return
+
+        teamSchedule.totalGames++
+        if (week < fromWeek) {
+          teamSchedule.completedGames++
+        } else {
+          teamSchedule.remainingGames.push({ week, opponentId: teams[1 - index].id, isHome: team.isHome === '1' })
+        }
+      })
+    })
+  })
+
+  return Array.from(schedules.values())
+}
+
+/**
+ * Final playoff seeding from the regular-season results, best seed first,
+ * using the same tiebreakers the simulator uses
+ */
+export function determineActualPlayoffSeeds(
+  games: SeasonGame[],
+  divisionsData: DivisionsData,
+  lastRegularWeek: number,
+  tiebreakers: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN,
+  scoringFormat: ScoringFormat = DEFAULT_SCORING_FORMAT
+): { seed: number; franchiseId: string; isDivisionWinner: boolean }[] {
+  const franchiseIds = divisionsData.franchises.map(f => f.id)
+  const totals = accumulateTotals(games, franchiseIds, divisionsData.divisionMap, lastRegularWeek, scoringFormat)
+
+  const records: TeamRecord[] = franchiseIds.map(id => ({
+    franchiseId: id,
+    ...totals[id]
+  }))
+
+  return determinePlayoffSeeding(records, divisionsData.divisionMap, tiebreakers)
+}
+
+/**
+ * The championship bracket's id: the one named for the championship, else MFL's first
+ */
+export function findChampionshipBracketId(brackets: MFLPlayoffBracketsResponse): string | null {
+  const all = toArray(brackets.playoffBrackets?.playoffBracket)
+  const championship = all.find(bracket => /champ/i.test(bracket.name || '')) ?? all[0]
+  return championship?.id ?? null
+}
+
+/**
+ * Every franchise MFL placed in a playoff bracket - the real playoff field,
+ * including teams with a first-round bye. Empty when the bracket names no teams
+ */
+export function parseBracketPlayoffTeams(bracket: MFLPlayoffBracketResponse): Set<string> {
+  const teams = new Set<string>()
+  toArray(bracket.playoffBracket?.playoffRound).forEach(round => {
+    toArray(round.playoffGame).forEach(game => {
+      [game.home, game.away].forEach(side => {
+        if (side?.franchise_id) teams.add(side.franchise_id)
+      })
+    })
+  })
+  return teams
+}
+
+/**
+ * Teams that made the playoffs from the final regular-season results
+ * Re-derived with the configured tiebreakers, so prefer MFL's bracket
+ * (parseBracketPlayoffTeams) where the league has one
+ */
+export function determineActualPlayoffTeams(
+  games: SeasonGame[],
+  divisionsData: DivisionsData,
+  lastRegularWeek: number,
+  tiebreakers: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN,
+  scoringFormat: ScoringFormat = DEFAULT_SCORING_FORMAT
+): Set<string> {
+  return new Set(
+    determineActualPlayoffSeeds(games, divisionsData, lastRegularWeek, tiebreakers, scoringFormat).map(s => s.franchiseId)
+  )
+}
+
+/**
+ * Simulator inputs as they stood after a given week: standings, remaining schedule,
+ * scoring distributions and head-to-head results, built only from games played so far
+ */
+export function buildWeekInputs(
+  games: SeasonGame[],
+  divisionsData: DivisionsData,
+  week: number,
+  lastRegularWeek: number,
+  scoringFormat: ScoringFormat = DEFAULT_SCORING_FORMAT
+): {
+  standings: StandingsFranchise[]
+  schedules: TeamSchedule[]
+  simulationOptions: Pick<SimulationOptions, 'scoreProfiles' | 'headToHead' | 'scoringFormat'>
+} {
+  const standings = reconstructStandings(games, divisionsData, week, scoringFormat)
+  const schedules = buildRemainingSchedules(games, divisionsData, week, lastRegularWeek)
+
+  const history: WeeklyScoreHistory[] = divisionsData.franchises.map(franchise => ({
+    franchiseId: franchise.id,
+    weeklyScores: games
+      .filter(game => game.franchiseId === franchise.id && game.week <= week)
+      .map(game => ({ week: game.week, totalPoints: game.score }))
+  }))
+
+  return {
+    standings,
+    schedules,
+    simulationOptions: {
+      scoreProfiles: buildScoreProfiles(standings, history),
+      headToHead: buildHeadToHeadRecords(games.filter(game => game.week <= week)),
+      scoringFormat
+    }
+  }
+}
+
+/**
+ * Replay one completed season and return every weekly forecast
+ * Forecasts are made after weeks 1..lastRegularWeek-1 using only games played so far
+ * The elo model rates teams from eloSeasons (earlier seasons carry over), or this season alone
+ */
+export function backtestSeason(
+  year: number,
+  games: SeasonGame[],
+  divisionsData: DivisionsData,
+  lastRegularWeek: number,
+  options: {
+    models?: GameModel[]
+    iterations?: number
+    tiebreakers?: TiebreakerChain
+    eloSeasons?: EloSeason[]
+    scoringFormat?: ScoringFormat
+    /** The real playoff field from MFL; derived from the results when omitted */
+    actualPlayoffTeams?: Set<string>
+  } = {}
+): BacktestPrediction[] {
+  const models = options.models ?? BACKTEST_MODELS
+  const iterations = options.iterations ?? DEFAULT_BACKTEST_ITERATIONS
+  const tiebreakers = options.tiebreakers ?? DEFAULT_TIEBREAKER_CHAIN
+  const eloSeasons = options.eloSeasons ?? [{ year, games }]
+  const scoringFormat = options.scoringFormat ?? DEFAULT_SCORING_FORMAT
+  const actualPlayoffTeams = options.actualPlayoffTeams
+    ?? determineActualPlayoffTeams(games, divisionsData, lastRegularWeek, tiebreakers, scoringFormat)
+  const predictions: BacktestPrediction[] = []
+
+  for (let week = 1; week < lastRegularWeek; week++) {
+    const { standings, schedules, simulationOptions } = buildWeekInputs(games, divisionsData, week, lastRegularWeek, scoringFormat)
+
+    // Same seed for every model so differences come from the model, not the draws
+    const seed = deriveSeed('backtest', year, week)
+    const eloRatings = models.includes('elo')
+      ? buildEloRatings(eloSeasons, { throughYear: year, throughWeek: week }).ratings
+      : undefined
+
+    models.forEach(model => {
+      const { probabilities } = calculatePlayoffProbabilities(
+        standings,
+        schedules,
+        divisionsData,
+        iterations,
+        seed,
+        { ...simulationOptions, gameModel: model, tiebreakers, eloRatings }
+      )
+
+      probabilities.forEach(p => {
+        predictions.push({
+          year,
+          week,
+          model,
+          franchiseId: p.franchiseId,
+          probability: p.playoffProbability / 100,
+          madePlayoffs: actualPlayoffTeams.has(p.franchiseId)
+        })
+      })
+    })
+  }
+
+  return predictions
+}
+
+/**
+ * Mean squared error between forecast probability and outcome (0 = perfect, 0.25 = coin flip)
+ */
+export function calculateBrierScore(predictions: BacktestPrediction[]): number {
+  if (predictions.length === 0) return 0
+  const total = predictions.reduce((sum, p) => sum + (p.probability - (p.madePlayoffs ? 1 : 0)) ** 2, 0)
+  return total / predictions.length
+}
+
+/**
+ * Mean negative log-likelihood of the outcomes (0 = perfect, ln 2 ≈ 0.693 = coin flip)
+ */
+export function calculateLogLoss(predictions: BacktestPrediction[]): number {
+  if (predictions.length === 0) return 0
+  const total = predictions.reduce((sum, p) => {
+    const prob = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, p.probability))
+    return sum - (p.madePlayoffs ? Math.log(prob) : Math.log(1 - prob))
+  }, 0)
+  return total / predictions.length
+}
+
+/**
+ * Bucket forecasts by probability and compare each bucket's average forecast
+ * to how often those teams actually made the playoffs (empty buckets are dropped)
+ */
+export function calculateReliabilityCurve(
+  predictions: BacktestPrediction[],
+  bins: number = RELIABILITY_BINS
+): ReliabilityBin[] {
+  const buckets = Array.from({ length: bins }, (_, i) => ({
+    lower: i / bins,
+    upper: (i + 1) / bins,
+    count: 0,
+    predictedSum: 0,
+    observedSum: 0
+  }))
+
+  predictions.forEach(p => {
+    const index = Math.min(bins - 1, Math.floor(p.probability * bins))
+    const bucket = buckets[index]
+    bucket.count++
+    bucket.predictedSum += p.probability
+    bucket.observedSum += p.madePlayoffs ? 1 : 0
+  })
+
+  return buckets
+    .filter(bucket => bucket.count > 0)
+    .map(bucket => ({
+      lower: bucket.lower,
+      upper: bucket.upper,
+      count: bucket.count,
+      meanPredicted: bucket.predictedSum / bucket.count,
+      observedRate: bucket.observedSum / bucket.count
+    }))
+}
+
+/**
+ * Brier score, log-loss and reliability curve per model, overall and per season
+ */
+export function summarizeBacktest(predictions: BacktestPrediction[]): BacktestModelSummary[] {
+  const models = Array.from(new Set(predictions.map(p => p.model)))
+  const years = Array.from(new Set(predictions.map(p => p.year))).sort((a, b) => a - b)
+
+  return models.map(model => {
+    const modelPredictions = predictions.filter(p => p.model === model)
+
+    return {
+      model,
+      predictions: modelPredictions.length,
+      brierScore: calculateBrierScore(modelPredictions),
+      logLoss: calculateLogLoss(modelPredictions),
+      reliability: calculateReliabilityCurve(modelPredictions),
+      bySeason: years.map(year => {
+        const seasonPredictions = modelPredictions.filter(p => p.year === year)
+        return {
+          year,
+          predictions: seasonPredictions.length,
+          brierScore: calculateBrierScore(seasonPredictions),
+          logLoss: calculateLogLoss(seasonPredictions)
+        }
+      })
+    }
+  })
+}
@@ -0,0 +1,31 @@
+/**
+ * Playoff Bracket Service
+ * A season's real championship bracket from MFL's playoffBrackets and
+ * playoffBracket exports - the playoff field, pairings and scores as they
+ * were played, for the backtest and the records book
+ */
+
+import { MflClient } from './mfl-client'
+import { MflResponseError, isNotFoundError } from './mfl-errors'
+import { findChampionshipBracketId } from './playoff-backtest'
+import type { MFLPlayoffBracketResponse } from './mfl'
+
+/**
+ * The championship bracket for a season
+ * Null when the league has no bracket for it (callers then rebuild the playoffs
+ * from the results and the configured tiebreakers)
+ */
+export async function fetchChampionshipBracket(year: number, leagueId: string): Promise<MFLPlayoffBracketResponse | null> {
+  try {
+    const bracketId = findChampionshipBracketId(await MflClient.playoffBrackets(year, leagueId))
+    if (!bracketId) return null
+
+    return await MflClient.playoffBracket(year, leagueId, bracketId)
+  } catch (error) {
+    // Only a missing bracket (MFL error body, 404 or no recorded fixture) falls back;
+    // anything else fails the caller rather than caching a rebuilt playoff field
+    if (!(error instanceof MflResponseError) && !isNotFoundError(error)) throw error
+    console.warn(`[Playoff Bracket] No playoff bracket for ${year}:`, error.message)
+    return null
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Championship Bracket
+ * Plays a seeded playoff field through the league's bracket - first-round byes
+ * for top seeds, fixed or reseeded pairings, single- or multi-week rounds.
+ * How a game is decided is left to the caller (see playoff-calculator.ts)
+ */
+
+import type { PlayoffBracketConfig } from './season-config'
+
+export interface BracketSeed {
+  seed: number
+  franchiseId: string
+}
+
+export interface BracketGame {
+  round: number // 0-based
+  weeks: number[]
+  high: BracketSeed // Better seed
+  low: BracketSeed | null // null = first-round bye for high
+  winner: BracketSeed
+}
+
+export interface BracketResult {
+  games: BracketGame[]
+  champion: BracketSeed | null
+}
+
+/** Decide one playoff game; weeks has more than one entry for multi-week rounds */
+export type PlayBracketGame = (high: BracketSeed, low: BracketSeed, weeks: number[]) => BracketSeed
+
+/**
+ * Bracket slots needed for a playoff field (next power of two)
+ */
+export function getBracketSize(teams: number): number {
+  let size = 1
+  while (size < teams) size *= 2
+  return size
+}
+
+/**
+ * Rounds needed to crown a champion from a playoff field
+ */
+export function getRoundCount(teams: number): number {
+  return Math.log2(getBracketSize(teams))
+}
+
+/**
+ * Display names for each round, counted back from the final
+ */
+export function getRoundNames(roundCount: number): string[] {
+  const namesFromFinal = ['Championship', 'Semifinals', 'Quarterfinals']
+  return Array.from({ length: roundCount }, (_, round) => {
+    const fromFinal = roundCount - 1 - round
+    return namesFromFinal[fromFinal] || `Round ${round + 1}`
+  })
+}
+
+/**
+ * Weeks for each round; the championship always lines up with the last configured round,
+ * and missing early rounds are filled in with the weeks just before
+ */
+export function getRoundWeeks(config: PlayoffBracketConfig, roundCount: number): number[][] {
+  const rounds = config.rounds.slice(-roundCount)
+  while (rounds.length < roundCount) {
+    const firstWeek = rounds[0]?.[0] ?? 15
+    rounds.unshift([firstWeek - 1])
+  }
+  return rounds
+}
+
+/**
+ * Seed order of bracket slots so that, without upsets, the top seeds meet last
+ * e.g. 8 slots -> [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+function standardBracketOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const nextSize = order.length * 2
+    order = order.flatMap(seed => [seed, nextSize + 1 - seed])
+  }
+  return order
+}
+
+function playPair(
+  a: BracketSeed,
+  b: BracketSeed,
+  round: number,
+  weeks: number[],
+  play: PlayBracketGame
+): BracketGame {
+  const [high, low] = a.seed < b.seed ? [a, b] : [b, a]
+  return { round, weeks, high, low, winner: play(high, low, weeks) }
+}
+
+/**
+ * Play a seeded field through the bracket
+ * seeds must be sorted best first; seeds beyond the field size get byes in round 1
+ */
+export function simulateBracket(
+  seeds: BracketSeed[],
+  config: PlayoffBracketConfig,
+  play: PlayBracketGame
+): BracketResult {
+  if (seeds.length === 0) return { games: [], champion: null }
+  if (seeds.length === 1) return { games: [], champion: seeds[0] }
+
+  const roundCount = getRoundCount(seeds.length)
+  const roundWeeks = getRoundWeeks(config, roundCount)
+  const games: BracketGame[] = []
+
+  if (!config.reseed) {
+    // Fixed bracket: winners follow their slot
+    let slots: Array<BracketSeed | null> = standardBracketOrder(getBracketSize(seeds.length))
+      .map(seed => seeds[seed - 1] || null)
+
+    for (let round = 0; round < roundCount; round++) {
+      const nextSlots: Array<BracketSeed | null> = []
+      for (let i = 0; i < slots.length; i += 2) {
+        const a = slots[i]
+        const b = slots[i + 1]
+        if (a && b) {
+          const game = playPair(a, b, round, roundWeeks[round], play)
+          games.push(game)
+          nextSlots.push(game.winner)
+        } else if (a || b) {
+          const team = (a || b) as BracketSeed
+          games.push({ round, weeks: roundWeeks[round], high: team, low: null, winner: team })
+          nextSlots.push(team)
+        } else {
+          nextSlots.push(null)
+        }
+      }
+      slots = nextSlots
+    }
+
+    return { games, champion: slots[0] }
+  }
+
+  // Reseeding: best remaining seed plays the worst each round
+  const byes = getBracketSize(seeds.length) - seeds.length
+  let alive = [...seeds]
+
+  for (let round = 0; round < roundCount; round++) {
+    const weeks = roundWeeks[round]
+    const resting = round === 0 ? alive.slice(0, byes) : []
+    const playing = round === 0 ? alive.slice(byes) : alive
+    const winners: BracketSeed[] = []
+
+    resting.forEach(team => {
+      games.push({ round, weeks, high: team, low: null, winner: team })
+      winners.push(team)
+    })
+
+    for (let i = 0; i < playing.length / 2; i++) {
+      const game = playPair(playing[i], playing[playing.length - 1 - i], round, weeks, play)
+      games.push(game)
+      winners.push(game.winner)
+    }
+
+    alive = winners.sort((a, b) => a.seed - b.seed)
+  }
+
+  return { games, champion: alive[0] || null }
+}
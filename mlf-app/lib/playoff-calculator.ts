@@ -8,9 +8,33 @@ import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
 import type { DivisionsData } from '@/app/api/mfl/divisions/route'
 import {
   determinePlayoffSeeding,
+  type HeadToHeadRecords,
   type TeamRecord,
 } from './tiebreaker-utils'
+import { DEFAULT_TIEBREAKER_CHAIN, type TiebreakerChain } from './tiebreaker-rules'
 import { calculateMatchupWinProbability } from './schedule-strength'
+import { calculateEloWinProbability, ELO_BASE_RATING } from './elo-ratings'
+import { DEFAULT_SCORING_FORMAT, getResultsPerGame, type ScoringFormat } from './scoring-format'
+import { calculateMedian } from './luck-analytics'
+import { createSeededRandom, generateSeed, type RandomSource } from './random'
+import {
+  buildScoreProfiles,
+  sampleTeamScore,
+  DEFAULT_GAME_MODEL,
+  type GameModel,
+  type ScoreProfiles,
+} from './score-model'
+import {
+  simulateBracket,
+  getRoundCount,
+  getRoundNames,
+  getRoundWeeks,
+  type BracketGame,
+  type BracketResult,
+  type BracketSeed,
+} from './playoff-bracket'
+import { DEFAULT_PLAYOFF_BRACKET, type PlayoffBracketConfig } from './season-config'
+import type { TeamClinchStatus } from './clinch-solver'
 
 const SIMULATION_ITERATIONS = 10000 // Number of Monte Carlo simulations
 const RECENT_FORM_WEEKS = 3 // Weight last 3 weeks more heavily
@@ -25,9 +49,61 @@ export interface PlayoffProbabilities {
   eliminationNumber: number // Games needed for elimination
   magicNumber: number // Games needed to clinch (0 if clinched)
   clinchScenarios: string[] // Human-readable clinching scenarios
+  roundProbabilities: number[] // Chance of reaching each bracket round, byes included (0-100%)
+  championshipProbability: number // Chance of winning the title (0-100%)
   isEliminated: boolean // Deterministic mathematical elimination check
   eliminationReason?: string // Human-readable explanation of why eliminated
   eliminationDetails?: string[] // Detailed breakdown of elimination factors
+  clinch?: TeamClinchStatus // Exact status once few enough games remain (see applyClinchAnalysis)
+}
+
+/**
+ * Probabilities plus what is needed to reproduce them
+ */
+export interface PlayoffSimulation {
+  probabilities: PlayoffProbabilities[]
+  seed: number
+  iterations: number
+  gameModel: GameModel
+  bracket: ProjectedBracket | null
+}
+
+/**
+ * The most common playoff field across simulations, with its most common results
+ */
+export interface ProjectedBracket {
+  rounds: Array<{ name: string; weeks: number[] }>
+  seeds: BracketSeed[]
+  games: BracketGame[]
+  seedingProbability: number // % of simulations that produced exactly this field (0-100)
+  outcomeProbability: number // % of those simulations with these winners (0-100)
+}
+
+export interface SimulationOptions {
+  /** Defaults to score-distribution */
+  gameModel?: GameModel
+  /** Weekly scoring profiles (see buildScoreProfiles); derived from standings avgpf when omitted */
+  scoreProfiles?: ScoreProfiles
+  /** Ratings for the elo model (see buildEloRatings); unrated teams start at 1500 */
+  eloRatings?: Record<string, number>
+  /** Postseason structure (see getPlayoffBracketConfig); defaults to DEFAULT_PLAYOFF_BRACKET */
+  bracket?: PlayoffBracketConfig
+  /** Seeding tiebreakers (see getTiebreakerChain); defaults to DEFAULT_TIEBREAKER_CHAIN */
+  tiebreakers?: TiebreakerChain
+  /** Head-to-head results of games already played, for the head-to-head step */
+  headToHead?: HeadToHeadRecords
+  /** Median leagues also play the weekly median (see getScoringFormat); standings must already include it */
+  scoringFormat?: ScoringFormat
+  /**
+   * Weeks whose games are decided from profiles made for that week, whatever the model:
+   * live projected finals (toLiveScoreProfiles) or roster projections (toProjectionScoreProfiles)
+   */
+  weekProfiles?: WeekScoreProfiles[]
+}
+
+export interface WeekScoreProfiles {
+  week: number
+  profiles: ScoreProfiles
 }
 
 export interface SimulationResult {
@@ -39,19 +115,21 @@ export interface SimulationResult {
   madePlayoffs: boolean
   seed: number // 0 if missed playoffs
   isDivisionWinner: boolean
+  bracketRound: number // Furthest bracket round reached (0-based), -1 if missed playoffs
+  wonChampionship: boolean
 }
 
 /**
  * Simulate a single game outcome based on win probability
  */
-function simulateGame(winProbability: number): 'W' | 'L' {
-  const random = Math.random()
+function simulateGame(winProbability: number, random: RandomSource): 'W' | 'L' {
+  const roll = random()
 
   // Add variance (±10%) to make simulations less deterministic
-  const variance = (Math.random() - 0.5) * 0.2 // -0.1 to +0.1
+  const variance = (random() - 0.5) * 0.2 // -0.1 to +0.1
   const adjustedProbability = Math.max(0.05, Math.min(0.95, winProbability + variance))
 
-  return random < adjustedProbability ? 'W' : 'L'
+  return roll < adjustedProbability ? 'W' : 'L'
 }
 
 /**
@@ -79,30 +157,148 @@ function calculateRecentFormMultiplier(
 function runSingleSimulation(
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
-): SimulationResult[] {
+  divisionsData: DivisionsData,
+  random: RandomSource,
+  gameModel: GameModel,
+  scoreProfiles: ScoreProfiles,
+  bracketConfig: PlayoffBracketConfig,
+  tiebreakers: TiebreakerChain,
+  headToHead: HeadToHeadRecords,
+  eloRatings: Record<string, number>,
+  scoringFormat: ScoringFormat,
+  weekProfiles: Map<number, ScoreProfiles>
+): { results: SimulationResult[]; bracket: BracketResult } {
   // Initialize simulation state for each team
-  const simulatedStandings: Record<string, {
-    wins: number
-    losses: number
-    ties: number
-    pointsFor: number
-    pointsAgainst: number
-  }> = {}
+  const simulatedStandings: Record<string, Required<Omit<TeamRecord, 'franchiseId' | 'opponentPointsFor'>>> = {}
 
   standings.forEach(team => {
+    const [divWins, divLosses, divTies] = team.divwlt.split('-').map(part => parseInt(part) || 0)
+
     simulatedStandings[team.id] = {
       wins: parseInt(team.h2hw) || 0,
       losses: parseInt(team.h2hl) || 0,
       ties: parseInt(team.h2ht) || 0,
       pointsFor: parseFloat(team.pf) || 0,
       pointsAgainst: parseFloat(team.pa) || 0,
+      divisionWins: divWins || 0,
+      divisionLosses: divLosses || 0,
+      divisionTies: divTies || 0,
+      headToHeadWins: { ...headToHead[team.id]?.wins },
+      headToHeadLosses: { ...headToHead[team.id]?.losses },
+      allPlayWins: parseInt(team.all_play_w || '') || 0,
+      allPlayLosses: parseInt(team.all_play_l || '') || 0,
+      allPlayTies: parseInt(team.all_play_t || '') || 0,
+      victoryPoints: parseFloat(team.vp || '') || 0,
     }
   })
 
+  const eloWinProbability = (teamId: string, opponentId: string) => calculateEloWinProbability(
+    eloRatings[teamId] ?? ELO_BASE_RATING,
+    eloRatings[opponentId] ?? ELO_BASE_RATING
+  )
+
+  // Simulated scores by week, for all-play records
+  const weeklyPoints: Record<number, Array<{ teamId: string; points: number }>> = {}
+
+  const recordGame = (week: number, teamId: string, opponentId: string, teamPoints: number, oppPoints: number, result: 'W' | 'L' | 'T') => {
+    const team = simulatedStandings[teamId]
+    const opponent = simulatedStandings[opponentId]
+    const isDivisionGame = divisionsData.divisionMap[teamId] !== undefined &&
+      divisionsData.divisionMap[teamId] === divisionsData.divisionMap[opponentId]
+
+    // Victory points: the league's formula isn't in the feed, so a simulated win is worth one
+    if (result === 'W') {
+      team.wins++
+      opponent.losses++
+      team.victoryPoints++
+      team.headToHeadWins[opponentId] = (team.headToHeadWins[opponentId] || 0) + 1
+      opponent.headToHeadLosses[teamId] = (opponent.headToHeadLosses[teamId] || 0) + 1
+      if (isDivisionGame) {
+        team.divisionWins++
+        opponent.divisionLosses++
+      }
+    } else if (result === 'L') {
+      team.losses++
+      opponent.wins++
+      opponent.victoryPoints++
+      team.headToHeadLosses[opponentId] = (team.headToHeadLosses[opponentId] || 0) + 1
+      opponent.headToHeadWins[teamId] = (opponent.headToHeadWins[teamId] || 0) + 1
+      if (isDivisionGame) {
+        team.divisionLosses++
+        opponent.divisionWins++
+      }
+    } else {
+      team.ties++
+      opponent.ties++
+      team.victoryPoints += 0.5
+      opponent.victoryPoints += 0.5
+      if (isDivisionGame) {
+        team.divisionTies++
+        opponent.divisionTies++
+      }
+    }
+
+    team.pointsFor += teamPoints
+    opponent.pointsFor += oppPoints
+    team.pointsAgainst += oppPoints
+    opponent.pointsAgainst += teamPoints
+
+    if (!weeklyPoints[week]) weeklyPoints[week] = []
+    weeklyPoints[week].push({ teamId, points: teamPoints }, { teamId: opponentId, points: oppPoints })
+  }
+
+  // Each game appears in both teams' schedules - only play it once
+  const playedGames = new Set<string>()
+
   // Simulate remaining games for each team
   schedules.forEach(schedule => {
     schedule.remainingGames.forEach(game => {
+      if (!simulatedStandings[schedule.franchiseId] || !simulatedStandings[game.opponentId]) return
+
+      const gameKey = `${game.week}-${[schedule.franchiseId, game.opponentId].sort().join('-')}`
+      if (playedGames.has(gameKey)) return
+      playedGames.add(gameKey)
+
+      const teamWeekProfile = weekProfiles.get(game.week)?.[schedule.franchiseId]
+      const opponentWeekProfile = weekProfiles.get(game.week)?.[game.opponentId]
+      if (teamWeekProfile && opponentWeekProfile) {
+        // A projection made for this week beats the season-long model
+        const teamPoints = sampleTeamScore(teamWeekProfile, random)
+        const oppPoints = sampleTeamScore(opponentWeekProfile, random)
+        const result = teamPoints > oppPoints ? 'W' : teamPoints < oppPoints ? 'L' : 'T'
+
+        recordGame(game.week, schedule.franchiseId, game.opponentId, teamPoints, oppPoints, result)
+        return
+      }
+
+      if (gameModel === 'score-distribution') {
+        // Decide the game from sampled scores so PF/PA follow the result
+        const teamPoints = sampleTeamScore(scoreProfiles[schedule.franchiseId], random)
+        const oppPoints = sampleTeamScore(scoreProfiles[game.opponentId], random)
+        const result = teamPoints > oppPoints ? 'W' : teamPoints < oppPoints ? 'L' : 'T'
+
+        recordGame(game.week, schedule.franchiseId, game.opponentId, teamPoints, oppPoints, result)
+        return
+      }
+
+      if (gameModel === 'elo') {
+        // Ratings pick the winner; sampled scores keep PF/PA realistic and the winner takes the higher one
+        const teamWins = random() < eloWinProbability(schedule.franchiseId, game.opponentId)
+        const first = sampleTeamScore(scoreProfiles[schedule.franchiseId], random)
+        const second = sampleTeamScore(scoreProfiles[game.opponentId], random)
+        const [winnerPoints, loserPoints] = first >= second ? [first, second] : [second, first]
+
+        recordGame(
+          game.week,
+          schedule.franchiseId,
+          game.opponentId,
+          teamWins ? winnerPoints : loserPoints,
+          teamWins ? loserPoints : winnerPoints,
+          teamWins ? 'W' : 'L'
+        )
+        return
+      }
+
       const recentForm = calculateRecentFormMultiplier(schedule.franchiseId, standings)
       const winProbability = calculateMatchupWinProbability(
         schedule.franchiseId,
@@ -111,67 +307,89 @@ function runSingleSimulation(
         recentForm
       )
 
-      const result = simulateGame(winProbability)
-
-      // Update standings for both teams
-      if (result === 'W') {
-        simulatedStandings[schedule.franchiseId].wins++
-        simulatedStandings[game.opponentId].losses++
-
-        // Estimate points (use average ± 10%)
-        const teamAvgPts = parseFloat(standings.find(s => s.id === schedule.franchiseId)?.avgpf || '0') || 0
-        const oppAvgPts = parseFloat(standings.find(s => s.id === game.opponentId)?.avgpf || '0') || 0
-
-        const teamPoints = teamAvgPts * (0.9 + Math.random() * 0.2)
-        const oppPoints = oppAvgPts * (0.9 + Math.random() * 0.2)
+      const result = simulateGame(winProbability, random)
 
-        simulatedStandings[schedule.franchiseId].pointsFor += teamPoints
-        simulatedStandings[game.opponentId].pointsFor += oppPoints
-        simulatedStandings[schedule.franchiseId].pointsAgainst += oppPoints
-        simulatedStandings[game.opponentId].pointsAgainst += teamPoints
-      } else {
-        simulatedStandings[schedule.franchiseId].losses++
-        simulatedStandings[game.opponentId].wins++
+      // Estimate points (use average ± 10%) - independent of the result
+      const teamAvgPts = parseFloat(standings.find(s => s.id === schedule.franchiseId)?.avgpf || '0') || 0
+      const oppAvgPts = parseFloat(standings.find(s => s.id === game.opponentId)?.avgpf || '0') || 0
 
-        // Estimate points
-        const teamAvgPts = parseFloat(standings.find(s => s.id === schedule.franchiseId)?.avgpf || '0') || 0
-        const oppAvgPts = parseFloat(standings.find(s => s.id === game.opponentId)?.avgpf || '0') || 0
+      const teamPoints = teamAvgPts * (0.9 + random() * 0.2)
+      const oppPoints = oppAvgPts * (0.9 + random() * 0.2)
 
-        const teamPoints = teamAvgPts * (0.9 + Math.random() * 0.2)
-        const oppPoints = oppAvgPts * (0.9 + Math.random() * 0.2)
+      recordGame(game.week, schedule.franchiseId, game.opponentId, teamPoints, oppPoints, result)
+    })
+  })
 
-        simulatedStandings[schedule.franchiseId].pointsFor += teamPoints
-        simulatedStandings[game.opponentId].pointsFor += oppPoints
-        simulatedStandings[schedule.franchiseId].pointsAgainst += oppPoints
-        simulatedStandings[game.opponentId].pointsAgainst += teamPoints
-      }
+  // All-play: every simulated score against every other team's score that week
+  Object.values(weeklyPoints).forEach(scores => {
+    scores.forEach(({ teamId, points }) => {
+      const team = simulatedStandings[teamId]
+      scores.forEach(other => {
+        if (other.teamId === teamId) return
+        if (points > other.points) team.allPlayWins++
+        else if (points < other.points) team.allPlayLosses++
+        else team.allPlayTies++
+      })
     })
   })
 
+  // Median leagues: every simulated score also plays that week's median score
+  if (scoringFormat === 'median') {
+    Object.values(weeklyPoints).forEach(scores => {
+      const median = calculateMedian(scores.map(score => score.points))
+      scores.forEach(({ teamId, points }) => {
+        const team = simulatedStandings[teamId]
+        if (points > median) team.wins++
+        else if (points < median) team.losses++
+        else team.ties++
+      })
+    })
+  }
+
   // Convert simulated standings to TeamRecord format
-  const teamRecords: TeamRecord[] = standings.map(team => {
-    const simStanding = simulatedStandings[team.id]
-    const divRecordParts = team.divwlt.split('-')
-    const divWins = parseInt(divRecordParts[0]) || 0
-    const divLosses = parseInt(divRecordParts[1]) || 0
-    const divTies = parseInt(divRecordParts[2]) || 0
+  const teamRecords: TeamRecord[] = standings.map(team => ({
+    franchiseId: team.id,
+    ...simulatedStandings[team.id],
+    // Only leagues whose standings report all-play records or victory points can break ties on them
+    ...(team.all_play_w === undefined && { allPlayWins: undefined, allPlayLosses: undefined, allPlayTies: undefined }),
+    victoryPoints: team.vp !== undefined ? simulatedStandings[team.id].victoryPoints : undefined,
+    opponentPointsFor: 0, // Not needed for simulation
+  }))
 
-    return {
-      franchiseId: team.id,
-      wins: simStanding.wins,
-      losses: simStanding.losses,
-      ties: simStanding.ties,
-      pointsFor: simStanding.pointsFor,
-      pointsAgainst: simStanding.pointsAgainst,
-      divisionWins: divWins,
-      divisionLosses: divLosses,
-      divisionTies: divTies,
-      opponentPointsFor: 0, // Not needed for simulation
+  // Determine playoff seeding
+  const playoffSeeds = determinePlayoffSeeding(teamRecords, divisionsData.divisionMap, tiebreakers, random)
+
+  // Play the postseason with the same game model - byes and rounds from the bracket config
+  const bracketSeeds: BracketSeed[] = playoffSeeds
+    .map(s => ({ seed: s.seed, franchiseId: s.franchiseId }))
+    .sort((a, b) => a.seed - b.seed)
+
+  const bracket = simulateBracket(bracketSeeds, bracketConfig, (high, low, weeks) => {
+    if (gameModel === 'score-distribution') {
+      // Multi-week rounds are decided by combined score; the better seed wins a tie
+      let highPoints = 0
+      let lowPoints = 0
+      weeks.forEach(() => {
+        highPoints += sampleTeamScore(scoreProfiles[high.franchiseId], random)
+        lowPoints += sampleTeamScore(scoreProfiles[low.franchiseId], random)
+      })
+      return lowPoints > highPoints ? low : high
+    }
+
+    if (gameModel === 'elo') {
+      return random() < eloWinProbability(high.franchiseId, low.franchiseId) ? high : low
     }
+
+    const recentForm = calculateRecentFormMultiplier(high.franchiseId, standings)
+    const winProbability = calculateMatchupWinProbability(high.franchiseId, low.franchiseId, standings, recentForm)
+    return simulateGame(winProbability, random) === 'W' ? high : low
   })
 
-  // Determine playoff seeding
-  const playoffSeeds = determinePlayoffSeeding(teamRecords, divisionsData.divisionMap)
+  const furthestRound: Record<string, number> = {}
+  bracket.games.forEach(game => {
+    furthestRound[game.high.franchiseId] = game.round
+    if (game.low) furthestRound[game.low.franchiseId] = game.round
+  })
 
   // Build simulation results
   const results: SimulationResult[] = standings.map(team => {
@@ -187,22 +405,28 @@ function runSingleSimulation(
       madePlayoffs: seed !== undefined,
       seed: seed?.seed || 0,
       isDivisionWinner: seed?.isDivisionWinner || false,
+      bracketRound: furthestRound[team.id] ?? -1,
+      wonChampionship: bracket.champion?.franchiseId === team.id,
     }
   })
 
-  return results
+  return { results, bracket }
 }
 
 /**
  * Deterministically check if a team is mathematically eliminated from playoffs
  * Returns elimination status with detailed reasoning
+ * In median leagues each remaining game is worth up to two wins
  */
 export function isTeamMathematicallyEliminated(
   franchiseId: string,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
+  divisionsData: DivisionsData,
+  scoringFormat: ScoringFormat = DEFAULT_SCORING_FORMAT
 ): { isEliminated: boolean; reason: string; details: string[] } {
+  const resultsPerGame = getResultsPerGame(scoringFormat)
+
   const team = standings.find(s => s.id === franchiseId)
   if (!team) {
     return {
@@ -217,7 +441,7 @@ export function isTeamMathematicallyEliminated(
   const currentTies = parseInt(team.h2ht) || 0
   const teamSchedule = schedules.find(s => s.franchiseId === franchiseId)
   const remainingGames = teamSchedule?.remainingGames.length || 0
-  const maxPossibleWins = currentWins + remainingGames
+  const maxPossibleWins = currentWins + remainingGames * resultsPerGame
   const currentPointsFor = parseFloat(team.pf) || 0
   const avgPointsPerGame = parseFloat(team.avgpf) || 0
   const maxPossiblePointsFor = currentPointsFor + (avgPointsPerGame * remainingGames)
@@ -247,7 +471,7 @@ export function isTeamMathematicallyEliminated(
     const leaderWins = parseInt(divisionLeader.h2hw) || 0
     const leaderLosses = parseInt(divisionLeader.h2hl) || 0
     const leaderSchedule = schedules.find(s => s.franchiseId === divisionLeader.id)
-    const leaderMaxWins = leaderWins + (leaderSchedule?.remainingGames.length || 0)
+    const leaderMaxWins = leaderWins + (leaderSchedule?.remainingGames.length || 0) * resultsPerGame
 
     if (maxPossibleWins < leaderWins) {
       canWinDivision = false
@@ -270,7 +494,7 @@ export function isTeamMathematicallyEliminated(
     const wins = parseInt(s.h2hw) || 0
     const schedule = schedules.find(sch => sch.franchiseId === s.id)
     const remaining = schedule?.remainingGames.length || 0
-    const maxWins = wins + remaining
+    const maxWins = wins + remaining * resultsPerGame
     const pf = parseFloat(s.pf) || 0
     const avgpf = parseFloat(s.avgpf) || 0
     const maxPF = pf + (avgpf * remaining)
@@ -354,14 +578,27 @@ export function isTeamMathematicallyEliminated(
 
 /**
  * Run Monte Carlo simulation to calculate playoff probabilities
+ * The same seed, inputs and iteration count always produce the same probabilities
  */
 export function calculatePlayoffProbabilities(
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
   divisionsData: DivisionsData,
-  iterations: number = SIMULATION_ITERATIONS
-): PlayoffProbabilities[] {
-  console.log(`Starting Monte Carlo simulation with ${iterations} iterations...`)
+  iterations: number = SIMULATION_ITERATIONS,
+  seed: number = generateSeed(),
+  options: SimulationOptions = {}
+): PlayoffSimulation {
+  const gameModel = options.gameModel ?? DEFAULT_GAME_MODEL
+  console.log(`Starting Monte Carlo simulation with ${iterations} iterations (seed ${seed}, ${gameModel} model)...`)
+
+  const random = createSeededRandom(seed)
+  const scoreProfiles = { ...buildScoreProfiles(standings), ...options.scoreProfiles }
+  const bracketConfig = options.bracket ?? DEFAULT_PLAYOFF_BRACKET
+  const tiebreakers = options.tiebreakers ?? DEFAULT_TIEBREAKER_CHAIN
+  const headToHead = options.headToHead ?? {}
+  const eloRatings = options.eloRatings ?? {}
+  const scoringFormat = options.scoringFormat ?? DEFAULT_SCORING_FORMAT
+  const weekProfiles = new Map((options.weekProfiles ?? []).map(entry => [entry.week, entry.profiles]))
 
   // Initialize probability tracking
   const probabilityData: Record<string, {
@@ -370,6 +607,8 @@ export function calculatePlayoffProbabilities(
     wildcardCount: number
     seedCounts: number[] // [seed1, seed2, ..., seed6]
     totalSeed: number
+    roundCounts: number[] // Times each bracket round was reached
+    championshipCount: number
   }> = {}
 
   standings.forEach(team => {
@@ -379,14 +618,53 @@ export function calculatePlayoffProbabilities(
       wildcardCount: 0,
       seedCounts: [0, 0, 0, 0, 0, 0],
       totalSeed: 0,
+      roundCounts: [],
+      championshipCount: 0,
     }
   })
 
+  // Tally playoff fields, then the results within each field, to find the most likely bracket
+  const bracketTallies = new Map<string, BracketTally>()
+  let roundCount = 0
+
   // Run simulations
   for (let i = 0; i < iterations; i++) {
-    const results = runSingleSimulation(standings, schedules, divisionsData)
+    const { results, bracket } = runSingleSimulation(
+      standings,
+      schedules,
+      divisionsData,
+      random,
+      gameModel,
+      scoreProfiles,
+      bracketConfig,
+      tiebreakers,
+      headToHead,
+      eloRatings,
+      scoringFormat,
+      weekProfiles
+    )
+
+    const fieldSeeds = bracket.games
+      .flatMap(game => game.round === 0 ? [game.high, ...(game.low ? [game.low] : [])] : [])
+      .sort((a, b) => a.seed - b.seed)
+    roundCount = Math.max(roundCount, getRoundCount(fieldSeeds.length))
+
+    const fieldKey = fieldSeeds.map(s => s.franchiseId).join(',')
+    const outcomeKey = bracket.games.map(game => game.winner.franchiseId).join(',')
+    const fieldTally = bracketTallies.get(fieldKey) ?? { count: 0, seeds: fieldSeeds, outcomes: new Map() }
+    const outcomeTally = fieldTally.outcomes.get(outcomeKey) ?? { count: 0, games: bracket.games }
+    fieldTally.count++
+    outcomeTally.count++
+    fieldTally.outcomes.set(outcomeKey, outcomeTally)
+    bracketTallies.set(fieldKey, fieldTally)
 
     results.forEach(result => {
+      const data = probabilityData[result.franchiseId]
+      for (let round = 0; round <= result.bracketRound; round++) {
+        data.roundCounts[round] = (data.roundCounts[round] || 0) + 1
+      }
+      if (result.wonChampionship) data.championshipCount++
+
       if (result.madePlayoffs) {
         probabilityData[result.franchiseId].playoffCount++
 
@@ -420,17 +698,21 @@ export function calculatePlayoffProbabilities(
     const wildcardProbability = (data.wildcardCount / iterations) * 100
 
     const seedProbabilities = data.seedCounts.map(count => (count / iterations) * 100)
+    const roundProbabilities = Array.from({ length: roundCount }, (_, round) =>
+      ((data.roundCounts[round] || 0) / iterations) * 100
+    )
+    const championshipProbability = (data.championshipCount / iterations) * 100
     const averageSeed = data.playoffCount > 0 ? data.totalSeed / data.playoffCount : 0
 
-    // Calculate magic number and elimination number
+    // Calculate magic number and elimination number (in results, two a game in median leagues)
     const teamSchedule = schedules.find(s => s.franchiseId === team.id)
-    const remainingGames = teamSchedule?.remainingGames.length || 0
+    const remainingGames = (teamSchedule?.remainingGames.length || 0) * getResultsPerGame(scoringFormat)
 
     // Run deterministic elimination check
-    const eliminationCheck = isTeamMathematicallyEliminated(team.id, standings, schedules, divisionsData)
+    const eliminationCheck = isTeamMathematicallyEliminated(team.id, standings, schedules, divisionsData, scoringFormat)
 
-    const magicNumber = calculateMagicNumber(team.id, standings, schedules, divisionsData, playoffProbability)
-    const eliminationNumber = calculateEliminationNumber(team.id, standings, schedules, playoffProbability)
+    const magicNumber = calculateMagicNumber(team.id, standings, schedules, divisionsData, playoffProbability, scoringFormat)
+    const eliminationNumber = calculateEliminationNumber(team.id, standings, schedules, playoffProbability, scoringFormat)
 
     // Generate clinching scenarios
     const clinchScenarios = generateClinchScenarios(
@@ -450,6 +732,8 @@ export function calculatePlayoffProbabilities(
       eliminationNumber,
       magicNumber,
       clinchScenarios,
+      roundProbabilities,
+      championshipProbability,
       isEliminated: eliminationCheck.isEliminated,
       eliminationReason: eliminationCheck.reason,
       eliminationDetails: eliminationCheck.details,
@@ -459,7 +743,51 @@ export function calculatePlayoffProbabilities(
   // Sort by playoff probability (descending)
   playoffProbabilities.sort((a, b) => b.playoffProbability - a.playoffProbability)
 
-  return playoffProbabilities
+  return {
+    probabilities: playoffProbabilities,
+    seed,
+    iterations,
+    gameModel,
+    bracket: buildProjectedBracket(bracketTallies, bracketConfig, iterations)
+  }
+}
+
+interface BracketTally {
+  count: number
+  seeds: BracketSeed[]
+  outcomes: Map<string, { count: number; games: BracketGame[] }>
+}
+
+/**
+ * Pick the most common playoff field and its most common set of results
+ */
+function buildProjectedBracket(
+  tallies: Map<string, BracketTally>,
+  bracketConfig: PlayoffBracketConfig,
+  iterations: number
+): ProjectedBracket | null {
+  const field = Array.from(tallies.values()).reduce<BracketTally | null>(
+    (best, tally) => (!best || tally.count > best.count ? tally : best),
+    null
+  )
+  if (!field || field.seeds.length < 2) return null
+
+  const outcome = Array.from(field.outcomes.values()).reduce<{ count: number; games: BracketGame[] } | null>(
+    (best, tally) => (!best || tally.count > best.count ? tally : best),
+    null
+  )
+  if (!outcome) return null
+
+  const roundCount = getRoundCount(field.seeds.length)
+  const roundWeeks = getRoundWeeks(bracketConfig, roundCount)
+
+  return {
+    rounds: getRoundNames(roundCount).map((name, round) => ({ name, weeks: roundWeeks[round] })),
+    seeds: field.seeds,
+    games: outcome.games,
+    seedingProbability: (field.count / iterations) * 100,
+    outcomeProbability: (outcome.count / field.count) * 100
+  }
 }
 
 /**
@@ -471,7 +799,8 @@ function calculateMagicNumber(
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
   divisionsData: DivisionsData,
-  playoffProbability: number
+  playoffProbability: number,
+  scoringFormat: ScoringFormat
 ): number {
   // If already clinched (99.9%+), magic number is 0
   if (playoffProbability >= 99.9) return 0
@@ -479,9 +808,10 @@ function calculateMagicNumber(
   const team = standings.find(s => s.id === franchiseId)
   if (!team) return 99
 
+  const resultsPerGame = getResultsPerGame(scoringFormat)
   const currentWins = parseInt(team.h2hw) || 0
   const teamSchedule = schedules.find(s => s.franchiseId === franchiseId)
-  const remainingGames = teamSchedule?.remainingGames.length || 0
+  const remainingGames = (teamSchedule?.remainingGames.length || 0) * resultsPerGame
 
   // If eliminated (< 1%), magic number is impossible
   if (playoffProbability < 1.0 || remainingGames === 0) return 99
@@ -498,7 +828,7 @@ function calculateMagicNumber(
   const seventhPlace = allTeams[6] // 0-indexed, so 6 is 7th place
   if (!seventhPlace) return 1 // Not enough teams
 
-  const seventhPlaceMaxWins = seventhPlace.wins + (seventhPlace.schedule?.remainingGames.length || 0)
+  const seventhPlaceMaxWins = seventhPlace.wins + (seventhPlace.schedule?.remainingGames.length || 0) * resultsPerGame
 
   // Magic number is wins needed to guarantee finishing ahead of 7th place
   // We need to win enough games that 7th place can't catch us
@@ -516,7 +846,8 @@ function calculateEliminationNumber(
   franchiseId: string,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  playoffProbability: number
+  playoffProbability: number,
+  scoringFormat: ScoringFormat
 ): number {
   // If already clinched, can't be eliminated
   if (playoffProbability >= 99.9) return 99
@@ -527,7 +858,7 @@ function calculateEliminationNumber(
   const currentWins = parseInt(team.h2hw) || 0
   const currentLosses = parseInt(team.h2hl) || 0
   const teamSchedule = schedules.find(s => s.franchiseId === franchiseId)
-  const remainingGames = teamSchedule?.remainingGames.length || 0
+  const remainingGames = (teamSchedule?.remainingGames.length || 0) * getResultsPerGame(scoringFormat)
 
   // If already eliminated
   if (playoffProbability < 1.0) return 0
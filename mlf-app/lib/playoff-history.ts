@@ -1,8 +1,10 @@
 /**
- * Playoff History Tracking Utility
+ * Playoff History Types and Helpers
  *
- * Manages historical playoff probability data using localStorage to track
- * how each team's playoff odds change week-by-week throughout the season.
+ * Week-by-week playoff odds for each team. History is stored server-side and
+ * read through /api/mfl/playoff-history (see probability-snapshots.ts).
+ * Earlier versions kept it in each browser's localStorage; the legacy helpers
+ * below only exist to export that data for a one-time import.
  */
 
 export interface WeeklyProbabilitySnapshot {
@@ -34,175 +36,22 @@ export interface PlayoffHistoryData {
   }
 }
 
-const STORAGE_KEY = 'mfl_playoff_history'
-
-/**
- * Get all playoff history data from localStorage
- */
-export function getPlayoffHistory(): PlayoffHistoryData {
-  if (typeof window === 'undefined') return {}
-
-  try {
-    const data = localStorage.getItem(STORAGE_KEY)
-    return data ? JSON.parse(data) : {}
-  } catch (error) {
-    console.error('Error reading playoff history:', error)
-    return {}
-  }
-}
-
-/**
- * Save playoff history data to localStorage
- */
-function savePlayoffHistory(data: PlayoffHistoryData): void {
-  if (typeof window === 'undefined') return
-
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
-  } catch (error) {
-    console.error('Error saving playoff history:', error)
-  }
-}
-
-/**
- * Get playoff history for a specific team and year
- */
-export function getTeamHistory(
-  franchiseId: string,
+/** Response of GET /api/mfl/playoff-history */
+export interface PlayoffHistoryResponse {
+  leagueId: string
   year: number
-): TeamPlayoffHistory | null {
-  const history = getPlayoffHistory()
-  return history[year]?.[franchiseId] || null
-}
-
-/**
- * Add a new weekly snapshot to a team's playoff history
- */
-export function addWeeklySnapshot(
-  franchiseId: string,
-  franchiseName: string,
-  year: number,
-  week: number,
-  snapshot: Omit<WeeklyProbabilitySnapshot, 'week' | 'date'>
-): void {
-  const history = getPlayoffHistory()
-
-  // Initialize year and team if needed
-  if (!history[year]) {
-    history[year] = {}
-  }
-
-  if (!history[year][franchiseId]) {
-    history[year][franchiseId] = {
-      franchiseId,
-      franchiseName,
-      year,
-      snapshots: [],
-      lastUpdated: new Date().toISOString()
-    }
-  }
-
-  const teamHistory = history[year][franchiseId]
-
-  // Check if snapshot for this week already exists
-  const existingIndex = teamHistory.snapshots.findIndex(s => s.week === week)
-
-  const newSnapshot: WeeklyProbabilitySnapshot = {
-    week,
-    date: new Date().toISOString(),
-    ...snapshot
-  }
-
-  if (existingIndex >= 0) {
-    // Update existing snapshot
-    teamHistory.snapshots[existingIndex] = newSnapshot
-  } else {
-    // Add new snapshot and sort by week
-    teamHistory.snapshots.push(newSnapshot)
-    teamHistory.snapshots.sort((a, b) => a.week - b.week)
-  }
-
-  teamHistory.lastUpdated = new Date().toISOString()
-
-  savePlayoffHistory(history)
+  teams: Record<string, TeamPlayoffHistory>
 }
 
-/**
- * Batch update snapshots for multiple teams in a single week
- */
-export function batchUpdateSnapshots(
-  year: number,
-  week: number,
-  teams: Array<{
-    franchiseId: string
-    franchiseName: string
-    playoffProbability: number
-    divisionWinProbability: number
-    avgSeed: number
-    wins: number
-    losses: number
-    ties: number
-    pointsFor: number
-    gamesBack: number
-  }>
-): void {
-  const history = getPlayoffHistory()
-
-  if (!history[year]) {
-    history[year] = {}
-  }
-
-  teams.forEach(team => {
-    if (!history[year][team.franchiseId]) {
-      history[year][team.franchiseId] = {
-        franchiseId: team.franchiseId,
-        franchiseName: team.franchiseName,
-        year,
-        snapshots: [],
-        lastUpdated: new Date().toISOString()
-      }
-    }
-
-    const teamHistory = history[year][team.franchiseId]
-    const existingIndex = teamHistory.snapshots.findIndex(s => s.week === week)
-
-    const snapshot: WeeklyProbabilitySnapshot = {
-      week,
-      date: new Date().toISOString(),
-      playoffProbability: team.playoffProbability,
-      divisionWinProbability: team.divisionWinProbability,
-      avgSeed: team.avgSeed,
-      record: {
-        wins: team.wins,
-        losses: team.losses,
-        ties: team.ties
-      },
-      pointsFor: team.pointsFor,
-      gamesBack: team.gamesBack
-    }
-
-    if (existingIndex >= 0) {
-      teamHistory.snapshots[existingIndex] = snapshot
-    } else {
-      teamHistory.snapshots.push(snapshot)
-      teamHistory.snapshots.sort((a, b) => a.week - b.week)
-    }
-
-    teamHistory.lastUpdated = new Date().toISOString()
-  })
-
-  savePlayoffHistory(history)
-}
+const LEGACY_STORAGE_KEY = 'mfl_playoff_history'
 
 /**
- * Get probability change from previous week
+ * Get probability change from the week before
  */
 export function getProbabilityChange(
-  franchiseId: string,
-  year: number,
+  teamHistory: TeamPlayoffHistory | null | undefined,
   currentWeek: number
 ): number | null {
-  const teamHistory = getTeamHistory(franchiseId, year)
   if (!teamHistory || teamHistory.snapshots.length < 2) return null
 
   const currentSnapshot = teamHistory.snapshots.find(s => s.week === currentWeek)
@@ -214,47 +63,30 @@ export function getProbabilityChange(
 }
 
 /**
- * Get all history for a specific year
+ * History an earlier version saved in this browser, if any
  */
-export function getYearHistory(year: number): Record<string, TeamPlayoffHistory> {
-  const history = getPlayoffHistory()
-  return history[year] || {}
-}
+export function getLegacyPlayoffHistory(): PlayoffHistoryData {
+  if (typeof window === 'undefined') return {}
 
-/**
- * Clear all playoff history (useful for testing or reset)
- */
-export function clearPlayoffHistory(): void {
-  if (typeof window === 'undefined') return
-  localStorage.removeItem(STORAGE_KEY)
+  try {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY)
+    return data ? JSON.parse(data) : {}
+  } catch (error) {
+    console.error('Error reading playoff history:', error)
+    return {}
+  }
 }
 
 /**
- * Clear history for a specific year
+ * Whether this browser still holds history from an earlier version
  */
-export function clearYearHistory(year: number): void {
-  const history = getPlayoffHistory()
-  delete history[year]
-  savePlayoffHistory(history)
+export function hasLegacyPlayoffHistory(): boolean {
+  return Object.keys(getLegacyPlayoffHistory()).length > 0
 }
 
 /**
- * Export history as JSON for download/backup
+ * Export browser history as JSON, for POST /api/mfl/playoff-history?action=import
  */
 export function exportHistoryAsJson(): string {
-  return JSON.stringify(getPlayoffHistory(), null, 2)
-}
-
-/**
- * Import history from JSON backup
- */
-export function importHistoryFromJson(jsonString: string): boolean {
-  try {
-    const data = JSON.parse(jsonString)
-    savePlayoffHistory(data)
-    return true
-  } catch (error) {
-    console.error('Error importing playoff history:', error)
-    return false
-  }
+  return JSON.stringify(getLegacyPlayoffHistory(), null, 2)
 }
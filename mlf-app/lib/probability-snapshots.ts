@@ -0,0 +1,326 @@
+/**
+ * Playoff Probability Snapshots
+ *
+ * Weekly playoff odds stored in the database so every league member sees the
+ * same history. A week's odds are recomputed from MFL's schedule export as the
+ * standings stood after that week, so a week recorded late (backfill) matches
+ * one recorded on time. Season syncs record completed weeks automatically and
+ * re-record them after stat corrections; browser history exported from the old
+ * localStorage tracker can be imported once
+ */
+
+import { DatabaseService } from './database'
+import { MflClient } from './mfl-client'
+import { buildDivisionsData, calculateGamesBack } from './division-utils'
+import { buildWeekInputs, parseSeasonGames } from './playoff-backtest'
+import { calculatePlayoffProbabilities } from './playoff-calculator'
+import { calculateWinPercentage } from './tiebreaker-utils'
+import { getTiebreakerChain } from './tiebreaker-rules'
+import { getScoringFormat } from './scoring-format'
+import { DEFAULT_GAME_MODEL } from './score-model'
+import { deriveSeed } from './random'
+import {
+  getCurrentWeekForSeason,
+  getPlayoffBracketConfig,
+  getRegularSeasonEndWeek,
+  isSeasonComplete
+} from './season-config'
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+import type { DivisionsData, LeagueResponse } from '@/app/api/mfl/divisions/route'
+import type { PlayoffHistoryData, TeamPlayoffHistory } from './playoff-history'
+
+export type SnapshotSource = 'sync' | 'backfill' | 'import'
+
+export interface ProbabilitySnapshotRow {
+  leagueId: string
+  year: number
+  week: number
+  franchiseId: string
+  franchiseName: string
+  playoffProbability: number
+  divisionWinProbability: number
+  championshipProbability: number | null
+  avgSeed: number
+  wins: number
+  losses: number
+  ties: number
+  pointsFor: number
+  gamesBack: number
+  source: SnapshotSource
+  gameModel: string | null
+  iterations: number | null
+  seed: number | null
+}
+
+/** A row as read back from the probability_snapshots table */
+type StoredSnapshotRow = ProbabilitySnapshotRow & { updatedAt: Date }
+
+/**
+ * Read a stored source; unknown values are treated as sync runs
+ */
+function toSnapshotSource(source: string): SnapshotSource {
+  return source === 'backfill' || source === 'import' ? source : 'sync'
+}
+
+/**
+ * Stored snapshots for a season with their source parsed
+ */
+async function getStoredSnapshots(year: number, leagueId: string): Promise<StoredSnapshotRow[]> {
+  const rows = await DatabaseService.getProbabilitySnapshots(year, leagueId)
+  return rows.map(row => ({ ...row, source: toSnapshotSource(row.source) }))
+}
+
+/**
+ * Regular-season weeks whose games are over
+ */
+export function getCompletedWeeks(year: number): number[] {
+  const lastRegularWeek = getRegularSeasonEndWeek(year)
+  const lastCompleted = isSeasonComplete(year)
+    ? lastRegularWeek
+    : Math.min(lastRegularWeek, getCurrentWeekForSeason(year) - 1)
+  return Array.from({ length: Math.max(0, lastCompleted) }, (_, i) => i + 1)
+}
+
+/**
+ * Games behind each team's division leader
+ */
+function calculateGamesBackByTeam(standings: StandingsFranchise[], divisionsData: DivisionsData): Record<string, number> {
+  const gamesBack: Record<string, number> = {}
+
+  Object.values(divisionsData.divisionTeams).forEach(teamIds => {
+    const teams = standings
+      .filter(s => teamIds.includes(s.id))
+      .map(s => ({
+        id: s.id,
+        wins: parseInt(s.h2hw) || 0,
+        losses: parseInt(s.h2hl) || 0,
+        ties: parseInt(s.h2ht) || 0
+      }))
+    if (teams.length === 0) return
+
+    const leader = teams.reduce((best, team) =>
+      calculateWinPercentage(team.wins, team.losses, team.ties) > calculateWinPercentage(best.wins, best.losses, best.ties)
+        ? team
+        : best
+    )
+    teams.forEach(team => {
+      gamesBack[team.id] = Math.max(0, calculateGamesBack(team.wins, team.losses, leader.wins, leader.losses))
+    })
+  })
+
+  return gamesBack
+}
+
+/**
+ * Simulate playoff odds as they stood after each of the given weeks
+ * Weeks without any completed games are skipped
+ */
+export async function computeProbabilitySnapshots(
+  year: number,
+  leagueId: string,
+  weeks: number[],
+  source: SnapshotSource
+): Promise<ProbabilitySnapshotRow[]> {
+  const [schedule, league] = await Promise.all([
+    MflClient.schedule<ScheduleResponse>(year, leagueId),
+    MflClient.league<LeagueResponse>(year, leagueId)
+  ])
+
+  const lastRegularWeek = getRegularSeasonEndWeek(year)
+  const games = parseSeasonGames(schedule, lastRegularWeek)
+  const divisionsData = buildDivisionsData(league)
+  const tiebreakers = getTiebreakerChain(leagueId, year)
+  const scoringFormat = getScoringFormat(leagueId, year)
+  const bracket = getPlayoffBracketConfig(year)
+  const rows: ProbabilitySnapshotRow[] = []
+
+  for (const week of weeks) {
+    if (!games.some(game => game.week === week)) continue
+
+    const { standings, schedules, simulationOptions } = buildWeekInputs(games, divisionsData, week, lastRegularWeek, scoringFormat)
+
+    // Same seed the Playoff Projections view uses while week + 1 is underway
+    const simulation = calculatePlayoffProbabilities(
+      standings,
+      schedules,
+      divisionsData,
+      undefined,
+      deriveSeed(leagueId, year, week + 1),
+      { ...simulationOptions, gameModel: DEFAULT_GAME_MODEL, bracket, tiebreakers }
+    )
+    const gamesBack = calculateGamesBackByTeam(standings, divisionsData)
+
+    simulation.probabilities.forEach(p => {
+      const standing = standings.find(s => s.id === p.franchiseId)
+      rows.push({
+        leagueId,
+        year,
+        week,
+        franchiseId: p.franchiseId,
+        franchiseName: standing?.name || p.franchiseId,
+        playoffProbability: p.playoffProbability,
+        divisionWinProbability: p.divisionWinProbability,
+        championshipProbability: p.championshipProbability,
+        avgSeed: p.averageSeed,
+        wins: parseInt(standing?.h2hw || '0'),
+        losses: parseInt(standing?.h2hl || '0'),
+        ties: parseInt(standing?.h2ht || '0'),
+        pointsFor: parseFloat(standing?.pf || '0'),
+        gamesBack: gamesBack[p.franchiseId] ?? 0,
+        source,
+        gameModel: simulation.gameModel,
+        iterations: simulation.iterations,
+        seed: simulation.seed
+      })
+    })
+  }
+
+  return rows
+}
+
+/**
+ * Recompute and store snapshots for completed weeks
+ * Defaults to every completed week; fromWeek limits it to that week onwards
+ * (a stat correction changes the standings of every later week too)
+ */
+export async function recordProbabilitySnapshots(
+  year: number,
+  leagueId: string,
+  options: { weeks?: number[]; fromWeek?: number; source?: SnapshotSource } = {}
+): Promise<number[]> {
+  const { fromWeek = 1, source = 'sync' } = options
+  const completed = new Set(getCompletedWeeks(year))
+  const weeks = (options.weeks || Array.from(completed))
+    .filter(week => completed.has(week) && week >= fromWeek)
+
+  if (weeks.length === 0) return []
+
+  const rows = await computeProbabilitySnapshots(year, leagueId, weeks, source)
+  if (rows.length > 0) {
+    await DatabaseService.upsertProbabilitySnapshots(rows)
+  }
+
+  const recorded = Array.from(new Set(rows.map(row => row.week)))
+  console.log(`[Probability Snapshots] ${year} league ${leagueId}: recorded weeks ${recorded.join(',') || 'none'} (${source})`)
+  return recorded
+}
+
+/**
+ * Backfill completed weeks that have no snapshots yet
+ */
+export async function fillMissingProbabilitySnapshots(year: number, leagueId: string): Promise<number[]> {
+  const stored = await getStoredSnapshots(year, leagueId)
+  const storedWeeks = new Set(stored.map(row => row.week))
+  const missing = getCompletedWeeks(year).filter(week => !storedWeeks.has(week))
+
+  if (missing.length === 0) return []
+  return recordProbabilitySnapshots(year, leagueId, { weeks: missing, source: 'backfill' })
+}
+
+/**
+ * Stored snapshots for a season, grouped by team in the shape the chart reads
+ */
+export async function getStoredPlayoffHistory(
+  year: number,
+  leagueId: string
+): Promise<Record<string, TeamPlayoffHistory>> {
+  const rows = await getStoredSnapshots(year, leagueId)
+  const history: Record<string, TeamPlayoffHistory> = {}
+
+  rows.forEach(row => {
+    if (!history[row.franchiseId]) {
+      history[row.franchiseId] = {
+        franchiseId: row.franchiseId,
+        franchiseName: row.franchiseName,
+        year,
+        snapshots: [],
+        lastUpdated: row.updatedAt.toISOString()
+      }
+    }
+
+    const team = history[row.franchiseId]
+    // Latest name wins, in case a team was renamed mid-season
+    team.franchiseName = row.franchiseName
+    if (row.updatedAt.toISOString() > team.lastUpdated) {
+      team.lastUpdated = row.updatedAt.toISOString()
+    }
+    team.snapshots.push({
+      week: row.week,
+      date: row.updatedAt.toISOString(),
+      playoffProbability: row.playoffProbability,
+      divisionWinProbability: row.divisionWinProbability,
+      avgSeed: row.avgSeed,
+      record: { wins: row.wins, losses: row.losses, ties: row.ties },
+      pointsFor: row.pointsFor,
+      gamesBack: row.gamesBack
+    })
+  })
+
+  return history
+}
+
+/**
+ * Import history exported from the old browser tracker (exportHistoryAsJson)
+ * Weeks already in the database are kept unless overwrite is set, since
+ * recomputed odds are more trustworthy than whatever a browser saved
+ */
+export async function importLegacyPlayoffHistory(
+  data: PlayoffHistoryData,
+  leagueId: string,
+  options: { overwrite?: boolean } = {}
+): Promise<{ imported: number; skipped: number }> {
+  const rows: ProbabilitySnapshotRow[] = []
+  let skipped = 0
+
+  for (const [yearKey, teams] of Object.entries(data || {})) {
+    const year = parseInt(yearKey)
+    if (isNaN(year) || !teams || typeof teams !== 'object') continue
+
+    const stored = options.overwrite
+      ? []
+      : await getStoredSnapshots(year, leagueId)
+    const existing = new Set(stored.map(row => `${row.week}-${row.franchiseId}`))
+
+    Object.values(teams).forEach(team => {
+      (team?.snapshots || []).forEach(snapshot => {
+        if (typeof snapshot?.week !== 'number' || typeof snapshot.playoffProbability !== 'number') {
+          skipped++
+          return
+        }
+        if (existing.has(`${snapshot.week}-${team.franchiseId}`)) {
+          skipped++
+          return
+        }
+
+        rows.push({
+          leagueId,
+          year,
+          week: snapshot.week,
+          franchiseId: team.franchiseId,
+          franchiseName: team.franchiseName || team.franchiseId,
+          playoffProbability: snapshot.playoffProbability,
+          divisionWinProbability: snapshot.divisionWinProbability || 0,
+          championshipProbability: null,
+          avgSeed: snapshot.avgSeed || 0,
+          wins: snapshot.record?.wins || 0,
+          losses: snapshot.record?.losses || 0,
+          ties: snapshot.record?.ties || 0,
+          pointsFor: snapshot.pointsFor || 0,
+          gamesBack: snapshot.gamesBack || 0,
+          source: 'import',
+          gameModel: null,
+          iterations: null,
+          seed: null
+        })
+      })
+    })
+  }
+
+  if (rows.length > 0) {
+    await DatabaseService.upsertProbabilitySnapshots(rows)
+  }
+
+  console.log(`[Probability Snapshots] Imported ${rows.length} legacy snapshots for league ${leagueId} (${skipped} skipped)`)
+  return { imported: rows.length, skipped }
+}
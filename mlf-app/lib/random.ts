@@ -0,0 +1,46 @@
+/**
+ * Seeded Random Numbers
+ * Deterministic PRNG for Monte Carlo simulations so a given seed reproduces
+ * the same probabilities on every run (and in tests)
+ */
+
+/** Returns a float in [0, 1), like Math.random */
+export type RandomSource = () => number
+
+/**
+ * Create a mulberry32 generator - fast, 32-bit state, good enough for simulations
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a fresh seed for callers that don't supply one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+/**
+ * Derive a stable seed from arbitrary parts (FNV-1a hash)
+ * e.g. deriveSeed(leagueId, year, week) gives the same seed for the same standings snapshot
+ */
+export function deriveSeed(...parts: Array<string | number>): number {
+  let hash = 0x811C9DC5
+  const input = parts.join('|')
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
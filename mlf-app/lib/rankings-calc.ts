@@ -1,4 +1,5 @@
 import { Team } from './mfl'
+import type { TeamLuckSummary } from './luck-analytics'
 
 export interface TeamRanking {
   teamId: string
@@ -166,7 +167,83 @@ export function calculateTotalPointsRankings(teams: Team[]): TeamRanking[] {
   }))
 }
 
-export function getAllRankingCategories(teams: Team[]): RankingCategory[] {
+/**
+ * Rank teams by a figure from their weekly matchups; teams without matchup data are left out
+ * luck is keyed by `${franchiseId}-${year}` (see buildLuckLookup)
+ */
+function calculateLuckRankings(
+  teams: Team[],
+  luck: Record<string, TeamLuckSummary>,
+  pick: (summary: TeamLuckSummary) => number
+): TeamRanking[] {
+  const rankings = teams
+    .filter(team => luck[`${team.id}-${team.year}`])
+    .map(team => ({
+      teamId: team.id,
+      teamName: team.teamName,
+      manager: team.manager,
+      rank: 0,
+      value: pick(luck[`${team.id}-${team.year}`])
+    }))
+
+  rankings.sort((a, b) => b.value - a.value)
+  return rankings.map((ranking, index) => ({
+    ...ranking,
+    rank: index + 1
+  }))
+}
+
+export function calculateAllPlayRankings(teams: Team[], luck: Record<string, TeamLuckSummary>): TeamRanking[] {
+  return calculateLuckRankings(teams, luck, summary => summary.allPlayWinPercentage * 100)
+}
+
+export function calculateExpectedWinsRankings(teams: Team[], luck: Record<string, TeamLuckSummary>): TeamRanking[] {
+  return calculateLuckRankings(teams, luck, summary => summary.expectedWins)
+}
+
+export function calculateLuckIndexRankings(teams: Team[], luck: Record<string, TeamLuckSummary>): TeamRanking[] {
+  return calculateLuckRankings(teams, luck, summary => summary.luck)
+}
+
+export function calculateMedianRecordRankings(teams: Team[], luck: Record<string, TeamLuckSummary>): TeamRanking[] {
+  return calculateLuckRankings(teams, luck, summary => summary.medianWinPercentage * 100)
+}
+
+/**
+ * Categories built from weekly matchups; empty until matchup data is loaded
+ */
+export function getLuckRankingCategories(teams: Team[], luck: Record<string, TeamLuckSummary>): RankingCategory[] {
+  if (Object.keys(luck).length === 0) return []
+
+  return [
+    {
+      id: 'all-play',
+      name: 'All-Play',
+      description: 'Record if every team played every other team each week',
+      rankings: calculateAllPlayRankings(teams, luck)
+    },
+    {
+      id: 'expected-wins',
+      name: 'Expected Wins',
+      description: 'Wins an average schedule would have produced (all-play win rate each week, summed)',
+      rankings: calculateExpectedWinsRankings(teams, luck)
+    },
+    {
+      id: 'luck',
+      name: 'Luck Index',
+      description: 'Actual wins minus expected wins - positive means the schedule helped',
+      rankings: calculateLuckIndexRankings(teams, luck)
+    },
+    {
+      id: 'median',
+      name: 'vs Median',
+      description: 'Record against the league median score each week',
+      rankings: calculateMedianRecordRankings(teams, luck)
+    }
+  ]
+}
+
+export function getAllRankingCategories(teams: Team[], luck: Record<string, TeamLuckSummary> = {}): RankingCategory[] {
   return [
     {
       id: 'power',
@@ -209,7 +286,8 @@ export function getAllRankingCategories(teams: Team[]): RankingCategory[] {
       name: 'Point Differential',
       description: 'Points for minus points against',
       rankings: calculatePointDifferentialRankings(teams)
-    }
+    },
+    ...getLuckRankingCategories(teams, luck)
   ]
 }
 
@@ -232,7 +310,13 @@ export function formatRankingValue(value: number, categoryId: string): string {
       return value.toFixed(1)
     case 'wins':
     case 'efficiency':
+    case 'all-play':
+    case 'median':
       return value.toFixed(1) + '%'
+    case 'expected-wins':
+      return value.toFixed(1)
+    case 'luck':
+      return (value >= 0 ? '+' : '') + value.toFixed(1)
     case 'total':
     case 'offense':
     case 'defense':
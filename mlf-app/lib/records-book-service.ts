@@ -0,0 +1,124 @@
+/**
+ * Records Book Service
+ * Loads every season stored in the database for the records book in
+ * records-book.ts. Owners come from the owner registry; playoff results come
+ * from MFL's championship bracket, with divisions from the league export to
+ * rebuild the playoffs of seasons without one
+ */
+
+import { DatabaseService } from './database'
+import { MflClient } from './mfl-client'
+import { getOwnerId, getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
+import { buildDivisionsData } from './division-utils'
+import { fetchChampionshipBracket } from './playoff-bracket-service'
+import { getTiebreakerChain } from './tiebreaker-rules'
+import { getScoringFormat } from './scoring-format'
+import { getPlayoffBracketConfig, getRegularSeasonEndWeek, isSeasonComplete } from './season-config'
+import { buildRecordsBook, type RecordsBook, type RecordsBookSeason } from './records-book'
+import type { SeasonGame } from './playoff-backtest'
+import type { LeagueResponse } from '@/app/api/mfl/divisions/route'
+
+interface StoredTeamRow {
+  franchiseId: string
+  year: number
+  teamName: string
+}
+
+interface StoredResultRow {
+  year: number
+  week: number
+  franchiseId: string
+  opponentId: string | null
+  score: number
+  opponentScore: number
+  result: string
+}
+
+interface StarterTotalRow {
+  year: number
+  week: number
+  franchiseId: string
+  score: number
+}
+
+/**
+ * Every stored season, with brackets and divisions from MFL where available
+ */
+export async function loadRecordsBookSeasons(leagueId: string): Promise<RecordsBookSeason[]> {
+  const [storedSeasons, results, starterTotalRows] = await Promise.all([
+    DatabaseService.getSeasons(leagueId),
+    DatabaseService.getAllSeasonResults(leagueId),
+    DatabaseService.getStarterWeekTotals(leagueId),
+    loadOwnerRegistry(leagueId)
+  ])
+  const years: number[] = storedSeasons.map((season: { year: number }) => season.year)
+  const teams: StoredTeamRow[] = results.teams
+  const weeklyResults: StoredResultRow[] = results.weeklyResults
+  const starterTotals: StarterTotalRow[] = starterTotalRows
+
+  const [leagues, brackets] = await Promise.all([
+    Promise.allSettled(years.map(year => MflClient.league<LeagueResponse>(year, leagueId))),
+    Promise.allSettled(years.map(year => isSeasonComplete(year) ? fetchChampionshipBracket(year, leagueId) : null))
+  ])
+
+  return years.map((year, index) => {
+    const league = leagues[index]
+    const bracket = brackets[index]
+    if (bracket.status === 'rejected') {
+      console.warn(`[Records Book] Could not load the ${year} bracket, rebuilding its playoffs:`, bracket.reason)
+    }
+    const playoffBracket = bracket.status === 'fulfilled' ? bracket.value : null
+    if (league.status === 'rejected' && !playoffBracket) {
+      console.warn(`[Records Book] No bracket or divisions for ${year}, skipping its playoff results:`, league.reason)
+    }
+
+    const games: SeasonGame[] = weeklyResults
+      .filter(row => row.year === year && row.opponentId)
+      .map(row => ({
+        week: row.week,
+        franchiseId: row.franchiseId,
+        opponentId: row.opponentId as string,
+        score: row.score,
+        opponentScore: row.opponentScore,
+        result: row.result as SeasonGame['result']
+      }))
+
+    const weeklyScores: RecordsBookSeason['weeklyScores'] = {}
+    starterTotals
+      .filter(row => row.year === year)
+      .forEach(row => {
+        if (!weeklyScores[row.franchiseId]) weeklyScores[row.franchiseId] = {}
+        weeklyScores[row.franchiseId][row.week] = row.score
+      })
+
+    return {
+      year,
+      teams: teams
+        .filter(team => team.year === year)
+        .map(team => ({
+          franchiseId: team.franchiseId,
+          teamName: team.teamName,
+          owner: getOwnerName(team.franchiseId, year, leagueId),
+          ownerId: getOwnerId(team.franchiseId, year, leagueId)
+        })),
+      games,
+      weeklyScores,
+      lastRegularWeek: getRegularSeasonEndWeek(year),
+      complete: isSeasonComplete(year),
+      divisionsData: league.status === 'fulfilled' ? buildDivisionsData(league.value) : null,
+      tiebreakers: getTiebreakerChain(leagueId, year),
+      scoringFormat: getScoringFormat(leagueId, year),
+      bracket: getPlayoffBracketConfig(year),
+      playoffBracket
+    }
+  })
+}
+
+/**
+ * Records book across every stored season
+ */
+export async function getRecordsBook(leagueId: string): Promise<RecordsBook> {
+  const seasons = await loadRecordsBookSeasons(leagueId)
+  return buildRecordsBook(seasons)
+}
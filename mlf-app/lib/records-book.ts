@@ -0,0 +1,512 @@
+/**
+ * All-Time Records Book
+ * League records across every stored season, followed by owner (the owner
+ * registry's ID) rather than franchise ID so a manager's history survives ID,
+ * team-name and owner-name changes. Playoff fields, games and champions come
+ * from MFL's championship bracket; seasons without one are rebuilt from the
+ * regular-season standings and the bracket config, with each playoff game
+ * decided by the starters' points stored for that week
+ */
+
+import type { DivisionsData } from '@/app/api/mfl/divisions/route'
+import { determineActualPlayoffSeeds, parseBracketPlayoffTeams, type SeasonGame } from './playoff-backtest'
+import { getRoundCount, getRoundNames, getRoundWeeks, simulateBracket, type BracketSeed } from './playoff-bracket'
+import type { PlayoffBracketConfig } from './season-config'
+import type { TiebreakerChain } from './tiebreaker-rules'
+import type { ScoringFormat } from './scoring-format'
+import { toArray } from './mfl-client'
+import type { MFLPlayoffBracketResponse } from './mfl'
+
+// Entries kept in each ranked list
+export const RECORDS_LIST_LIMIT = 10
+
+export interface RecordsBookTeam {
+  franchiseId: string
+  teamName: string
+  owner: string
+  ownerId: string // Owner registry ID (see getOwnerId in owner-mappings.ts)
+}
+
+/** Everything stored for one season */
+export interface RecordsBookSeason {
+  year: number
+  teams: RecordsBookTeam[]
+  games: SeasonGame[] // Every stored game, once per team
+  weeklyScores: Record<string, Record<number, number>> // franchiseId -> week -> starters' points
+  lastRegularWeek: number
+  complete: boolean // Regular season and playoffs are over
+  divisionsData: DivisionsData | null // null when the season's divisions are unknown
+  tiebreakers: TiebreakerChain
+  scoringFormat: ScoringFormat
+  bracket: PlayoffBracketConfig
+  playoffBracket: MFLPlayoffBracketResponse | null // MFL's championship bracket; null rebuilds the playoffs
+}
+
+export interface GameRecord {
+  year: number
+  week: number
+  owner: string
+  teamName: string
+  score: number
+  opponentOwner: string
+  opponentTeamName: string
+  opponentScore: number
+  margin: number // score - opponentScore
+}
+
+export interface StreakRecord {
+  owner: string
+  result: 'W' | 'L'
+  length: number
+  startYear: number
+  startWeek: number
+  endYear: number
+  endWeek: number
+  active: boolean // Still running as of the latest game
+}
+
+export interface SeasonPointsRecord {
+  year: number
+  owner: string
+  teamName: string
+  pointsFor: number
+  games: number
+  wins: number
+  losses: number
+  ties: number
+}
+
+/** A playoff game from MFL's bracket, or replayed on stored scores (multi-week rounds are summed) */
+export interface PlayoffGameResult {
+  round: number // 0-based
+  roundName: string
+  weeks: number[]
+  high: RecordsBookTeam & { seed: number; score: number }
+  low: RecordsBookTeam & { seed: number; score: number }
+  winnerId: string
+}
+
+export interface SeasonOutcome {
+  year: number
+  playoffTeams: Array<RecordsBookTeam & { seed: number }> // Empty when the field couldn't be rebuilt
+  playoffGames: PlayoffGameResult[] // Games whose scores are all stored
+  champion: RecordsBookTeam | null
+  runnerUp: RecordsBookTeam | null
+}
+
+export interface OwnerCareer {
+  ownerId: string
+  owner: string // Latest name
+  seasons: number[]
+  franchiseIds: string[]
+  teamNames: string[] // Most recent first
+  wins: number
+  losses: number
+  ties: number
+  winPercentage: number // 0-1, ties count half
+  pointsFor: number
+  pointsAgainst: number
+  averagePointsFor: number
+  playoffAppearances: number
+  championships: number
+  championshipYears: number[]
+  highestScore: number
+}
+
+export interface RecordsBook {
+  years: number[]
+  highestScores: GameRecord[]
+  lowestScores: GameRecord[]
+  biggestBlowouts: GameRecord[]
+  longestWinStreaks: StreakRecord[]
+  longestLossStreaks: StreakRecord[]
+  bestSeasons: SeasonPointsRecord[]
+  careers: OwnerCareer[] // Best career win percentage first
+  seasons: SeasonOutcome[] // Newest first
+}
+
+/** Response of GET /api/mfl/records */
+export interface RecordsBookResponse extends RecordsBook {
+  leagueId: string
+}
+
+interface OwnedGame extends SeasonGame {
+  year: number
+  team: RecordsBookTeam
+  opponent: RecordsBookTeam
+}
+
+export function unknownTeam(franchiseId: string): RecordsBookTeam {
+  const owner = `Manager ${franchiseId}`
+  return { franchiseId, teamName: `Team ${franchiseId}`, owner, ownerId: `name:${owner}` }
+}
+
+function toGameRecord(game: OwnedGame): GameRecord {
+  return {
+    year: game.year,
+    week: game.week,
+    owner: game.team.owner,
+    teamName: game.team.teamName,
+    score: game.score,
+    opponentOwner: game.opponent.owner,
+    opponentTeamName: game.opponent.teamName,
+    opponentScore: game.opponentScore,
+    margin: game.score - game.opponentScore
+  }
+}
+
+/**
+ * A season's playoffs as MFL played them, from its championship bracket
+ * Points MFL doesn't list fall back to the stored scores; an unplayed final
+ * leaves the champion unknown. Null when the bracket names no teams
+ */
+function outcomeFromBracket(
+  season: RecordsBookSeason,
+  bracket: MFLPlayoffBracketResponse,
+  teamOf: (franchiseId: string) => RecordsBookTeam,
+  scoreOf: (franchiseId: string, week: number) => number | undefined
+): SeasonOutcome | null {
+  const field = parseBracketPlayoffTeams(bracket)
+  if (field.size === 0) return null
+
+  const rounds = toArray(bracket.playoffBracket?.playoffRound)
+    .map(round => ({ week: parseInt(round.week), games: toArray(round.playoffGame) }))
+    .filter(round => !isNaN(round.week))
+    .sort((a, b) => a.week - b.week)
+  const roundNames = getRoundNames(rounds.length)
+
+  const seeds = new Map<string, number>()
+  const winners = new Map<string, string>() // game_id -> winning franchiseId
+  const playoffGames: PlayoffGameResult[] = []
+
+  rounds.forEach((round, roundIndex) => {
+    round.games.forEach(game => {
+      // Later rounds name a side by the game it came from until MFL fills in the team
+      const [home, away] = [game.home, game.away].map(side => {
+        const franchiseId = side?.franchise_id ?? (side?.winner_of_game ? winners.get(side.winner_of_game) : undefined)
+        if (!franchiseId) return null
+        const seed = parseInt(side?.seed || '')
+        if (!isNaN(seed) && !seeds.has(franchiseId)) seeds.set(franchiseId, seed)
+        const points = parseFloat(side?.points || '')
+        const score = isNaN(points) ? scoreOf(franchiseId, round.week) : points
+        return score === undefined ? null : { franchiseId, score }
+      })
+      if (!home || !away || (home.score === 0 && away.score === 0)) return
+
+      const seedOf = (franchiseId: string) => seeds.get(franchiseId) ?? Infinity
+      const [high, low] = seedOf(away.franchiseId) < seedOf(home.franchiseId) ? [away, home] : [home, away]
+      // The better seed advances on a tie
+      const winnerId = low.score > high.score ? low.franchiseId : high.franchiseId
+      winners.set(game.game_id, winnerId)
+      playoffGames.push({
+        round: roundIndex,
+        roundName: roundNames[roundIndex],
+        weeks: [round.week],
+        high: { ...teamOf(high.franchiseId), seed: seeds.get(high.franchiseId) ?? 0, score: high.score },
+        low: { ...teamOf(low.franchiseId), seed: seeds.get(low.franchiseId) ?? 0, score: low.score },
+        winnerId
+      })
+    })
+  })
+
+  const playoffTeams = Array.from(field)
+    .map(franchiseId => ({ ...teamOf(franchiseId), seed: seeds.get(franchiseId) ?? 0 }))
+    .sort((a, b) => a.seed - b.seed)
+
+  const lastRound = rounds.length - 1
+  const final = rounds[lastRound]?.games.length === 1
+    ? playoffGames.find(game => game.round === lastRound)
+    : undefined
+  if (!final) return { year: season.year, playoffTeams, playoffGames, champion: null, runnerUp: null }
+
+  const [winner, loser] = final.winnerId === final.high.franchiseId ? [final.high, final.low] : [final.low, final.high]
+  return {
+    year: season.year,
+    playoffTeams,
+    playoffGames,
+    champion: teamOf(winner.franchiseId),
+    runnerUp: teamOf(loser.franchiseId)
+  }
+}
+
+/**
+ * A season's playoff field, games and champion
+ * From MFL's championship bracket where there is one; otherwise the field is
+ * rebuilt and played through the bracket on stored scores, and a game whose
+ * weeks have no stored score leaves the champion unknown
+ */
+export function determineSeasonOutcome(season: RecordsBookSeason): SeasonOutcome {
+  const teamsById = new Map(season.teams.map(team => [team.franchiseId, team]))
+  const teamOf = (franchiseId: string) => teamsById.get(franchiseId) || unknownTeam(franchiseId)
+  const empty: SeasonOutcome = { year: season.year, playoffTeams: [], playoffGames: [], champion: null, runnerUp: null }
+  if (!season.complete) return empty
+
+  // Stored matchup scores win over the starters' total for the week
+  const scoreOf = (franchiseId: string, week: number): number | undefined =>
+    season.games.find(game => game.week === week && game.franchiseId === franchiseId)?.score ??
+    season.weeklyScores[franchiseId]?.[week]
+
+  const fromBracket = season.playoffBracket && outcomeFromBracket(season, season.playoffBracket, teamOf, scoreOf)
+  if (fromBracket) return fromBracket
+
+  const regularGames = season.games.filter(game => game.week <= season.lastRegularWeek)
+  if (!season.divisionsData || regularGames.length === 0) return empty
+
+  const seeds = determineActualPlayoffSeeds(regularGames, season.divisionsData, season.lastRegularWeek, season.tiebreakers, season.scoringFormat)
+  const playoffTeams = seeds.map(seed => ({ ...teamOf(seed.franchiseId), seed: seed.seed }))
+
+  let missingScores = false
+  const playoffGames: PlayoffGameResult[] = []
+  const roundCount = getRoundCount(seeds.length)
+  const roundNames = getRoundNames(roundCount)
+  const roundWeeks = getRoundWeeks(season.bracket, roundCount)
+  const bracketSeeds: BracketSeed[] = seeds.map(seed => ({ seed: seed.seed, franchiseId: seed.franchiseId }))
+  const result = simulateBracket(bracketSeeds, season.bracket, (high, low, weeks) => {
+    const total = (franchiseId: string) => weeks.reduce<number | undefined>((sum, week) => {
+      const score = scoreOf(franchiseId, week)
+      return sum === undefined || score === undefined ? undefined : sum + score
+    }, 0)
+    const highScore = total(high.franchiseId)
+    const lowScore = total(low.franchiseId)
+    if (highScore === undefined || lowScore === undefined) {
+      missingScores = true
+      return high
+    }
+    // The better seed advances on a tie
+    const winner = lowScore > highScore ? low : high
+    const round = Math.max(0, roundWeeks.findIndex(roundWeekList => roundWeekList[0] === weeks[0]))
+    playoffGames.push({
+      round,
+      roundName: roundNames[round],
+      weeks,
+      high: { ...teamOf(high.franchiseId), seed: high.seed, score: highScore },
+      low: { ...teamOf(low.franchiseId), seed: low.seed, score: lowScore },
+      winnerId: winner.franchiseId
+    })
+    return winner
+  })
+
+  if (missingScores || !result.champion) return { ...empty, playoffTeams, playoffGames }
+
+  const final = result.games[result.games.length - 1]
+  const runnerUp = final && final.low
+    ? (final.winner.franchiseId === final.high.franchiseId ? final.low : final.high)
+    : null
+
+  return {
+    year: season.year,
+    playoffTeams,
+    playoffGames,
+    champion: teamOf(result.champion.franchiseId),
+    runnerUp: runnerUp ? teamOf(runnerUp.franchiseId) : null
+  }
+}
+
+/**
+ * Longest winning and losing runs per owner, carried across seasons
+ * Only regular-season games count; a tie ends both kinds of streak
+ */
+function findStreaks(gamesByOwner: Map<string, OwnedGame[]>): StreakRecord[] {
+  const streaks: StreakRecord[] = []
+
+  gamesByOwner.forEach(games => {
+    // Labelled with the owner's latest name
+    const owner = games[games.length - 1].team.owner
+    let current: StreakRecord | null = null
+
+    games.forEach((game, index) => {
+      const isLast = index === games.length - 1
+      if (game.result === 'T') {
+        current = null
+        return
+      }
+      if (current && current.result === game.result) {
+        current.length++
+        current.endYear = game.year
+        current.endWeek = game.week
+      } else {
+        current = {
+          owner,
+          result: game.result,
+          length: 1,
+          startYear: game.year,
+          startWeek: game.week,
+          endYear: game.year,
+          endWeek: game.week,
+          active: false
+        }
+        streaks.push(current)
+      }
+      if (isLast) current.active = true
+    })
+  })
+
+  return streaks
+}
+
+function byLength(a: StreakRecord, b: StreakRecord): number {
+  return b.length - a.length || b.endYear - a.endYear || b.endWeek - a.endWeek
+}
+
+/**
+ * Build the records book from every stored season
+ */
+export function buildRecordsBook(seasons: RecordsBookSeason[]): RecordsBook {
+  const ordered = [...seasons].sort((a, b) => a.year - b.year)
+  const latestYear = ordered.length > 0 ? ordered[ordered.length - 1].year : null
+
+  const regularGames: OwnedGame[] = []
+  ordered.forEach(season => {
+    const teamsById = new Map(season.teams.map(team => [team.franchiseId, team]))
+    season.games
+      .filter(game => game.week <= season.lastRegularWeek)
+      .forEach(game => {
+        regularGames.push({
+          ...game,
+          year: season.year,
+          team: teamsById.get(game.franchiseId) || unknownTeam(game.franchiseId),
+          opponent: teamsById.get(game.opponentId) || unknownTeam(game.opponentId)
+        })
+      })
+  })
+  regularGames.sort((a, b) => a.year - b.year || a.week - b.week)
+
+  // Single-game records
+  const highestScores = [...regularGames]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RECORDS_LIST_LIMIT)
+    .map(toGameRecord)
+  const lowestScores = regularGames
+    .filter(game => game.score > 0)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, RECORDS_LIST_LIMIT)
+    .map(toGameRecord)
+  const biggestBlowouts = regularGames
+    .filter(game => game.result === 'W')
+    .sort((a, b) => (b.score - b.opponentScore) - (a.score - a.opponentScore))
+    .slice(0, RECORDS_LIST_LIMIT)
+    .map(toGameRecord)
+
+  // Streaks
+  const gamesByOwner = new Map<string, OwnedGame[]>()
+  regularGames.forEach(game => {
+    gamesByOwner.set(game.team.ownerId, [...(gamesByOwner.get(game.team.ownerId) || []), game])
+  })
+  const streaks = findStreaks(gamesByOwner).map(streak => ({
+    ...streak,
+    // Only an owner still in the latest season can have a streak in progress
+    active: streak.active && streak.endYear === latestYear
+  }))
+  const longestWinStreaks = streaks.filter(s => s.result === 'W').sort(byLength).slice(0, RECORDS_LIST_LIMIT)
+  const longestLossStreaks = streaks.filter(s => s.result === 'L').sort(byLength).slice(0, RECORDS_LIST_LIMIT)
+
+  // Season totals
+  const seasonTotals = new Map<string, SeasonPointsRecord>()
+  regularGames.forEach(game => {
+    const key = `${game.year}-${game.franchiseId}`
+    const totals = seasonTotals.get(key) || {
+      year: game.year,
+      owner: game.team.owner,
+      teamName: game.team.teamName,
+      pointsFor: 0,
+      games: 0,
+      wins: 0,
+      losses: 0,
+      ties: 0
+    }
+    totals.pointsFor += game.score
+    totals.games++
+    if (game.result === 'W') totals.wins++
+    else if (game.result === 'L') totals.losses++
+    else totals.ties++
+    seasonTotals.set(key, totals)
+  })
+  const bestSeasons = Array.from(seasonTotals.values())
+    .sort((a, b) => b.pointsFor - a.pointsFor)
+    .slice(0, RECORDS_LIST_LIMIT)
+
+  // Playoffs and titles
+  const outcomes = ordered.map(determineSeasonOutcome)
+
+  // Careers
+  const careers = new Map<string, OwnerCareer>()
+  const careerOf = (team: RecordsBookTeam): OwnerCareer => {
+    let career = careers.get(team.ownerId)
+    if (!career) {
+      career = {
+        ownerId: team.ownerId,
+        owner: team.owner,
+        seasons: [],
+        franchiseIds: [],
+        teamNames: [],
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        winPercentage: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        averagePointsFor: 0,
+        playoffAppearances: 0,
+        championships: 0,
+        championshipYears: [],
+        highestScore: 0
+      }
+      careers.set(team.ownerId, career)
+    }
+    return career
+  }
+
+  ordered.forEach(season => {
+    season.teams.forEach(team => {
+      const career = careerOf(team)
+      career.owner = team.owner
+      if (!career.seasons.includes(season.year)) career.seasons.push(season.year)
+      if (!career.franchiseIds.includes(team.franchiseId)) career.franchiseIds.push(team.franchiseId)
+      career.teamNames = [team.teamName, ...career.teamNames.filter(name => name !== team.teamName)]
+    })
+  })
+
+  regularGames.forEach(game => {
+    const career = careerOf(game.team)
+    if (game.result === 'W') career.wins++
+    else if (game.result === 'L') career.losses++
+    else career.ties++
+    career.pointsFor += game.score
+    career.pointsAgainst += game.opponentScore
+    career.highestScore = Math.max(career.highestScore, game.score)
+  })
+
+  outcomes.forEach(outcome => {
+    outcome.playoffTeams.forEach(team => {
+      careerOf(team).playoffAppearances++
+    })
+    if (outcome.champion) {
+      const career = careerOf(outcome.champion)
+      career.championships++
+      career.championshipYears.push(outcome.year)
+    }
+  })
+
+  const careerList = Array.from(careers.values())
+    .map(career => {
+      const games = career.wins + career.losses + career.ties
+      return {
+        ...career,
+        winPercentage: games > 0 ? (career.wins + career.ties * 0.5) / games : 0,
+        averagePointsFor: games > 0 ? career.pointsFor / games : 0
+      }
+    })
+    .sort((a, b) => b.winPercentage - a.winPercentage || b.championships - a.championships)
+
+  return {
+    years: ordered.map(season => season.year),
+    highestScores,
+    lowestScores,
+    biggestBlowouts,
+    longestWinStreaks,
+    longestLossStreaks,
+    bestSeasons,
+    careers: careerList,
+    seasons: [...outcomes].reverse()
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Head-to-Head Rivalries
+ * Every meeting between two sides across all stored seasons - regular-season
+ * games from stored weekly results, playoff games from MFL's championship
+ * bracket, or replayed on stored scores for seasons without one (see
+ * determineSeasonOutcome in records-book.ts); other post-season games are
+ * consolation meetings, counted in the overall series only. Sides are grouped by owner
+ * (registry ID), following a manager across franchise changes, or by franchise ID
+ */
+
+import { determineSeasonOutcome, unknownTeam, type RecordsBookSeason, type RecordsBookTeam } from './records-book'
+
+export type RivalryGrouping = 'owner' | 'franchise'
+
+export interface RivalryMeetingSide extends RecordsBookTeam {
+  score: number
+  seed?: number // Playoff games only
+}
+
+export interface RivalryMeeting {
+  year: number
+  week: number // First week of a multi-week playoff round
+  weeks: number[]
+  playoff: boolean // Championship bracket games only
+  consolation: boolean // Post-season games outside the championship bracket
+  roundName: string | null // Set for games from the playoff bracket
+  teams: [RivalryMeetingSide, RivalryMeetingSide]
+}
+
+/** A franchise or owner, depending on the grouping */
+export interface RivalryParticipant {
+  key: string
+  label: string
+  detail: string // Latest team name for owners, latest owner for franchises
+}
+
+/** One side's record against another */
+export interface SeriesRecord {
+  games: number
+  wins: number
+  losses: number
+  ties: number
+  pointsFor: number
+  pointsAgainst: number
+}
+
+export interface LedgerMeeting {
+  year: number
+  week: number
+  weeks: number[]
+  playoff: boolean
+  consolation: boolean
+  roundName: string | null
+  franchiseId: string
+  teamName: string
+  opponentId: string
+  opponentTeamName: string
+  score: number
+  opponentScore: number
+  margin: number // score - opponentScore
+  result: 'W' | 'L' | 'T'
+}
+
+/** The series between two sides, from the first side's point of view */
+export interface RivalryLedger {
+  side: RivalryParticipant
+  opponent: RivalryParticipant
+  meetings: LedgerMeeting[] // Newest first
+  overall: SeriesRecord // Includes consolation games
+  regularSeason: SeriesRecord
+  playoffs: SeriesRecord
+  streak: { result: 'W' | 'L'; length: number } | null // null before a first meeting or after a tie
+  biggestWin: LedgerMeeting | null
+  biggestLoss: LedgerMeeting | null
+}
+
+export interface RivalryMatrix {
+  participants: RivalryParticipant[]
+  records: Record<string, Record<string, SeriesRecord>> // row key -> column key -> row's record; pairs that never met are missing
+}
+
+/** Response of GET /api/mfl/rivalries */
+export interface RivalriesResponse {
+  leagueId: string
+  years: number[]
+  meetings: RivalryMeeting[]
+}
+
+function emptyRecord(): SeriesRecord {
+  return { games: 0, wins: 0, losses: 0, ties: 0, pointsFor: 0, pointsAgainst: 0 }
+}
+
+function addToRecord(record: SeriesRecord, score: number, opponentScore: number) {
+  record.games++
+  record.pointsFor += score
+  record.pointsAgainst += opponentScore
+  if (score > opponentScore) record.wins++
+  else if (score < opponentScore) record.losses++
+  else record.ties++
+}
+
+export function getParticipantKey(team: RecordsBookTeam, grouping: RivalryGrouping): string {
+  return grouping === 'owner' ? team.ownerId : team.franchiseId
+}
+
+/**
+ * Wins as a share of games, ties counting half (0.5 when no games)
+ */
+export function getSeriesWinPercentage(record: SeriesRecord): number {
+  return record.games > 0 ? (record.wins + record.ties * 0.5) / record.games : 0.5
+}
+
+/**
+ * Every meeting across the stored seasons, oldest first
+ * A playoff game that's also stored as a matchup is taken from the bracket, with its round and seeds;
+ * any other game after the regular season is a consolation game
+ */
+export function buildRivalryMeetings(seasons: RecordsBookSeason[]): RivalryMeeting[] {
+  const meetings: RivalryMeeting[] = []
+
+  seasons.forEach(season => {
+    const teamsById = new Map(season.teams.map(team => [team.franchiseId, team]))
+    const teamOf = (franchiseId: string): RecordsBookTeam => teamsById.get(franchiseId) || unknownTeam(franchiseId)
+    const pairKey = (a: string, b: string) => [a, b].sort().join('|')
+    const playoffGames = determineSeasonOutcome(season).playoffGames
+    const bracketWeeks = new Set(playoffGames.flatMap(game =>
+      game.weeks.map(week => `${week}-${pairKey(game.high.franchiseId, game.low.franchiseId)}`)))
+
+    season.games
+      // Each game is stored once per team
+      .filter(game => game.franchiseId < game.opponentId)
+      .filter(game => !bracketWeeks.has(`${game.week}-${pairKey(game.franchiseId, game.opponentId)}`))
+      .forEach(game => {
+        meetings.push({
+          year: season.year,
+          week: game.week,
+          weeks: [game.week],
+          playoff: false,
+          consolation: game.week > season.lastRegularWeek,
+          roundName: null,
+          teams: [
+            { ...teamOf(game.franchiseId), score: game.score },
+            { ...teamOf(game.opponentId), score: game.opponentScore }
+          ]
+        })
+      })
+
+    playoffGames.forEach(game => {
+      meetings.push({
+        year: season.year,
+        week: game.weeks[0],
+        weeks: game.weeks,
+        playoff: true,
+        consolation: false,
+        roundName: game.roundName,
+        teams: [game.high, game.low]
+      })
+    })
+  })
+
+  return meetings.sort((a, b) => a.year - b.year || a.week - b.week)
+}
+
+/**
+ * Everyone who appears in the meetings, latest names winning, sorted by label
+ */
+export function listRivalryParticipants(meetings: RivalryMeeting[], grouping: RivalryGrouping): RivalryParticipant[] {
+  const participants = new Map<string, RivalryParticipant>()
+
+  // Oldest first, so later seasons overwrite the names
+  meetings.forEach(meeting => {
+    meeting.teams.forEach(team => {
+      const key = getParticipantKey(team, grouping)
+      participants.set(key, grouping === 'owner'
+        ? { key, label: team.owner, detail: team.teamName }
+        : { key, label: team.teamName, detail: team.owner })
+    })
+  })
+
+  return Array.from(participants.values()).sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * All meetings between two sides, from the first side's point of view
+ * Returns null when either side never played
+ */
+export function buildRivalryLedger(
+  meetings: RivalryMeeting[],
+  sideKey: string,
+  opponentKey: string,
+  grouping: RivalryGrouping
+): RivalryLedger | null {
+  const participants = listRivalryParticipants(meetings, grouping)
+  const side = participants.find(participant => participant.key === sideKey)
+  const opponent = participants.find(participant => participant.key === opponentKey)
+  if (!side || !opponent || sideKey === opponentKey) return null
+
+  const ledgerMeetings: LedgerMeeting[] = []
+  meetings.forEach(meeting => {
+    const [first, second] = meeting.teams
+    const firstKey = getParticipantKey(first, grouping)
+    const secondKey = getParticipantKey(second, grouping)
+    let team: RivalryMeetingSide
+    let opponentTeam: RivalryMeetingSide
+    if (firstKey === sideKey && secondKey === opponentKey) [team, opponentTeam] = [first, second]
+    else if (firstKey === opponentKey && secondKey === sideKey) [team, opponentTeam] = [second, first]
+    else return
+
+    ledgerMeetings.push({
+      year: meeting.year,
+      week: meeting.week,
+      weeks: meeting.weeks,
+      playoff: meeting.playoff,
+      consolation: meeting.consolation,
+      roundName: meeting.roundName,
+      franchiseId: team.franchiseId,
+      teamName: team.teamName,
+      opponentId: opponentTeam.franchiseId,
+      opponentTeamName: opponentTeam.teamName,
+      score: team.score,
+      opponentScore: opponentTeam.score,
+      margin: team.score - opponentTeam.score,
+      result: team.score > opponentTeam.score ? 'W' : team.score < opponentTeam.score ? 'L' : 'T'
+    })
+  })
+
+  const overall = emptyRecord()
+  const regularSeason = emptyRecord()
+  const playoffs = emptyRecord()
+  ledgerMeetings.forEach(meeting => {
+    addToRecord(overall, meeting.score, meeting.opponentScore)
+    if (meeting.playoff) addToRecord(playoffs, meeting.score, meeting.opponentScore)
+    else if (!meeting.consolation) addToRecord(regularSeason, meeting.score, meeting.opponentScore)
+  })
+
+  // Current streak, counted back from the latest meeting; ties end it
+  let streak: RivalryLedger['streak'] = null
+  for (let i = ledgerMeetings.length - 1; i >= 0; i--) {
+    const result = ledgerMeetings[i].result
+    if (result === 'T') break
+    if (!streak) streak = { result, length: 1 }
+    else if (streak.result === result) streak.length++
+    else break
+  }
+
+  const wins = ledgerMeetings.filter(meeting => meeting.result === 'W')
+  const losses = ledgerMeetings.filter(meeting => meeting.result === 'L')
+
+  return {
+    side,
+    opponent,
+    meetings: [...ledgerMeetings].reverse(),
+    overall,
+    regularSeason,
+    playoffs,
+    streak,
+    biggestWin: wins.length > 0 ? wins.reduce((best, meeting) => meeting.margin > best.margin ? meeting : best) : null,
+    biggestLoss: losses.length > 0 ? losses.reduce((worst, meeting) => meeting.margin < worst.margin ? meeting : worst) : null
+  }
+}
+
+/**
+ * League-wide series records for every pair that has met
+ */
+export function buildRivalryMatrix(meetings: RivalryMeeting[], grouping: RivalryGrouping): RivalryMatrix {
+  const records: RivalryMatrix['records'] = {}
+  const recordOf = (rowKey: string, columnKey: string) => {
+    if (!records[rowKey]) records[rowKey] = {}
+    if (!records[rowKey][columnKey]) records[rowKey][columnKey] = emptyRecord()
+    return records[rowKey][columnKey]
+  }
+
+  meetings.forEach(meeting => {
+    const [first, second] = meeting.teams
+    const firstKey = getParticipantKey(first, grouping)
+    const secondKey = getParticipantKey(second, grouping)
+    // One owner on both sides of a game isn't a rivalry
+    if (firstKey === secondKey) return
+
+    addToRecord(recordOf(firstKey, secondKey), first.score, second.score)
+    addToRecord(recordOf(secondKey, firstKey), second.score, first.score)
+  })
+
+  return { participants: listRivalryParticipants(meetings, grouping), records }
+}
@@ -7,7 +7,12 @@
 import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
 import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
 import type { DivisionsData } from '@/app/api/mfl/divisions/route'
-import { calculatePlayoffProbabilities } from './playoff-calculator'
+import { calculatePlayoffProbabilities, type SimulationOptions } from './playoff-calculator'
+import { generateSeed } from './random'
+
+// Reduced iterations for speed - every remaining matchup is simulated twice
+const BASELINE_ITERATIONS = 1000
+const OUTCOME_ITERATIONS = 500
 
 export interface RootingInterest {
   matchup: {
@@ -39,6 +44,9 @@ export interface RootingInterestAnalysis {
   allMatchups: RootingInterest[]  // All remaining matchups
   certaintyLevel: 'high' | 'medium' | 'low'  // Based on games remaining
   weeklyBreakdown: Record<number, RootingInterest[]>  // Grouped by week
+  seed: number  // PRNG seed shared by every simulation in this analysis
+  iterations: number  // Simulations behind the baseline probability
+  outcomeIterations: number  // Simulations per matchup outcome
 }
 
 /**
@@ -55,13 +63,17 @@ export function hasRelevantRootingInterests(
 /**
  * Calculate which teams the selected team should root for/against
  * Uses conditional probability: P(playoffs | outcome A) vs P(playoffs | outcome B)
+ * Both outcomes of a matchup are simulated with the same seed, so the swing
+ * reflects the result rather than different random draws
  */
 export function calculateRootingInterests(
   targetFranchiseId: string,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
   divisionsData: DivisionsData,
-  currentWeek: number
+  currentWeek: number,
+  seed: number = generateSeed(),
+  simulationOptions: SimulationOptions = {}
 ): RootingInterestAnalysis {
   console.log(`[Rooting Interest] Calculating for franchise ${targetFranchiseId}...`)
 
@@ -69,8 +81,15 @@ export function calculateRootingInterests(
   const weeklyBreakdown: Record<number, RootingInterest[]> = {}
 
   // Get target team's current playoff probability
-  const baselineProbs = calculatePlayoffProbabilities(standings, schedules, divisionsData, 1000) // Reduced iterations for speed
-  const targetBaselineProb = baselineProbs.find(p => p.franchiseId === targetFranchiseId)?.playoffProbability || 0
+  const baseline = calculatePlayoffProbabilities(
+    standings,
+    schedules,
+    divisionsData,
+    BASELINE_ITERATIONS,
+    seed,
+    simulationOptions
+  )
+  const targetBaselineProb = baseline.probabilities.find(p => p.franchiseId === targetFranchiseId)?.playoffProbability || 0
 
   console.log(`[Rooting Interest] Baseline playoff probability: ${targetBaselineProb.toFixed(1)}%`)
 
@@ -123,7 +142,9 @@ export function calculateRootingInterests(
       matchup.week,
       standings,
       schedules,
-      divisionsData
+      divisionsData,
+      seed,
+      simulationOptions
     )
 
     const probIfBWins = simulateOutcomeImpact(
@@ -133,7 +154,9 @@ export function calculateRootingInterests(
       matchup.week,
       standings,
       schedules,
-      divisionsData
+      divisionsData,
+      seed,
+      simulationOptions
     )
 
     const swing = Math.abs(probIfAWins - probIfBWins)
@@ -239,7 +262,10 @@ export function calculateRootingInterests(
     topMatchups,
     allMatchups,
     certaintyLevel,
-    weeklyBreakdown
+    weeklyBreakdown,
+    seed,
+    iterations: BASELINE_ITERATIONS,
+    outcomeIterations: OUTCOME_ITERATIONS
   }
 }
 
@@ -254,7 +280,9 @@ function simulateOutcomeImpact(
   week: number,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
+  divisionsData: DivisionsData,
+  seed: number,
+  simulationOptions: SimulationOptions
 ): number {
   // Create modified standings where the winner has one more win
   const modifiedStandings: StandingsFranchise[] = standings.map(team => {
@@ -309,8 +337,15 @@ function simulateOutcomeImpact(
   })
 
   // Calculate playoff probabilities with modified standings
-  const probs = calculatePlayoffProbabilities(modifiedStandings, modifiedSchedules, divisionsData, 500) // Reduced iterations for speed
-  const targetProb = probs.find(p => p.franchiseId === targetFranchiseId)
+  const simulation = calculatePlayoffProbabilities(
+    modifiedStandings,
+    modifiedSchedules,
+    divisionsData,
+    OUTCOME_ITERATIONS,
+    seed,
+    simulationOptions
+  )
+  const targetProb = simulation.probabilities.find(p => p.franchiseId === targetFranchiseId)
 
   return targetProb?.playoffProbability || 0
 }
@@ -6,8 +6,13 @@
 import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
 import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
 import type { DivisionsData } from '@/app/api/mfl/divisions/route'
-import { calculatePlayoffProbabilities } from './playoff-calculator'
+import { calculatePlayoffProbabilities, type SimulationOptions } from './playoff-calculator'
 import { calculateMatchupWinProbability } from './schedule-strength'
+import { generateSeed } from './random'
+import { DEFAULT_SCORING_FORMAT, getResultsPerGame } from './scoring-format'
+
+// Fewer iterations than the main projection - scenarios are recalculated interactively
+const SCENARIO_ITERATIONS = 1000
 
 export interface ScenarioResult {
   record: string  // e.g., "9-5"
@@ -15,6 +20,8 @@ export interface ScenarioResult {
   probability: number  // Probability of this scenario happening
   description: string  // Human-readable description
   playoffProbability: number  // Chance of making playoffs in this scenario
+  simulationSeed: number  // PRNG seed used for the simulation (reproduces playoffProbability)
+  iterations: number  // Simulations run (0 when no simulation was needed)
 }
 
 /**
@@ -24,7 +31,9 @@ export function calculateBestCaseScenario(
   franchiseId: string,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
+  divisionsData: DivisionsData,
+  simulationSeed: number = generateSeed(),
+  simulationOptions: SimulationOptions = {}
 ): ScenarioResult {
   const team = standings.find(s => s.id === franchiseId)
   const schedule = schedules.find(s => s.franchiseId === franchiseId)
@@ -35,7 +44,9 @@ export function calculateBestCaseScenario(
       seed: 0,
       probability: 0,
       description: 'Unable to calculate scenario',
-      playoffProbability: 0
+      playoffProbability: 0,
+      simulationSeed,
+      iterations: 0
     }
   }
 
@@ -43,9 +54,11 @@ export function calculateBestCaseScenario(
   const currentLosses = parseInt(team.h2hl) || 0
   const currentTies = parseInt(team.h2ht) || 0
   const remainingGames = schedule.remainingGames.length
+  // Median leagues: every remaining game is also a result against the median
+  const remainingResults = remainingGames * getResultsPerGame(simulationOptions.scoringFormat ?? DEFAULT_SCORING_FORMAT)
 
   // Best case: win all remaining games
-  const bestWins = currentWins + remainingGames
+  const bestWins = currentWins + remainingResults
   const bestRecord = `${bestWins}-${currentLosses}${currentTies > 0 ? `-${currentTies}` : ''}`
 
   // Simulate this scenario
@@ -80,8 +93,15 @@ export function calculateBestCaseScenario(
   })
 
   // Calculate probability with this scenario
-  const probs = calculatePlayoffProbabilities(modifiedStandings, modifiedSchedules, divisionsData, 1000)
-  const teamProb = probs.find(p => p.franchiseId === franchiseId)
+  const simulation = calculatePlayoffProbabilities(
+    modifiedStandings,
+    modifiedSchedules,
+    divisionsData,
+    SCENARIO_ITERATIONS,
+    simulationSeed,
+    simulationOptions
+  )
+  const teamProb = simulation.probabilities.find(p => p.franchiseId === franchiseId)
 
   // Estimate probability of winning out
   let winOutProbability = 1.0
@@ -95,9 +115,11 @@ export function calculateBestCaseScenario(
     seed: teamProb?.averageSeed ? Math.round(teamProb.averageSeed) : 0,
     probability: winOutProbability * 100,
     description: remainingGames > 0
-      ? `Win out (${remainingGames}-0) to finish ${bestRecord}`
+      ? `Win out (${remainingResults}-0) to finish ${bestRecord}`
       : 'Season complete',
-    playoffProbability: teamProb?.playoffProbability || 0
+    playoffProbability: teamProb?.playoffProbability || 0,
+    simulationSeed: simulation.seed,
+    iterations: simulation.iterations
   }
 }
 
@@ -108,7 +130,9 @@ export function calculateWorstCaseScenario(
   franchiseId: string,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
+  divisionsData: DivisionsData,
+  simulationSeed: number = generateSeed(),
+  simulationOptions: SimulationOptions = {}
 ): ScenarioResult {
   const team = standings.find(s => s.id === franchiseId)
   const schedule = schedules.find(s => s.franchiseId === franchiseId)
@@ -119,7 +143,9 @@ export function calculateWorstCaseScenario(
       seed: 0,
       probability: 0,
       description: 'Unable to calculate scenario',
-      playoffProbability: 0
+      playoffProbability: 0,
+      simulationSeed,
+      iterations: 0
     }
   }
 
@@ -127,9 +153,10 @@ export function calculateWorstCaseScenario(
   const currentLosses = parseInt(team.h2hl) || 0
   const currentTies = parseInt(team.h2ht) || 0
   const remainingGames = schedule.remainingGames.length
+  const remainingResults = remainingGames * getResultsPerGame(simulationOptions.scoringFormat ?? DEFAULT_SCORING_FORMAT)
 
   // Worst case: lose all remaining games
-  const worstLosses = currentLosses + remainingGames
+  const worstLosses = currentLosses + remainingResults
   const worstRecord = `${currentWins}-${worstLosses}${currentTies > 0 ? `-${currentTies}` : ''}`
 
   // Simulate this scenario
@@ -163,8 +190,15 @@ export function calculateWorstCaseScenario(
   })
 
   // Calculate probability with this scenario
-  const probs = calculatePlayoffProbabilities(modifiedStandings, modifiedSchedules, divisionsData, 1000)
-  const teamProb = probs.find(p => p.franchiseId === franchiseId)
+  const simulation = calculatePlayoffProbabilities(
+    modifiedStandings,
+    modifiedSchedules,
+    divisionsData,
+    SCENARIO_ITERATIONS,
+    simulationSeed,
+    simulationOptions
+  )
+  const teamProb = simulation.probabilities.find(p => p.franchiseId === franchiseId)
 
   // Estimate probability of losing out
   let loseOutProbability = 1.0
@@ -178,9 +212,11 @@ export function calculateWorstCaseScenario(
     seed: 0,
     probability: loseOutProbability * 100,
     description: remainingGames > 0
-      ? `Lose out (0-${remainingGames}) to finish ${worstRecord}`
+      ? `Lose out (0-${remainingResults}) to finish ${worstRecord}`
       : 'Season complete',
-    playoffProbability: teamProb?.playoffProbability || 0
+    playoffProbability: teamProb?.playoffProbability || 0,
+    simulationSeed: simulation.seed,
+    iterations: simulation.iterations
   }
 }
 
@@ -191,7 +227,9 @@ export function calculateMostLikelyScenario(
   franchiseId: string,
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
+  divisionsData: DivisionsData,
+  simulationSeed: number = generateSeed(),
+  simulationOptions: SimulationOptions = {}
 ): ScenarioResult {
   const team = standings.find(s => s.id === franchiseId)
   const schedule = schedules.find(s => s.franchiseId === franchiseId)
@@ -202,7 +240,9 @@ export function calculateMostLikelyScenario(
       seed: 0,
       probability: 0,
       description: 'Unable to calculate scenario',
-      playoffProbability: 0
+      playoffProbability: 0,
+      simulationSeed,
+      iterations: 0
     }
   }
 
@@ -210,15 +250,18 @@ export function calculateMostLikelyScenario(
   const currentLosses = parseInt(team.h2hl) || 0
   const currentTies = parseInt(team.h2ht) || 0
 
+  // Median leagues: the matchup win probability stands in for beating the median too
+  const resultsPerGame = getResultsPerGame(simulationOptions.scoringFormat ?? DEFAULT_SCORING_FORMAT)
+
   // Calculate expected wins based on win probability for each game
   let expectedAdditionalWins = 0
   schedule.remainingGames.forEach(game => {
     const winProb = calculateMatchupWinProbability(franchiseId, game.opponentId, standings, 1.0)
-    expectedAdditionalWins += winProb
+    expectedAdditionalWins += winProb * resultsPerGame
   })
 
   const projectedWins = Math.round(currentWins + expectedAdditionalWins)
-  const projectedLosses = currentLosses + (schedule.remainingGames.length - Math.round(expectedAdditionalWins))
+  const projectedLosses = currentLosses + (schedule.remainingGames.length * resultsPerGame - Math.round(expectedAdditionalWins))
   const projectedRecord = `${projectedWins}-${projectedLosses}${currentTies > 0 ? `-${currentTies}` : ''}`
 
   // Simulate this scenario
@@ -253,8 +296,15 @@ export function calculateMostLikelyScenario(
   })
 
   // Calculate probability with this scenario
-  const probs = calculatePlayoffProbabilities(modifiedStandings, modifiedSchedules, divisionsData, 1000)
-  const teamProb = probs.find(p => p.franchiseId === franchiseId)
+  const simulation = calculatePlayoffProbabilities(
+    modifiedStandings,
+    modifiedSchedules,
+    divisionsData,
+    SCENARIO_ITERATIONS,
+    simulationSeed,
+    simulationOptions
+  )
+  const teamProb = simulation.probabilities.find(p => p.franchiseId === franchiseId)
 
   const winsNeeded = projectedWins - currentWins
   const lossesExpected = projectedLosses - currentLosses
@@ -266,7 +316,9 @@ export function calculateMostLikelyScenario(
     description: schedule.remainingGames.length > 0
       ? `Go ${winsNeeded}-${lossesExpected} to finish ${projectedRecord}`
       : 'Season complete',
-    playoffProbability: teamProb?.playoffProbability || 0
+    playoffProbability: teamProb?.playoffProbability || 0,
+    simulationSeed: simulation.seed,
+    iterations: simulation.iterations
   }
 }
 
@@ -278,8 +330,10 @@ export function calculateScenarioProbability(
   gameResults: Record<number, 'W' | 'L' | null>,  // week -> result
   standings: StandingsFranchise[],
   schedules: TeamSchedule[],
-  divisionsData: DivisionsData
-): { playoffProbability: number; projectedRecord: string; projectedSeed: number } {
+  divisionsData: DivisionsData,
+  simulationSeed: number = generateSeed(),
+  simulationOptions: SimulationOptions = {}
+): { playoffProbability: number; projectedRecord: string; projectedSeed: number; simulationSeed: number; iterations: number } {
   const team = standings.find(s => s.id === franchiseId)
   const schedule = schedules.find(s => s.franchiseId === franchiseId)
 
@@ -287,7 +341,9 @@ export function calculateScenarioProbability(
     return {
       playoffProbability: 0,
       projectedRecord: '0-0',
-      projectedSeed: 0
+      projectedSeed: 0,
+      simulationSeed,
+      iterations: 0
     }
   }
 
@@ -341,12 +397,21 @@ export function calculateScenarioProbability(
     return s
   })
 
-  const probs = calculatePlayoffProbabilities(modifiedStandings, modifiedSchedules, divisionsData, 1000)
-  const teamProb = probs.find(p => p.franchiseId === franchiseId)
+  const simulation = calculatePlayoffProbabilities(
+    modifiedStandings,
+    modifiedSchedules,
+    divisionsData,
+    SCENARIO_ITERATIONS,
+    simulationSeed,
+    simulationOptions
+  )
+  const teamProb = simulation.probabilities.find(p => p.franchiseId === franchiseId)
 
   return {
     playoffProbability: teamProb?.playoffProbability || 0,
     projectedRecord,
-    projectedSeed: teamProb?.averageSeed ? Math.round(teamProb.averageSeed) : 0
+    projectedSeed: teamProb?.averageSeed ? Math.round(teamProb.averageSeed) : 0,
+    simulationSeed: simulation.seed,
+    iterations: simulation.iterations
   }
 }
@@ -0,0 +1,144 @@
+/**
+ * Schedule Swap Matrix
+ * "What if I had their schedule?" - replays each team's actual weekly scores
+ * against every other team's opponents. Row A, column B is the record A would
+ * have posted with B's schedule; the diagonal is A's actual record. When B's
+ * opponent in a week is A itself, A plays B instead
+ */
+
+import type { TeamMatchupSummary } from '@/app/api/mfl/matchups/route'
+import { getRegularSeasonEndWeek } from './season-config'
+
+export interface SwapRecord {
+  wins: number
+  losses: number
+  ties: number
+  winPercentage: number // 0-1
+}
+
+export interface ScheduleSwapTeam {
+  franchiseId: string
+  teamName: string
+  manager: string
+  actual: SwapRecord
+}
+
+export interface ScheduleSwapMatrix {
+  year: number
+  weeks: number[] // Weeks replayed
+  teams: ScheduleSwapTeam[] // Row and column order
+  records: SwapRecord[][] // records[row][column]: row team's scores, column team's schedule
+  bestSchedule: Record<string, { franchiseId: string; wins: number }> // Per row team
+  worstSchedule: Record<string, { franchiseId: string; wins: number }>
+}
+
+function toRecord(wins: number, losses: number, ties: number): SwapRecord {
+  const games = wins + losses + ties
+  return {
+    wins,
+    losses,
+    ties,
+    winPercentage: games > 0 ? (wins + ties * 0.5) / games : 0
+  }
+}
+
+/**
+ * Build the swap matrix for one season
+ * Only regular-season weeks count (playoff pairings aren't a schedule); pass
+ * weeks to limit it further, e.g. the WeekMultiSelect selection
+ */
+export function calculateScheduleSwapMatrix(
+  summaries: TeamMatchupSummary[],
+  year: number,
+  weeks: number[] = []
+): ScheduleSwapMatrix {
+  const lastRegularWeek = getRegularSeasonEndWeek(year)
+  const weekFilter = new Set(weeks)
+  const includeWeek = (week: number) => week <= lastRegularWeek && (weekFilter.size === 0 || weekFilter.has(week))
+
+  const seasonTeams = summaries
+    .filter(summary => summary.year === year)
+    .sort((a, b) => b.winPercentage - a.winPercentage || b.pointsFor - a.pointsFor)
+
+  // Score and opponent by team and week
+  const scores = new Map<string, Map<number, number>>()
+  const opponents = new Map<string, Map<number, string>>()
+  const replayedWeeks = new Set<number>()
+
+  seasonTeams.forEach(team => {
+    const teamScores = new Map<number, number>()
+    const teamOpponents = new Map<number, string>()
+    team.matchups
+      .filter(m => includeWeek(m.week))
+      .forEach(m => {
+        teamScores.set(m.week, m.score)
+        teamOpponents.set(m.week, m.opponent)
+        replayedWeeks.add(m.week)
+      })
+    scores.set(team.franchiseId, teamScores)
+    opponents.set(team.franchiseId, teamOpponents)
+  })
+
+  const records = seasonTeams.map(rowTeam => {
+    const rowScores = scores.get(rowTeam.franchiseId)!
+
+    return seasonTeams.map(columnTeam => {
+      let wins = 0
+      let losses = 0
+      let ties = 0
+
+      opponents.get(columnTeam.franchiseId)!.forEach((opponentId, week) => {
+        const score = rowScores.get(week)
+        if (score === undefined) return
+
+        // Facing yourself on their schedule means facing them instead
+        const faced = opponentId === rowTeam.franchiseId ? columnTeam.franchiseId : opponentId
+        const opponentScore = scores.get(faced)?.get(week)
+        if (opponentScore === undefined) return
+
+        if (score > opponentScore) wins++
+        else if (score < opponentScore) losses++
+        else ties++
+      })
+
+      return toRecord(wins, losses, ties)
+    })
+  })
+
+  const teams: ScheduleSwapTeam[] = seasonTeams.map((team, index) => ({
+    franchiseId: team.franchiseId,
+    teamName: team.teamName,
+    manager: team.manager,
+    actual: records[index][index]
+  }))
+
+  const bestSchedule: ScheduleSwapMatrix['bestSchedule'] = {}
+  const worstSchedule: ScheduleSwapMatrix['worstSchedule'] = {}
+  teams.forEach((team, row) => {
+    records[row].forEach((record, column) => {
+      const candidate = { franchiseId: teams[column].franchiseId, wins: record.wins + record.ties * 0.5 }
+      const best = bestSchedule[team.franchiseId]
+      const worst = worstSchedule[team.franchiseId]
+      if (!best || candidate.wins > best.wins) bestSchedule[team.franchiseId] = candidate
+      if (!worst || candidate.wins < worst.wins) worstSchedule[team.franchiseId] = candidate
+    })
+  })
+
+  return {
+    year,
+    weeks: Array.from(replayedWeeks).sort((a, b) => a - b),
+    teams,
+    records,
+    bestSchedule,
+    worstSchedule
+  }
+}
+
+/**
+ * Wins above (positive) or below the team's actual record, ties counting half
+ */
+export function getSwapWinDelta(matrix: ScheduleSwapMatrix, row: number, column: number): number {
+  const swapped = matrix.records[row][column]
+  const actual = matrix.records[row][row]
+  return (swapped.wins + swapped.ties * 0.5) - (actual.wins + actual.ties * 0.5)
+}
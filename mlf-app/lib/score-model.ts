@@ -0,0 +1,120 @@
+/**
+ * Score Distribution Model
+ * Per-team weekly scoring distributions for the playoff simulator - each game is
+ * decided by sampling both teams' scores, so simulated PF/PA line up with results
+ */
+
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { RandomSource } from './random'
+
+/**
+ * How the simulator decides a game
+ * score-distribution - sample both scores from each team's mean/std dev, higher score wins
+ * win-probability    - legacy: avgpf share ±10% noise decides the game, points invented afterwards
+ * elo                - ELO ratings decide the game; both scores are sampled and the winner gets the higher one
+ */
+export type GameModel = 'score-distribution' | 'win-probability' | 'elo'
+
+export const DEFAULT_GAME_MODEL: GameModel = 'score-distribution'
+
+export interface TeamScoreProfile {
+  franchiseId: string
+  mean: number
+  stdDev: number
+  sampleSize: number // Weeks the profile was built from (0 = standings fallback)
+}
+
+export type ScoreProfiles = Record<string, TeamScoreProfile>
+
+/** Minimal shape of weekly-progression data the model needs */
+export interface WeeklyScoreHistory {
+  franchiseId: string
+  weeklyScores: Array<{ week: number; totalPoints: number }>
+}
+
+// Typical week-to-week spread of a fantasy score relative to its mean, used when
+// there's no weekly data for the league at all
+const DEFAULT_SCORE_CV = 0.15
+
+// Early-season variances are noisy, so each team's variance is shrunk toward the
+// league-wide variance as if it had this many extra weeks of league-average data
+const VARIANCE_PRIOR_WEEKS = 4
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function variance(values: number[], avg: number): number {
+  if (values.length < 2) return 0
+  return values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1)
+}
+
+/**
+ * Build a scoring profile for every team in the standings
+ * Teams with weekly history use their empirical mean and (shrunk) variance;
+ * teams without fall back to standings avgpf and the league-wide spread
+ */
+export function buildScoreProfiles(
+  standings: StandingsFranchise[],
+  history: WeeklyScoreHistory[] = []
+): ScoreProfiles {
+  // Unplayed weeks come back from weekly-progression as zeros
+  const scoresByTeam = new Map<string, number[]>()
+  history.forEach(team => {
+    const scores = team.weeklyScores
+      .map(w => w.totalPoints)
+      .filter(points => Number.isFinite(points) && points > 0)
+    if (scores.length > 0) scoresByTeam.set(team.franchiseId, scores)
+  })
+
+  // Pooled within-team variance across the league
+  let pooledSumSquares = 0
+  let pooledDegrees = 0
+  scoresByTeam.forEach(scores => {
+    if (scores.length < 2) return
+    pooledSumSquares += variance(scores, mean(scores)) * (scores.length - 1)
+    pooledDegrees += scores.length - 1
+  })
+  const leagueVariance = pooledDegrees > 0 ? pooledSumSquares / pooledDegrees : null
+
+  const profiles: ScoreProfiles = {}
+  standings.forEach(team => {
+    const scores = scoresByTeam.get(team.id)
+    const fallbackMean = parseFloat(team.avgpf) || 0
+    const teamMean = scores ? mean(scores) : fallbackMean
+    const priorVariance = leagueVariance ?? (teamMean * DEFAULT_SCORE_CV) ** 2
+
+    let teamVariance = priorVariance
+    if (scores && scores.length >= 2) {
+      const degrees = scores.length - 1
+      teamVariance = (variance(scores, teamMean) * degrees + priorVariance * VARIANCE_PRIOR_WEEKS) /
+        (degrees + VARIANCE_PRIOR_WEEKS)
+    }
+
+    profiles[team.id] = {
+      franchiseId: team.id,
+      mean: teamMean,
+      stdDev: Math.sqrt(teamVariance),
+      sampleSize: scores?.length || 0
+    }
+  })
+
+  return profiles
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+function sampleStandardNormal(random: RandomSource): number {
+  // 1 - random() keeps the log argument in (0, 1]
+  const u1 = 1 - random()
+  const u2 = random()
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+}
+
+/**
+ * Sample one weekly score for a team (never negative)
+ */
+export function sampleTeamScore(profile: TeamScoreProfile, random: RandomSource): number {
+  return Math.max(0, profile.mean + profile.stdDev * sampleStandardNormal(random))
+}
@@ -0,0 +1,36 @@
+/**
+ * Scoring Format Service
+ * Median records for a season from MFL's schedule export, for the routes that
+ * start from MFL's pure head-to-head standings (see scoring-format.ts)
+ */
+
+import { MflClient } from './mfl-client'
+import { parseSeasonGames } from './playoff-backtest'
+import { calculateMedianRecords, type MedianRecord } from './scoring-format'
+import {
+  getCurrentWeekForSeason,
+  getRegularSeasonEndWeek,
+  isSeasonComplete
+} from './season-config'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+
+/**
+ * Record against the weekly median for every team, regular season only
+ * The current season stops at the last finished week so live scores never count;
+ * pass weeks to limit the record to a subset of them
+ */
+export async function fetchMedianRecords(
+  year: number,
+  leagueId: string,
+  weeks?: number[]
+): Promise<Record<string, MedianRecord>> {
+  const schedule = await MflClient.schedule<ScheduleResponse>(year, leagueId)
+  const lastWeek = isSeasonComplete(year)
+    ? getRegularSeasonEndWeek(year)
+    : Math.min(getRegularSeasonEndWeek(year), getCurrentWeekForSeason(year) - 1)
+
+  const games = parseSeasonGames(schedule, lastWeek)
+    .filter(game => !weeks || weeks.includes(game.week))
+
+  return calculateMedianRecords(games)
+}
@@ -0,0 +1,132 @@
+// Scoring Format
+// Head-to-head leagues count one game a week. Median leagues add a second
+// result each week: a win for finishing above the league median score, a loss
+// for finishing below it. Formats are plain data like the tiebreaker rules, so a
+// new league only needs an entry here
+
+import { calculateMedian } from './luck-analytics'
+
+export type ScoringFormat =
+  | 'head-to-head' // One result a week, against the scheduled opponent
+  | 'median' // Plus a result against the league median score each week
+
+export interface LeagueScoringFormat {
+  /** Format used for every season without an override */
+  format: ScoringFormat
+  /** Season-specific formats, keyed by year */
+  seasons?: Record<number, ScoringFormat>
+}
+
+export const SCORING_FORMAT_LABELS: Record<ScoringFormat, string> = {
+  'head-to-head': 'Head-to-head',
+  'median': 'Head-to-head + median'
+}
+
+export const SCORING_FORMATS: ScoringFormat[] = ['head-to-head', 'median']
+
+export const DEFAULT_SCORING_FORMAT: ScoringFormat = 'head-to-head'
+
+/**
+ * Scoring formats by MFL league ID
+ */
+export const LEAGUE_SCORING_FORMATS: Record<string, LeagueScoringFormat> = {
+  '46221': {
+    format: 'head-to-head'
+  }
+}
+
+export interface MedianRecord {
+  wins: number
+  losses: number
+  ties: number
+}
+
+/** A team's score in one week - SeasonGame and matchup results both fit */
+export interface WeeklyTeamScore {
+  week: number
+  franchiseId: string
+  score: number
+}
+
+/**
+ * Get the scoring format a league uses for a season
+ */
+export function getScoringFormat(leagueId: string, year: number): ScoringFormat {
+  const config = LEAGUE_SCORING_FORMATS[leagueId]
+  if (!config) return DEFAULT_SCORING_FORMAT
+  return config.seasons?.[year] || config.format
+}
+
+/**
+ * Read a format from a query string value; null when missing or unknown
+ */
+export function parseScoringFormat(value: string | null | undefined): ScoringFormat | null {
+  return SCORING_FORMATS.find(format => format === value) ?? null
+}
+
+/**
+ * Results counted per scheduled game - median leagues add one against the median
+ */
+export function getResultsPerGame(format: ScoringFormat): number {
+  return format === 'median' ? 2 : 1
+}
+
+/**
+ * Each score's result against its week's median score
+ */
+export function calculateMedianResults<T extends WeeklyTeamScore>(
+  scores: T[]
+): Array<T & { median: number; medianResult: 'W' | 'L' | 'T' }> {
+  const scoresByWeek = new Map<number, number[]>()
+  scores.forEach(entry => {
+    const weekScores = scoresByWeek.get(entry.week) || []
+    weekScores.push(entry.score)
+    scoresByWeek.set(entry.week, weekScores)
+  })
+
+  const medians = new Map<number, number>()
+  scoresByWeek.forEach((weekScores, week) => medians.set(week, calculateMedian(weekScores)))
+
+  return scores.map(entry => {
+    const median = medians.get(entry.week) ?? 0
+    const medianResult = entry.score > median ? 'W' : entry.score < median ? 'L' : 'T'
+    return { ...entry, median, medianResult }
+  })
+}
+
+/**
+ * Record against the weekly median for every team, from one score per team per week
+ */
+export function calculateMedianRecords(scores: WeeklyTeamScore[]): Record<string, MedianRecord> {
+  const records: Record<string, MedianRecord> = {}
+
+  calculateMedianResults(scores).forEach(({ franchiseId, medianResult }) => {
+    const record = records[franchiseId] ?? { wins: 0, losses: 0, ties: 0 }
+    if (medianResult === 'W') record.wins++
+    else if (medianResult === 'L') record.losses++
+    else record.ties++
+    records[franchiseId] = record
+  })
+
+  return records
+}
+
+/**
+ * A head-to-head record with the median results folded in (ties count half)
+ */
+export function combineRecords(
+  record: MedianRecord,
+  median: MedianRecord = { wins: 0, losses: 0, ties: 0 }
+): MedianRecord & { winPercentage: number } {
+  const wins = record.wins + median.wins
+  const losses = record.losses + median.losses
+  const ties = record.ties + median.ties
+  const games = wins + losses + ties
+
+  return {
+    wins,
+    losses,
+    ties,
+    winPercentage: games > 0 ? (wins + ties * 0.5) / games : 0
+  }
+}
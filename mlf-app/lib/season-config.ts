@@ -28,10 +28,23 @@ export interface YearSpecificSeasonConfig {
   regularSeasonEndWeek: number
   /** Fantasy playoff weeks */
   playoffWeeks: number[]
+  /** Championship bracket structure (defaults to DEFAULT_PLAYOFF_BRACKET) */
+  playoffBracket?: PlayoffBracketConfig
   /** Season status */
   seasonStatus: 'completed' | 'current' | 'future'
 }
 
+export interface PlayoffBracketConfig {
+  /** NFL weeks of each round in order; a round listing two weeks is decided by combined score */
+  rounds: number[][]
+  /**
+   * Re-pair survivors every round (best remaining seed plays worst) instead of
+   * following a fixed bracket. Top seeds get first-round byes either way when
+   * the playoff field isn't a power of two
+   */
+  reseed: boolean
+}
+
 export const NFL_SEASON_CONFIG: NFLSeasonConfig = {
   regularSeasonWeeks: 17,
   totalWeeks: 18, // 17 regular season + 1 playoff week for most teams
@@ -206,6 +219,21 @@ export function getYearConfig(year: number): YearSpecificSeasonConfig {
   }
 }
 
+/**
+ * Single-week rounds in weeks 15-17 with a fixed bracket
+ */
+export const DEFAULT_PLAYOFF_BRACKET: PlayoffBracketConfig = {
+  rounds: [[15], [16], [17]],
+  reseed: false
+}
+
+/**
+ * Get the championship bracket structure for a specific year
+ */
+export function getPlayoffBracketConfig(year: number): PlayoffBracketConfig {
+  return getYearConfig(year).playoffBracket || DEFAULT_PLAYOFF_BRACKET
+}
+
 /**
  * Get total weeks available for a specific year
  */
@@ -260,4 +288,19 @@ export function getCurrentWeekForSeason(year: number): number {
   // Cap at total weeks using year-specific config
   const totalWeeks = getTotalWeeksForYear(year)
   return Math.max(1, Math.min(totalWeeks, currentWeek))
-}
\ No newline at end of file
+}
+
+/**
+ * Weeks to wait after a week is played before its scores are treated as final
+ * NFL stat corrections land in the days after a game, so the most recent
+ * completed week stays open until the following week is underway
+ */
+export const STAT_CORRECTION_WEEKS = 1
+
+/**
+ * Check if a week's scores can no longer change (played and past stat corrections)
+ */
+export function isWeekFinal(year: number, week: number): boolean {
+  if (isSeasonComplete(year)) return true
+  return week < getCurrentWeekForSeason(year) - STAT_CORRECTION_WEEKS
+}
@@ -0,0 +1,455 @@
+/**
+ * Incremental Season Sync
+ *
+ * Pulls weekly results for weeks that are new or not yet finalized, hashes each
+ * week's team and player scores and only rewrites the database when the hash
+ * changes (stat corrections). Weeks past the stat correction window are marked
+ * finalized and skipped on later runs. Weeks are always read fresh from MFL, never
+ * from the stale-while-revalidate cache, so a correction can't be hidden behind
+ * a cached copy. Every run is recorded in the sync_logs table.
+ * When scores change, playoff probability snapshots are re-recorded from the
+ * earliest changed week on, and completed weeks without snapshots are filled in
+ * (see probability-snapshots.ts)
+ */
+
+import crypto from 'crypto'
+import { DatabaseService } from './database'
+import { fetchTeamsData } from './mfl'
+import type { Team } from './mfl'
+import { fetchPlayerMappings, fetchWeeklyResults, parseWeeklyLineups } from './mfl-weekly-results'
+import type { PlayerMapping, WeeklyLineup, WeeklyResultsResponse } from './mfl-weekly-results'
+import { toArray } from './mfl-client'
+import { getDefaultLeagueId, getLeague } from './league-registry'
+import { fillMissingProbabilitySnapshots, recordProbabilitySnapshots } from './probability-snapshots'
+import {
+  getCurrentNFLSeason,
+  getCurrentWeekForSeason,
+  getTotalWeeksForYear,
+  isSeasonComplete,
+  isWeekFinal
+} from './season-config'
+
+export type SyncTrigger = 'cli' | 'api'
+
+export interface SyncOptions {
+  trigger?: SyncTrigger
+  /** Re-check finalized weeks too */
+  force?: boolean
+  /** Limit the run to these weeks */
+  weeks?: number[]
+}
+
+export interface WeekSyncOutcome {
+  week: number
+  status: 'imported' | 'corrected' | 'unchanged' | 'not-played' | 'failed'
+  finalized: boolean
+  checksum?: string
+  error?: string
+}
+
+export interface SeasonSyncResult {
+  syncLogId: string
+  year: number
+  leagueId: string
+  status: 'success' | 'partial'
+  weeksChecked: number
+  weeksImported: number
+  weeksCorrected: number
+  weeksUnchanged: number
+  weeksFinalized: number
+  weeks: WeekSyncOutcome[]
+  snapshotWeeks: number[] // Weeks whose playoff probability snapshots were (re)recorded
+  durationMs: number
+}
+
+export interface PlayerScoreRow {
+  leagueId: string
+  year: number
+  week: number
+  playerId: string
+  playerName: string
+  position: string
+  franchiseId: string
+  score: number
+  isStarter: boolean
+  shouldStart: boolean
+  team: string | null
+}
+
+export interface WeeklyResultRow {
+  leagueId: string
+  year: number
+  week: number
+  franchiseId: string
+  opponentId: string | null // Null for playoff weeks MFL lists without matchups
+  score: number
+  opponentScore: number
+  result: string // 'W', 'L', 'T', or '' without an opponent
+  isHomeTeam: boolean
+  mflFinalized: boolean
+  lastVerified: Date
+  dataChecksum?: string
+}
+
+export type TeamRow = ReturnType<typeof toTeamRow>
+
+/**
+ * Convert a team from the MFL API into a teams table row
+ */
+export function toTeamRow(team: Team, year: number, leagueId: string) {
+  return {
+    leagueId,
+    franchiseId: team.id,
+    year,
+    manager: team.manager,
+    teamName: team.teamName,
+    wins: team.wins || 0,
+    losses: team.losses || 0,
+    ties: team.ties || 0,
+    pointsFor: team.pointsFor || team.totalPoints || 0,
+    pointsAgainst: team.pointsAgainst || 0,
+    totalPoints: team.totalPoints || 0,
+    startersPoints: team.startersPoints || 0,
+    benchPoints: team.benchPoints || 0,
+    potentialPoints: team.potentialPoints || 0,
+    efficiency: team.efficiency || 0,
+    qbPoints: team.qbPoints || 0,
+    rbPoints: team.rbPoints || 0,
+    wrPoints: team.wrPoints || 0,
+    tePoints: team.tePoints || 0,
+    kPoints: team.kPoints || 0,
+    dlPoints: team.dlPoints || 0,
+    lbPoints: team.lbPoints || 0,
+    cbPoints: team.cbPoints || 0,
+    sPoints: team.sPoints || 0,
+    offenseFlexPoints: team.offenseFlexPoints || 0,
+    defenseFlexPoints: team.defenseFlexPoints || 0,
+    offensePoints: team.offensePoints || 0,
+    defensePoints: team.defensePoints || 0
+  }
+}
+
+/**
+ * Hash the scores in a week's results so stat corrections can be detected
+ * Only fields MFL can change are included, in a stable order. Player scores are
+ * part of the hash so a correction to a bench player is picked up too
+ */
+export function computeWeekChecksum(
+  rows: Array<{ franchiseId: string; opponentId?: string | null; score: number; opponentScore: number }>,
+  playerRows: PlayerScoreRow[] = []
+): string {
+  const teamLines = rows
+    .map(row => [row.franchiseId, row.opponentId || '', row.score.toFixed(2), row.opponentScore.toFixed(2)].join(':'))
+  const playerLines = playerRows
+    .map(row => [row.franchiseId, row.playerId, row.score.toFixed(2), row.isStarter ? 'S' : 'B'].join(':'))
+  const canonical = [...teamLines.sort(), ...playerLines.sort()].join('|')
+  return crypto.createHash('sha256').update(canonical).digest('hex')
+}
+
+/**
+ * Convert parsed weekly lineups into player_scores rows (starters and bench)
+ */
+export function buildPlayerScoreRows(lineups: WeeklyLineup[], year: number, leagueId: string): PlayerScoreRow[] {
+  const rows: PlayerScoreRow[] = []
+
+  lineups.forEach(lineup => {
+    const shouldStart = new Set(lineup.shouldStartIds || [])
+    const players = [
+      ...lineup.starterData.map(player => ({ player, isStarter: true })),
+      ...lineup.benchData.map(player => ({ player, isStarter: false }))
+    ]
+
+    players.forEach(({ player, isStarter }) => {
+      rows.push({
+        leagueId,
+        year,
+        week: lineup.week,
+        playerId: player.id,
+        playerName: player.name,
+        position: player.position,
+        franchiseId: lineup.franchiseId,
+        score: player.score,
+        isStarter,
+        shouldStart: shouldStart.has(player.id),
+        team: player.team || null
+      })
+    })
+  })
+
+  return rows
+}
+
+/**
+ * Convert one week of MFL weekly results into weekly_results rows (one per franchise)
+ * Matchups without scores yet are skipped. Playoff weeks without scheduled
+ * matchups list franchises on their own; those rows keep the score with no
+ * opponent or result, so the week can still be checksummed and finalized.
+ * Pass the week's player rows so the stored checksum covers them as well
+ */
+export function buildWeeklyResultRows(
+  weeklyResults: WeeklyResultsResponse['weeklyResults'] | undefined,
+  year: number,
+  week: number,
+  leagueId: string,
+  finalized: boolean,
+  playerRows: PlayerScoreRow[] = []
+) {
+  const lastVerified = new Date()
+  const rows: WeeklyResultRow[] = []
+
+  if (!weeklyResults?.matchup && weeklyResults?.franchise) {
+    const franchises = toArray(weeklyResults.franchise)
+    // Skip if no scores (week not played)
+    if (franchises.every(franchise => parseFloat(franchise.score || '0') === 0)) return rows
+
+    franchises.forEach(franchise => {
+      rows.push({
+        leagueId,
+        year,
+        week,
+        franchiseId: franchise.id,
+        opponentId: null,
+        score: parseFloat(franchise.score || '0'),
+        opponentScore: 0,
+        result: '',
+        isHomeTeam: false,
+        mflFinalized: finalized,
+        lastVerified
+      })
+    })
+  }
+
+  toArray(weeklyResults?.matchup).forEach(matchup => {
+    const franchises = toArray(matchup.franchise)
+    if (franchises.length !== 2) return
+
+    const [team1, team2] = franchises
+    const team1Score = parseFloat(team1.score || '0')
+    const team2Score = parseFloat(team2.score || '0')
+
+    // Skip if no scores (game not played)
+    if (team1Score === 0 && team2Score === 0) return
+
+    const team1Result = team1Score > team2Score ? 'W' : team1Score < team2Score ? 'L' : 'T'
+    const team2Result = team1Result === 'W' ? 'L' : team1Result === 'L' ? 'W' : 'T'
+
+    rows.push({
+      leagueId,
+      year,
+      week,
+      franchiseId: team1.id,
+      opponentId: team2.id,
+      score: team1Score,
+      opponentScore: team2Score,
+      result: team1Result,
+      isHomeTeam: true,
+      mflFinalized: finalized,
+      lastVerified
+    })
+
+    rows.push({
+      leagueId,
+      year,
+      week,
+      franchiseId: team2.id,
+      opponentId: team1.id,
+      score: team2Score,
+      opponentScore: team1Score,
+      result: team2Result,
+      isHomeTeam: false,
+      mflFinalized: finalized,
+      lastVerified
+    })
+  })
+
+  const dataChecksum = computeWeekChecksum(rows, playerRows)
+  return rows.map(row => ({ ...row, dataChecksum }))
+}
+
+/**
+ * Weeks that have been played (or started) so far this season
+ */
+function getPlayedWeeks(year: number): number[] {
+  const lastWeek = isSeasonComplete(year) ? getTotalWeeksForYear(year) : getCurrentWeekForSeason(year)
+  return Array.from({ length: lastWeek }, (_, i) => i + 1)
+}
+
+/**
+ * Load teams from MFL into the database
+ */
+async function syncTeams(year: number, leagueId: string): Promise<number> {
+  const teamsData = await fetchTeamsData(year.toString(), leagueId)
+  if (!teamsData || teamsData.length === 0) {
+    throw new Error(`No team data found for ${year}`)
+  }
+
+  await DatabaseService.upsertTeams(teamsData.map(team => toTeamRow(team, year, leagueId)))
+  return teamsData.length
+}
+
+/**
+ * Sync one week, re-importing only when its checksum changed
+ */
+async function syncWeek(
+  year: number,
+  week: number,
+  leagueId: string,
+  playerMappings: PlayerMapping[],
+  previous: { checksum: string | null; finalized: boolean; hasPlayerScores: boolean } | undefined
+): Promise<WeekSyncOutcome> {
+  const finalized = isWeekFinal(year, week)
+  // Fresh from MFL - a stale cached copy would hide corrections and could finalize them away
+  const response = await fetchWeeklyResults(year, leagueId, week, { fresh: true })
+  const lineups = response?.weeklyResults ? parseWeeklyLineups(response, week, playerMappings) : []
+  const playerRows = buildPlayerScoreRows(lineups, year, leagueId)
+  const rows = buildWeeklyResultRows(response?.weeklyResults, year, week, leagueId, finalized, playerRows)
+
+  if (rows.length === 0) {
+    // No team totals yet, but keep any player scores MFL already has
+    if (playerRows.some(row => row.score !== 0)) {
+      await DatabaseService.replacePlayerScores(year, week, playerRows, leagueId)
+    }
+    return { week, status: 'not-played', finalized: false }
+  }
+
+  const checksum = rows[0].dataChecksum as string
+
+  if (previous && previous.checksum === checksum) {
+    await DatabaseService.markWeekVerified(year, week, finalized, leagueId)
+    if (!previous.hasPlayerScores && playerRows.length > 0) {
+      await DatabaseService.replacePlayerScores(year, week, playerRows, leagueId)
+    }
+    return { week, status: 'unchanged', finalized, checksum }
+  }
+
+  await DatabaseService.replaceWeeklyResults(year, week, rows, leagueId)
+  await DatabaseService.replacePlayerScores(year, week, playerRows, leagueId)
+  return { week, status: previous ? 'corrected' : 'imported', finalized, checksum }
+}
+
+/**
+ * Sync a season's new and unfinalized weeks into the database
+ */
+export async function syncSeason(
+  year: number,
+  leagueId: string = getDefaultLeagueId(),
+  options: SyncOptions = {}
+): Promise<SeasonSyncResult> {
+  const { trigger = 'cli', force = false } = options
+  const startTime = Date.now()
+  const syncLog = await DatabaseService.createSyncLog({ year, leagueId, trigger })
+
+  console.log(`[Season Sync] Starting ${year} sync for league ${leagueId} (${trigger})`)
+
+  try {
+    await DatabaseService.upsertSeason({
+      year,
+      leagueId,
+      leagueName: getLeague(leagueId)?.name,
+      isActive: year === getCurrentNFLSeason()
+    })
+
+    // Weekly results reference teams, so a new season needs its teams first
+    const existingTeams = await DatabaseService.getTeams(year, leagueId)
+    const teamsLoaded = existingTeams.length === 0
+    if (teamsLoaded) {
+      const count = await syncTeams(year, leagueId)
+      console.log(`[Season Sync] Loaded ${count} teams`)
+    }
+
+    const weekState = await DatabaseService.getWeekSyncState(year, leagueId)
+    const weeks = (options.weeks || getPlayedWeeks(year))
+      .filter(week => force || !weekState.get(week)?.finalized)
+
+    console.log(`[Season Sync] Checking ${weeks.length} weeks: ${weeks.join(',') || 'none'}`)
+
+    // Positions and NFL teams for the player_scores rows
+    const playerMappings = weeks.length > 0 ? await fetchPlayerMappings(year, leagueId) : []
+
+    const outcomes: WeekSyncOutcome[] = []
+    for (const week of weeks) {
+      try {
+        const outcome = await syncWeek(year, week, leagueId, playerMappings, weekState.get(week))
+        console.log(`[Season Sync] Week ${week}: ${outcome.status}${outcome.finalized ? ' (finalized)' : ''}`)
+        outcomes.push(outcome)
+      } catch (error) {
+        console.error(`[Season Sync] Week ${week} failed:`, error)
+        outcomes.push({
+          week,
+          status: 'failed',
+          finalized: false,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+
+    const countStatus = (status: WeekSyncOutcome['status']) => outcomes.filter(o => o.status === status).length
+    const weeksImported = countStatus('imported')
+    const weeksCorrected = countStatus('corrected')
+    const weeksFinalized = outcomes.filter(o => o.finalized && !weekState.get(o.week)?.finalized).length
+
+    // Scores changed, so refresh names/positional totals and recompute records
+    if (weeksImported + weeksCorrected > 0) {
+      if (!teamsLoaded) {
+        await syncTeams(year, leagueId)
+      }
+      await DatabaseService.updateTeamTotals(year, leagueId)
+    }
+
+    // A changed week changes the standings every later week was simulated from,
+    // and completed weeks never simulated (synced before snapshots existed) are filled in.
+    // Snapshots are a by-product, so a failure here doesn't fail the sync
+    let snapshotWeeks: number[] = []
+    const changedWeeks = outcomes
+      .filter(o => o.status === 'imported' || o.status === 'corrected')
+      .map(o => o.week)
+    try {
+      if (changedWeeks.length > 0) {
+        snapshotWeeks = await recordProbabilitySnapshots(year, leagueId, {
+          fromWeek: Math.min(...changedWeeks),
+          source: 'sync'
+        })
+      }
+      const filledWeeks = await fillMissingProbabilitySnapshots(year, leagueId)
+      snapshotWeeks = [...snapshotWeeks, ...filledWeeks].sort((a, b) => a - b)
+    } catch (error) {
+      console.error('[Season Sync] Recording probability snapshots failed:', error)
+    }
+
+    const result: SeasonSyncResult = {
+      syncLogId: syncLog.id,
+      year,
+      leagueId,
+      status: countStatus('failed') > 0 ? 'partial' : 'success',
+      weeksChecked: outcomes.length,
+      weeksImported,
+      weeksCorrected,
+      weeksUnchanged: countStatus('unchanged'),
+      weeksFinalized,
+      weeks: outcomes,
+      snapshotWeeks,
+      durationMs: Date.now() - startTime
+    }
+
+    await DatabaseService.finishSyncLog(syncLog.id, {
+      status: result.status,
+      weeksChecked: result.weeksChecked,
+      weeksImported: result.weeksImported,
+      weeksCorrected: result.weeksCorrected,
+      weeksUnchanged: result.weeksUnchanged,
+      weeksFinalized: result.weeksFinalized,
+      // Spread each outcome into a plain object so it fits Prisma's JSON input type
+      details: { weeks: outcomes.map(outcome => ({ ...outcome })), snapshotWeeks, durationMs: result.durationMs }
+    })
+
+    console.log(`[Season Sync] ${year} ${result.status}: ${weeksImported} imported, ${weeksCorrected} corrected, ${result.weeksUnchanged} unchanged, ${weeksFinalized} finalized`)
+
+    return result
+  } catch (error) {
+    await DatabaseService.finishSyncLog(syncLog.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    })
+    throw error
+  }
+}
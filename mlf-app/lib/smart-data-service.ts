@@ -11,9 +11,15 @@
 import { DatabaseService } from './database'
 import { fetchTeamsData } from './mfl'
 import { Team } from './mfl'
+import { fetchAllWeeklyResults, type WeeklyLineup } from './mfl-weekly-results'
+import { getDefaultLeagueId } from './league-registry'
+
+// Serve the current season from the database while the last sync is this recent
+const CURRENT_SEASON_MAX_SYNC_AGE = 30 * 60 * 1000 // 30 minutes
 
 interface SmartDataOptions {
   year: number
+  leagueId?: string
   forceRefresh?: boolean
   includeWeeks?: number[]
 }
@@ -30,19 +36,19 @@ export class SmartDataService {
    * Get team data with smart source selection
    */
   static async getTeams(options: SmartDataOptions): Promise<{ data: Team[], source: DataSource }> {
-    const { year, forceRefresh = false } = options
+    const { year, leagueId = getDefaultLeagueId(), forceRefresh = false } = options
     const currentYear = new Date().getFullYear()
 
     // Historical seasons (always use database if available)
     if (year < currentYear && !forceRefresh) {
       console.log(`[SmartData] Checking database for historical year ${year}`)
 
-      const seasonExists = await DatabaseService.seasonExists(year)
+      const seasonExists = await DatabaseService.seasonExists(year, leagueId)
 
       if (seasonExists) {
         console.log(`[SmartData] Using database for ${year} (historical)`)
 
-        const dbTeams = await DatabaseService.getTeams(year)
+        const dbTeams = await DatabaseService.getTeams(year, leagueId)
         const teams: Team[] = dbTeams.map(this.transformDbTeamToMflTeam)
 
         return {
@@ -58,10 +64,31 @@ export class SmartDataService {
       }
     }
 
-    // Current season or forced refresh - use MFL API
+    // Current season - use the database while the incremental sync keeps it fresh
+    if (year >= currentYear && !forceRefresh) {
+      const syncedAt = await this.getRecentSyncTime(year, leagueId)
+
+      if (syncedAt) {
+        console.log(`[SmartData] Using database for ${year} (synced ${syncedAt.toISOString()})`)
+
+        const dbTeams = await DatabaseService.getTeams(year, leagueId)
+        if (dbTeams.length > 0) {
+          return {
+            data: dbTeams.map(this.transformDbTeamToMflTeam),
+            source: {
+              source: 'database',
+              cached: true,
+              timestamp: syncedAt
+            }
+          }
+        }
+      }
+    }
+
+    // Current season without a recent sync, or forced refresh - use MFL API
     console.log(`[SmartData] Using MFL API for ${year} (current season or forced refresh)`)
 
-    const mflTeams = await fetchTeamsData(year.toString())
+    const mflTeams = await fetchTeamsData(year.toString(), leagueId)
 
     return {
       data: mflTeams,
@@ -73,18 +100,61 @@ export class SmartDataService {
     }
   }
 
+  /**
+   * Get weekly starting lineups and benches with the same source selection as getTeams
+   */
+  static async getWeeklyLineups(options: SmartDataOptions): Promise<{ data: WeeklyLineup[], source: DataSource }> {
+    const { year, leagueId = getDefaultLeagueId(), forceRefresh = false, includeWeeks } = options
+    const currentYear = new Date().getFullYear()
+
+    if (!forceRefresh) {
+      const useDatabase = year < currentYear
+        ? await DatabaseService.seasonExists(year, leagueId)
+        : (await this.getRecentSyncTime(year, leagueId)) !== null
+
+      if (useDatabase) {
+        const lineups = await DatabaseService.getWeeklyLineups(year, includeWeeks, leagueId)
+        if (lineups.length > 0) {
+          console.log(`[SmartData] Using database lineups for ${year}`)
+          return {
+            data: lineups,
+            source: {
+              source: 'database',
+              cached: true,
+              timestamp: new Date()
+            }
+          }
+        }
+      }
+    }
+
+    console.log(`[SmartData] Using MFL API lineups for ${year}`)
+
+    const weekFilter = new Set(includeWeeks || [])
+    const lineups = await fetchAllWeeklyResults(year, leagueId)
+
+    return {
+      data: weekFilter.size > 0 ? lineups.filter(lineup => weekFilter.has(lineup.week)) : lineups,
+      source: {
+        source: 'mfl-api',
+        cached: false,
+        timestamp: new Date()
+      }
+    }
+  }
+
   /**
    * Check what weeks are finalized for a given year
    */
-  static async getFinalizedWeeks(year: number): Promise<number[]> {
+  static async getFinalizedWeeks(year: number, leagueId: string = getDefaultLeagueId()): Promise<number[]> {
     const currentYear = new Date().getFullYear()
 
     if (year < currentYear) {
       // Historical year - all weeks are finalized
-      const seasonExists = await DatabaseService.seasonExists(year)
+      const seasonExists = await DatabaseService.seasonExists(year, leagueId)
       if (seasonExists) {
         // Return all weeks that exist in database
-        const weeklyResults = await DatabaseService.getWeeklyResults(year)
+        const weeklyResults = await DatabaseService.getWeeklyResults(year, undefined, leagueId)
         const weeks = [...new Set(weeklyResults.map((r: any) => r.week))].sort((a: any, b: any) => a - b) as number[]
         return weeks
       }
@@ -93,7 +163,7 @@ export class SmartDataService {
     // For current year, check individual week finalization
     const finalizedWeeks: number[] = []
     for (let week = 1; week <= 22; week++) {
-      const isFinalized = await DatabaseService.isWeekFinalized(year, week)
+      const isFinalized = await DatabaseService.isWeekFinalized(year, week, leagueId)
       if (isFinalized) {
         finalizedWeeks.push(week)
       }
@@ -105,8 +175,8 @@ export class SmartDataService {
   /**
    * Get data freshness information
    */
-  static async getDataFreshness(year: number) {
-    const freshness = await DatabaseService.getDataFreshness(year)
+  static async getDataFreshness(year: number, leagueId: string = getDefaultLeagueId()) {
+    const freshness = await DatabaseService.getDataFreshness(year, leagueId)
     const currentYear = new Date().getFullYear()
 
     if (!freshness) {
@@ -132,6 +202,16 @@ export class SmartDataService {
     }
   }
 
+  /**
+   * When the incremental sync last refreshed the current season, or null when that
+   * isn't recent enough to serve the season from the database
+   */
+  private static async getRecentSyncTime(year: number, leagueId: string): Promise<Date | null> {
+    const lastSync = await DatabaseService.getLastSuccessfulSync(year, leagueId)
+    const syncedAt = lastSync?.finishedAt as Date | null | undefined
+    return syncedAt && Date.now() - syncedAt.getTime() < CURRENT_SEASON_MAX_SYNC_AGE ? syncedAt : null
+  }
+
   /**
    * Transform database team to MFL Team interface
    */
@@ -212,7 +292,7 @@ export class SmartDataService {
   /**
    * Check if historical data import is recommended
    */
-  static async shouldImportHistoricalData(): Promise<{
+  static async shouldImportHistoricalData(leagueId: string = getDefaultLeagueId()): Promise<{
     shouldImport: boolean,
     years: number[],
     estimatedTime: string
@@ -222,7 +302,7 @@ export class SmartDataService {
     const missingYears: number[] = []
 
     for (const year of historicalYears) {
-      const exists = await DatabaseService.seasonExists(year)
+      const exists = await DatabaseService.seasonExists(year, leagueId)
       if (!exists) {
         missingYears.push(year)
       }
@@ -0,0 +1,138 @@
+/**
+ * Team Season Service
+ * Inputs for team-season.ts: MFL's league and schedule exports (divisions,
+ * results and games left), each week's lineups (database first, via
+ * SmartDataService), the stored playoff odds snapshots and trade-depth rosters
+ */
+
+import { MflClient } from './mfl-client'
+import { SmartDataService } from './smart-data-service'
+import { calculateAccuratePositionTotals } from './mfl-weekly-results'
+import { buildDivisionsData } from './division-utils'
+import { buildWeekInputs, parseRemainingSchedules, parseSeasonGames } from './playoff-backtest'
+import { getStoredPlayoffHistory } from './probability-snapshots'
+import { analyzeLeagueTradeDepth, type TeamDepthAnalysis } from './trade-depth-calculator'
+import { loadTradeDepthRosters } from './trade-depth-service'
+import { getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
+import { getScoringFormat } from './scoring-format'
+import {
+  getCurrentWeekForSeason,
+  getRegularSeasonEndWeek,
+  getTotalWeeksForYear,
+  isSeasonComplete
+} from './season-config'
+import {
+  buildTeamScheduleStrength,
+  buildTeamWeeklyResults,
+  calculateTeamPositionRanks,
+  type TeamSeason
+} from './team-season'
+import type { WeeklyLineup } from './mfl-weekly-results'
+import type { PositionTotals } from './mfl-position-scraper'
+import type { WeeklyProbabilitySnapshot } from './playoff-history'
+import type { LeagueResponse } from '@/app/api/mfl/divisions/route'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+
+async function loadLineups(year: number, leagueId: string): Promise<WeeklyLineup[]> {
+  // Only completed weeks - a lineup is still changing while its week is live
+  const lastWeek = isSeasonComplete(year) ? getTotalWeeksForYear(year) : getCurrentWeekForSeason(year) - 1
+  if (lastWeek < 1) return []
+
+  return SmartDataService.getWeeklyLineups({
+    year,
+    leagueId,
+    includeWeeks: Array.from({ length: lastWeek }, (_, i) => i + 1)
+  })
+    .then(result => result.data)
+    .catch(error => {
+      console.warn(`[Team Season] No lineups for ${year}, efficiency and position ranks will be empty:`, error)
+      return []
+    })
+}
+
+// Read-only: a page view never simulates, snapshots come from the season sync and backfill
+async function loadOddsHistory(franchiseId: string, year: number, leagueId: string): Promise<WeeklyProbabilitySnapshot[]> {
+  try {
+    const history = await getStoredPlayoffHistory(year, leagueId)
+    return [...(history[franchiseId]?.snapshots || [])].sort((a, b) => a.week - b.week)
+  } catch (error) {
+    console.warn(`[Team Season] No playoff odds history for ${year}:`, error)
+    return []
+  }
+}
+
+async function loadTeamDepth(franchiseId: string, year: number, leagueId: string): Promise<TeamDepthAnalysis | null> {
+  try {
+    const rosters = await loadTradeDepthRosters(year, leagueId)
+    return analyzeLeagueTradeDepth(rosters, year, franchiseId).yourTeamAnalysis ?? null
+  } catch (error) {
+    console.warn(`[Team Season] No rosters for ${year}, skipping trade depth:`, error)
+    return null
+  }
+}
+
+/**
+ * One franchise's season; null if the franchise wasn't in the league that year
+ */
+export async function fetchTeamSeason(franchiseId: string, year: number, leagueId: string): Promise<TeamSeason | null> {
+  await loadOwnerRegistry(leagueId)
+
+  const [league, schedule] = await Promise.all([
+    MflClient.league<LeagueResponse>(year, leagueId),
+    MflClient.schedule<ScheduleResponse>(year, leagueId)
+  ])
+  const divisionsData = buildDivisionsData(league)
+  const franchise = divisionsData.franchises.find(f => f.id === franchiseId)
+  if (!franchise) return null
+
+  const lastRegularWeek = getRegularSeasonEndWeek(year)
+  const games = parseSeasonGames(schedule, lastRegularWeek)
+  const lastPlayedWeek = games.reduce((latest, game) => Math.max(latest, game.week), 0)
+  const { standings } = buildWeekInputs(games, divisionsData, lastPlayedWeek, lastRegularWeek, getScoringFormat(leagueId, year))
+  const standing = standings.find(s => s.id === franchiseId)
+  const teamSchedule = parseRemainingSchedules(schedule, divisionsData, lastPlayedWeek + 1, lastRegularWeek)
+    .find(s => s.franchiseId === franchiseId)
+
+  const [lineups, oddsHistory, depth] = await Promise.all([
+    loadLineups(year, leagueId),
+    loadOddsHistory(franchiseId, year, leagueId),
+    loadTeamDepth(franchiseId, year, leagueId)
+  ])
+
+  // Position ranks cover the regular season, like the Position Analysis view
+  const regularSeasonLineups = lineups.filter(lineup => lineup.week <= lastRegularWeek)
+  const totalsByTeam: Record<string, PositionTotals> = {}
+  divisionsData.franchises.forEach(f => {
+    totalsByTeam[f.id] = calculateAccuratePositionTotals(regularSeasonLineups, f.id)
+  })
+
+  const teams: Record<string, string> = {}
+  divisionsData.franchises.forEach(f => {
+    teams[f.id] = f.name || `Team ${f.id}`
+  })
+
+  return {
+    leagueId,
+    year,
+    franchiseId,
+    teamName: teams[franchiseId],
+    manager: getOwnerName(franchiseId, year, leagueId),
+    division: divisionsData.divisionNames[divisionsData.divisionMap[franchiseId]] || null,
+    record: {
+      wins: parseInt(standing?.h2hw || '0'),
+      losses: parseInt(standing?.h2hl || '0'),
+      ties: parseInt(standing?.h2ht || '0'),
+      pointsFor: parseFloat(standing?.pf || '0'),
+      pointsAgainst: parseFloat(standing?.pa || '0')
+    },
+    teams,
+    weeklyResults: buildTeamWeeklyResults(franchiseId, games, lineups),
+    positionRanks: regularSeasonLineups.length > 0 ? calculateTeamPositionRanks(franchiseId, totalsByTeam) : [],
+    scheduleStrength: standing && teamSchedule
+      ? buildTeamScheduleStrength(franchiseId, games, standings, teamSchedule)
+      : null,
+    oddsHistory,
+    depth
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Team Season
+ * One franchise's season: results week by week with the share of its optimal
+ * lineup each week's starters scored, where its starters ranked league-wide at
+ * each position, and how hard its schedule has been and still is
+ */
+
+import { calculateWeeklyRegret } from './lineup-regret'
+import { calculatePositionRanking, type PositionKey, type PositionRankingResult } from './position-utils'
+import {
+  buildScheduleStrengthMetrics,
+  calculateExpectedWins,
+  calculateMatchupWinProbability,
+  type ScheduleStrengthMetrics
+} from './schedule-strength'
+import type { WeeklyLineup } from './mfl-weekly-results'
+import type { PositionTotals } from './mfl-position-scraper'
+import type { SeasonGame } from './playoff-backtest'
+import type { WeeklyProbabilitySnapshot } from './playoff-history'
+import type { TeamDepthAnalysis } from './trade-depth-calculator'
+import type { StandingsFranchise } from '@/app/api/mfl/standings/route'
+import type { TeamSchedule } from '@/app/api/mfl/schedule-remaining/route'
+
+export const TEAM_POSITIONS: PositionKey[] = ['QB', 'RB', 'WR', 'TE', 'O-Flex', 'K', 'DL', 'LB', 'CB', 'S', 'D-Flex']
+
+export interface TeamWeekResult {
+  week: number
+  opponentId: string | null // Null for weeks without a regular-season game
+  score: number
+  opponentScore: number | null
+  result: SeasonGame['result'] | null
+  optimalPoints: number | null // Null when the week's lineup isn't available
+  efficiency: number | null // Starters' share of the optimal lineup (0-100)
+}
+
+export interface TeamPositionRank extends PositionRankingResult {
+  position: PositionKey
+  leagueAverage: number
+}
+
+export interface TeamRemainingGame {
+  week: number
+  opponentId: string
+  isHome: boolean
+  opponentWinPct: number // 0-1
+  winProbability: number // 0-1, from average points (see calculateMatchupWinProbability)
+}
+
+export interface TeamScheduleStrength extends ScheduleStrengthMetrics {
+  expectedWins: number // Over the remaining games
+  remaining: TeamRemainingGame[]
+}
+
+export interface TeamSeason {
+  leagueId: string
+  year: number
+  franchiseId: string
+  teamName: string
+  manager: string
+  division: string | null
+  record: { wins: number; losses: number; ties: number; pointsFor: number; pointsAgainst: number }
+  teams: Record<string, string> // franchiseId -> team name, for every team that season
+  weeklyResults: TeamWeekResult[]
+  positionRanks: TeamPositionRank[]
+  scheduleStrength: TeamScheduleStrength | null
+  oddsHistory: WeeklyProbabilitySnapshot[]
+  depth: TeamDepthAnalysis | null // Null when rosters couldn't be loaded
+}
+
+/**
+ * Every week of a team's season, from its schedule results and weekly lineups
+ * Weeks with a lineup but no regular-season game (playoffs) keep their score
+ */
+export function buildTeamWeeklyResults(
+  franchiseId: string,
+  games: SeasonGame[],
+  lineups: WeeklyLineup[]
+): TeamWeekResult[] {
+  const teamGames = new Map(
+    games.filter(game => game.franchiseId === franchiseId).map(game => [game.week, game])
+  )
+  const teamLineups = new Map(
+    lineups
+      .filter(lineup => lineup.franchiseId === franchiseId && lineup.starterData.length > 0)
+      .map(lineup => [lineup.week, lineup])
+  )
+  const weeks = Array.from(new Set([...teamGames.keys(), ...teamLineups.keys()])).sort((a, b) => a - b)
+
+  return weeks.map(week => {
+    const game = teamGames.get(week)
+    const lineup = teamLineups.get(week)
+    const regret = lineup ? calculateWeeklyRegret(lineup, game) : null
+
+    return {
+      week,
+      opponentId: game?.opponentId ?? null,
+      score: game?.score ?? regret?.actualPoints ?? 0,
+      opponentScore: game?.opponentScore ?? null,
+      result: game?.result ?? null,
+      optimalPoints: regret?.optimalPoints ?? null,
+      efficiency: regret && regret.optimalPoints > 0 ? (regret.actualPoints / regret.optimalPoints) * 100 : null
+    }
+  })
+}
+
+/**
+ * A team's rank at each position by starter points, against every team's totals
+ */
+export function calculateTeamPositionRanks(
+  franchiseId: string,
+  totalsByTeam: Record<string, PositionTotals>
+): TeamPositionRank[] {
+  const own = totalsByTeam[franchiseId]
+  if (!own) return []
+
+  const allTotals = Object.values(totalsByTeam)
+  return TEAM_POSITIONS.map(position => {
+    const points = allTotals.map(totals => totals[position])
+    return {
+      position,
+      ...calculatePositionRanking(own[position], points, allTotals.length),
+      leagueAverage: points.reduce((sum, value) => sum + value, 0) / allTotals.length
+    }
+  })
+}
+
+/**
+ * Schedule strength so far and for the games left, with each remaining game's odds
+ */
+export function buildTeamScheduleStrength(
+  franchiseId: string,
+  games: SeasonGame[],
+  standings: StandingsFranchise[],
+  schedule: TeamSchedule
+): TeamScheduleStrength {
+  const completed = games
+    .filter(game => game.franchiseId === franchiseId)
+    .map(game => ({ week: game.week, opponentId: game.opponentId, result: game.result }))
+
+  return {
+    ...buildScheduleStrengthMetrics(schedule, standings, completed),
+    expectedWins: calculateExpectedWins(schedule, standings),
+    remaining: schedule.remainingGames.map(game => ({
+      week: game.week,
+      opponentId: game.opponentId,
+      isHome: game.isHome,
+      opponentWinPct: parseFloat(standings.find(s => s.id === game.opponentId)?.h2hpct || '0') || 0,
+      winProbability: calculateMatchupWinProbability(franchiseId, game.opponentId, standings)
+    }))
+  }
+}
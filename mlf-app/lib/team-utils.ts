@@ -81,4 +81,13 @@ export function formatYearsDisplay(years: number[]): string {
   }
   
   return `${sortedYears.slice(0, -1).join(', ')} & ${sortedYears[sortedYears.length - 1]}`
-}
\ No newline at end of file
+}
+
+/**
+ * Link to a team's season page (/team/[franchiseId]/[year])
+ * @param leagueId - Carried as a query param so the server renders the same league
+ */
+export function getTeamSeasonHref(franchiseId: string, year: number, leagueId?: string): string {
+  const path = `/team/${encodeURIComponent(franchiseId)}/${year}`
+  return leagueId ? `${path}?leagueId=${encodeURIComponent(leagueId)}` : path
+}
@@ -0,0 +1,72 @@
+// Tiebreaker Rules
+// Each league ranks teams by its own chain of tiebreak steps, optionally
+// changing it from one season to the next. Chains are plain data so a new
+// league only needs an entry here (see tiebreaker-utils.ts for how they're applied)
+
+export type TiebreakerStep =
+  | 'win-pct' // Overall winning percentage
+  | 'head-to-head' // Combined record in games among the tied teams
+  | 'division-record' // Division winning percentage
+  | 'points-for' // Most total points scored
+  | 'points-against' // Fewest total points allowed
+  | 'opponent-points' // Weakest schedule (lowest combined opponent points)
+  | 'all-play' // All-play winning percentage (every team vs every team, every week)
+  | 'victory-points' // Most victory points
+  | 'coin-flip' // Random draw
+
+export type TiebreakerChain = TiebreakerStep[]
+
+export interface LeagueTiebreakerRules {
+  /** Chain used for every season without an override */
+  chain: TiebreakerChain
+  /** Season-specific chains, keyed by year */
+  seasons?: Record<number, TiebreakerChain>
+}
+
+export const TIEBREAKER_STEP_LABELS: Record<TiebreakerStep, string> = {
+  'win-pct': 'Win %',
+  'head-to-head': 'Head-to-head',
+  'division-record': 'Division record',
+  'points-for': 'Points for',
+  'points-against': 'Points against',
+  'opponent-points': 'Strength of schedule',
+  'all-play': 'All-play %',
+  'victory-points': 'Victory points',
+  'coin-flip': 'Coin flip'
+}
+
+/**
+ * Chain for leagues without their own rules
+ */
+export const DEFAULT_TIEBREAKER_CHAIN: TiebreakerChain = [
+  'win-pct',
+  'points-for',
+  'head-to-head',
+  'division-record',
+  'opponent-points'
+]
+
+/**
+ * Tiebreaker rules by MFL league ID
+ */
+export const LEAGUE_TIEBREAKER_RULES: Record<string, LeagueTiebreakerRules> = {
+  '46221': {
+    chain: DEFAULT_TIEBREAKER_CHAIN
+  }
+}
+
+/**
+ * Get the tiebreaker chain a league uses for a season
+ */
+export function getTiebreakerChain(leagueId: string, year: number): TiebreakerChain {
+  const rules = LEAGUE_TIEBREAKER_RULES[leagueId]
+  if (!rules) return DEFAULT_TIEBREAKER_CHAIN
+  return rules.seasons?.[year] || rules.chain
+}
+
+/**
+ * Human-readable chain, e.g. "Win % → Points for → Head-to-head"
+ */
+export function describeTiebreakerChain(chain: TiebreakerChain): string {
+  return chain.map(step => TIEBREAKER_STEP_LABELS[step]).join(' → ')
+}
@@ -1,14 +1,21 @@
 /**
  * Tiebreaker Utilities for Playoff Seeding
  *
- * Tiebreaker Rules (in order):
- * 1. Overall winning percentage
- * 2. Total points scored
- * 3. Head-to-head record
- * 4. Divisional winning percentage
- * 5. Reverse order of opponent total points scored (lower is better)
+ * Teams are ranked by a chain of tiebreak steps (see tiebreaker-rules.ts for the
+ * steps and each league's chain). Teams are always split by win percentage
+ * first - a chain only breaks ties between equal records. Ties between three or
+ * more teams are resolved as a group: the first step that separates them splits
+ * the group into tiers, and each tier that's still tied starts again from the top
+ * of the chain
  */
 
+import {
+  DEFAULT_TIEBREAKER_CHAIN,
+  type TiebreakerChain,
+  type TiebreakerStep,
+} from './tiebreaker-rules'
+import { createSeededRandom, deriveSeed, type RandomSource } from './random'
+
 export interface TeamRecord {
   franchiseId: string
   wins: number
@@ -22,13 +29,24 @@ export interface TeamRecord {
   opponentPointsFor?: number // Total points scored by all opponents
   headToHeadWins?: Record<string, number> // wins vs specific opponents
   headToHeadLosses?: Record<string, number> // losses vs specific opponents
+  allPlayWins?: number
+  allPlayLosses?: number
+  allPlayTies?: number
+  victoryPoints?: number
 }
 
+/** Completed head-to-head results: franchiseId -> opponentId -> count */
+export type HeadToHeadRecords = Record<string, {
+  wins: Record<string, number>
+  losses: Record<string, number>
+}>
+
 export interface TiebreakerResult {
   winner: string
   loser: string
   reason: string
-  step: number
+  step: number // 1-based position in the chain, after win % is moved to the front
+  rule: TiebreakerStep
 }
 
 /**
@@ -76,143 +94,234 @@ export function getHeadToHeadRecord(
 }
 
 /**
- * Apply tiebreaker rules between two teams
- * Returns 1 if teamA wins, -1 if teamB wins, 0 if still tied
+ * Build head-to-head records from game results (each game listed from one team's side)
  */
-export function applyTiebreaker(teamA: TeamRecord, teamB: TeamRecord): TiebreakerResult | null {
-  // Step 1: Overall winning percentage
-  const winPctA = calculateWinPercentage(teamA.wins, teamA.losses, teamA.ties)
-  const winPctB = calculateWinPercentage(teamB.wins, teamB.losses, teamB.ties)
-
-  if (Math.abs(winPctA - winPctB) > 0.001) { // Use small epsilon for float comparison
-    if (winPctA > winPctB) {
-      return {
-        winner: teamA.franchiseId,
-        loser: teamB.franchiseId,
-        reason: `Better winning percentage (${(winPctA * 100).toFixed(1)}% vs ${(winPctB * 100).toFixed(1)}%)`,
-        step: 1
-      }
-    } else {
-      return {
-        winner: teamB.franchiseId,
-        loser: teamA.franchiseId,
-        reason: `Better winning percentage (${(winPctB * 100).toFixed(1)}% vs ${(winPctA * 100).toFixed(1)}%)`,
-        step: 1
-      }
+export function buildHeadToHeadRecords(
+  games: Array<{ franchiseId: string; opponentId: string; result: 'W' | 'L' | 'T' }>
+): HeadToHeadRecords {
+  const records: HeadToHeadRecords = {}
+  games.forEach(game => {
+    if (!records[game.franchiseId]) {
+      records[game.franchiseId] = { wins: {}, losses: {} }
     }
-  }
+    const record = records[game.franchiseId]
+    if (game.result === 'W') {
+      record.wins[game.opponentId] = (record.wins[game.opponentId] || 0) + 1
+    } else if (game.result === 'L') {
+      record.losses[game.opponentId] = (record.losses[game.opponentId] || 0) + 1
+    }
+  })
+  return records
+}
 
-  // Step 2: Total points scored
-  if (Math.abs(teamA.pointsFor - teamB.pointsFor) > 0.01) {
-    if (teamA.pointsFor > teamB.pointsFor) {
-      return {
-        winner: teamA.franchiseId,
-        loser: teamB.franchiseId,
-        reason: `More total points (${teamA.pointsFor.toFixed(2)} vs ${teamB.pointsFor.toFixed(2)})`,
-        step: 2
-      }
-    } else {
-      return {
-        winner: teamB.franchiseId,
-        loser: teamA.franchiseId,
-        reason: `More total points (${teamB.pointsFor.toFixed(2)} vs ${teamA.pointsFor.toFixed(2)})`,
-        step: 2
-      }
+interface StepRule {
+  /** Value per team in the tied group, higher ranks first; undefined when the step can't be applied */
+  values: (group: TeamRecord[], random: RandomSource) => Array<number | undefined>
+  /** Values closer than this are still tied */
+  epsilon: number
+  /** Why winner ranks ahead of loser */
+  describe: (winner: TeamRecord, loser: TeamRecord) => string
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const allPlayPercentage = (team: TeamRecord): number | undefined => {
+  const games = (team.allPlayWins || 0) + (team.allPlayLosses || 0) + (team.allPlayTies || 0)
+  if (games === 0) return undefined
+  return calculateWinPercentage(team.allPlayWins || 0, team.allPlayLosses || 0, team.allPlayTies || 0)
+}
+
+const divisionPercentage = (team: TeamRecord) =>
+  calculateDivisionWinPercentage(team.divisionWins, team.divisionLosses, team.divisionTies)
+
+/**
+ * Combined record of each team in games against the rest of the group
+ * Only applies when every tied team has played every other one
+ */
+function headToHeadValues(group: TeamRecord[]): Array<number | undefined> {
+  const gamesBetween = (a: TeamRecord, b: TeamRecord) =>
+    (a.headToHeadWins?.[b.franchiseId] || 0) + (a.headToHeadLosses?.[b.franchiseId] || 0)
+
+  const allMet = group.every(a => group.every(b => a === b || gamesBetween(a, b) > 0))
+  if (!allMet) return group.map(() => undefined)
+
+  return group.map(team => {
+    let wins = 0
+    let losses = 0
+    group.forEach(opponent => {
+      if (opponent === team) return
+      wins += team.headToHeadWins?.[opponent.franchiseId] || 0
+      losses += team.headToHeadLosses?.[opponent.franchiseId] || 0
+    })
+    return calculateWinPercentage(wins, losses, 0)
+  })
+}
+
+const STEP_RULES: Record<TiebreakerStep, StepRule> = {
+  'win-pct': {
+    values: group => group.map(t => calculateWinPercentage(t.wins, t.losses, t.ties)),
+    epsilon: 0.001,
+    describe: (winner, loser) => `Better winning percentage (${percent(calculateWinPercentage(winner.wins, winner.losses, winner.ties))} vs ${percent(calculateWinPercentage(loser.wins, loser.losses, loser.ties))})`
+  },
+  'head-to-head': {
+    values: headToHeadValues,
+    epsilon: 0.001,
+    describe: (winner, loser) => {
+      const h2h = getHeadToHeadRecord(winner, loser)
+      return `Won head-to-head (${h2h.wins}-${h2h.losses}${h2h.ties > 0 ? `-${h2h.ties}` : ''})`
     }
+  },
+  'division-record': {
+    values: group => group.map(divisionPercentage),
+    epsilon: 0.001,
+    describe: (winner, loser) => `Better division record (${percent(divisionPercentage(winner))} vs ${percent(divisionPercentage(loser))})`
+  },
+  'points-for': {
+    values: group => group.map(t => t.pointsFor),
+    epsilon: 0.01,
+    describe: (winner, loser) => `More total points (${winner.pointsFor.toFixed(2)} vs ${loser.pointsFor.toFixed(2)})`
+  },
+  'points-against': {
+    values: group => group.map(t => -t.pointsAgainst),
+    epsilon: 0.01,
+    describe: (winner, loser) => `Fewer points against (${winner.pointsAgainst.toFixed(2)} vs ${loser.pointsAgainst.toFixed(2)})`
+  },
+  'opponent-points': {
+    values: group => group.map(t => t.opponentPointsFor === undefined ? undefined : -t.opponentPointsFor),
+    epsilon: 0.01,
+    describe: (winner, loser) => `Weaker opponents (${winner.opponentPointsFor?.toFixed(2)} vs ${loser.opponentPointsFor?.toFixed(2)} opp pts)`
+  },
+  'all-play': {
+    values: group => group.map(allPlayPercentage),
+    epsilon: 0.001,
+    describe: (winner, loser) => `Better all-play record (${percent(allPlayPercentage(winner) || 0)} vs ${percent(allPlayPercentage(loser) || 0)})`
+  },
+  'victory-points': {
+    values: group => group.map(t => t.victoryPoints),
+    epsilon: 0.001,
+    describe: (winner, loser) => `More victory points (${winner.victoryPoints} vs ${loser.victoryPoints})`
+  },
+  'coin-flip': {
+    values: (group, random) => group.map(() => random()),
+    epsilon: 0,
+    describe: () => 'Won coin flip'
+  },
+}
+
+/**
+ * Coin flips outside a simulation are seeded by the teams involved, so the
+ * same tie always breaks the same way. Created on first flip - most chains never get there
+ */
+function defaultCoinFlip(teams: TeamRecord[]): RandomSource {
+  let random: RandomSource | null = null
+  return () => {
+    if (!random) random = createSeededRandom(deriveSeed('coin-flip', ...teams.map(t => t.franchiseId).sort()))
+    return random()
   }
+}
 
-  // Step 3: Head-to-head record
-  const h2h = getHeadToHeadRecord(teamA, teamB)
-  if (h2h.wins !== h2h.losses) {
-    if (h2h.wins > h2h.losses) {
-      return {
-        winner: teamA.franchiseId,
-        loser: teamB.franchiseId,
-        reason: `Won head-to-head (${h2h.wins}-${h2h.losses}${h2h.ties > 0 ? `-${h2h.ties}` : ''})`,
-        step: 3
-      }
+/**
+ * Split a tied group into tiers by one step, best tier first
+ * Returns null when the step doesn't apply to every team
+ */
+function splitByStep(
+  group: TeamRecord[],
+  step: TiebreakerStep,
+  random: RandomSource
+): TeamRecord[][] | null {
+  const rule = STEP_RULES[step]
+  const values = rule.values(group, random)
+  if (values.some(value => value === undefined)) return null
+
+  const ordered = group
+    .map((team, index) => ({ team, value: values[index] as number }))
+    .sort((a, b) => b.value - a.value)
+
+  const tiers: Array<{ value: number; teams: TeamRecord[] }> = []
+  ordered.forEach(({ team, value }) => {
+    const tier = tiers[tiers.length - 1]
+    if (tier && tier.value - value <= rule.epsilon) {
+      tier.teams.push(team)
     } else {
-      return {
-        winner: teamB.franchiseId,
-        loser: teamA.franchiseId,
-        reason: `Won head-to-head (${h2h.losses}-${h2h.wins}${h2h.ties > 0 ? `-${h2h.ties}` : ''})`,
-        step: 3
-      }
+      tiers.push({ value, teams: [team] })
     }
-  }
+  })
 
-  // Step 4: Divisional winning percentage
-  const divPctA = calculateDivisionWinPercentage(
-    teamA.divisionWins,
-    teamA.divisionLosses,
-    teamA.divisionTies
-  )
-  const divPctB = calculateDivisionWinPercentage(
-    teamB.divisionWins,
-    teamB.divisionLosses,
-    teamB.divisionTies
-  )
-
-  if (Math.abs(divPctA - divPctB) > 0.001) {
-    if (divPctA > divPctB) {
-      return {
-        winner: teamA.franchiseId,
-        loser: teamB.franchiseId,
-        reason: `Better division record (${(divPctA * 100).toFixed(1)}% vs ${(divPctB * 100).toFixed(1)}%)`,
-        step: 4
-      }
-    } else {
-      return {
-        winner: teamB.franchiseId,
-        loser: teamA.franchiseId,
-        reason: `Better division record (${(divPctB * 100).toFixed(1)}% vs ${(divPctA * 100).toFixed(1)}%)`,
-        step: 4
-      }
+  return tiers.map(tier => tier.teams)
+}
+
+/**
+ * The chain as applied: win % first, then the league's steps in order
+ * (a chain that lists win % later or leaves it out still only ranks equal records)
+ */
+function withWinPctFirst(chain: TiebreakerChain): TiebreakerChain {
+  return ['win-pct', ...chain.filter(step => step !== 'win-pct')]
+}
+
+function rankGroup(group: TeamRecord[], chain: TiebreakerChain, random: RandomSource): TeamRecord[] {
+  if (group.length < 2) return group
+
+  for (const step of chain) {
+    const tiers = splitByStep(group, step, random)
+    if (tiers && tiers.length > 1) {
+      // Teams still tied start over from the first step as a smaller group
+      return tiers.flatMap(tier => rankGroup(tier, chain, random))
     }
   }
 
-  // Step 5: Reverse order of opponent total points scored (lower is better - "strength of schedule")
-  if (teamA.opponentPointsFor !== undefined && teamB.opponentPointsFor !== undefined) {
-    if (Math.abs(teamA.opponentPointsFor - teamB.opponentPointsFor) > 0.01) {
-      if (teamA.opponentPointsFor < teamB.opponentPointsFor) {
-        return {
-          winner: teamA.franchiseId,
-          loser: teamB.franchiseId,
-          reason: `Weaker opponents (${teamA.opponentPointsFor.toFixed(2)} vs ${teamB.opponentPointsFor.toFixed(2)} opp pts)`,
-          step: 5
-        }
-      } else {
-        return {
-          winner: teamB.franchiseId,
-          loser: teamA.franchiseId,
-          reason: `Weaker opponents (${teamB.opponentPointsFor.toFixed(2)} vs ${teamA.opponentPointsFor.toFixed(2)} opp pts)`,
-          step: 5
-        }
+  // Tied through the whole chain - keep the incoming order
+  return group
+}
+
+/**
+ * Apply the tiebreaker chain between two teams
+ * Returns the first step that separates them, or null if they're tied through the whole chain
+ */
+export function applyTiebreaker(
+  teamA: TeamRecord,
+  teamB: TeamRecord,
+  chain: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN,
+  random: RandomSource = defaultCoinFlip([teamA, teamB])
+): TiebreakerResult | null {
+  chain = withWinPctFirst(chain)
+  for (let i = 0; i < chain.length; i++) {
+    const tiers = splitByStep([teamA, teamB], chain[i], random)
+    if (tiers && tiers.length > 1) {
+      const [winner, loser] = [tiers[0][0], tiers[1][0]]
+      return {
+        winner: winner.franchiseId,
+        loser: loser.franchiseId,
+        reason: STEP_RULES[chain[i]].describe(winner, loser),
+        step: i + 1,
+        rule: chain[i]
       }
     }
   }
 
-  // Still tied - return null (should be extremely rare)
   return null
 }
 
 /**
- * Sort teams by tiebreaker rules
+ * Sort teams by win percentage, then the tiebreaker chain within equal records
  * Returns teams sorted from best to worst
  */
-export function sortByTiebreakers(teams: TeamRecord[]): TeamRecord[] {
-  return [...teams].sort((a, b) => {
-    const result = applyTiebreaker(a, b)
-    if (!result) return 0 // Still tied
-    return result.winner === a.franchiseId ? -1 : 1
-  })
+export function sortByTiebreakers(
+  teams: TeamRecord[],
+  chain: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN,
+  random: RandomSource = defaultCoinFlip(teams)
+): TeamRecord[] {
+  return rankGroup([...teams], withWinPctFirst(chain), random)
 }
 
 /**
  * Get tiebreaker explanation between two teams
  */
-export function getTiebreakerExplanation(teamA: TeamRecord, teamB: TeamRecord): string {
-  const result = applyTiebreaker(teamA, teamB)
+export function getTiebreakerExplanation(
+  teamA: TeamRecord,
+  teamB: TeamRecord,
+  chain: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN
+): string {
+  const result = applyTiebreaker(teamA, teamB, chain)
   if (!result) {
     return 'Teams are completely tied (extremely rare)'
   }
@@ -225,7 +334,9 @@ export function getTiebreakerExplanation(teamA: TeamRecord, teamB: TeamRecord):
  */
 export function determineDivisionWinners(
   teams: TeamRecord[],
-  divisionMap: Record<string, string>
+  divisionMap: Record<string, string>,
+  chain: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN,
+  random?: RandomSource
 ): string[] {
   // Group teams by division
   const divisionTeams: Record<string, TeamRecord[]> = {}
@@ -241,7 +352,7 @@ export function determineDivisionWinners(
   // Find winner of each division
   const winners: string[] = []
   Object.entries(divisionTeams).forEach(([division, divTeams]) => {
-    const sorted = sortByTiebreakers(divTeams)
+    const sorted = sortByTiebreakers(divTeams, chain, random)
     if (sorted.length > 0) {
       winners.push(sorted[0].franchiseId)
     }
@@ -254,20 +365,23 @@ export function determineDivisionWinners(
  * Determine playoff seeding (6 teams: 3 division winners + 3 wildcards)
  * Division winners get top 3 seeds (sorted by tiebreakers)
  * Wildcards get seeds 4-6 (sorted by tiebreakers)
+ * random drives coin-flip steps; omit it for a coin flip that's fixed per set of teams
  */
 export function determinePlayoffSeeding(
   teams: TeamRecord[],
-  divisionMap: Record<string, string>
+  divisionMap: Record<string, string>,
+  chain: TiebreakerChain = DEFAULT_TIEBREAKER_CHAIN,
+  random?: RandomSource
 ): { seed: number; franchiseId: string; isDivisionWinner: boolean }[] {
-  const divisionWinners = determineDivisionWinners(teams, divisionMap)
+  const divisionWinners = determineDivisionWinners(teams, divisionMap, chain, random)
 
   // Separate division winners and wildcards
   const divWinnerTeams = teams.filter(t => divisionWinners.includes(t.franchiseId))
   const wildcardTeams = teams.filter(t => !divisionWinners.includes(t.franchiseId))
 
   // Sort each group by tiebreakers
-  const sortedDivWinners = sortByTiebreakers(divWinnerTeams)
-  const sortedWildcards = sortByTiebreakers(wildcardTeams)
+  const sortedDivWinners = sortByTiebreakers(divWinnerTeams, chain, random)
+  const sortedWildcards = sortByTiebreakers(wildcardTeams, chain, random)
 
   // Assign seeds
   const seeding: { seed: number; franchiseId: string; isDivisionWinner: boolean }[] = []
@@ -0,0 +1,142 @@
+/**
+ * Trade Depth Service
+ * Rosters for trade-depth-calculator.ts: MFL's rosters export, names and
+ * positions from the players database, and each player's season-to-date points
+ */
+
+import { fetchRosters, fetchPlayerScores, fetchPlayers } from './mfl-api-endpoints'
+import { getCurrentWeekForSeason } from './season-config'
+import { getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
+import type { RosterPlayer } from './trade-depth-calculator'
+
+export interface TradeDepthRoster {
+  franchiseId: string
+  teamName: string
+  manager: string
+  roster: RosterPlayer[]
+}
+
+/**
+ * Every franchise's roster with season-to-date scoring, ready for analyzeLeagueTradeDepth
+ */
+export async function loadTradeDepthRosters(year: number, leagueId: string): Promise<TradeDepthRoster[]> {
+  await loadOwnerRegistry(leagueId)
+
+  // Step 1: Fetch all rosters
+  console.log('[Trade Depth] Fetching rosters...')
+  const rostersResponse = await fetchRosters(year.toString(), leagueId)
+
+  if (!rostersResponse.rosters?.franchise) {
+    throw new Error('No roster data available')
+  }
+
+  const franchises = Array.isArray(rostersResponse.rosters.franchise)
+    ? rostersResponse.rosters.franchise
+    : [rostersResponse.rosters.franchise]
+
+  // Step 2: Fetch player metadata (names, positions)
+  console.log('[Trade Depth] Fetching player metadata...')
+  const playersResponse = await fetchPlayers(year.toString())
+  const playerMap = new Map<string, { name: string; position: string }>()
+
+  if (playersResponse.players?.player) {
+    const players = Array.isArray(playersResponse.players.player)
+      ? playersResponse.players.player
+      : [playersResponse.players.player]
+
+    players.forEach((p) => {
+      playerMap.set(p.id, {
+        name: p.name,
+        position: p.position,
+      })
+    })
+  }
+
+  // Step 3: Fetch season-to-date player scores
+  console.log('[Trade Depth] Fetching YTD player scores...')
+  const scoresResponse = await fetchPlayerScores(year.toString(), leagueId, 'YTD')
+  const scoreMap = new Map<string, number>()
+
+  if (scoresResponse.playerScores?.playerScore) {
+    const scores = Array.isArray(scoresResponse.playerScores.playerScore)
+      ? scoresResponse.playerScores.playerScore
+      : [scoresResponse.playerScores.playerScore]
+
+    scores.forEach((s) => {
+      scoreMap.set(s.id, parseFloat(s.score) || 0)
+    })
+  }
+
+  // Step 4: Calculate games played (weeks completed)
+  const currentWeek = getCurrentWeekForSeason(year)
+  const lastCompletedWeek = Math.max(1, currentWeek - 1)
+  const gamesPlayed = lastCompletedWeek
+
+  console.log(`[Trade Depth] Season through week ${lastCompletedWeek} (${gamesPlayed} games)`)
+
+  // Step 5: Build roster data for all teams
+  const allRosters: TradeDepthRoster[] = []
+
+  for (const franchise of franchises) {
+    const franchiseId = franchise.id
+    const manager = getOwnerName(franchiseId, year, leagueId) || 'Unknown'
+    const teamName = `Team ${manager}` // Use manager name as team name
+
+    // Parse player IDs from roster
+    const playerIds = franchise.player
+      ? franchise.player.map((p) => p.id)
+      : []
+
+    // Build roster with enriched player data
+    const roster: RosterPlayer[] = playerIds
+      .map((playerId: string) => {
+        const playerInfo = playerMap.get(playerId)
+        const totalPoints = scoreMap.get(playerId) || 0
+        const seasonPPG = gamesPlayed > 0 ? totalPoints / gamesPlayed : 0
+
+        if (!playerInfo) {
+          console.warn(`[Trade Depth] Missing player info for ${playerId}`)
+          return null
+        }
+
+        // Normalize position codes
+        let position = playerInfo.position.toUpperCase()
+        if (position === 'PK') position = 'K'
+        if (position === 'DE' || position === 'DT') position = 'DL'
+        if (position === 'FS' || position === 'SS') position = 'S'
+
+        // Filter out non-standard positions
+        const validPositions = ['QB', 'RB', 'WR', 'TE', 'K', 'DL', 'LB', 'CB', 'S']
+        if (!validPositions.includes(position)) {
+          return null
+        }
+
+        return {
+          id: playerId,
+          name: playerInfo.name,
+          position: position as RosterPlayer['position'],
+          seasonPPG: Math.round(seasonPPG * 100) / 100,
+          totalPoints: Math.round(totalPoints * 100) / 100,
+          gamesPlayed,
+          positionRank: 0, // Will be calculated in trade-depth-calculator
+          isStartable: false, // Will be calculated in trade-depth-calculator
+          starterOnTeamCount: 0, // Will be calculated in trade-depth-calculator
+        }
+      })
+      .filter((p): p is RosterPlayer => p !== null)
+
+    allRosters.push({
+      franchiseId,
+      teamName,
+      manager,
+      roster,
+    })
+
+    console.log(
+      `[Trade Depth] ${teamName} (${manager}): ${roster.length} players, ${playerIds.length} total IDs`
+    )
+  }
+
+  return allRosters
+}
@@ -0,0 +1,122 @@
+/**
+ * Weekly Projections Service
+ * Inputs for weekly-projections.ts: current rosters and the week's NFL byes from
+ * MFL, recent scoring from the weekly lineups (database first, via
+ * SmartDataService), and the week's matchups from the schedule export
+ */
+
+import { MflClient, toArray } from './mfl-client'
+import { getFixtureMode } from './mfl-fixtures'
+import { calculateOptimalLineup, fetchRosters, LINEUP_REQUIREMENTS } from './mfl-api-endpoints'
+import { fetchPlayerMappings } from './mfl-weekly-results'
+import { SmartDataService } from './smart-data-service'
+import { getOwnerName } from './owner-mappings'
+import { loadOwnerRegistry } from './owner-registry-service'
+import { buildPlayerScoreProfiles } from './live-win-probability'
+import {
+  buildMatchupProjection,
+  getProjectionWindow,
+  projectPlayer,
+  summarizeTeamProjection,
+  type MatchupProjection,
+  type TeamProjection,
+  type WeeklyProjections
+} from './weekly-projections'
+import type { Player } from './mfl'
+import type { ScheduleResponse } from '@/app/api/mfl/schedule-remaining/route'
+import type { LeagueResponse } from '@/app/api/mfl/divisions/route'
+
+/**
+ * Project every team's score for a week, and each of that week's matchups
+ */
+export async function fetchWeeklyProjections(year: number, leagueId: string, week: number): Promise<WeeklyProjections> {
+  await loadOwnerRegistry(leagueId)
+
+  const historyWeeks = getProjectionWindow(week)
+  const [lineups, rosters, players, league, schedule, byes] = await Promise.all([
+    historyWeeks.length > 0
+      ? SmartDataService.getWeeklyLineups({ year, leagueId, includeWeeks: historyWeeks }).then(result => result.data)
+      : Promise.resolve([]),
+    fetchRosters(String(year), leagueId),
+    fetchPlayerMappings(year, leagueId),
+    MflClient.league<LeagueResponse>(year, leagueId),
+    MflClient.schedule<ScheduleResponse>(year, leagueId),
+    MflClient.nflByeWeeks(year, week).catch(error => {
+      // Offline, missing byes mean an incomplete fixture set - every player would project as available
+      const log = getFixtureMode() === 'replay' ? console.error : console.warn
+      log(`[Weekly Projections] No bye weeks for ${year} week ${week}:`, error)
+      return null
+    })
+  ])
+
+  const profiles = buildPlayerScoreProfiles(lineups.filter(lineup => historyWeeks.includes(lineup.week)))
+  const playersById = new Map(players.map(player => [player.id, player]))
+  const byeTeams = new Set(
+    toArray(byes?.nflByeWeeks?.team)
+      .filter(team => parseInt(team.bye_week) === week)
+      .map(team => team.id)
+  )
+
+  const franchiseNames: Record<string, string> = {}
+  toArray(league.league?.franchises?.franchise).forEach(franchise => {
+    if (franchise.id) franchiseNames[franchise.id] = franchise.name || `Team ${franchise.id}`
+  })
+
+  const teams: TeamProjection[] = toArray(rosters.rosters?.franchise).map(franchise => {
+    const projections = toArray(franchise.player).map(rostered => {
+      const info = playersById.get(rostered.id)
+      return projectPlayer(
+        {
+          id: rostered.id,
+          name: info?.name || `Player ${rostered.id}`,
+          position: info?.position || 'UNKNOWN',
+          nflTeam: info?.team || '',
+          rosterStatus: rostered.status
+        },
+        profiles,
+        byeTeams
+      )
+    })
+
+    // Pick starters with the same slot rules the lineup analysis uses
+    const candidates: Player[] = projections
+      .filter(player => player.status === 'available')
+      .map(player => ({
+        id: player.id,
+        name: player.name,
+        team: player.nflTeam,
+        position: player.position,
+        score: player.projectedScore,
+        status: 'bench'
+      }))
+    const starterIds = new Set(calculateOptimalLineup(candidates, LINEUP_REQUIREMENTS).map(player => player.id))
+
+    return summarizeTeamProjection(
+      {
+        franchiseId: franchise.id,
+        teamName: franchiseNames[franchise.id] || `Team ${franchise.id}`,
+        manager: getOwnerName(franchise.id, year, leagueId)
+      },
+      projections,
+      starterIds,
+      LINEUP_REQUIREMENTS.total
+    )
+  })
+
+  const teamsById = new Map(teams.map(team => [team.franchiseId, team]))
+  const weekSchedule = toArray(schedule.schedule?.weeklySchedule).find(entry => parseInt(entry.week) === week)
+  const matchups: MatchupProjection[] = []
+  toArray(weekSchedule?.matchup).forEach(matchup => {
+    const [first, second] = toArray(matchup.franchise).map(team => teamsById.get(team.id))
+    if (first && second) matchups.push(buildMatchupProjection(first, second))
+  })
+
+  return {
+    leagueId,
+    year,
+    week,
+    historyWeeks,
+    teams: teams.sort((a, b) => b.projectedScore - a.projectedScore),
+    matchups
+  }
+}
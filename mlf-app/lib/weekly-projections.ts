@@ -0,0 +1,167 @@
+/**
+ * Weekly Projections
+ * Next-week scores from current rosters. Each available player is projected at
+ * their recent scoring average, the best lineup the league's requirements allow is
+ * started from those projections, and the team's range comes from the spread of
+ * its starters' recent scores. Players on bye, on IR or on the taxi squad can't
+ * start
+ */
+
+import { calculateProjectedWinProbability, type PlayerScoreProfiles } from './live-win-probability'
+import type { ScoreProfiles } from './score-model'
+
+// Weeks of scoring history behind each player's projection
+export const PROJECTION_WINDOW_WEEKS = 4
+
+// Ranges are 80% intervals (10th to 90th percentile)
+const RANGE_Z = 1.2816
+
+export type ProjectedPlayerStatus =
+  | 'available'
+  | 'bye' // The player's NFL team is off this week
+  | 'injured-reserve'
+  | 'taxi'
+  | 'no-history' // No points in the projection window - new pickup or long-term injury
+
+export interface PlayerProjection {
+  id: string
+  name: string
+  position: string
+  nflTeam: string
+  status: ProjectedPlayerStatus
+  projectedScore: number
+  stdDev: number
+  recentGames: number // Weeks with points in the projection window
+  isStarter: boolean
+}
+
+export interface TeamProjection {
+  franchiseId: string
+  teamName: string
+  manager: string
+  projectedScore: number
+  stdDev: number
+  low: number // 10th percentile
+  high: number // 90th percentile
+  starters: PlayerProjection[]
+  unavailable: PlayerProjection[] // Players with recent points who can't play this week
+  emptySlots: number // Lineup spots no available player can fill
+}
+
+export interface MatchupProjection {
+  teams: [TeamProjection, TeamProjection]
+  winProbability: number // Chance the first team wins (0-1)
+}
+
+export interface WeeklyProjections {
+  leagueId: string
+  year: number
+  week: number
+  historyWeeks: number[] // Weeks the player averages come from
+  teams: TeamProjection[]
+  matchups: MatchupProjection[]
+}
+
+/**
+ * Weeks of history behind a week's projections - the last few before it
+ */
+export function getProjectionWindow(week: number): number[] {
+  const first = Math.max(1, week - PROJECTION_WINDOW_WEEKS)
+  return Array.from({ length: Math.max(0, week - first) }, (_, i) => first + i)
+}
+
+/**
+ * Map MFL's roster status to a projection status
+ */
+export function getRosterStatus(status: string | undefined): ProjectedPlayerStatus {
+  const normalized = (status || '').toUpperCase()
+  if (normalized === 'INJURED_RESERVE' || normalized === 'IR') return 'injured-reserve'
+  if (normalized === 'TAXI_SQUAD' || normalized === 'TAXI') return 'taxi'
+  return 'available'
+}
+
+/**
+ * Project one rostered player from their recent scoring
+ */
+export function projectPlayer(
+  player: { id: string; name: string; position: string; nflTeam: string; rosterStatus?: string },
+  profiles: PlayerScoreProfiles,
+  byeTeams: Set<string>
+): PlayerProjection {
+  const profile = profiles.players[player.id]
+  const rosterStatus = getRosterStatus(player.rosterStatus)
+  const status: ProjectedPlayerStatus = rosterStatus !== 'available'
+    ? rosterStatus
+    : byeTeams.has(player.nflTeam)
+      ? 'bye'
+      : profile ? 'available' : 'no-history'
+
+  return {
+    id: player.id,
+    name: player.name,
+    position: player.position,
+    nflTeam: player.nflTeam,
+    status,
+    projectedScore: status === 'available' ? profile.mean : 0,
+    stdDev: status === 'available' ? profile.stdDev : 0,
+    recentGames: profile?.games || 0,
+    isStarter: false
+  }
+}
+
+/**
+ * A team's projected score and range from the players picked to start
+ */
+export function summarizeTeamProjection(
+  team: { franchiseId: string; teamName: string; manager: string },
+  players: PlayerProjection[],
+  starterIds: Set<string>,
+  lineupSize: number
+): TeamProjection {
+  const starters = players
+    .filter(player => starterIds.has(player.id))
+    .map(player => ({ ...player, isStarter: true }))
+    .sort((a, b) => b.projectedScore - a.projectedScore)
+
+  const projectedScore = starters.reduce((sum, player) => sum + player.projectedScore, 0)
+  const stdDev = Math.sqrt(starters.reduce((sum, player) => sum + player.stdDev ** 2, 0))
+
+  return {
+    ...team,
+    projectedScore,
+    stdDev,
+    low: Math.max(0, projectedScore - RANGE_Z * stdDev),
+    high: projectedScore + RANGE_Z * stdDev,
+    starters,
+    unavailable: players.filter(player =>
+      player.recentGames > 0 && ['bye', 'injured-reserve', 'taxi'].includes(player.status)
+    ),
+    emptySlots: Math.max(0, lineupSize - starters.length)
+  }
+}
+
+/**
+ * Win probability treats both projected scores as normal
+ */
+export function buildMatchupProjection(team: TeamProjection, opponent: TeamProjection): MatchupProjection {
+  return {
+    teams: [team, opponent],
+    winProbability: calculateProjectedWinProbability(team, opponent)
+  }
+}
+
+/**
+ * Team projections as simulator profiles for their week (see SimulationOptions.weekProfiles)
+ */
+export function toProjectionScoreProfiles(projections: WeeklyProjections): ScoreProfiles {
+  const profiles: ScoreProfiles = {}
+  projections.teams.forEach(team => {
+    profiles[team.franchiseId] = {
+      franchiseId: team.franchiseId,
+      mean: team.projectedScore,
+      stdDev: team.stdDev,
+      sampleSize: projections.historyWeeks.length
+    }
+  })
+  return profiles
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isRegisteredLeague } from '@/lib/league-registry'
+
+// Reject API requests for leagues this deployment doesn't serve, so no route
+// fetches, caches or stores data for an arbitrary league ID
+export function middleware(request: NextRequest) {
+  const leagueId = request.nextUrl.searchParams.get('leagueId')?.trim()
+
+  if (leagueId && !isRegisteredLeague(leagueId)) {
+    return NextResponse.json(
+      {
+        error: 'Unknown league',
+        details: `League ${leagueId} is not registered in MFL_LEAGUES`,
+      },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: '/api/mfl/:path*',
+}
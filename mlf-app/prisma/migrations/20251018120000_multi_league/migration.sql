@@ -0,0 +1,141 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_seasons" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "year" INTEGER NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "leagueName" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "settings" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_seasons" ("id", "year", "leagueId", "leagueName", "isActive", "settings", "createdAt", "updatedAt") SELECT "id", "year", "leagueId", "leagueName", "isActive", "settings", "createdAt", "updatedAt" FROM "seasons";
+DROP TABLE "seasons";
+ALTER TABLE "new_seasons" RENAME TO "seasons";
+CREATE TABLE "new_teams" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL DEFAULT '46221',
+    "franchiseId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "manager" TEXT NOT NULL,
+    "teamName" TEXT NOT NULL,
+    "divisionId" TEXT,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "ties" INTEGER NOT NULL DEFAULT 0,
+    "pointsFor" REAL NOT NULL DEFAULT 0,
+    "pointsAgainst" REAL NOT NULL DEFAULT 0,
+    "totalPoints" REAL NOT NULL DEFAULT 0,
+    "startersPoints" REAL NOT NULL DEFAULT 0,
+    "benchPoints" REAL NOT NULL DEFAULT 0,
+    "potentialPoints" REAL NOT NULL DEFAULT 0,
+    "efficiency" REAL NOT NULL DEFAULT 0,
+    "qbPoints" REAL NOT NULL DEFAULT 0,
+    "rbPoints" REAL NOT NULL DEFAULT 0,
+    "wrPoints" REAL NOT NULL DEFAULT 0,
+    "tePoints" REAL NOT NULL DEFAULT 0,
+    "kPoints" REAL NOT NULL DEFAULT 0,
+    "dlPoints" REAL NOT NULL DEFAULT 0,
+    "lbPoints" REAL NOT NULL DEFAULT 0,
+    "cbPoints" REAL NOT NULL DEFAULT 0,
+    "sPoints" REAL NOT NULL DEFAULT 0,
+    "offenseFlexPoints" REAL NOT NULL DEFAULT 0,
+    "defenseFlexPoints" REAL NOT NULL DEFAULT 0,
+    "offensePoints" REAL NOT NULL DEFAULT 0,
+    "defensePoints" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "teams_leagueId_year_fkey" FOREIGN KEY ("leagueId", "year") REFERENCES "seasons" ("leagueId", "year") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_teams" ("id", "franchiseId", "year", "manager", "teamName", "divisionId", "wins", "losses", "ties", "pointsFor", "pointsAgainst", "totalPoints", "startersPoints", "benchPoints", "potentialPoints", "efficiency", "qbPoints", "rbPoints", "wrPoints", "tePoints", "kPoints", "dlPoints", "lbPoints", "cbPoints", "sPoints", "offenseFlexPoints", "defenseFlexPoints", "offensePoints", "defensePoints", "createdAt", "updatedAt") SELECT "id", "franchiseId", "year", "manager", "teamName", "divisionId", "wins", "losses", "ties", "pointsFor", "pointsAgainst", "totalPoints", "startersPoints", "benchPoints", "potentialPoints", "efficiency", "qbPoints", "rbPoints", "wrPoints", "tePoints", "kPoints", "dlPoints", "lbPoints", "cbPoints", "sPoints", "offenseFlexPoints", "defenseFlexPoints", "offensePoints", "defensePoints", "createdAt", "updatedAt" FROM "teams";
+DROP TABLE "teams";
+ALTER TABLE "new_teams" RENAME TO "teams";
+CREATE TABLE "new_weekly_results" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL DEFAULT '46221',
+    "year" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "franchiseId" TEXT NOT NULL,
+    "opponentId" TEXT,
+    "score" REAL NOT NULL,
+    "opponentScore" REAL NOT NULL DEFAULT 0,
+    "result" TEXT NOT NULL,
+    "isHomeTeam" BOOLEAN NOT NULL DEFAULT false,
+    "mflFinalized" BOOLEAN NOT NULL DEFAULT false,
+    "lastVerified" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dataChecksum" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "weekly_results_leagueId_year_fkey" FOREIGN KEY ("leagueId", "year") REFERENCES "seasons" ("leagueId", "year") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "weekly_results_leagueId_franchiseId_year_fkey" FOREIGN KEY ("leagueId", "franchiseId", "year") REFERENCES "teams" ("leagueId", "franchiseId", "year") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_weekly_results" ("id", "year", "week", "franchiseId", "opponentId", "score", "opponentScore", "result", "isHomeTeam", "mflFinalized", "lastVerified", "dataChecksum", "createdAt", "updatedAt") SELECT "id", "year", "week", "franchiseId", "opponentId", "score", "opponentScore", "result", "isHomeTeam", "mflFinalized", "lastVerified", "dataChecksum", "createdAt", "updatedAt" FROM "weekly_results";
+DROP TABLE "weekly_results";
+ALTER TABLE "new_weekly_results" RENAME TO "weekly_results";
+CREATE TABLE "new_player_scores" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL DEFAULT '46221',
+    "year" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "playerName" TEXT,
+    "position" TEXT,
+    "franchiseId" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "isStarter" BOOLEAN NOT NULL DEFAULT false,
+    "team" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "player_scores_leagueId_year_fkey" FOREIGN KEY ("leagueId", "year") REFERENCES "seasons" ("leagueId", "year") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "player_scores_leagueId_franchiseId_year_fkey" FOREIGN KEY ("leagueId", "franchiseId", "year") REFERENCES "teams" ("leagueId", "franchiseId", "year") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_player_scores" ("id", "year", "week", "playerId", "playerName", "position", "franchiseId", "score", "isStarter", "team", "createdAt", "updatedAt") SELECT "id", "year", "week", "playerId", "playerName", "position", "franchiseId", "score", "isStarter", "team", "createdAt", "updatedAt" FROM "player_scores";
+DROP TABLE "player_scores";
+ALTER TABLE "new_player_scores" RENAME TO "player_scores";
+CREATE TABLE "new_positional_data" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL DEFAULT '46221',
+    "year" INTEGER NOT NULL,
+    "week" INTEGER,
+    "franchiseId" TEXT NOT NULL,
+    "qbTotal" REAL NOT NULL DEFAULT 0,
+    "rbTotal" REAL NOT NULL DEFAULT 0,
+    "wrTotal" REAL NOT NULL DEFAULT 0,
+    "teTotal" REAL NOT NULL DEFAULT 0,
+    "kTotal" REAL NOT NULL DEFAULT 0,
+    "dlTotal" REAL NOT NULL DEFAULT 0,
+    "lbTotal" REAL NOT NULL DEFAULT 0,
+    "cbTotal" REAL NOT NULL DEFAULT 0,
+    "sTotal" REAL NOT NULL DEFAULT 0,
+    "oFlexTotal" REAL NOT NULL DEFAULT 0,
+    "dFlexTotal" REAL NOT NULL DEFAULT 0,
+    "offenseTotal" REAL NOT NULL DEFAULT 0,
+    "defenseTotal" REAL NOT NULL DEFAULT 0,
+    "totalScore" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "positional_data_leagueId_year_fkey" FOREIGN KEY ("leagueId", "year") REFERENCES "seasons" ("leagueId", "year") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "positional_data_leagueId_franchiseId_year_fkey" FOREIGN KEY ("leagueId", "franchiseId", "year") REFERENCES "teams" ("leagueId", "franchiseId", "year") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_positional_data" ("id", "year", "week", "franchiseId", "qbTotal", "rbTotal", "wrTotal", "teTotal", "kTotal", "dlTotal", "lbTotal", "cbTotal", "sTotal", "oFlexTotal", "dFlexTotal", "offenseTotal", "defenseTotal", "totalScore", "createdAt", "updatedAt") SELECT "id", "year", "week", "franchiseId", "qbTotal", "rbTotal", "wrTotal", "teTotal", "kTotal", "dlTotal", "lbTotal", "cbTotal", "sTotal", "oFlexTotal", "dFlexTotal", "offenseTotal", "defenseTotal", "totalScore", "createdAt", "updatedAt" FROM "positional_data";
+DROP TABLE "positional_data";
+ALTER TABLE "new_positional_data" RENAME TO "positional_data";
+CREATE INDEX "seasons_year_idx" ON "seasons"("year");
+CREATE UNIQUE INDEX "seasons_leagueId_year_key" ON "seasons"("leagueId", "year");
+CREATE INDEX "teams_leagueId_year_idx" ON "teams"("leagueId", "year");
+CREATE INDEX "teams_franchiseId_idx" ON "teams"("franchiseId");
+CREATE UNIQUE INDEX "teams_leagueId_franchiseId_year_key" ON "teams"("leagueId", "franchiseId", "year");
+CREATE INDEX "weekly_results_leagueId_year_week_idx" ON "weekly_results"("leagueId", "year", "week");
+CREATE INDEX "weekly_results_franchiseId_year_idx" ON "weekly_results"("franchiseId", "year");
+CREATE UNIQUE INDEX "weekly_results_leagueId_year_week_franchiseId_key" ON "weekly_results"("leagueId", "year", "week", "franchiseId");
+CREATE INDEX "player_scores_leagueId_year_week_idx" ON "player_scores"("leagueId", "year", "week");
+CREATE INDEX "player_scores_franchiseId_year_idx" ON "player_scores"("franchiseId", "year");
+CREATE INDEX "player_scores_playerId_idx" ON "player_scores"("playerId");
+CREATE UNIQUE INDEX "player_scores_leagueId_year_week_playerId_franchiseId_key" ON "player_scores"("leagueId", "year", "week", "playerId", "franchiseId");
+CREATE INDEX "positional_data_leagueId_year_week_idx" ON "positional_data"("leagueId", "year", "week");
+CREATE INDEX "positional_data_franchiseId_year_idx" ON "positional_data"("franchiseId", "year");
+CREATE UNIQUE INDEX "positional_data_leagueId_year_week_franchiseId_key" ON "positional_data"("leagueId", "year", "week", "franchiseId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "cache_entries" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME,
+    "staleUntil" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "cache_entries_staleUntil_idx" ON "cache_entries"("staleUntil");
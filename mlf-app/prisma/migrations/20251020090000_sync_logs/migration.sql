@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "sync_logs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME,
+    "weeksChecked" INTEGER NOT NULL DEFAULT 0,
+    "weeksImported" INTEGER NOT NULL DEFAULT 0,
+    "weeksCorrected" INTEGER NOT NULL DEFAULT 0,
+    "weeksUnchanged" INTEGER NOT NULL DEFAULT 0,
+    "weeksFinalized" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB,
+    "error" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "sync_logs_leagueId_year_startedAt_idx" ON "sync_logs"("leagueId", "year", "startedAt");
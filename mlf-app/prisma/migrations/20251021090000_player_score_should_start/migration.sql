@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "player_scores" ADD COLUMN "shouldStart" BOOLEAN NOT NULL DEFAULT false;
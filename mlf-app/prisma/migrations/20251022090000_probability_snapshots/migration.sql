@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "probability_snapshots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "franchiseId" TEXT NOT NULL,
+    "franchiseName" TEXT NOT NULL,
+    "playoffProbability" REAL NOT NULL,
+    "divisionWinProbability" REAL NOT NULL,
+    "championshipProbability" REAL,
+    "avgSeed" REAL NOT NULL,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "ties" INTEGER NOT NULL DEFAULT 0,
+    "pointsFor" REAL NOT NULL DEFAULT 0,
+    "gamesBack" REAL NOT NULL DEFAULT 0,
+    "source" TEXT NOT NULL,
+    "gameModel" TEXT,
+    "iterations" INTEGER,
+    "seed" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "probability_snapshots_leagueId_year_idx" ON "probability_snapshots"("leagueId", "year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "probability_snapshots_leagueId_year_week_franchiseId_key" ON "probability_snapshots"("leagueId", "year", "week", "franchiseId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "owners" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "owner_tenures" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leagueId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "franchiseId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "owner_tenures_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "owners" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "owners_leagueId_name_key" ON "owners"("leagueId", "name");
+
+-- CreateIndex
+CREATE INDEX "owner_tenures_leagueId_year_idx" ON "owner_tenures"("leagueId", "year");
+
+-- CreateIndex
+CREATE INDEX "owner_tenures_ownerId_idx" ON "owner_tenures"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "owner_tenures_leagueId_franchiseId_year_ownerId_key" ON "owner_tenures"("leagueId", "franchiseId", "year", "ownerId");
@@ -0,0 +1,63 @@
+/**
+ * Playoff Probability History Backfill Script
+ *
+ * Recomputes and stores weekly playoff odds for past seasons, or imports a
+ * history file exported from the old browser tracker
+ * Run with: npx tsx scripts/backfill-playoff-history.ts [years] [leagueId]
+ *       or: npx tsx scripts/backfill-playoff-history.ts --import history.json [leagueId] [--overwrite]
+ * Years are comma-separated and default to every season since 2021, the league
+ * to MFL_IMPORT_LEAGUE_ID or the registry's default league
+ */
+
+import fs from 'fs'
+import { prisma } from '../lib/database'
+import { importLegacyPlayoffHistory, recordProbabilitySnapshots } from '../lib/probability-snapshots'
+import { getAvailableYears } from '../lib/utils'
+import { getDefaultLeagueId } from '../lib/league-registry'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const importIndex = args.indexOf('--import')
+  const importFile = importIndex >= 0 ? args[importIndex + 1] : undefined
+  const overwrite = args.includes('--overwrite')
+  const positional = args.filter((arg, i) => !arg.startsWith('--') && !(importIndex >= 0 && i === importIndex + 1))
+
+  try {
+    if (importFile) {
+      const leagueId = positional[0] || process.env.MFL_IMPORT_LEAGUE_ID || getDefaultLeagueId()
+      console.log(`📥 Importing ${importFile} into league ${leagueId}${overwrite ? ' (overwrite)' : ''}...`)
+
+      const data = JSON.parse(fs.readFileSync(importFile, 'utf8'))
+      const result = await importLegacyPlayoffHistory(data, leagueId, { overwrite })
+
+      console.log(`\n🎉 Imported ${result.imported} snapshots, skipped ${result.skipped}`)
+      return
+    }
+
+    const [yearsArg, leagueArg] = positional
+    const years = yearsArg
+      ? yearsArg.split(',').map(y => parseInt(y.trim())).filter(y => !isNaN(y))
+      : getAvailableYears(2021)
+    const leagueId = leagueArg || process.env.MFL_IMPORT_LEAGUE_ID || getDefaultLeagueId()
+
+    for (const year of years) {
+      console.log(`📈 Backfilling ${year} playoff odds for league ${leagueId}...`)
+      try {
+        const weeks = await recordProbabilitySnapshots(year, leagueId, { source: 'backfill' })
+        console.log(`  ✅ ${weeks.length} weeks recorded`)
+      } catch (error) {
+        console.error(`  ❌ ${year} failed:`, error)
+        process.exitCode = 1
+      }
+    }
+  } catch (error) {
+    console.error('❌ Backfill failed:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
@@ -0,0 +1,43 @@
+/**
+ * Local MFL Stand-in Server
+ *
+ * Serves recorded fixtures on the same /<year>/export?TYPE=... paths as
+ * api.myfantasyleague.com. Point MFL_API_BASE_URL at it to run the dashboard
+ * against a frozen season without touching the real API
+ * Run with: npx tsx scripts/mfl-standin-server.ts
+ */
+
+import http from 'http'
+import { getFixtureDir, getFixturePath, readFixture } from '../lib/mfl-fixtures'
+
+const PORT = parseInt(process.env.MFL_STANDIN_PORT || '4010')
+
+const server = http.createServer((req, res) => {
+  const url = `http://localhost:${PORT}${req.url || '/'}`
+  const fixturePath = getFixturePath(url)
+
+  if (!fixturePath) {
+    res.writeHead(400, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Not an MFL export request', url: req.url }))
+    return
+  }
+
+  const data = readFixture(url)
+
+  if (data === null) {
+    console.warn(`⚠️  No fixture for ${req.url} (expected ${fixturePath})`)
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'No fixture recorded', url: req.url }))
+    return
+  }
+
+  console.log(`📦 ${req.url}`)
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(data))
+})
+
+server.listen(PORT, () => {
+  console.log(`🏈 MFL stand-in server listening on http://localhost:${PORT}`)
+  console.log(`📁 Serving fixtures from ${getFixtureDir()}`)
+  console.log(`   Set MFL_API_BASE_URL=http://localhost:${PORT} to use it`)
+})
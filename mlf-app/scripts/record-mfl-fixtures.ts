@@ -0,0 +1,148 @@
+/**
+ * MFL Fixture Recorder
+ *
+ * Captures a season's MFL export responses into fixture files so the dashboard,
+ * Playwright suite and lib tests can replay them offline (MFL_FIXTURE_MODE=replay)
+ * Run with: npx tsx scripts/record-mfl-fixtures.ts <year> [leagueId]
+ */
+
+import { fetchWithRetry } from '../lib/mfl-api'
+import { getYearSpecificHeaders } from '../lib/mfl-api-keys'
+import { getFixtureDir, getFixtureMode, writeFixture } from '../lib/mfl-fixtures'
+import { getDefaultLeagueId } from '../lib/league-registry'
+import { getTotalWeeksForYear } from '../lib/season-config'
+import { toArray } from '../lib/mfl-client'
+import type { MFLLiveScoreResponse, MFLPlayoffBracketsResponse } from '../lib/mfl'
+
+const baseUrl = process.env.MFL_API_BASE_URL || 'https://api.myfantasyleague.com'
+
+function buildUrl(year: number, params: string): string {
+  return `${baseUrl}/${year}/export?${params}&JSON=1`
+}
+
+/**
+ * Build every export URL the dashboard requests for one season
+ */
+function buildSeasonUrls(year: number, leagueId: string): string[] {
+  const exportUrl = (params: string) => buildUrl(year, params)
+  const league = `L=${leagueId}`
+
+  const urls = [
+    exportUrl(`TYPE=league&${league}`),
+    exportUrl(`TYPE=standings&${league}`),
+    exportUrl(`TYPE=leagueStandings&${league}`),
+    exportUrl(`TYPE=schedule&${league}`),
+    exportUrl(`TYPE=calendar&${league}`),
+    exportUrl(`TYPE=rosters&${league}`),
+    exportUrl(`TYPE=players`),
+    exportUrl(`TYPE=players&${league}`),
+    exportUrl(`TYPE=playerScores&${league}&W=YTD`),
+    exportUrl(`TYPE=weeklyResults&${league}`),
+    exportUrl(`TYPE=weeklyResults&${league}&W=YTD`),
+  ]
+
+  const totalWeeks = getTotalWeeksForYear(year)
+  for (let week = 1; week <= totalWeeks; week++) {
+    urls.push(exportUrl(`TYPE=weeklyResults&${league}&W=${week}`))
+    urls.push(exportUrl(`TYPE=playerScores&${league}&W=${week}`))
+    urls.push(exportUrl(`TYPE=nflByeWeeks&W=${week}`))
+  }
+
+  return urls
+}
+
+/**
+ * Build the per-bracket export URLs from a recorded playoffBrackets response
+ */
+function buildBracketUrls(year: number, leagueId: string, brackets: MFLPlayoffBracketsResponse | null): string[] {
+  return toArray(brackets?.playoffBrackets?.playoffBracket)
+    .map(bracket => buildUrl(year, `TYPE=playoffBracket&L=${leagueId}&BRACKET_ID=${bracket.id}`))
+}
+
+/**
+ * Build the roster status URL for every player a recorded liveScoring response lists
+ * Null when the week has no players
+ */
+function buildRosterStatusUrl(year: number, leagueId: string, week: number, live: MFLLiveScoreResponse | null): string | null {
+  const franchises = [
+    ...toArray(live?.liveScoring?.matchup).flatMap(matchup => toArray(matchup.franchise)),
+    ...toArray(live?.liveScoring?.franchise)
+  ]
+  const playerIds = franchises.flatMap(franchise => toArray(franchise.players?.player ?? franchise.player).map(player => player.id))
+  if (playerIds.length === 0) return null
+
+  return buildUrl(year, `TYPE=playerRosterStatus&L=${leagueId}&P=${playerIds.join(',')}&W=${week}`)
+}
+
+async function main() {
+  const year = parseInt(process.argv[2] || '')
+  const leagueId = process.argv[3] || getDefaultLeagueId()
+
+  if (!year) {
+    console.error('Usage: npx tsx scripts/record-mfl-fixtures.ts <year> [leagueId]')
+    process.exit(1)
+  }
+
+  if (getFixtureMode() === 'replay') {
+    console.error('MFL_FIXTURE_MODE=replay would re-record the existing fixtures - unset it to record from MFL')
+    process.exit(1)
+  }
+
+  // With MFL_FIXTURE_MODE=record, mflFetch already saves every response
+  const savesFixtures = getFixtureMode() !== 'record'
+
+  const headers = getYearSpecificHeaders(year, process.env.MFL_USER_AGENT || 'dynasty-dashboard')
+  const urls = buildSeasonUrls(year, leagueId)
+
+  console.log(`🎙️  Recording ${urls.length} MFL responses for ${year} (league ${leagueId})`)
+  console.log(`📁 Fixture directory: ${getFixtureDir()}`)
+
+  let attempted = 0
+  let recorded = 0
+  const failed: string[] = []
+
+  // Returns the response, or null when the request failed
+  const record = async (url: string): Promise<unknown> => {
+    attempted++
+    try {
+      const data = await fetchWithRetry(url, { headers })
+      if (savesFixtures) writeFixture(url, data)
+      recorded++
+      return data
+    } catch (error) {
+      console.warn(`⚠️  Failed to record ${url}: ${error}`)
+      failed.push(url)
+      return null
+    }
+  }
+
+  for (const url of urls) {
+    await record(url)
+  }
+
+  // Bracket games are exported one bracket ID at a time
+  const brackets = await record(buildUrl(year, `TYPE=playoffBrackets&L=${leagueId}`)) as MFLPlayoffBracketsResponse | null
+  for (const url of buildBracketUrls(year, leagueId, brackets)) {
+    await record(url)
+  }
+
+  // Live scoring (for /api/mfl/live) and the roster status of the players it lists
+  const totalWeeks = getTotalWeeksForYear(year)
+  for (let week = 1; week <= totalWeeks; week++) {
+    const live = await record(buildUrl(year, `TYPE=liveScoring&L=${leagueId}&W=${week}`)) as MFLLiveScoreResponse | null
+    const rosterStatusUrl = buildRosterStatusUrl(year, leagueId, week, live)
+    if (rosterStatusUrl) await record(rosterStatusUrl)
+  }
+
+  console.log(`\n✅ Recorded ${recorded}/${attempted} fixtures`)
+  console.log(`📌 Commit ${getFixtureDir()}/${year}/${leagueId} to freeze this season for replay`)
+  if (failed.length > 0) {
+    console.log(`⚠️  ${failed.length} requests failed - rerun to fill the gaps`)
+    process.exit(1)
+  }
+}
+
+// Run the recorder
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
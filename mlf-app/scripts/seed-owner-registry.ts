@@ -0,0 +1,49 @@
+/**
+ * Owner Registry Seed Script
+ *
+ * Fills the owner registry from each season's MFL franchise owner names, with
+ * the built-in owner mappings as a fallback. Franchise seasons already in the
+ * registry are left alone unless --overwrite is passed
+ * Run with: npx tsx scripts/seed-owner-registry.ts [years] [leagueId] [--overwrite]
+ * Years are comma-separated and default to every season since the league's start year, the league
+ * to MFL_IMPORT_LEAGUE_ID or the registry's default league
+ */
+
+import { prisma } from '../lib/database'
+import { seedOwnerRegistry } from '../lib/owner-registry-service'
+import { getAvailableYears } from '../lib/utils'
+import { getDefaultLeagueId, getLeague } from '../lib/league-registry'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const overwrite = args.includes('--overwrite')
+  const [yearsArg, leagueArg] = args.filter(arg => !arg.startsWith('--'))
+
+  const leagueId = leagueArg || process.env.MFL_IMPORT_LEAGUE_ID || getDefaultLeagueId()
+  const years = yearsArg
+    ? yearsArg.split(',').map(y => parseInt(y.trim())).filter(y => !isNaN(y))
+    : getAvailableYears(getLeague(leagueId)?.startYear)
+
+  try {
+    console.log(`👥 Seeding owners for league ${leagueId} (${years.join(', ')})${overwrite ? ' (overwrite)' : ''}...`)
+
+    const results = await seedOwnerRegistry(leagueId, years, { overwrite })
+    results.forEach(result => {
+      console.log(`  ${result.year}: ${result.fromMfl} from MFL, ${result.fromLegacy} from built-in mappings, ${result.skipped} kept`)
+      if (result.missing.length > 0) {
+        console.warn(`  ⚠️  No owner name for franchises ${result.missing.join(', ')}`)
+      }
+    })
+
+    console.log('\n🎉 Owner registry seeded')
+  } catch (error) {
+    console.error('❌ Seed failed:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
@@ -0,0 +1,54 @@
+/**
+ * Incremental Season Sync Script
+ *
+ * Pulls new and unfinalized weeks into the database, re-importing a week only
+ * when MFL's scores changed since the last run (stat corrections)
+ * Run with: npx tsx scripts/sync-season.ts [year] [leagueId] [--force]
+ * The year defaults to the current NFL season, the league to MFL_IMPORT_LEAGUE_ID
+ * or the registry's default league. --force re-checks finalized weeks too
+ */
+
+import { prisma } from '../lib/database'
+import { syncSeason } from '../lib/season-sync'
+import { getCurrentNFLSeason } from '../lib/season-config'
+import { getDefaultLeagueId } from '../lib/league-registry'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const force = args.includes('--force')
+  const [yearArg, leagueArg] = args.filter(arg => !arg.startsWith('--'))
+
+  const year = yearArg ? parseInt(yearArg) : getCurrentNFLSeason()
+  const leagueId = leagueArg || process.env.MFL_IMPORT_LEAGUE_ID || getDefaultLeagueId()
+
+  console.log(`🔄 Syncing ${year} season for league ${leagueId}${force ? ' (force)' : ''}...`)
+
+  try {
+    const result = await syncSeason(year, leagueId, { trigger: 'cli', force })
+
+    console.log(`\n${result.status === 'success' ? '🎉' : '⚠️ '} Sync ${result.status} in ${Math.round(result.durationMs / 1000)}s`)
+    console.log(`  📅 ${result.weeksChecked} weeks checked`)
+    console.log(`  ✅ ${result.weeksImported} imported`)
+    console.log(`  ✏️  ${result.weeksCorrected} corrected`)
+    console.log(`  ⏭️  ${result.weeksUnchanged} unchanged`)
+    console.log(`  🔒 ${result.weeksFinalized} newly finalized`)
+    console.log(`  📈 Playoff odds recorded for ${result.snapshotWeeks.length} weeks`)
+
+    result.weeks
+      .filter(week => week.status === 'failed')
+      .forEach(week => console.log(`  ❌ Week ${week.week}: ${week.error}`))
+
+    if (result.status !== 'success') {
+      process.exitCode = 1
+    }
+  } catch (error) {
+    console.error('❌ Sync failed:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}